@@ -8,46 +8,74 @@
  * @module
  */
 
+import type * as addenda from "../addenda.js";
+import type * as approvalPolicies from "../approvalPolicies.js";
 import type * as approvals from "../approvals.js";
 import type * as audit from "../audit.js";
 import type * as auth from "../auth.js";
 import type * as authQueries from "../authQueries.js";
+import type * as authorization from "../authorization.js";
 import type * as backfillActivityLogs from "../backfillActivityLogs.js";
 import type * as boards from "../boards.js";
+import type * as bookmarkAlerts from "../bookmarkAlerts.js";
 import type * as cargo_types from "../cargo_types.js";
+import type * as clauses from "../clauses.js";
 import type * as cleanOrphanedData from "../cleanOrphanedData.js";
 import type * as cleanUsers from "../cleanUsers.js";
 import type * as cleanupDuplicateCompanies from "../cleanupDuplicateCompanies.js";
 import type * as cleanupJwks from "../cleanupJwks.js";
 import type * as cleanupOneDuplicateCompany from "../cleanupOneDuplicateCompany.js";
+import type * as coa from "../coa.js";
 import type * as companies from "../companies.js";
+import type * as contractRegister from "../contractRegister.js";
+import type * as contractSnapshots from "../contractSnapshots.js";
 import type * as contracts from "../contracts.js";
+import type * as cpDocumentFiles from "../cpDocumentFiles.js";
+import type * as cpDocuments from "../cpDocuments.js";
+import type * as crons from "../crons.js";
 import type * as debug from "../debug.js";
+import type * as delegations from "../delegations.js";
 import type * as diagnosticAuth from "../diagnosticAuth.js";
 import type * as diagnosticAvatars from "../diagnosticAvatars.js";
 import type * as diagnosticUser from "../diagnosticUser.js";
+import type * as documentNumbers from "../documentNumbers.js";
 import type * as email from "../email.js";
+import type * as esign from "../esign.js";
+import type * as esignEnvelopes from "../esignEnvelopes.js";
+import type * as esignProviders from "../esignProviders.js";
 import type * as fixOrgData from "../fixOrgData.js";
+import type * as fixtureExports from "../fixtureExports.js";
 import type * as fixUserSync from "../fixUserSync.js";
+import type * as fixtureRows from "../fixtureRows.js";
 import type * as fixtures from "../fixtures.js";
 import type * as home from "../home.js";
 import type * as http from "../http.js";
 import type * as invitations from "../invitations.js";
 import type * as memberships from "../memberships.js";
 import type * as migrations from "../migrations.js";
+import type * as migrations_backfillNegotiationDeadlines from "../migrations/backfillNegotiationDeadlines.js";
 import type * as migrations_fixMemberships from "../migrations/fixMemberships.js";
+import type * as migrations_normalizeRoles from "../migrations/normalizeRoles.js";
 import type * as migrations_removeUser from "../migrations/removeUser.js";
 import type * as migrations_reorderMemberships from "../migrations/reorderMemberships.js";
 import type * as migrations_updateFixturesOrg from "../migrations/updateFixturesOrg.js";
+import type * as negotiationRounds from "../negotiationRounds.js";
+import type * as negotiationStatus from "../negotiationStatus.js";
 import type * as negotiations from "../negotiations.js";
 import type * as news from "../news.js";
+import type * as notifications from "../notifications.js";
 import type * as orders from "../orders.js";
 import type * as organizations from "../organizations.js";
 import type * as passwordReset from "../passwordReset.js";
+import type * as permissions from "../permissions.js";
 import type * as portSampleData from "../portSampleData.js";
 import type * as ports from "../ports.js";
+import type * as rates from "../rates.js";
 import type * as recapManagers from "../recapManagers.js";
+import type * as rolePermissions from "../rolePermissions.js";
 import type * as routes from "../routes.js";
+import type * as scheduledExportFiles from "../scheduledExportFiles.js";
+import type * as scheduledExports from "../scheduledExports.js";
 import type * as seed from "../seed.js";
 import type * as signatures from "../signatures.js";
 import type * as syncUser from "../syncUser.js";
@@ -66,46 +94,74 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  addenda: typeof addenda;
+  approvalPolicies: typeof approvalPolicies;
   approvals: typeof approvals;
   audit: typeof audit;
   auth: typeof auth;
   authQueries: typeof authQueries;
+  authorization: typeof authorization;
   backfillActivityLogs: typeof backfillActivityLogs;
   boards: typeof boards;
+  bookmarkAlerts: typeof bookmarkAlerts;
   cargo_types: typeof cargo_types;
+  clauses: typeof clauses;
   cleanOrphanedData: typeof cleanOrphanedData;
   cleanUsers: typeof cleanUsers;
   cleanupDuplicateCompanies: typeof cleanupDuplicateCompanies;
   cleanupJwks: typeof cleanupJwks;
   cleanupOneDuplicateCompany: typeof cleanupOneDuplicateCompany;
+  coa: typeof coa;
   companies: typeof companies;
+  contractRegister: typeof contractRegister;
+  contractSnapshots: typeof contractSnapshots;
   contracts: typeof contracts;
+  cpDocumentFiles: typeof cpDocumentFiles;
+  cpDocuments: typeof cpDocuments;
+  crons: typeof crons;
   debug: typeof debug;
+  delegations: typeof delegations;
   diagnosticAuth: typeof diagnosticAuth;
   diagnosticAvatars: typeof diagnosticAvatars;
   diagnosticUser: typeof diagnosticUser;
+  documentNumbers: typeof documentNumbers;
   email: typeof email;
+  esign: typeof esign;
+  esignEnvelopes: typeof esignEnvelopes;
+  esignProviders: typeof esignProviders;
   fixOrgData: typeof fixOrgData;
+  fixtureExports: typeof fixtureExports;
   fixUserSync: typeof fixUserSync;
+  fixtureRows: typeof fixtureRows;
   fixtures: typeof fixtures;
   home: typeof home;
   http: typeof http;
   invitations: typeof invitations;
   memberships: typeof memberships;
   migrations: typeof migrations;
+  "migrations/backfillNegotiationDeadlines": typeof migrations_backfillNegotiationDeadlines;
   "migrations/fixMemberships": typeof migrations_fixMemberships;
+  "migrations/normalizeRoles": typeof migrations_normalizeRoles;
   "migrations/removeUser": typeof migrations_removeUser;
   "migrations/reorderMemberships": typeof migrations_reorderMemberships;
   "migrations/updateFixturesOrg": typeof migrations_updateFixturesOrg;
+  negotiationRounds: typeof negotiationRounds;
+  negotiationStatus: typeof negotiationStatus;
   negotiations: typeof negotiations;
   news: typeof news;
+  notifications: typeof notifications;
   orders: typeof orders;
   organizations: typeof organizations;
   passwordReset: typeof passwordReset;
+  permissions: typeof permissions;
   portSampleData: typeof portSampleData;
   ports: typeof ports;
+  rates: typeof rates;
   recapManagers: typeof recapManagers;
+  rolePermissions: typeof rolePermissions;
   routes: typeof routes;
+  scheduledExportFiles: typeof scheduledExportFiles;
+  scheduledExports: typeof scheduledExports;
   seed: typeof seed;
   signatures: typeof signatures;
   syncUser: typeof syncUser;
@@ -0,0 +1,412 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { mutation } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { logActivity, trackFieldChange, trackFieldChanges } from "./audit";
+import { requireAddendaAccess } from "./authorization";
+import { recordContractSnapshot } from "./contractSnapshots";
+import { markCpDocumentStale } from "./cpDocuments";
+import { syncFixtureRows } from "./fixtureRows";
+import { buildRates } from "./rates";
+
+// ============================================================================
+// ADDENDA
+// ============================================================================
+// An addendum amends its contract or recap with structured amendments: a new
+// laycan, a changed rate, a substituted vessel. Creating one sets up a pending
+// approval and signature row for each party. Once the addendum is final and
+// every party has signed it, the amendments are written to the parent, with
+// field_changes entries that reference the addendum.
+
+export const amendableRateFieldValidator = v.union(
+  v.literal("freightRate"),
+  v.literal("demurrageRate"),
+  v.literal("despatchRate"),
+  v.literal("addressCommission"),
+  v.literal("brokerCommission")
+);
+
+export const amendmentValidator = v.union(
+  v.object({
+    type: v.literal("laycan"),
+    laycanStart: v.number(),
+    laycanEnd: v.number(),
+  }),
+  v.object({
+    type: v.literal("vessel"), // Vessel substitution
+    vesselId: v.id("vessels"),
+  }),
+  v.object({
+    type: v.literal("loadPort"),
+    portId: v.id("ports"),
+  }),
+  v.object({
+    type: v.literal("dischargePort"),
+    portId: v.id("ports"),
+  }),
+  v.object({
+    type: v.literal("quantity"),
+    quantity: v.number(),
+    quantityUnit: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("rate"),
+    field: amendableRateFieldValidator,
+    value: v.string(), // As entered, e.g. "$18,500/day"
+  })
+);
+
+export type Amendment = Infer<typeof amendmentValidator>;
+
+type AddendaType = "contract" | "recap";
+
+// Parent terms an amendment can change
+type AmendedTerms = Partial<
+  Pick<
+    Doc<"contracts">,
+    | "laycanStart"
+    | "laycanEnd"
+    | "vesselId"
+    | "loadPortId"
+    | "dischargePortId"
+    | "quantity"
+    | "quantityUnit"
+    | "freightRate"
+    | "demurrageRate"
+    | "despatchRate"
+    | "addressCommission"
+    | "brokerCommission"
+  >
+>;
+
+const RATE_LABELS: Record<Infer<typeof amendableRateFieldValidator>, string> = {
+  freightRate: "Freight rate",
+  demurrageRate: "Demurrage rate",
+  despatchRate: "Despatch rate",
+  addressCommission: "Address commission",
+  brokerCommission: "Broker commission",
+};
+
+function amendmentTerms(amendment: Amendment): AmendedTerms {
+  switch (amendment.type) {
+    case "laycan":
+      return { laycanStart: amendment.laycanStart, laycanEnd: amendment.laycanEnd };
+    case "vessel":
+      return { vesselId: amendment.vesselId };
+    case "loadPort":
+      return { loadPortId: amendment.portId };
+    case "dischargePort":
+      return { dischargePortId: amendment.portId };
+    case "quantity":
+      // Keep the parent's unit unless the amendment changes it
+      return amendment.quantityUnit
+        ? { quantity: amendment.quantity, quantityUnit: amendment.quantityUnit }
+        : { quantity: amendment.quantity };
+    case "rate":
+      return { [amendment.field]: amendment.value };
+  }
+}
+
+// One amendment per term: a second laycan or demurrage amendment is a mistake
+function amendmentKey(amendment: Amendment): string {
+  return amendment.type === "rate" ? `rate:${amendment.field}` : amendment.type;
+}
+
+/**
+ * Check amendments before they are stored on an addendum
+ */
+export async function validateAmendments(ctx: QueryCtx, amendments: Amendment[]) {
+  const keys = new Set<string>();
+
+  for (const amendment of amendments) {
+    const key = amendmentKey(amendment);
+    if (keys.has(key)) {
+      throw new Error("Each term can only be amended once per addendum");
+    }
+    keys.add(key);
+
+    switch (amendment.type) {
+      case "laycan":
+        if (amendment.laycanEnd < amendment.laycanStart) {
+          throw new Error("Laycan must end on or after its start");
+        }
+        break;
+      case "vessel":
+        if (!(await ctx.db.get(amendment.vesselId))) {
+          throw new Error("Vessel not found");
+        }
+        break;
+      case "loadPort":
+      case "dischargePort":
+        if (!(await ctx.db.get(amendment.portId))) {
+          throw new Error("Port not found");
+        }
+        break;
+      case "quantity":
+        if (amendment.quantity <= 0) {
+          throw new Error("Quantity must be greater than zero");
+        }
+        break;
+      case "rate":
+        if (!amendment.value.trim()) {
+          throw new Error(`${RATE_LABELS[amendment.field]} cannot be empty`);
+        }
+        break;
+    }
+  }
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString("en-US", { day: "numeric", month: "short", year: "numeric" });
+
+/**
+ * Amendments as sentences for the CP document and activity log,
+ * with vessels and ports resolved to their names
+ */
+export async function describeAmendments(
+  ctx: QueryCtx,
+  amendments: Amendment[] | undefined
+): Promise<string[]> {
+  return await Promise.all(
+    (amendments ?? []).map(async (amendment) => {
+      switch (amendment.type) {
+        case "laycan":
+          return `Laycan amended to ${formatDate(amendment.laycanStart)} – ${formatDate(amendment.laycanEnd)}`;
+        case "vessel":
+          return `Vessel substituted with ${(await ctx.db.get(amendment.vesselId))?.name ?? "unknown vessel"}`;
+        case "loadPort":
+          return `Load port changed to ${(await ctx.db.get(amendment.portId))?.name ?? "unknown port"}`;
+        case "dischargePort":
+          return `Discharge port changed to ${(await ctx.db.get(amendment.portId))?.name ?? "unknown port"}`;
+        case "quantity":
+          return `Quantity amended to ${amendment.quantity.toLocaleString("en-US")} ${amendment.quantityUnit ?? "MT"}`;
+        case "rate":
+          return `${RATE_LABELS[amendment.field]} amended to ${amendment.value}`;
+      }
+    })
+  );
+}
+
+/**
+ * Pending approval and signature rows for each party to a new addendum
+ */
+export async function createAddendumPartyRows(
+  ctx: MutationCtx,
+  addendaId: string,
+  addendaType: AddendaType,
+  parties: Array<[partyRole: string, companyId: Id<"companies">]>
+) {
+  const now = Date.now();
+  for (const [partyRole, companyId] of parties) {
+    await ctx.db.insert("addenda_approvals", {
+      addendaId,
+      addendaType,
+      partyRole,
+      companyId,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert("addenda_signatures", {
+      addendaId,
+      addendaType,
+      partyRole,
+      companyId,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+async function getAddendum(ctx: QueryCtx, addendaId: string, addendaType: AddendaType) {
+  if (addendaType === "contract") {
+    const id = ctx.db.normalizeId("contract_addenda", addendaId);
+    return id ? await ctx.db.get(id) : null;
+  }
+  const id = ctx.db.normalizeId("recap_addenda", addendaId);
+  return id ? await ctx.db.get(id) : null;
+}
+
+/**
+ * Apply an addendum's amendments to its parent once it is final and every
+ * party has signed it. Safe to call after any signature or status change;
+ * returns whether the amendments were applied by this call.
+ */
+export async function applyAmendmentsIfComplete(
+  ctx: MutationCtx,
+  addendaId: string,
+  addendaType: AddendaType,
+  userId: Id<"users">
+): Promise<boolean> {
+  const addendum = await getAddendum(ctx, addendaId, addendaType);
+  if (!addendum || addendum.status !== "final" || addendum.amendmentsAppliedAt) return false;
+
+  const signatures = await ctx.db
+    .query("addenda_signatures")
+    .withIndex("by_addenda", (q) => q.eq("addendaId", addendaId))
+    .collect();
+  if (signatures.length === 0 || signatures.some((s) => s.status !== "signed")) return false;
+
+  const now = Date.now();
+  await ctx.db.patch(addendum._id, { amendmentsAppliedAt: now, updatedAt: now });
+
+  const amendments = addendum.amendments ?? [];
+  if (amendments.length === 0) return true;
+
+  const terms: AmendedTerms = Object.assign({}, ...amendments.map(amendmentTerms));
+  const changeReason = `Addendum ${addendum.addendaNumber}`;
+
+  if ("contractId" in addendum) {
+    const contract = await ctx.db.get(addendum.contractId);
+    if (!contract) return false;
+
+    await trackFieldChanges(ctx, "contract", contract._id, contract, terms, userId, changeReason, addendaId);
+    await ctx.db.patch(contract._id, {
+      ...terms,
+      rates: buildRates({ ...contract, ...terms }),
+      updatedAt: now,
+    });
+    if (contract.fullCpChainStorageId) {
+      await markCpDocumentStale(ctx, { contractId: contract._id });
+    }
+    await recordContractSnapshot(ctx, { type: "contract", id: contract._id }, "addendum", userId, {
+      id: addendaId,
+      addendaNumber: addendum.addendaNumber,
+    });
+    if (contract.fixtureId) await syncFixtureRows(ctx, contract.fixtureId);
+  } else {
+    const recap = await ctx.db.get(addendum.recapManagerId);
+    if (!recap) return false;
+
+    await trackFieldChanges(ctx, "recap_manager", recap._id, recap, terms, userId, changeReason, addendaId);
+    await ctx.db.patch(recap._id, {
+      ...terms,
+      rates: buildRates({ ...recap, ...terms }),
+      updatedAt: now,
+    });
+    if (recap.fullCpChainStorageId) {
+      await markCpDocumentStale(ctx, { recapId: recap._id });
+    }
+    await recordContractSnapshot(ctx, { type: "recap", id: recap._id }, "addendum", userId, {
+      id: addendaId,
+      addendaNumber: addendum.addendaNumber,
+    });
+    if (recap.fixtureId) await syncFixtureRows(ctx, recap.fixtureId);
+  }
+
+  const descriptions = await describeAmendments(ctx, amendments);
+  await logActivity(
+    ctx,
+    "contractId" in addendum ? "contract" : "recap_manager",
+    "contractId" in addendum ? addendum.contractId : addendum.recapManagerId,
+    "addendum-applied",
+    `Applied addendum ${addendum.addendaNumber}: ${descriptions.join("; ")}`,
+    undefined,
+    { addendaId, amendments: amendments.length },
+    userId
+  );
+
+  return true;
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+// Replace an addendum's amendments and description while it is being drafted
+export const updateAmendments = mutation({
+  args: {
+    addendaId: v.string(),
+    addendaType: v.union(v.literal("contract"), v.literal("recap")),
+    amendments: v.array(amendmentValidator),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAddendaAccess(ctx, args.addendaId, args.addendaType, "edit-contracts");
+
+    const addendum = await getAddendum(ctx, args.addendaId, args.addendaType);
+    if (!addendum) {
+      throw new Error("Addendum not found");
+    }
+    if (addendum.status === "final") {
+      throw new Error("A final addendum cannot be changed");
+    }
+
+    // Signatures cover the amendments as they were signed: once any party has
+    // signed, changing them would apply terms the signer never saw
+    const signatures = await ctx.db
+      .query("addenda_signatures")
+      .withIndex("by_addenda", (q) => q.eq("addendaId", args.addendaId))
+      .collect();
+    if (signatures.some((s) => s.status === "signed")) {
+      throw new Error("A signed addendum cannot be changed");
+    }
+
+    await validateAmendments(ctx, args.amendments);
+
+    await ctx.db.patch(addendum._id, {
+      amendments: args.amendments,
+      ...(args.description !== undefined
+        ? { description: args.description.trim() || undefined }
+        : {}),
+      updatedAt: Date.now(),
+    });
+
+    return addendum._id;
+  },
+});
+
+// Move an addendum through draft → working copy → final.
+// Reaching final applies the amendments if every party has already signed.
+export const updateStatus = mutation({
+  args: {
+    addendaId: v.string(),
+    addendaType: v.union(v.literal("contract"), v.literal("recap")),
+    status: v.union(v.literal("draft"), v.literal("working-copy"), v.literal("final")),
+    changeReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireAddendaAccess(
+      ctx,
+      args.addendaId,
+      args.addendaType,
+      "edit-contracts"
+    );
+
+    const addendum = await getAddendum(ctx, args.addendaId, args.addendaType);
+    if (!addendum) {
+      throw new Error("Addendum not found");
+    }
+    if (addendum.status === "final") {
+      throw new Error("A final addendum cannot be changed");
+    }
+    if (addendum.status === args.status) return addendum._id;
+
+    const now = Date.now();
+    await ctx.db.patch(addendum._id, {
+      status: args.status,
+      ...(args.status === "working-copy" ? { workingCopyDate: now } : {}),
+      ...(args.status === "final" ? { finalDate: now } : {}),
+      updatedAt: now,
+    });
+
+    await trackFieldChange(
+      ctx,
+      args.addendaType === "contract" ? "contract_addenda" : "recap_addenda",
+      addendum._id,
+      "status",
+      addendum.status,
+      args.status,
+      user._id,
+      args.changeReason
+    );
+
+    if (args.status === "final") {
+      await applyAmendmentsIfComplete(ctx, args.addendaId, args.addendaType, user._id);
+    }
+
+    return addendum._id;
+  },
+});
@@ -0,0 +1,512 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { requireOrgMember, resolveDealOrganizationId } from "./authorization";
+import type { ActingAuthority } from "./delegations";
+import { normalizeRole, roleValidator } from "./permissions";
+
+// ============================================================================
+// POLICY MODEL
+// ============================================================================
+// An approval policy says which contracts need whose sign-off inside the
+// organization, e.g. "voyage charters above $1m gross freight need an ops
+// manager, then the CFO". Each contract_approvals row copies the steps of the
+// first matching policy when it is created and tracks progress against them.
+
+export const approvalSequencingValidator = v.union(
+  v.literal("sequential"), // Each step opens once the previous one is approved
+  v.literal("parallel") // All steps are open at once
+);
+
+export type ApprovalSequencing = Infer<typeof approvalSequencingValidator>;
+
+export const approvalConditionsValidator = v.object({
+  contractTypes: v.optional(
+    v.array(
+      v.union(
+        v.literal("voyage-charter"),
+        v.literal("time-charter"),
+        v.literal("bareboat"),
+        v.literal("coa")
+      )
+    )
+  ),
+  minGrossFreight: v.optional(v.number()), // Freight rate × quantity, in the rate currency
+  maxGrossFreight: v.optional(v.number()),
+  partyRoles: v.optional(v.array(v.string())), // "owner", "charterer", ...
+});
+
+export type ApprovalConditions = Infer<typeof approvalConditionsValidator>;
+
+// Who may approve a step: named users, members holding a role, or both.
+// With neither, any member allowed to approve contracts counts.
+export const approvalStepValidator = v.object({
+  name: v.string(), // "Ops manager", "CFO"
+  approverRole: v.optional(roleValidator),
+  approverUserIds: v.optional(v.array(v.id("users"))),
+  quorum: v.number(), // Approvals needed to complete the step
+});
+
+export type ApprovalStep = Infer<typeof approvalStepValidator>;
+
+export const approvalStepProgressValidator = v.object({
+  name: v.string(),
+  approverRole: v.optional(roleValidator),
+  approverUserIds: v.optional(v.array(v.id("users"))),
+  quorum: v.number(),
+  status: v.union(
+    v.literal("pending"),
+    v.literal("approved"),
+    v.literal("rejected")
+  ),
+  decisions: v.array(
+    v.object({
+      userId: v.id("users"),
+      onBehalfOf: v.optional(v.id("users")), // Delegator when userId acted for them
+      approved: v.boolean(),
+      notes: v.optional(v.string()),
+      decidedAt: v.number(),
+    })
+  ),
+});
+
+export type ApprovalStepProgress = Infer<typeof approvalStepProgressValidator>;
+
+/**
+ * Gross freight of a contract in its rate currency, when it can be worked out
+ * from the parsed freight rate (lumpsum, or per-tonne × quantity).
+ * Worldscale rates need a flat rate and return undefined.
+ */
+export function estimateGrossFreight(
+  deal: Pick<Doc<"contracts">, "rates" | "quantity">
+): number | undefined {
+  const freight = deal.rates?.freight;
+  if (!freight) return undefined;
+
+  if (freight.basis === "lumpsum") return freight.value;
+  if (freight.basis === "per-tonne" && deal.quantity !== undefined) {
+    return freight.value * deal.quantity;
+  }
+  return undefined;
+}
+
+function policyMatches(
+  conditions: ApprovalConditions,
+  deal: Doc<"contracts">,
+  partyRole: string
+): boolean {
+  if (conditions.contractTypes && !conditions.contractTypes.includes(deal.contractType)) {
+    return false;
+  }
+  if (conditions.partyRoles && !conditions.partyRoles.includes(partyRole)) {
+    return false;
+  }
+
+  // A freight threshold only matches when the gross freight is known
+  if (conditions.minGrossFreight !== undefined || conditions.maxGrossFreight !== undefined) {
+    const grossFreight = estimateGrossFreight(deal);
+    if (grossFreight === undefined) return false;
+    if (conditions.minGrossFreight !== undefined && grossFreight < conditions.minGrossFreight) {
+      return false;
+    }
+    if (conditions.maxGrossFreight !== undefined && grossFreight > conditions.maxGrossFreight) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * The organization's first active policy (by priority) matching a contract
+ * and the party whose approval is being requested, or null
+ */
+export async function findApprovalPolicy(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  deal: Doc<"contracts">,
+  partyRole: string
+): Promise<Doc<"approval_policies"> | null> {
+  const policies = await ctx.db
+    .query("approval_policies")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .collect();
+
+  return (
+    policies.find(
+      (policy) => policy.isActive && policyMatches(policy.conditions, deal, partyRole)
+    ) ?? null
+  );
+}
+
+/**
+ * Create a contract_approvals row, evaluating the organization's approval
+ * policies to decide which steps it has to go through
+ */
+export async function createContractApprovalRow(
+  ctx: MutationCtx,
+  contractId: Id<"contracts">,
+  partyRole: string,
+  companyId: Id<"companies">
+): Promise<Id<"contract_approvals">> {
+  const contract = await ctx.db.get(contractId);
+  if (!contract) {
+    throw new Error("Contract not found");
+  }
+
+  const organizationId = await resolveDealOrganizationId(ctx, contract);
+  const policy = organizationId
+    ? await findApprovalPolicy(ctx, organizationId, contract, partyRole)
+    : null;
+
+  const now = Date.now();
+  return await ctx.db.insert("contract_approvals", {
+    contractId,
+    partyRole,
+    companyId,
+    status: "pending",
+    ...(policy
+      ? {
+          policyId: policy._id,
+          sequencing: policy.sequencing,
+          steps: policy.steps.map((step) => ({
+            ...step,
+            status: "pending" as const,
+            decisions: [],
+          })),
+        }
+      : {}),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * Indexes of the steps currently open for decisions: the first pending step
+ * when sequential, every pending step when parallel
+ */
+export function getOpenSteps(approval: Doc<"contract_approvals">): number[] {
+  if (approval.status !== "pending" || !approval.steps) return [];
+
+  const pending = approval.steps
+    .map((step, index) => ({ step, index }))
+    .filter(({ step }) => step.status === "pending")
+    .map(({ index }) => index);
+
+  return approval.sequencing === "sequential" ? pending.slice(0, 1) : pending;
+}
+
+function isStepApprover(
+  step: ApprovalStepProgress,
+  userId: Id<"users">,
+  membership: Doc<"memberships">
+): boolean {
+  if (!step.approverRole && !step.approverUserIds?.length) return true;
+  if (step.approverUserIds?.includes(userId)) return true;
+  return !!step.approverRole && normalizeRole(membership.role) === step.approverRole;
+}
+
+/**
+ * Record a user's decision on a contract approval and work out the new state.
+ * Without a policy the decision settles the approval; with one it counts
+ * towards the first open step the principal (the user, or the colleague they
+ * act for under a delegation) may approve. A step completes when its quorum
+ * is met, and a single rejection rejects the step and the approval.
+ * @returns The patch to apply to the contract_approvals row
+ */
+export function applyApprovalDecision(
+  approval: Doc<"contract_approvals">,
+  authority: ActingAuthority,
+  approved: boolean,
+  notes: string | undefined
+): Partial<Doc<"contract_approvals">> {
+  const now = Date.now();
+  const { user, principal, membership } = authority;
+  const onBehalfOf = authority.delegationId ? principal._id : undefined;
+
+  if (!approval.steps) {
+    return {
+      status: approved ? "approved" : "rejected",
+      approvedBy: user._id,
+      approvedAt: now,
+      onBehalfOf,
+      notes,
+      updatedAt: now,
+    };
+  }
+
+  if (approval.status !== "pending") {
+    throw new Error(`Approval is already ${approval.status}`);
+  }
+
+  const openSteps = getOpenSteps(approval);
+  const stepIndex = openSteps.find((index) => {
+    const step = approval.steps![index];
+    return (
+      isStepApprover(step, principal._id, membership) &&
+      !step.decisions.some(
+        (decision) => (decision.onBehalfOf ?? decision.userId) === principal._id
+      )
+    );
+  });
+
+  if (stepIndex === undefined) {
+    const names = openSteps.map((index) => approval.steps![index].name).join(", ");
+    throw new Error(`Access denied: awaiting approval from ${names}`);
+  }
+
+  const steps = approval.steps.map((step, index) => {
+    if (index !== stepIndex) return step;
+
+    const decisions = [
+      ...step.decisions,
+      { userId: user._id, onBehalfOf, approved, notes, decidedAt: now },
+    ];
+    const approvals = decisions.filter((decision) => decision.approved).length;
+    const status: ApprovalStepProgress["status"] = !approved
+      ? "rejected"
+      : approvals >= step.quorum
+        ? "approved"
+        : "pending";
+
+    return { ...step, status, decisions };
+  });
+
+  const isRejected = steps.some((step) => step.status === "rejected");
+  const isApproved = steps.every((step) => step.status === "approved");
+
+  return {
+    steps,
+    ...(isRejected || isApproved
+      ? {
+          status: isRejected ? ("rejected" as const) : ("approved" as const),
+          approvedBy: user._id,
+          approvedAt: now,
+          onBehalfOf,
+        }
+      : {}),
+    notes,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Summarize contract approvals, including progress through policy steps.
+ * `outstanding` counts the individual approvals still needed: the remaining
+ * quorum of every unfinished step, or one per pending row without a policy.
+ */
+export function summarizeContractApprovals(approvals: Doc<"contract_approvals">[]) {
+  const steps = approvals.flatMap((approval) => approval.steps ?? []);
+
+  let outstanding = 0;
+  const awaiting: Array<{
+    approvalId: Id<"contract_approvals">;
+    partyRole: string;
+    step: string;
+    remaining: number;
+  }> = [];
+
+  for (const approval of approvals) {
+    if (approval.status !== "pending") continue;
+
+    if (!approval.steps) {
+      outstanding += 1;
+      continue;
+    }
+
+    for (const step of approval.steps) {
+      if (step.status !== "pending") continue;
+      outstanding +=
+        step.quorum - step.decisions.filter((decision) => decision.approved).length;
+    }
+
+    for (const index of getOpenSteps(approval)) {
+      const step = approval.steps[index];
+      awaiting.push({
+        approvalId: approval._id,
+        partyRole: approval.partyRole,
+        step: step.name,
+        remaining:
+          step.quorum - step.decisions.filter((decision) => decision.approved).length,
+      });
+    }
+  }
+
+  return {
+    total: approvals.length,
+    approved: approvals.filter((a) => a.status === "approved").length,
+    pending: approvals.filter((a) => a.status === "pending").length,
+    rejected: approvals.filter((a) => a.status === "rejected").length,
+    steps: {
+      total: steps.length,
+      approved: steps.filter((step) => step.status === "approved").length,
+    },
+    outstanding,
+    awaiting,
+  };
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+function validatePolicy(
+  name: string,
+  conditions: ApprovalConditions,
+  steps: ApprovalStep[]
+): void {
+  if (!name.trim()) {
+    throw new Error("Policy name is required");
+  }
+  if (
+    conditions.minGrossFreight !== undefined &&
+    conditions.maxGrossFreight !== undefined &&
+    conditions.minGrossFreight > conditions.maxGrossFreight
+  ) {
+    throw new Error("Minimum gross freight cannot exceed the maximum");
+  }
+  if (steps.length === 0) {
+    throw new Error("A policy needs at least one approval step");
+  }
+  for (const step of steps) {
+    if (!step.name.trim()) {
+      throw new Error("Every approval step needs a name");
+    }
+    if (!Number.isInteger(step.quorum) || step.quorum < 1) {
+      throw new Error(`Quorum for ${step.name} must be a whole number of at least 1`);
+    }
+    if (
+      !step.approverRole &&
+      step.approverUserIds &&
+      step.quorum > step.approverUserIds.length
+    ) {
+      throw new Error(`${step.name} needs ${step.quorum} approvals but names fewer approvers`);
+    }
+  }
+}
+
+// List the organization's approval policies in evaluation order
+export const list = query({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
+    const policies = await ctx.db
+      .query("approval_policies")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .collect();
+
+    return await Promise.all(
+      policies.map(async (policy) => ({
+        ...policy,
+        steps: await Promise.all(
+          policy.steps.map(async (step) => ({
+            ...step,
+            approvers: (
+              await Promise.all(
+                (step.approverUserIds ?? []).map((userId) => ctx.db.get(userId))
+              )
+            ).flatMap((user) => (user ? [{ _id: user._id, name: user.name }] : [])),
+          }))
+        ),
+      }))
+    );
+  },
+});
+
+// Create an approval policy, evaluated after the existing ones
+export const create = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    conditions: approvalConditionsValidator,
+    sequencing: approvalSequencingValidator,
+    steps: v.array(approvalStepValidator),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireOrgMember(ctx, args.organizationId, "manage-members");
+    validatePolicy(args.name, args.conditions, args.steps);
+
+    const last = await ctx.db
+      .query("approval_policies")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .order("desc")
+      .first();
+
+    const now = Date.now();
+    return await ctx.db.insert("approval_policies", {
+      organizationId: args.organizationId,
+      name: args.name.trim(),
+      description: args.description?.trim() || undefined,
+      priority: (last?.priority ?? 0) + 1,
+      conditions: args.conditions,
+      sequencing: args.sequencing,
+      steps: args.steps.map((step) => ({ ...step, name: step.name.trim() })),
+      isActive: true,
+      createdBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Update an approval policy. Approvals already in progress keep their steps.
+export const update = mutation({
+  args: {
+    policyId: v.id("approval_policies"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    priority: v.optional(v.number()),
+    conditions: v.optional(approvalConditionsValidator),
+    sequencing: v.optional(approvalSequencingValidator),
+    steps: v.optional(v.array(approvalStepValidator)),
+    isActive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const policy = await ctx.db.get(args.policyId);
+    if (!policy) {
+      throw new Error("Approval policy not found");
+    }
+    await requireOrgMember(ctx, policy.organizationId, "manage-members");
+
+    const { policyId, ...updates } = args;
+    validatePolicy(
+      updates.name ?? policy.name,
+      updates.conditions ?? policy.conditions,
+      updates.steps ?? policy.steps
+    );
+
+    await ctx.db.patch(policyId, {
+      ...updates,
+      ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+      ...(updates.description !== undefined
+        ? { description: updates.description.trim() || undefined }
+        : {}),
+      ...(updates.steps
+        ? { steps: updates.steps.map((step) => ({ ...step, name: step.name.trim() })) }
+        : {}),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Delete an approval policy. Approvals already in progress keep their steps.
+export const remove = mutation({
+  args: { policyId: v.id("approval_policies") },
+  handler: async (ctx, args) => {
+    const policy = await ctx.db.get(args.policyId);
+    if (!policy) {
+      throw new Error("Approval policy not found");
+    }
+    await requireOrgMember(ctx, policy.organizationId, "manage-members");
+
+    await ctx.db.delete(args.policyId);
+  },
+});
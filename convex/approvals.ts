@@ -1,12 +1,28 @@
 import { mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { requireAddendaAccess, requireContractAccess } from "./authorization";
+import {
+  applyApprovalDecision,
+  createContractApprovalRow,
+  summarizeContractApprovals,
+} from "./approvalPolicies";
+import { logAuthorityActivity, resolveActingAuthority } from "./delegations";
+
+// Addenda approval queries only receive the addendum ID, so tell contract
+// addenda from recap addenda by the table the ID belongs to
+async function requireAddendaReadAccess(ctx: QueryCtx, addendaId: string) {
+  const addendaType = ctx.db.normalizeId("contract_addenda", addendaId) ? "contract" : "recap";
+  return await requireAddendaAccess(ctx, addendaId, addendaType);
+}
 
 // ========================================
 // CONTRACT APPROVALS
 // ========================================
 
 /**
- * Create a new approval record for a contract
+ * Create a new approval record for a contract, with the steps of the
+ * organization's matching approval policy
  */
 export const createContractApproval = mutation({
   args: {
@@ -15,16 +31,14 @@ export const createContractApproval = mutation({
     companyId: v.id("companies"),
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
+    await requireContractAccess(ctx, args.contractId, "edit-contracts");
 
-    const approvalId = await ctx.db.insert("contract_approvals", {
-      contractId: args.contractId,
-      partyRole: args.partyRole,
-      companyId: args.companyId,
-      status: "pending",
-      createdAt: now,
-      updatedAt: now,
-    });
+    const approvalId = await createContractApprovalRow(
+      ctx,
+      args.contractId,
+      args.partyRole,
+      args.companyId
+    );
 
     return await ctx.db.get(approvalId);
   },
@@ -38,17 +52,33 @@ export const approveContract = mutation({
     approvalId: v.id("contract_approvals"),
     userId: v.id("users"),
     notes: v.optional(v.string()),
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
+    const approval = await ctx.db.get(args.approvalId);
+    if (!approval) {
+      throw new Error("Approval not found");
+    }
+
+    const access = await requireContractAccess(ctx, approval.contractId);
+    if (access.user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "approve", args.onBehalfOf);
+
+    await ctx.db.patch(
+      args.approvalId,
+      applyApprovalDecision(approval, authority, true, args.notes)
+    );
 
-    await ctx.db.patch(args.approvalId, {
-      status: "approved",
-      approvedBy: args.userId,
-      approvedAt: now,
-      notes: args.notes,
-      updatedAt: now,
-    });
+    await logAuthorityActivity(
+      ctx,
+      { type: "contract", id: approval.contractId },
+      "approved",
+      `Approved the contract for the ${approval.partyRole}`,
+      authority,
+      { approvalId: args.approvalId, notes: args.notes }
+    );
 
     return await ctx.db.get(args.approvalId);
   },
@@ -62,17 +92,33 @@ export const rejectContractApproval = mutation({
     approvalId: v.id("contract_approvals"),
     userId: v.id("users"),
     notes: v.optional(v.string()),
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
+    const approval = await ctx.db.get(args.approvalId);
+    if (!approval) {
+      throw new Error("Approval not found");
+    }
+
+    const access = await requireContractAccess(ctx, approval.contractId);
+    if (access.user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "approve", args.onBehalfOf);
+
+    await ctx.db.patch(
+      args.approvalId,
+      applyApprovalDecision(approval, authority, false, args.notes)
+    );
 
-    await ctx.db.patch(args.approvalId, {
-      status: "rejected",
-      approvedBy: args.userId,
-      approvedAt: now,
-      notes: args.notes,
-      updatedAt: now,
-    });
+    await logAuthorityActivity(
+      ctx,
+      { type: "contract", id: approval.contractId },
+      "approval-rejected",
+      `Rejected the contract for the ${approval.partyRole}`,
+      authority,
+      { approvalId: args.approvalId, notes: args.notes }
+    );
 
     return await ctx.db.get(args.approvalId);
   },
@@ -86,6 +132,8 @@ export const getContractApprovals = query({
     contractId: v.id("contracts"),
   },
   handler: async (ctx, args) => {
+    await requireContractAccess(ctx, args.contractId);
+
     const approvals = await ctx.db
       .query("contract_approvals")
       .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
@@ -115,6 +163,8 @@ export const getContractApprovals = query({
           company,
           companyAvatarUrl,
           user,
+
+          onBehalfOfUser: approval.onBehalfOf ? await ctx.db.get(approval.onBehalfOf) : null,
           userAvatarUrl: avatarUrl,
         };
       })
@@ -139,6 +189,8 @@ export const createAddendaApproval = mutation({
     companyId: v.id("companies"),
   },
   handler: async (ctx, args) => {
+    await requireAddendaAccess(ctx, args.addendaId, args.addendaType, "edit-contracts");
+
     const now = Date.now();
 
     const approvalId = await ctx.db.insert("addenda_approvals", {
@@ -163,18 +215,44 @@ export const approveAddenda = mutation({
     approvalId: v.id("addenda_approvals"),
     userId: v.id("users"),
     notes: v.optional(v.string()),
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
   },
   handler: async (ctx, args) => {
+    const approval = await ctx.db.get(args.approvalId);
+    if (!approval) {
+      throw new Error("Approval not found");
+    }
+
+    const access = await requireAddendaAccess(
+      ctx,
+      approval.addendaId,
+      approval.addendaType
+    );
+    if (access.user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "approve", args.onBehalfOf);
+
     const now = Date.now();
 
     await ctx.db.patch(args.approvalId, {
       status: "approved",
       approvedBy: args.userId,
       approvedAt: now,
+      onBehalfOf: authority.delegationId ? authority.principal._id : undefined,
       notes: args.notes,
       updatedAt: now,
     });
 
+    await logAuthorityActivity(
+      ctx,
+      access.parent,
+      "approved",
+      `Approved addendum ${access.addendaNumber} for the ${approval.partyRole}`,
+      authority,
+      { approvalId: args.approvalId, addendaId: approval.addendaId, notes: args.notes }
+    );
+
     return await ctx.db.get(args.approvalId);
   },
 });
@@ -187,18 +265,44 @@ export const rejectAddendaApproval = mutation({
     approvalId: v.id("addenda_approvals"),
     userId: v.id("users"),
     notes: v.optional(v.string()),
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
   },
   handler: async (ctx, args) => {
+    const approval = await ctx.db.get(args.approvalId);
+    if (!approval) {
+      throw new Error("Approval not found");
+    }
+
+    const access = await requireAddendaAccess(
+      ctx,
+      approval.addendaId,
+      approval.addendaType
+    );
+    if (access.user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "approve", args.onBehalfOf);
+
     const now = Date.now();
 
     await ctx.db.patch(args.approvalId, {
       status: "rejected",
       approvedBy: args.userId,
       approvedAt: now,
+      onBehalfOf: authority.delegationId ? authority.principal._id : undefined,
       notes: args.notes,
       updatedAt: now,
     });
 
+    await logAuthorityActivity(
+      ctx,
+      access.parent,
+      "approval-rejected",
+      `Rejected addendum ${access.addendaNumber} for the ${approval.partyRole}`,
+      authority,
+      { approvalId: args.approvalId, addendaId: approval.addendaId, notes: args.notes }
+    );
+
     return await ctx.db.get(args.approvalId);
   },
 });
@@ -211,6 +315,8 @@ export const getAddendaApprovals = query({
     addendaId: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireAddendaReadAccess(ctx, args.addendaId);
+
     const approvals = await ctx.db
       .query("addenda_approvals")
       .withIndex("by_addenda", (q) => q.eq("addendaId", args.addendaId))
@@ -240,6 +346,8 @@ export const getAddendaApprovals = query({
           company,
           companyAvatarUrl,
           user,
+
+          onBehalfOfUser: approval.onBehalfOf ? await ctx.db.get(approval.onBehalfOf) : null,
           userAvatarUrl: avatarUrl,
         };
       })
@@ -251,26 +359,22 @@ export const getAddendaApprovals = query({
 
 /**
  * Compute approval summary for a contract
- * Returns: { total: number, approved: number, pending: number, rejected: number }
+ * Returns: { total, approved, pending, rejected } per party, plus progress
+ * through approval policy steps: { steps, outstanding, awaiting }
  */
 export const getContractApprovalSummary = query({
   args: {
     contractId: v.id("contracts"),
   },
   handler: async (ctx, args) => {
+    await requireContractAccess(ctx, args.contractId);
+
     const approvals = await ctx.db
       .query("contract_approvals")
       .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
       .collect();
 
-    const summary = {
-      total: approvals.length,
-      approved: approvals.filter((a) => a.status === "approved").length,
-      pending: approvals.filter((a) => a.status === "pending").length,
-      rejected: approvals.filter((a) => a.status === "rejected").length,
-    };
-
-    return summary;
+    return summarizeContractApprovals(approvals);
   },
 });
 
@@ -282,6 +386,8 @@ export const getAddendaApprovalSummary = query({
     addendaId: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireAddendaReadAccess(ctx, args.addendaId);
+
     const approvals = await ctx.db
       .query("addenda_approvals")
       .withIndex("by_addenda", (q) => q.eq("addendaId", args.addendaId))
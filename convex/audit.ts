@@ -1,7 +1,16 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { MutationCtx } from "./_generated/server";
-import type { Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id, TableNames } from "./_generated/dataModel";
+import {
+  getAccessibleOrganizationIds,
+  requireAddendaAccess,
+  requireContractAccess,
+  requireNegotiationAccess,
+  requireOrderAccess,
+  requireRecapAccess,
+  resolveDealOrganizationId,
+} from "./authorization";
 
 // Formatting helpers for activity log display
 function formatQuantityForLog(value: number | undefined | null, unit?: string): string {
@@ -27,16 +36,147 @@ function formatDemurrageForLog(value: string | undefined | null): string {
   return `${prefix}${formatted}${suffix}`;
 }
 
+type FieldChangeEntityType =
+  | "order"
+  | "negotiation"
+  | "contract"
+  | "recap_manager"
+  | "contract_addenda"
+  | "recap_addenda";
+
+const fieldChangeEntityTypeValidator = v.union(
+  v.literal("order"),
+  v.literal("negotiation"),
+  v.literal("contract"),
+  v.literal("recap_manager"),
+  v.literal("contract_addenda"),
+  v.literal("recap_addenda")
+);
+
+// Require read access to the entity a field change was recorded on
+async function requireFieldChangeEntityAccess(
+  ctx: QueryCtx,
+  entityType: FieldChangeEntityType,
+  entityId: string
+) {
+  switch (entityType) {
+    case "order": {
+      const orderId = ctx.db.normalizeId("orders", entityId);
+      if (!orderId) throw new Error("Order not found");
+      await requireOrderAccess(ctx, orderId);
+      return;
+    }
+    case "negotiation": {
+      const negotiationId = ctx.db.normalizeId("negotiations", entityId);
+      if (!negotiationId) throw new Error("Negotiation not found");
+      await requireNegotiationAccess(ctx, negotiationId);
+      return;
+    }
+    case "contract": {
+      const contractId = ctx.db.normalizeId("contracts", entityId);
+      if (!contractId) throw new Error("Contract not found");
+      await requireContractAccess(ctx, contractId);
+      return;
+    }
+    case "recap_manager": {
+      const recapId = ctx.db.normalizeId("recap_managers", entityId);
+      if (!recapId) throw new Error("Recap manager not found");
+      await requireRecapAccess(ctx, recapId);
+      return;
+    }
+    case "contract_addenda":
+      await requireAddendaAccess(ctx, entityId, "contract");
+      return;
+    case "recap_addenda":
+      await requireAddendaAccess(ctx, entityId, "recap");
+      return;
+  }
+}
+
+// Organization owning the entity a field change was recorded on, or null
+// when the entity no longer exists
+async function resolveFieldChangeOrganizationId(
+  ctx: QueryCtx,
+  entityType: FieldChangeEntityType,
+  entityId: string
+): Promise<Id<"organizations"> | null> {
+  switch (entityType) {
+    case "order": {
+      const orderId = ctx.db.normalizeId("orders", entityId);
+      const order = orderId ? await ctx.db.get(orderId) : null;
+      return order?.organizationId ?? null;
+    }
+    case "negotiation": {
+      const negotiationId = ctx.db.normalizeId("negotiations", entityId);
+      const negotiation = negotiationId ? await ctx.db.get(negotiationId) : null;
+      const order = negotiation ? await ctx.db.get(negotiation.orderId) : null;
+      return order?.organizationId ?? null;
+    }
+    case "contract": {
+      const contractId = ctx.db.normalizeId("contracts", entityId);
+      const contract = contractId ? await ctx.db.get(contractId) : null;
+      return contract ? await resolveDealOrganizationId(ctx, contract) : null;
+    }
+    case "recap_manager": {
+      const recapId = ctx.db.normalizeId("recap_managers", entityId);
+      const recap = recapId ? await ctx.db.get(recapId) : null;
+      return recap ? await resolveDealOrganizationId(ctx, recap) : null;
+    }
+    case "contract_addenda": {
+      const addendaId = ctx.db.normalizeId("contract_addenda", entityId);
+      const addendum = addendaId ? await ctx.db.get(addendaId) : null;
+      const contract = addendum ? await ctx.db.get(addendum.contractId) : null;
+      return contract ? await resolveDealOrganizationId(ctx, contract) : null;
+    }
+    case "recap_addenda": {
+      const addendaId = ctx.db.normalizeId("recap_addenda", entityId);
+      const addendum = addendaId ? await ctx.db.get(addendaId) : null;
+      const recap = addendum ? await ctx.db.get(addendum.recapManagerId) : null;
+      return recap ? await resolveDealOrganizationId(ctx, recap) : null;
+    }
+  }
+}
+
+// The newest field changes of a query, up to `limit`, whose entities belong
+// to one of the caller's organizations
+async function takeAccessibleFieldChanges(
+  ctx: QueryCtx,
+  changes: AsyncIterable<Doc<"field_changes">>,
+  limit: number
+) {
+  const organizationIds = await getAccessibleOrganizationIds(ctx);
+  const accessible: Doc<"field_changes">[] = [];
+  if (organizationIds.size === 0) return accessible;
+
+  const entityOrganizations = new Map<string, Id<"organizations"> | null>();
+  for await (const change of changes) {
+    const key = `${change.entityType}:${change.entityId}`;
+    if (!entityOrganizations.has(key)) {
+      entityOrganizations.set(
+        key,
+        await resolveFieldChangeOrganizationId(ctx, change.entityType, change.entityId)
+      );
+    }
+    const organizationId = entityOrganizations.get(key);
+    if (!organizationId || !organizationIds.has(organizationId)) continue;
+
+    accessible.push(change);
+    if (accessible.length >= limit) break;
+  }
+  return accessible;
+}
+
 // Internal function to track field changes
 export async function trackFieldChange(
   ctx: MutationCtx,
-  entityType: "order" | "negotiation" | "contract" | "recap_manager" | "contract_addenda" | "recap_addenda",
+  entityType: FieldChangeEntityType,
   entityId: Id<any>,
   fieldName: string,
   oldValue: any,
   newValue: any,
   userId: Id<"users">,
-  changeReason?: string
+  changeReason?: string,
+  addendaId?: string // Set when the change was made by applying an addendum
 ) {
   // Convert values to strings for storage
   const oldValueStr = oldValue !== undefined && oldValue !== null ? String(oldValue) : undefined;
@@ -49,11 +189,40 @@ export async function trackFieldChange(
     oldValue: oldValueStr,
     newValue: newValueStr,
     changeReason,
+    addendaId,
     userId,
     timestamp: Date.now(),
   });
 }
 
+// Internal function to track every field an update changes.
+// Fields left undefined in `updates` aren't part of the update and are skipped.
+export async function trackFieldChanges(
+  ctx: MutationCtx,
+  entityType: FieldChangeEntityType,
+  entityId: Id<TableNames>,
+  existing: Record<string, unknown>,
+  updates: Record<string, unknown>,
+  userId: Id<"users">,
+  changeReason?: string,
+  addendaId?: string
+) {
+  for (const [fieldName, newValue] of Object.entries(updates)) {
+    if (newValue === undefined || existing[fieldName] === newValue) continue;
+    await trackFieldChange(
+      ctx,
+      entityType,
+      entityId,
+      fieldName,
+      existing[fieldName],
+      newValue,
+      userId,
+      changeReason,
+      addendaId
+    );
+  }
+}
+
 // Internal function to log activity
 export async function logActivity(
   ctx: MutationCtx,
@@ -118,17 +287,12 @@ export async function logActivity(
 // Get field changes for an entity
 export const getFieldChanges = query({
   args: {
-    entityType: v.union(
-      v.literal("order"),
-      v.literal("negotiation"),
-      v.literal("contract"),
-      v.literal("recap_manager"),
-      v.literal("contract_addenda"),
-      v.literal("recap_addenda")
-    ),
+    entityType: fieldChangeEntityTypeValidator,
     entityId: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireFieldChangeEntityAccess(ctx, args.entityType, args.entityId);
+
     const changes = await ctx.db
       .query("field_changes")
       .withIndex("by_entity", (q) =>
@@ -203,7 +367,7 @@ export const getActivityLog = query({
   },
 });
 
-// Get recent changes across all entities (for dashboard)
+// Get recent changes across the caller's organizations (for dashboard)
 export const getRecentChanges = query({
   args: {
     limit: v.optional(v.number()),
@@ -211,11 +375,11 @@ export const getRecentChanges = query({
   handler: async (ctx, args) => {
     const limit = args.limit || 50;
 
-    const changes = await ctx.db
-      .query("field_changes")
-      .withIndex("by_timestamp")
-      .order("desc")
-      .take(limit);
+    const changes = await takeAccessibleFieldChanges(
+      ctx,
+      ctx.db.query("field_changes").withIndex("by_timestamp").order("desc"),
+      limit
+    );
 
     // Enrich with user data
     const enriched = await Promise.all(
@@ -277,7 +441,7 @@ export const getRecentActivity = query({
   },
 });
 
-// Get changes by user (for user activity dashboard)
+// Get a user's changes within the caller's organizations (for user activity dashboard)
 export const getChangesByUser = query({
   args: {
     userId: v.id("users"),
@@ -286,13 +450,14 @@ export const getChangesByUser = query({
   handler: async (ctx, args) => {
     const limit = args.limit || 50;
 
-    const changes = await ctx.db
-      .query("field_changes")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
-      .order("desc")
-      .take(limit);
-
-    return changes;
+    return await takeAccessibleFieldChanges(
+      ctx,
+      ctx.db
+        .query("field_changes")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .order("desc"),
+      limit
+    );
   },
 });
 
@@ -0,0 +1,493 @@
+import type { Doc, Id } from "./_generated/dataModel";
+import type { QueryCtx } from "./_generated/server";
+import { authComponent } from "./authQueries";
+import { membershipHasPermission } from "./permissions";
+import type { Permission } from "./permissions";
+
+export interface OrgAccess {
+  user: Doc<"users">;
+  membership: Doc<"memberships">;
+}
+
+// The contract or recap an addendum belongs to
+export type AddendaParent =
+  | { type: "contract"; id: Id<"contracts"> }
+  | { type: "recap_manager"; id: Id<"recap_managers"> };
+
+// ============================================================================
+// CALLER RESOLUTION
+// ============================================================================
+
+/**
+ * Resolve the app user for the current Better Auth session.
+ * Returns null when there is no session or no matching users row.
+ * Works for both queries and mutations (MutationCtx extends QueryCtx).
+ */
+export async function getCurrentAppUser(
+  ctx: QueryCtx
+): Promise<Doc<"users"> | null> {
+  const authUser = await authComponent.safeGetAuthUser(ctx);
+  if (!authUser) return null;
+
+  // Exact match first (uses index)
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_email", (q) => q.eq("email", authUser.email))
+    .first();
+  if (user) return user;
+
+  // Fall back to a case-insensitive lookup, same as getCurrentUser
+  const normalizedEmail = authUser.email.trim().toLowerCase();
+  const allUsers = await ctx.db.query("users").collect();
+  return (
+    allUsers.find((u) => u.email.trim().toLowerCase() === normalizedEmail) ??
+    null
+  );
+}
+
+/**
+ * Resolve the current app user or throw
+ */
+export async function requireCurrentUser(
+  ctx: QueryCtx
+): Promise<Doc<"users">> {
+  const user = await getCurrentAppUser(ctx);
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+  return user;
+}
+
+// ============================================================================
+// ORGANIZATION MEMBERSHIP
+// ============================================================================
+
+async function findMembership(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  organizationId: Id<"organizations">
+): Promise<Doc<"memberships"> | null> {
+  return await ctx.db
+    .query("memberships")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .filter((q) => q.eq(q.field("organizationId"), organizationId))
+    .first();
+}
+
+/**
+ * Whether a user is a member of an organization, for checks on users other
+ * than the caller
+ */
+export async function isOrgMember(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  organizationId: Id<"organizations">
+): Promise<boolean> {
+  return (await findMembership(ctx, userId, organizationId)) !== null;
+}
+
+/**
+ * Require the caller to be a member of an organization, optionally holding a
+ * permission under the org's role mapping. Omitting it allows any member.
+ */
+export async function requireOrgMember(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  permission?: Permission
+): Promise<OrgAccess> {
+  const user = await requireCurrentUser(ctx);
+
+  const membership = await findMembership(ctx, user._id, organizationId);
+  if (!membership) {
+    throw new Error("Access denied: not a member of this organization");
+  }
+
+  if (
+    permission &&
+    !(await membershipHasPermission(ctx, membership, permission))
+  ) {
+    throw new Error(`Access denied: missing permission "${permission}"`);
+  }
+
+  return { user, membership };
+}
+
+/**
+ * Require the caller to be the given user and a member of the organization.
+ * Used by functions that still receive userId from the client.
+ */
+export async function requireSelfInOrg(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  organizationId: Id<"organizations">
+): Promise<OrgAccess> {
+  const access = await requireOrgMember(ctx, organizationId);
+  if (access.user._id !== userId) {
+    throw new Error("Access denied");
+  }
+  return access;
+}
+
+/**
+ * Organization IDs the caller belongs to (empty when signed out)
+ */
+export async function getAccessibleOrganizationIds(
+  ctx: QueryCtx
+): Promise<Set<Id<"organizations">>> {
+  const user = await getCurrentAppUser(ctx);
+  if (!user) return new Set();
+
+  const memberships = await ctx.db
+    .query("memberships")
+    .withIndex("by_userId", (q) => q.eq("userId", user._id))
+    .collect();
+
+  return new Set(memberships.map((m) => m.organizationId));
+}
+
+/**
+ * Require the caller to be a platform admin, for data shared by every
+ * organization that no single org's Admin should change (standard clauses)
+ */
+export async function requirePlatformAdmin(ctx: QueryCtx): Promise<Doc<"users">> {
+  const user = await requireCurrentUser(ctx);
+  if (user.platformRole !== "admin") {
+    throw new Error("Access denied: platform admins only");
+  }
+  return user;
+}
+
+/**
+ * Require a permission in at least one of the caller's organizations.
+ * Used for shared reference data that is not owned by a single org.
+ */
+export async function requirePermissionInAnyOrg(
+  ctx: QueryCtx,
+  permission: Permission
+): Promise<Doc<"users">> {
+  const user = await requireCurrentUser(ctx);
+
+  const memberships = await ctx.db
+    .query("memberships")
+    .withIndex("by_userId", (q) => q.eq("userId", user._id))
+    .collect();
+
+  for (const membership of memberships) {
+    if (await membershipHasPermission(ctx, membership, permission)) {
+      return user;
+    }
+  }
+
+  throw new Error(`Access denied: missing permission "${permission}"`);
+}
+
+// ============================================================================
+// ENTITY ACCESS
+// ============================================================================
+
+/**
+ * Require access to an order's organization
+ */
+export async function requireOrderAccess(
+  ctx: QueryCtx,
+  orderId: Id<"orders">,
+  permission?: Permission
+): Promise<OrgAccess & { order: Doc<"orders"> }> {
+  const order = await ctx.db.get(orderId);
+  if (!order) {
+    throw new Error("Order not found");
+  }
+
+  const access = await requireOrgMember(ctx, order.organizationId, permission);
+  return { ...access, order };
+}
+
+/**
+ * Require access to a fixture's organization
+ */
+export async function requireFixtureAccess(
+  ctx: QueryCtx,
+  fixtureId: Id<"fixtures">,
+  permission?: Permission
+): Promise<OrgAccess & { fixture: Doc<"fixtures"> }> {
+  const fixture = await ctx.db.get(fixtureId);
+  if (!fixture) {
+    throw new Error("Fixture not found");
+  }
+
+  const access = await requireOrgMember(ctx, fixture.organizationId, permission);
+  return { ...access, fixture };
+}
+
+/**
+ * Require access to a negotiation, resolved through its parent order
+ */
+export async function requireNegotiationAccess(
+  ctx: QueryCtx,
+  negotiationId: Id<"negotiations">,
+  permission?: Permission
+): Promise<OrgAccess & { negotiation: Doc<"negotiations"> }> {
+  const negotiation = await ctx.db.get(negotiationId);
+  if (!negotiation) {
+    throw new Error("Negotiation not found");
+  }
+
+  const { user, membership } = await requireOrderAccess(
+    ctx,
+    negotiation.orderId,
+    permission
+  );
+  return { user, membership, negotiation };
+}
+
+/**
+ * Resolve the owning organization of a contract or recap manager.
+ * Fixtures carry the organization directly; otherwise fall back to the order.
+ */
+export async function resolveDealOrganizationId(
+  ctx: QueryCtx,
+  deal: { fixtureId?: Id<"fixtures">; orderId?: Id<"orders"> }
+): Promise<Id<"organizations"> | null> {
+  if (deal.fixtureId) {
+    const fixture = await ctx.db.get(deal.fixtureId);
+    if (fixture) return fixture.organizationId;
+  }
+
+  if (deal.orderId) {
+    const order = await ctx.db.get(deal.orderId);
+    if (order) return order.organizationId;
+  }
+
+  return null;
+}
+
+/**
+ * Require access to the organization owning a contract or recap
+ * (or the fixture/order a new one is being attached to)
+ */
+export async function requireDealAccess(
+  ctx: QueryCtx,
+  deal: { fixtureId?: Id<"fixtures">; orderId?: Id<"orders"> },
+  permission?: Permission
+): Promise<OrgAccess> {
+  const organizationId = await resolveDealOrganizationId(ctx, deal);
+  if (!organizationId) {
+    // Unlinked deals cannot be attributed to an org, so nobody may touch them
+    await requireCurrentUser(ctx);
+    throw new Error("Access denied");
+  }
+  return await requireOrgMember(ctx, organizationId, permission);
+}
+
+/**
+ * Require access to a contract's organization
+ */
+export async function requireContractAccess(
+  ctx: QueryCtx,
+  contractId: Id<"contracts">,
+  permission?: Permission
+): Promise<OrgAccess & { contract: Doc<"contracts"> }> {
+  const contract = await ctx.db.get(contractId);
+  if (!contract) {
+    throw new Error("Contract not found");
+  }
+
+  const access = await requireDealAccess(ctx, contract, permission);
+  return { ...access, contract };
+}
+
+/**
+ * Require access to a recap manager's organization
+ */
+export async function requireRecapAccess(
+  ctx: QueryCtx,
+  recapId: Id<"recap_managers">,
+  permission?: Permission
+): Promise<OrgAccess & { recap: Doc<"recap_managers"> }> {
+  const recap = await ctx.db.get(recapId);
+  if (!recap) {
+    throw new Error("Recap manager not found");
+  }
+
+  const access = await requireDealAccess(ctx, recap, permission);
+  return { ...access, recap };
+}
+
+/**
+ * Require access to a contract or recap addendum through its parent.
+ * Addenda approval/signature rows store the addendum ID as a string.
+ */
+export async function requireAddendaAccess(
+  ctx: QueryCtx,
+  addendaId: string,
+  addendaType: "contract" | "recap",
+  permission?: Permission
+): Promise<OrgAccess & { parent: AddendaParent; addendaNumber: string }> {
+  if (addendaType === "contract") {
+    const id = ctx.db.normalizeId("contract_addenda", addendaId);
+    const addendum = id ? await ctx.db.get(id) : null;
+    if (!addendum) {
+      throw new Error("Addendum not found");
+    }
+    const { user, membership } = await requireContractAccess(
+      ctx,
+      addendum.contractId,
+      permission
+    );
+    return {
+      user,
+      membership,
+      parent: { type: "contract", id: addendum.contractId },
+      addendaNumber: addendum.addendaNumber,
+    };
+  }
+
+  const id = ctx.db.normalizeId("recap_addenda", addendaId);
+  const addendum = id ? await ctx.db.get(id) : null;
+  if (!addendum) {
+    throw new Error("Addendum not found");
+  }
+  const { user, membership } = await requireRecapAccess(
+    ctx,
+    addendum.recapManagerId,
+    permission
+  );
+  return {
+    user,
+    membership,
+    parent: { type: "recap_manager", id: addendum.recapManagerId },
+    addendaNumber: addendum.addendaNumber,
+  };
+}
+
+/**
+ * Keep only the deals (contracts / recaps) that belong to the caller's orgs
+ */
+export async function filterAccessibleDeals<
+  T extends { fixtureId?: Id<"fixtures">; orderId?: Id<"orders"> },
+>(ctx: QueryCtx, deals: T[]): Promise<T[]> {
+  const organizationIds = await getAccessibleOrganizationIds(ctx);
+  if (organizationIds.size === 0) return [];
+
+  const results: T[] = [];
+  for (const deal of deals) {
+    const organizationId = await resolveDealOrganizationId(ctx, deal);
+    if (organizationId && organizationIds.has(organizationId)) {
+      results.push(deal);
+    }
+  }
+  return results;
+}
+
+// ============================================================================
+// BOARDS
+// ============================================================================
+
+/**
+ * Require access to a board.
+ * Read: the owner, or any org member when the board is shared (org_view).
+ * Write: the owner only, who must still be a member of the board's org.
+ */
+export async function requireBoardAccess(
+  ctx: QueryCtx,
+  boardId: Id<"boards">,
+  mode: "read" | "write"
+): Promise<OrgAccess & { board: Doc<"boards"> }> {
+  const board = await ctx.db.get(boardId);
+  if (!board) {
+    throw new Error("Board not found");
+  }
+
+  const access = await requireOrgMember(ctx, board.organizationId);
+  const isOwner = board.userId === access.user._id;
+  const canRead = isOwner || board.visibility === "org_view";
+
+  if (mode === "write" ? !isOwner : !canRead) {
+    throw new Error("Access denied");
+  }
+
+  return { ...access, board };
+}
+
+/**
+ * Require access to a widget, resolved through its board
+ */
+export async function requireWidgetAccess(
+  ctx: QueryCtx,
+  widgetId: Id<"widgets">,
+  mode: "read" | "write"
+): Promise<OrgAccess & { widget: Doc<"widgets">; board: Doc<"boards"> }> {
+  const widget = await ctx.db.get(widgetId);
+  if (!widget) {
+    throw new Error("Widget not found");
+  }
+
+  const access = await requireBoardAccess(ctx, widget.boardId, mode);
+  return { ...access, widget };
+}
+
+// ============================================================================
+// BOOKMARKS
+// ============================================================================
+
+/**
+ * Whether a user can see a bookmark: its owner, anyone in its organization
+ * when shared org-wide, or the users it was shared with (while still members)
+ */
+export async function canReadBookmark(
+  ctx: QueryCtx,
+  bookmark: Doc<"user_bookmarks">,
+  userId: Id<"users">
+): Promise<boolean> {
+  if (bookmark.userId === userId) return true;
+
+  const visibility = bookmark.visibility ?? "private";
+  if (visibility === "private" || !bookmark.organizationId) return false;
+  if (visibility === "shared" && !bookmark.sharedWithUserIds?.includes(userId)) {
+    return false;
+  }
+  return (await findMembership(ctx, userId, bookmark.organizationId)) !== null;
+}
+
+/**
+ * Whether a user can follow a bookmark's results in an organization: they are
+ * still a member there and can still read the bookmark. Rechecked whenever
+ * alerts are evaluated, since sharing and membership change after subscribing.
+ */
+export async function canFollowBookmark(
+  ctx: QueryCtx,
+  bookmark: Doc<"user_bookmarks">,
+  userId: Id<"users">,
+  organizationId: Id<"organizations">
+): Promise<boolean> {
+  if (bookmark.organizationId && bookmark.organizationId !== organizationId) return false;
+  if (!(await findMembership(ctx, userId, organizationId))) return false;
+  return await canReadBookmark(ctx, bookmark, userId);
+}
+
+/**
+ * Require access to a bookmark.
+ * Read: the owner, or a teammate it is shared with (see canReadBookmark).
+ * Write: the owner only.
+ */
+export async function requireBookmarkAccess(
+  ctx: QueryCtx,
+  bookmarkId: Id<"user_bookmarks">,
+  mode: "read" | "write"
+): Promise<{ user: Doc<"users">; bookmark: Doc<"user_bookmarks"> }> {
+  const bookmark = await ctx.db.get(bookmarkId);
+  if (!bookmark) {
+    throw new Error("Bookmark not found");
+  }
+
+  const user = await requireCurrentUser(ctx);
+  const allowed =
+    mode === "write"
+      ? bookmark.userId === user._id
+      : await canReadBookmark(ctx, bookmark, user._id);
+  if (!allowed) {
+    throw new Error("Access denied");
+  }
+
+  return { user, bookmark };
+}
@@ -1,5 +1,10 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import {
+  requireBoardAccess,
+  requireCurrentUser,
+  requireSelfInOrg,
+} from "./authorization";
 
 // Query to get all boards for user in current organization
 export const getBoardsByUserAndOrg = query({
@@ -8,6 +13,8 @@ export const getBoardsByUserAndOrg = query({
     organizationId: v.id("organizations") 
   },
   handler: async (ctx, args) => {
+    await requireSelfInOrg(ctx, args.userId, args.organizationId);
+
     const boards = await ctx.db
       .query("boards")
       .filter((q) => 
@@ -30,6 +37,8 @@ export const getPinnedBoards = query({
     organizationId: v.id("organizations") 
   },
   handler: async (ctx, args) => {
+    await requireSelfInOrg(ctx, args.userId, args.organizationId);
+
     const pinnedBoardRecords = await ctx.db
       .query("pinned_boards")
       .filter((q) => 
@@ -47,7 +56,12 @@ export const getPinnedBoards = query({
         .sort((a, b) => a.order - b.order) // Ensure correct ordering
         .map(async (pinned) => {
           const board = await ctx.db.get(pinned.boardId);
-          return board ? { ...board, pinOrder: pinned.order } : null;
+          if (!board) return null;
+          // Skip boards that have since been made private by their owner
+          if (board.userId !== args.userId && board.visibility !== "org_view") {
+            return null;
+          }
+          return { ...board, pinOrder: pinned.order };
         })
     );
 
@@ -60,6 +74,9 @@ export const getBoardById = query({
   args: { boardId: v.id("boards") },
   handler: async (ctx, args) => {
     const board = await ctx.db.get(args.boardId);
+    if (!board) return null;
+
+    await requireBoardAccess(ctx, args.boardId, "read");
     return board;
   },
 });
@@ -73,6 +90,8 @@ export const createBoard = mutation({
     visibility: v.optional(v.union(v.literal("private"), v.literal("org_view"))),
   },
   handler: async (ctx, args) => {
+    await requireSelfInOrg(ctx, args.userId, args.organizationId);
+
     const now = Date.now();
 
     const boardId = await ctx.db.insert("boards", {
@@ -97,6 +116,8 @@ export const updateBoard = mutation({
     visibility: v.optional(v.union(v.literal("private"), v.literal("org_view"))),
   },
   handler: async (ctx, args) => {
+    await requireBoardAccess(ctx, args.boardId, "write");
+
     const updates: Partial<{
       title: string;
       description: string;
@@ -118,6 +139,8 @@ export const updateBoard = mutation({
 export const deleteBoard = mutation({
   args: { boardId: v.id("boards") },
   handler: async (ctx, args) => {
+    await requireBoardAccess(ctx, args.boardId, "write");
+
     // First, remove any pinned_boards references
     const pinnedRecords = await ctx.db
       .query("pinned_boards")
@@ -141,6 +164,14 @@ export const pinBoard = mutation({
     organizationId: v.id("organizations"),
   },
   handler: async (ctx, args) => {
+    await requireSelfInOrg(ctx, args.userId, args.organizationId);
+
+    // Only boards the user can see in this organization can be pinned
+    const { board } = await requireBoardAccess(ctx, args.boardId, "read");
+    if (board.organizationId !== args.organizationId) {
+      throw new Error("Access denied");
+    }
+
     // Check if already pinned
     const existingPin = await ctx.db
       .query("pinned_boards")
@@ -191,6 +222,8 @@ export const unpinBoard = mutation({
     organizationId: v.id("organizations"),
   },
   handler: async (ctx, args) => {
+    await requireSelfInOrg(ctx, args.userId, args.organizationId);
+
     const pinned = await ctx.db
       .query("pinned_boards")
       .filter((q) => 
@@ -234,6 +267,8 @@ export const getBoardsSharedWithOrg = query({
     organizationId: v.id("organizations"),
   },
   handler: async (ctx, args) => {
+    await requireSelfInOrg(ctx, args.userId, args.organizationId);
+
     const boards = await ctx.db
       .query("boards")
       .filter((q) =>
@@ -254,6 +289,8 @@ export const getBoardsSharedWithOrg = query({
 export const seedTestBoard = mutation({
   args: {},
   handler: async (ctx) => {
+    await requireCurrentUser(ctx);
+
     const user = await ctx.db.query("users").first();
     const org = await ctx.db.query("organizations").first();
     if (!user || !org) throw new Error("No user or org found");
@@ -290,8 +327,13 @@ export const duplicateBoard = mutation({
     organizationId: v.id("organizations"),
   },
   handler: async (ctx, args) => {
-    const source = await ctx.db.get(args.boardId);
-    if (!source) throw new Error("Board not found");
+    await requireSelfInOrg(ctx, args.userId, args.organizationId);
+
+    // Boards cannot be copied across organizations
+    const { board: source } = await requireBoardAccess(ctx, args.boardId, "read");
+    if (source.organizationId !== args.organizationId) {
+      throw new Error("Access denied");
+    }
 
     const now = Date.now();
     const newBoardId = await ctx.db.insert("boards", {
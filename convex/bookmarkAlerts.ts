@@ -0,0 +1,198 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import {
+  canFollowBookmark,
+  getCurrentAppUser,
+  requireBookmarkAccess,
+  requireCurrentUser,
+} from "./authorization";
+import { matchBookmarkFixtureIds } from "./fixtures";
+import { createNotification } from "./notifications";
+
+// ============================================================================
+// SAVED-VIEW ALERTS
+// ============================================================================
+// Users subscribe to a Fixtures bookmark (their own or one shared with them)
+// and are notified in-app, and optionally by email, when fixtures start or
+// stop matching it. A cron re-evaluates every subscription against the
+// bookmark's current filters and diffs the matched fixtures with the last run.
+
+// Matched fixture IDs kept on an alert, well under Convex's array limit
+const STORED_MATCH_LIMIT = 5000;
+
+// Fixture numbers listed in a notification before summarizing the rest
+const LISTED_FIXTURES = 5;
+
+const describeFixtures = (fixtureNumbers: string[]) =>
+  fixtureNumbers.length > LISTED_FIXTURES
+    ? `${fixtureNumbers.slice(0, LISTED_FIXTURES).join(", ")} and ${fixtureNumbers.length - LISTED_FIXTURES} more`
+    : fixtureNumbers.join(", ");
+
+// The current user's alerts in an organization
+export const listMine = query({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentAppUser(ctx);
+    if (!user) return [];
+
+    const alerts = await ctx.db
+      .query("bookmark_alerts")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    return alerts
+      .filter((alert) => alert.organizationId === args.organizationId)
+      .map((alert) => ({
+        bookmarkId: alert.bookmarkId,
+        emailEnabled: alert.emailEnabled,
+        lastEvaluatedAt: alert.lastEvaluatedAt,
+      }));
+  },
+});
+
+// Subscribe to a bookmark, or change whether its alerts are also emailed
+export const subscribe = mutation({
+  args: {
+    bookmarkId: v.id("user_bookmarks"),
+    organizationId: v.id("organizations"),
+    emailEnabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const { user, bookmark } = await requireBookmarkAccess(ctx, args.bookmarkId, "read");
+    if ((bookmark.page ?? "fixtures") !== "fixtures") {
+      throw new Error("Alerts are only available for Fixtures bookmarks");
+    }
+    if (!(await canFollowBookmark(ctx, bookmark, user._id, args.organizationId))) {
+      throw new Error("Access denied");
+    }
+
+    const existing = await ctx.db
+      .query("bookmark_alerts")
+      .withIndex("by_user_bookmark", (q) => q.eq("userId", user._id).eq("bookmarkId", args.bookmarkId))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { emailEnabled: args.emailEnabled });
+      return existing._id;
+    }
+
+    const alertId = await ctx.db.insert("bookmark_alerts", {
+      bookmarkId: args.bookmarkId,
+      userId: user._id,
+      organizationId: args.organizationId,
+      emailEnabled: args.emailEnabled,
+      createdAt: Date.now(),
+    });
+
+    // Record what matches now, so only later changes notify
+    await ctx.scheduler.runAfter(0, internal.bookmarkAlerts.evaluate, { alertId });
+    return alertId;
+  },
+});
+
+export const unsubscribe = mutation({
+  args: { bookmarkId: v.id("user_bookmarks") },
+  handler: async (ctx, args) => {
+    const user = await requireCurrentUser(ctx);
+    const existing = await ctx.db
+      .query("bookmark_alerts")
+      .withIndex("by_user_bookmark", (q) => q.eq("userId", user._id).eq("bookmarkId", args.bookmarkId))
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+// Re-evaluate one alert: diff the fixtures matching its bookmark with the
+// last evaluation and notify the subscriber of any that entered or left
+export const evaluate = internalMutation({
+  args: { alertId: v.id("bookmark_alerts") },
+  handler: async (ctx, args) => {
+    const alert = await ctx.db.get(args.alertId);
+    if (!alert) return;
+
+    // Drop alerts whose bookmark is gone or no longer visible to the subscriber
+    const bookmark = await ctx.db.get(alert.bookmarkId);
+    if (!bookmark || !(await canFollowBookmark(ctx, bookmark, alert.userId, alert.organizationId))) {
+      await ctx.db.delete(alert._id);
+      return;
+    }
+
+    const { fixtureIds, isComplete } = await matchBookmarkFixtureIds(ctx, bookmark, alert.organizationId);
+    const now = Date.now();
+
+    // The first evaluation is the baseline
+    if (alert.matchedFixtureIds === undefined) {
+      await ctx.db.patch(alert._id, {
+        matchedFixtureIds: fixtureIds.slice(0, STORED_MATCH_LIMIT),
+        lastEvaluatedAt: now,
+      });
+      return;
+    }
+
+    // A truncated match can't tell which fixtures left, so it keeps the
+    // previous ones after the current (most recently updated) matches, up to
+    // the stored limit
+    const previous = new Set<Id<"fixtures">>(alert.matchedFixtureIds);
+    const current = new Set<Id<"fixtures">>(fixtureIds);
+    const entered = fixtureIds.filter((id) => !previous.has(id));
+    const left = isComplete ? alert.matchedFixtureIds.filter((id) => !current.has(id)) : [];
+    const matched = (
+      isComplete ? fixtureIds : [...new Set([...fixtureIds, ...alert.matchedFixtureIds])]
+    ).slice(0, STORED_MATCH_LIMIT);
+
+    await ctx.db.patch(alert._id, { matchedFixtureIds: matched, lastEvaluatedAt: now });
+    if (entered.length === 0 && left.length === 0) return;
+
+    const fixtureNumbers = async (ids: Id<"fixtures">[]) =>
+      (await Promise.all(ids.map((id) => ctx.db.get(id))))
+        .filter((fixture) => fixture !== null)
+        .map((fixture) => fixture.fixtureNumber);
+    const enteredNumbers = await fixtureNumbers(entered);
+    // Fixtures that left because they were deleted have no number to show
+    const leftNumbers = await fixtureNumbers(left);
+    if (enteredNumbers.length === 0 && leftNumbers.length === 0) return;
+
+    const lines: string[] = [];
+    if (enteredNumbers.length > 0) lines.push(`Now matching: ${describeFixtures(enteredNumbers)}`);
+    if (leftNumbers.length > 0) lines.push(`No longer matching: ${describeFixtures(leftNumbers)}`);
+
+    await createNotification(ctx, {
+      userId: alert.userId,
+      organizationId: alert.organizationId,
+      type: "bookmark_alert",
+      title: `Changes in "${bookmark.name}"`,
+      body: lines.join("\n"),
+      link: `/fixtures?bk=${bookmark._id}`,
+      bookmarkId: bookmark._id,
+      fixtureIds: [...entered, ...left],
+    });
+
+    if (alert.emailEnabled) {
+      const user = await ctx.db.get(alert.userId);
+      if (user) {
+        await ctx.scheduler.runAfter(0, internal.email.sendBookmarkAlertEmail, {
+          toEmail: user.email,
+          userName: user.name,
+          bookmarkId: bookmark._id,
+          bookmarkName: bookmark.name,
+          enteredFixtureNumbers: enteredNumbers,
+          leftFixtureNumbers: leftNumbers,
+        });
+      }
+    }
+  },
+});
+
+// Schedule an evaluation of every alert, each in its own transaction
+export const evaluateAll = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const alerts = await ctx.db.query("bookmark_alerts").collect();
+    for (const alert of alerts) {
+      await ctx.scheduler.runAfter(0, internal.bookmarkAlerts.evaluate, { alertId: alert._id });
+    }
+    return { scheduled: alerts.length };
+  },
+});
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import type { MutationCtx } from "./_generated/server";
+import { requirePermissionInAnyOrg } from "./authorization";
 
 // Internal seed function that can be called from other mutations
 export const seedCargoTypesInternal = async (ctx: MutationCtx) => {
@@ -127,6 +128,8 @@ export const create = mutation({
     unitType: v.union(v.literal("mt"), v.literal("cbm"), v.literal("teu")),
   },
   handler: async (ctx, args) => {
+    await requirePermissionInAnyOrg(ctx, "edit-reference-data");
+
     const cargoTypeId = await ctx.db.insert("cargo_types", {
       name: args.name,
       category: args.category,
@@ -162,6 +165,8 @@ export const update = mutation({
     isActive: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    await requirePermissionInAnyOrg(ctx, "edit-reference-data");
+
     const { id, ...updates } = args;
     await ctx.db.patch(id, updates);
     return id;
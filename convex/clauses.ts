@@ -0,0 +1,647 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { logActivity } from "./audit";
+import {
+  getCurrentAppUser,
+  requireAddendaAccess,
+  requireContractAccess,
+  requireOrgMember,
+  requirePlatformAdmin,
+  requireRecapAccess,
+} from "./authorization";
+import { markCpDocumentStale } from "./cpDocuments";
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+export const clauseCategoryValidator = v.union(
+  v.literal("general"),
+  v.literal("laytime"),
+  v.literal("payment"),
+  v.literal("cargo"),
+  v.literal("liabilities"),
+  v.literal("war-risks"),
+  v.literal("sanctions"),
+  v.literal("environmental"),
+  v.literal("law-arbitration")
+);
+
+export type ClauseCategory = Infer<typeof clauseCategoryValidator>;
+
+// Where a clause can be inserted: the CP itself or one of its addenda
+export const clauseTargetValidator = v.union(
+  v.object({ type: v.literal("contract"), contractId: v.id("contracts") }),
+  v.object({ type: v.literal("recap"), recapId: v.id("recap_managers") }),
+  v.object({
+    type: v.literal("contract-addenda"),
+    addendaId: v.id("contract_addenda"),
+  }),
+  v.object({
+    type: v.literal("recap-addenda"),
+    addendaId: v.id("recap_addenda"),
+  })
+);
+
+type ClauseTarget = Infer<typeof clauseTargetValidator>;
+type ClauseReference = NonNullable<Doc<"contracts">["clauses"]>[number];
+
+// ============================================================================
+// STANDARD CLAUSES
+// ============================================================================
+
+const STANDARD_CLAUSES: Array<{
+  title: string;
+  category: ClauseCategory;
+  tags: string[];
+  text: string;
+}> = [
+  {
+    title: "War Risks Clause",
+    category: "war-risks",
+    tags: ["voyage", "time-charter", "bimco"],
+    text: "The Master and the Owners shall not be obliged to proceed to or remain at any port, place, area or zone which, in the reasonable judgement of the Master or the Owners, is or may become dangerous to the Vessel, her cargo, crew or other persons on board due to war, warlike operations, piracy, terrorism or civil commotion. Any additional war risk premiums and crew bonuses incurred shall be reimbursed by the Charterers.",
+  },
+  {
+    title: "Sanctions Clause",
+    category: "sanctions",
+    tags: ["voyage", "time-charter", "bimco", "compliance"],
+    text: "The Owners shall not be obliged to comply with any orders for the employment of the Vessel in any carriage, trade or on a voyage which would expose the Vessel, the Owners, managers, crew or insurers to any sanction or prohibition imposed by a State, Supranational or International Governmental Organisation. Should the Vessel already be performing such an order, the Owners may refuse to proceed and the Charterers shall issue alternative voyage orders.",
+  },
+  {
+    title: "Ice Clause",
+    category: "general",
+    tags: ["voyage", "bimco", "trading-limits"],
+    text: "The Vessel shall not be obliged to force ice or to follow icebreakers. If on account of ice the Master considers it dangerous to remain at the loading or discharging place for fear of the Vessel being frozen in or damaged, he shall be at liberty to leave with cargo on board and proceed to the nearest safe and ice-free port.",
+  },
+  {
+    title: "Both-to-Blame Collision Clause",
+    category: "liabilities",
+    tags: ["voyage", "bills-of-lading"],
+    text: "If the Vessel comes into collision with another vessel as a result of the negligence of the other vessel and any act, neglect or default of the Master, mariner, pilot or the servants of the Carrier in the navigation or management of the Vessel, the owners of the cargo carried hereunder will indemnify the Carrier against all loss or liability to the other or non-carrying vessel or her owners.",
+  },
+  {
+    title: "General Average and New Jason Clause",
+    category: "liabilities",
+    tags: ["voyage", "time-charter", "york-antwerp"],
+    text: "General Average shall be adjusted, stated and settled in London according to the York-Antwerp Rules 2016. Cargo's contribution to General Average shall be paid to the Owners even when the average is the result of a fault, neglect or error of the Master, Pilot or Crew.",
+  },
+  {
+    title: "Laytime Commencement Clause",
+    category: "laytime",
+    tags: ["voyage", "notice-of-readiness"],
+    text: "Laytime shall commence at 13:00 hours if Notice of Readiness is given up to and including 12:00 hours, and at 06:00 hours next working day if notice is given during office hours after 12:00 hours, whether in berth or not, whether in port or not, whether in free pratique or not and whether customs cleared or not.",
+  },
+  {
+    title: "Freight Payment Clause",
+    category: "payment",
+    tags: ["voyage"],
+    text: "Freight shall be paid in full without discount within five banking days after completion of loading and signing of Bills of Lading marked \"Freight payable as per Charter Party\", deemed earned as cargo is loaded and non-returnable, vessel and/or cargo lost or not lost.",
+  },
+  {
+    title: "Hague-Visby Cargo Claims Clause",
+    category: "cargo",
+    tags: ["voyage", "bills-of-lading", "claims"],
+    text: "All Bills of Lading issued under this Charter Party shall be subject to the Hague-Visby Rules. Cargo claims as between the Owners and the Charterers shall be settled in accordance with the Inter-Club New York Produce Exchange Agreement as amended from time to time.",
+  },
+  {
+    title: "Emission Control Area Clause",
+    category: "environmental",
+    tags: ["time-charter", "voyage", "bunkers", "marpol"],
+    text: "The Charterers shall supply fuels of such specifications and grades as to permit the Vessel, at all times, to comply with the maximum sulphur content requirements of any Emission Control Area within which the Vessel is ordered to trade. The Owners shall ensure the Vessel is able to consume such fuels.",
+  },
+  {
+    title: "Law and Arbitration Clause",
+    category: "law-arbitration",
+    tags: ["voyage", "time-charter", "lmaa", "english-law"],
+    text: "This Charter Party shall be governed by and construed in accordance with English law and any dispute arising out of or in connection with it shall be referred to arbitration in London in accordance with the Arbitration Act 1996 and the London Maritime Arbitrators Association Terms current at the time when the arbitration proceedings are commenced.",
+  },
+];
+
+// Internal seed function that can be called from other mutations
+export const seedStandardClausesInternal = async (ctx: MutationCtx) => {
+  const now = Date.now();
+
+  const existing = await ctx.db
+    .query("clauses")
+    .withIndex("by_organization", (q) => q.eq("organizationId", undefined))
+    .collect();
+  const existingTitles = new Set(existing.map((clause) => clause.title));
+
+  let created = 0;
+  for (const clause of STANDARD_CLAUSES) {
+    if (existingTitles.has(clause.title)) continue;
+
+    const clauseId = await ctx.db.insert("clauses", {
+      ...clause,
+      currentVersion: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert("clause_versions", {
+      clauseId,
+      version: 1,
+      title: clause.title,
+      text: clause.text,
+      createdAt: now,
+    });
+    created++;
+  }
+
+  return {
+    success: true,
+    message: `Successfully seeded ${created} standard clauses`,
+  };
+};
+
+// Seed function to populate the standard rider clauses
+export const seedStandardClauses = mutation({
+  args: {},
+  handler: seedStandardClausesInternal,
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Require the right to edit a clause: the owning org's "edit-contracts"
+ * for custom clauses. Standard clauses are shared by every organization,
+ * so only platform admins may change them.
+ */
+async function requireClauseEditAccess(
+  ctx: QueryCtx,
+  clauseId: Id<"clauses">
+): Promise<{ user: Doc<"users">; clause: Doc<"clauses"> }> {
+  const clause = await ctx.db.get(clauseId);
+  if (!clause) {
+    throw new Error("Clause not found");
+  }
+
+  if (clause.organizationId) {
+    const { user } = await requireOrgMember(ctx, clause.organizationId, "edit-contracts");
+    return { user, clause };
+  }
+
+  const user = await requirePlatformAdmin(ctx);
+  return { user, clause };
+}
+
+/**
+ * Load a contract, recap or addendum a clause is being inserted into,
+ * after checking the caller may edit it. Final and signed charter parties
+ * and addenda are locked: signers are bound to the clauses they saw.
+ */
+async function requireClauseTarget(ctx: MutationCtx, target: ClauseTarget) {
+  switch (target.type) {
+    case "contract": {
+      const { user, membership, contract } = await requireContractAccess(
+        ctx,
+        target.contractId,
+        "edit-contracts"
+      );
+      if (contract.status === "final") {
+        throw new Error("A final contract's clauses cannot be changed");
+      }
+      const signatures = await ctx.db
+        .query("contract_signatures")
+        .withIndex("by_contract", (q) => q.eq("contractId", target.contractId))
+        .collect();
+      if (contract.fullySignedDate || signatures.some((s) => s.status === "signed")) {
+        throw new Error("A signed contract's clauses cannot be changed");
+      }
+      return { user, membership, doc: contract };
+    }
+    case "recap": {
+      const { user, membership, recap } = await requireRecapAccess(
+        ctx,
+        target.recapId,
+        "edit-contracts"
+      );
+      return { user, membership, doc: recap };
+    }
+    case "contract-addenda":
+    case "recap-addenda": {
+      const { user, membership } = await requireAddendaAccess(
+        ctx,
+        target.addendaId,
+        target.type === "contract-addenda" ? "contract" : "recap",
+        "edit-contracts"
+      );
+      const doc = await ctx.db.get(target.addendaId);
+      if (!doc) {
+        throw new Error("Addendum not found");
+      }
+      if (doc.status === "final") {
+        throw new Error("A final addendum cannot be changed");
+      }
+      const signatures = await ctx.db
+        .query("addenda_signatures")
+        .withIndex("by_addenda", (q) => q.eq("addendaId", target.addendaId))
+        .collect();
+      if (signatures.some((s) => s.status === "signed")) {
+        throw new Error("A signed addendum cannot be changed");
+      }
+      return { user, membership, doc };
+    }
+  }
+}
+
+// Save a target's clause list, flagging any generated CP document for regeneration
+async function saveClauseReferences(
+  ctx: MutationCtx,
+  target: ClauseTarget,
+  clauses: ClauseReference[]
+) {
+  const now = Date.now();
+  switch (target.type) {
+    case "contract": {
+      const contract = await ctx.db.get(target.contractId);
+      await ctx.db.patch(target.contractId, {
+        clauses,
+        updatedAt: now,
+      });
+      if (contract?.fullCpChainStorageId) {
+        await markCpDocumentStale(ctx, { contractId: target.contractId });
+      }
+      return;
+    }
+    case "recap": {
+      const recap = await ctx.db.get(target.recapId);
+      await ctx.db.patch(target.recapId, {
+        clauses,
+        updatedAt: now,
+      });
+      if (recap?.fullCpChainStorageId) {
+        await markCpDocumentStale(ctx, { recapId: target.recapId });
+      }
+      return;
+    }
+    case "contract-addenda":
+    case "recap-addenda":
+      await ctx.db.patch(target.addendaId, { clauses, updatedAt: now });
+      return;
+  }
+}
+
+// Record clause changes on the contract or recap's activity log
+async function logClauseActivity(
+  ctx: MutationCtx,
+  target: ClauseTarget,
+  action: string,
+  description: string,
+  userId: Id<"users">
+) {
+  if (target.type === "contract") {
+    await logActivity(ctx, "contract", target.contractId, action, description, undefined, undefined, userId);
+  } else if (target.type === "recap") {
+    await logActivity(ctx, "recap_manager", target.recapId, action, description, undefined, undefined, userId);
+  }
+}
+
+/**
+ * Resolve a contract's or addendum's clause references to the agreed
+ * version's title and text
+ */
+export async function resolveClauseReferences(
+  ctx: QueryCtx,
+  references: ClauseReference[] | undefined
+) {
+  const resolved = await Promise.all(
+    (references ?? []).map(async (reference) => {
+      const clause = await ctx.db.get(reference.clauseId);
+      if (!clause) return null;
+
+      const version = await ctx.db
+        .query("clause_versions")
+        .withIndex("by_clause_and_version", (q) =>
+          q.eq("clauseId", reference.clauseId).eq("version", reference.version)
+        )
+        .first();
+
+      return {
+        ...reference,
+        title: version?.title ?? clause.title,
+        text: version?.text ?? clause.text,
+        category: clause.category,
+        isLatestVersion: reference.version === clause.currentVersion,
+      };
+    })
+  );
+  return resolved.filter((clause) => clause !== null);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+// List standard clauses and the organization's custom clauses
+export const list = query({
+  args: {
+    organizationId: v.id("organizations"),
+    search: v.optional(v.string()),
+    category: v.optional(clauseCategoryValidator),
+    tag: v.optional(v.string()),
+    source: v.optional(v.union(v.literal("standard"), v.literal("custom"))),
+  },
+  handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
+    const standard =
+      args.source === "custom"
+        ? []
+        : await ctx.db
+            .query("clauses")
+            .withIndex("by_organization", (q) => q.eq("organizationId", undefined))
+            .collect();
+    const custom =
+      args.source === "standard"
+        ? []
+        : await ctx.db
+            .query("clauses")
+            .withIndex("by_organization", (q) =>
+              q.eq("organizationId", args.organizationId)
+            )
+            .collect();
+
+    const search = args.search?.trim().toLowerCase();
+
+    return [...standard, ...custom]
+      .filter((clause) => !clause.isArchived)
+      .filter((clause) => !args.category || clause.category === args.category)
+      .filter((clause) => !args.tag || clause.tags.includes(args.tag))
+      .filter(
+        (clause) =>
+          !search ||
+          clause.title.toLowerCase().includes(search) ||
+          clause.text.toLowerCase().includes(search) ||
+          clause.tags.some((tag) => tag.toLowerCase().includes(search))
+      )
+      .sort((a, b) => a.title.localeCompare(b.title));
+  },
+});
+
+// Whether the caller may edit standard clauses, to show their edit controls
+export const canEditStandard = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentAppUser(ctx);
+    return user?.platformRole === "admin";
+  },
+});
+
+// Get a clause with its full version history, newest first
+export const getById = query({
+  args: { clauseId: v.id("clauses") },
+  handler: async (ctx, args) => {
+    const clause = await ctx.db.get(args.clauseId);
+    if (!clause) {
+      return null;
+    }
+
+    if (clause.organizationId) {
+      await requireOrgMember(ctx, clause.organizationId);
+    }
+
+    const versions = await ctx.db
+      .query("clause_versions")
+      .withIndex("by_clause_and_version", (q) => q.eq("clauseId", args.clauseId))
+      .order("desc")
+      .collect();
+
+    const versionsWithUsers = await Promise.all(
+      versions.map(async (version) => {
+        const user = version.createdBy ? await ctx.db.get(version.createdBy) : null;
+        return {
+          ...version,
+          user: user ? { name: user.name } : null,
+        };
+      })
+    );
+
+    return { ...clause, versions: versionsWithUsers };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+// Create an organization custom clause
+export const create = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    title: v.string(),
+    category: clauseCategoryValidator,
+    tags: v.array(v.string()),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireOrgMember(ctx, args.organizationId, "edit-contracts");
+
+    const title = args.title.trim();
+    const text = args.text.trim();
+    if (!title || !text) {
+      throw new Error("Clause title and text are required");
+    }
+
+    const now = Date.now();
+    const clauseId = await ctx.db.insert("clauses", {
+      organizationId: args.organizationId,
+      title,
+      category: args.category,
+      tags: args.tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean),
+      text,
+      currentVersion: 1,
+      createdBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.insert("clause_versions", {
+      clauseId,
+      version: 1,
+      title,
+      text,
+      createdBy: user._id,
+      createdAt: now,
+    });
+
+    return clauseId;
+  },
+});
+
+// Update a clause. Changing the title or text creates a new version;
+// contracts keep referencing the version they agreed.
+export const update = mutation({
+  args: {
+    clauseId: v.id("clauses"),
+    title: v.optional(v.string()),
+    category: v.optional(clauseCategoryValidator),
+    tags: v.optional(v.array(v.string())),
+    text: v.optional(v.string()),
+    changeNote: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user, clause } = await requireClauseEditAccess(ctx, args.clauseId);
+
+    const title = args.title?.trim() || clause.title;
+    const text = args.text?.trim() || clause.text;
+    const isNewVersion = title !== clause.title || text !== clause.text;
+
+    const now = Date.now();
+    const currentVersion = isNewVersion ? clause.currentVersion + 1 : clause.currentVersion;
+
+    await ctx.db.patch(args.clauseId, {
+      title,
+      text,
+      category: args.category ?? clause.category,
+      tags: args.tags
+        ? args.tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)
+        : clause.tags,
+      currentVersion,
+      updatedAt: now,
+    });
+
+    if (isNewVersion) {
+      await ctx.db.insert("clause_versions", {
+        clauseId: args.clauseId,
+        version: currentVersion,
+        title,
+        text,
+        changeNote: args.changeNote?.trim() || undefined,
+        createdBy: user._id,
+        createdAt: now,
+      });
+    }
+
+    return currentVersion;
+  },
+});
+
+// Archive a clause so it no longer appears in the library.
+// Contracts that already reference it keep their agreed version.
+export const archive = mutation({
+  args: { clauseId: v.id("clauses") },
+  handler: async (ctx, args) => {
+    await requireClauseEditAccess(ctx, args.clauseId);
+
+    await ctx.db.patch(args.clauseId, {
+      isArchived: true,
+      updatedAt: Date.now(),
+    });
+
+    return args.clauseId;
+  },
+});
+
+// Insert a clause's current version into a contract, recap or addendum.
+// A clause already on the list is moved up to its current version in place.
+export const insertIntoContract = mutation({
+  args: {
+    clauseId: v.id("clauses"),
+    target: clauseTargetValidator,
+  },
+  handler: async (ctx, args) => {
+    const { user, membership, doc } = await requireClauseTarget(ctx, args.target);
+
+    const clause = await ctx.db.get(args.clauseId);
+    if (!clause || clause.isArchived) {
+      throw new Error("Clause not found");
+    }
+    if (clause.organizationId && clause.organizationId !== membership.organizationId) {
+      throw new Error("Access denied: clause belongs to another organization");
+    }
+
+    const reference = {
+      clauseId: args.clauseId,
+      version: clause.currentVersion,
+      addedAt: Date.now(),
+    };
+
+    const clauses = doc.clauses ?? [];
+    const index = clauses.findIndex((existing) => existing.clauseId === args.clauseId);
+    if (index >= 0 && clauses[index].version === clause.currentVersion) {
+      throw new Error("Clause is already included");
+    }
+
+    const updated =
+      index >= 0
+        ? clauses.map((existing, i) => (i === index ? reference : existing))
+        : [...clauses, reference];
+
+    await saveClauseReferences(ctx, args.target, updated);
+    await logClauseActivity(
+      ctx,
+      args.target,
+      "clause-added",
+      index >= 0
+        ? `Updated ${clause.title} to version ${clause.currentVersion}`
+        : `Added ${clause.title} (version ${clause.currentVersion})`,
+      user._id
+    );
+
+    return updated.length;
+  },
+});
+
+// Remove a clause from a contract, recap or addendum
+export const removeFromContract = mutation({
+  args: {
+    clauseId: v.id("clauses"),
+    target: clauseTargetValidator,
+  },
+  handler: async (ctx, args) => {
+    const { user, doc } = await requireClauseTarget(ctx, args.target);
+
+    const clauses = doc.clauses ?? [];
+    const updated = clauses.filter((existing) => existing.clauseId !== args.clauseId);
+    if (updated.length === clauses.length) {
+      throw new Error("Clause is not included");
+    }
+
+    await saveClauseReferences(ctx, args.target, updated);
+
+    const clause = await ctx.db.get(args.clauseId);
+    await logClauseActivity(
+      ctx,
+      args.target,
+      "clause-removed",
+      `Removed ${clause?.title ?? "clause"}`,
+      user._id
+    );
+
+    return updated.length;
+  },
+});
+
+// Move a clause one place up or down in a contract, recap or addendum
+export const moveInContract = mutation({
+  args: {
+    clauseId: v.id("clauses"),
+    target: clauseTargetValidator,
+    direction: v.union(v.literal("up"), v.literal("down")),
+  },
+  handler: async (ctx, args) => {
+    const { doc } = await requireClauseTarget(ctx, args.target);
+
+    const clauses = [...(doc.clauses ?? [])];
+    const index = clauses.findIndex((existing) => existing.clauseId === args.clauseId);
+    if (index < 0) {
+      throw new Error("Clause is not included");
+    }
+
+    const swapWith = args.direction === "up" ? index - 1 : index + 1;
+    if (swapWith < 0 || swapWith >= clauses.length) {
+      return index;
+    }
+
+    [clauses[index], clauses[swapWith]] = [clauses[swapWith], clauses[index]];
+    await saveClauseReferences(ctx, args.target, clauses);
+
+    return swapWith;
+  },
+});
@@ -0,0 +1,544 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { logActivity } from "./audit";
+import { requireContractAccess, requireRecapAccess } from "./authorization";
+import type { OrgAccess } from "./authorization";
+import type { Permission } from "./permissions";
+
+// ============================================================================
+// CONTRACTS OF AFFREIGHTMENT
+// ============================================================================
+// A COA contract or recap carries its period, number of liftings and quantity
+// tolerance. The lifting schedule splits the period into one window per
+// lifting, each a voyage row with vessel and laycan nomination deadlines.
+// Completed voyages record the quantity shipped, and a daily cron flags
+// under- or over-lifting as the COA period comes to an end.
+
+export const coaTermsValidator = v.object({
+  periodStart: v.number(),
+  periodEnd: v.number(),
+  liftings: v.number(), // Number of voyages over the period
+  tolerancePercent: v.number(), // Quantity tolerance either way, e.g. 10 for ±10%
+  vesselNominationDays: v.number(), // Days before a lifting window the vessel is due
+  laycanNominationDays: v.number(), // Days before a lifting window the laycan is due
+});
+
+export type CoaTerms = Infer<typeof coaTermsValidator>;
+
+export const liftingFlagValidator = v.union(
+  v.literal("on-track"),
+  v.literal("under-lifting"),
+  v.literal("over-lifting")
+);
+
+export type LiftingFlag = Infer<typeof liftingFlagValidator>;
+
+// Voyage statuses, stored as voyages.status
+export type VoyageStatus = "scheduled" | "nominated" | "completed" | "cancelled";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Positions are flagged from this long before the period ends
+const FLAG_WINDOW_MS = 30 * DAY_MS;
+
+type CoaSubject =
+  | { type: "contract"; deal: Doc<"contracts"> }
+  | { type: "recap"; deal: Doc<"recap_managers"> };
+
+type CoaArgs = { contractId?: Id<"contracts">; recapId?: Id<"recap_managers"> };
+
+async function requireCoaAccess(
+  ctx: QueryCtx,
+  args: CoaArgs,
+  permission?: Permission
+): Promise<OrgAccess & CoaSubject> {
+  let access: OrgAccess & CoaSubject;
+  if (args.contractId) {
+    const { contract, ...rest } = await requireContractAccess(ctx, args.contractId, permission);
+    access = { ...rest, type: "contract", deal: contract };
+  } else if (args.recapId) {
+    const { recap, ...rest } = await requireRecapAccess(ctx, args.recapId, permission);
+    access = { ...rest, type: "recap", deal: recap };
+  } else {
+    throw new Error("contractId or recapId is required");
+  }
+
+  if (access.deal.contractType !== "coa") {
+    throw new Error("Only a contract of affreightment has a lifting schedule");
+  }
+  return access;
+}
+
+async function listVoyages(ctx: QueryCtx, subject: CoaSubject) {
+  const voyages =
+    subject.type === "contract"
+      ? await ctx.db
+          .query("voyages")
+          .withIndex("by_contract", (q) => q.eq("parentContractId", subject.deal._id))
+          .collect()
+      : await ctx.db
+          .query("voyages")
+          .withIndex("by_recap", (q) => q.eq("parentRecapId", subject.deal._id))
+          .collect();
+  return voyages.sort((a, b) => a.voyageNumber - b.voyageNumber);
+}
+
+async function requireVoyageAccess(
+  ctx: QueryCtx,
+  voyageId: Id<"voyages">,
+  permission?: Permission
+) {
+  const voyage = await ctx.db.get(voyageId);
+  if (!voyage) {
+    throw new Error("Voyage not found");
+  }
+
+  const access = await requireCoaAccess(
+    ctx,
+    { contractId: voyage.parentContractId, recapId: voyage.parentRecapId },
+    permission
+  );
+  return { ...access, voyage };
+}
+
+async function logCoaActivity(
+  ctx: MutationCtx,
+  subject: CoaSubject,
+  action: string,
+  description: string,
+  metadata?: Record<string, unknown>,
+  userId?: Id<"users">
+) {
+  await logActivity(
+    ctx,
+    subject.type === "contract" ? "contract" : "recap_manager",
+    subject.deal._id,
+    action,
+    description,
+    undefined,
+    metadata,
+    userId
+  );
+}
+
+/**
+ * Shipped against contracted quantity. Open voyages count at their
+ * scheduled quantity until the period ends; after that only what was
+ * shipped counts.
+ */
+export function computeLiftingPosition(
+  deal: Doc<"contracts"> | Doc<"recap_managers">,
+  voyages: Doc<"voyages">[],
+  now: number
+) {
+  const contracted = deal.quantity ?? 0;
+  const tolerance = (deal.coaTerms?.tolerancePercent ?? 0) / 100;
+  const minQuantity = contracted * (1 - tolerance);
+  const maxQuantity = contracted * (1 + tolerance);
+
+  const shipped = voyages
+    .filter((voyage) => voyage.status === "completed")
+    .reduce((sum, voyage) => sum + (voyage.shippedQuantity ?? 0), 0);
+  const periodEnded = !!deal.coaTerms && now > deal.coaTerms.periodEnd;
+  const planned = periodEnded
+    ? 0
+    : voyages
+        .filter((voyage) => voyage.status === "scheduled" || voyage.status === "nominated")
+        .reduce((sum, voyage) => sum + (voyage.cargoQuantity ?? 0), 0);
+
+  const projected = shipped + planned;
+  const flag: LiftingFlag =
+    projected < minQuantity ? "under-lifting" : projected > maxQuantity ? "over-lifting" : "on-track";
+
+  return {
+    contracted,
+    minQuantity,
+    maxQuantity,
+    shipped,
+    planned,
+    remaining: Math.max(0, contracted - shipped),
+    periodEnded,
+    flag,
+  };
+}
+
+function validateTerms(terms: CoaTerms) {
+  if (terms.periodEnd <= terms.periodStart) {
+    throw new Error("COA period must end after it starts");
+  }
+  if (!Number.isInteger(terms.liftings) || terms.liftings < 1) {
+    throw new Error("Number of liftings must be a whole number of at least 1");
+  }
+  if (terms.tolerancePercent < 0 || terms.tolerancePercent > 100) {
+    throw new Error("Tolerance must be between 0% and 100%");
+  }
+  if (terms.vesselNominationDays < 0 || terms.laycanNominationDays < 0) {
+    throw new Error("Nomination notice cannot be negative");
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+// Lifting schedule with nomination deadlines and the shipped vs remaining position
+export const getLiftingSchedule = query({
+  args: {
+    contractId: v.optional(v.id("contracts")),
+    recapId: v.optional(v.id("recap_managers")),
+  },
+  handler: async (ctx, args) => {
+    const subject = await requireCoaAccess(ctx, args);
+    const { deal } = subject;
+    const voyages = await listVoyages(ctx, subject);
+    const now = Date.now();
+
+    const rows = await Promise.all(
+      voyages.map(async (voyage) => {
+        const vessel = voyage.vesselId ? await ctx.db.get(voyage.vesselId) : null;
+        const open = voyage.status === "scheduled" || voyage.status === "nominated";
+        return {
+          ...voyage,
+          vessel: vessel ? { _id: vessel._id, name: vessel.name } : null,
+          vesselNominationOverdue:
+            open && !voyage.vesselNominatedAt && !!voyage.vesselNominationDeadline && now > voyage.vesselNominationDeadline,
+          laycanNominationOverdue:
+            open && !voyage.laycanNominatedAt && !!voyage.laycanNominationDeadline && now > voyage.laycanNominationDeadline,
+        };
+      })
+    );
+
+    return {
+      terms: deal.coaTerms ?? null,
+      quantityUnit: deal.quantityUnit,
+      voyages: rows,
+      position: computeLiftingPosition(deal, voyages, now),
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+// Set the COA period, number of liftings, tolerance and nomination notice
+export const setTerms = mutation({
+  args: {
+    contractId: v.optional(v.id("contracts")),
+    recapId: v.optional(v.id("recap_managers")),
+    terms: coaTermsValidator,
+  },
+  handler: async (ctx, args) => {
+    const subject = await requireCoaAccess(ctx, args, "edit-contracts");
+    validateTerms(args.terms);
+
+    await ctx.db.patch(subject.deal._id, {
+      coaTerms: args.terms,
+      coaLiftingFlag: undefined,
+      updatedAt: Date.now(),
+    });
+
+    await logCoaActivity(
+      ctx,
+      subject,
+      "coa-terms-updated",
+      `Set COA terms: ${args.terms.liftings} liftings, ±${args.terms.tolerancePercent}% tolerance`,
+      { terms: args.terms },
+      subject.user._id
+    );
+  },
+});
+
+// Split the COA period into one lifting window per voyage, sharing the
+// contract quantity between them. Replaces a schedule nothing has been
+// nominated against yet.
+export const generateSchedule = mutation({
+  args: {
+    contractId: v.optional(v.id("contracts")),
+    recapId: v.optional(v.id("recap_managers")),
+  },
+  handler: async (ctx, args) => {
+    const subject = await requireCoaAccess(ctx, args, "edit-contracts");
+    const { deal } = subject;
+    const terms = deal.coaTerms;
+    if (!terms) {
+      throw new Error("Set the COA period and number of liftings first");
+    }
+    if (!deal.quantity) {
+      throw new Error("Set the contract quantity first");
+    }
+
+    const existing = await listVoyages(ctx, subject);
+    if (existing.some((voyage) => voyage.status !== "scheduled")) {
+      throw new Error("Voyages have already been nominated. Adjust them individually.");
+    }
+    for (const voyage of existing) {
+      await ctx.db.delete(voyage._id);
+    }
+
+    const now = Date.now();
+    const windowLength = (terms.periodEnd - terms.periodStart) / terms.liftings;
+    // Whole units per lifting, with the remainder on the last one
+    const perLifting = Math.floor(deal.quantity / terms.liftings);
+
+    for (let i = 0; i < terms.liftings; i++) {
+      const windowStart = Math.round(terms.periodStart + i * windowLength);
+      const windowEnd = Math.round(terms.periodStart + (i + 1) * windowLength);
+      const isLast = i === terms.liftings - 1;
+
+      await ctx.db.insert("voyages", {
+        parentContractId: subject.type === "contract" ? subject.deal._id : undefined,
+        parentRecapId: subject.type === "recap" ? subject.deal._id : undefined,
+        voyageNumber: i + 1,
+        loadPortId: deal.loadPortId,
+        dischargePortId: deal.dischargePortId,
+        windowStart,
+        windowEnd,
+        cargoQuantity: isLast ? deal.quantity - perLifting * (terms.liftings - 1) : perLifting,
+        vesselNominationDeadline: windowStart - terms.vesselNominationDays * DAY_MS,
+        laycanNominationDeadline: windowStart - terms.laycanNominationDays * DAY_MS,
+        status: "scheduled",
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await logCoaActivity(
+      ctx,
+      subject,
+      "coa-schedule-generated",
+      `Generated a lifting schedule of ${terms.liftings} voyages`,
+      { liftings: terms.liftings },
+      subject.user._id
+    );
+  },
+});
+
+// Once both the vessel and the laycan are in, a scheduled voyage is nominated
+function nominatedStatus(voyage: Doc<"voyages">, patch: Partial<Doc<"voyages">>): VoyageStatus {
+  const merged = { ...voyage, ...patch };
+  return merged.vesselNominatedAt && merged.laycanNominatedAt ? "nominated" : "scheduled";
+}
+
+// Nominate the vessel performing a voyage
+export const nominateVessel = mutation({
+  args: {
+    voyageId: v.id("voyages"),
+    vesselId: v.id("vessels"),
+    cargoQuantity: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { voyage, user, ...subject } = await requireVoyageAccess(ctx, args.voyageId, "edit-contracts");
+    if (voyage.status === "completed" || voyage.status === "cancelled") {
+      throw new Error("This voyage is closed");
+    }
+
+    const vessel = await ctx.db.get(args.vesselId);
+    if (!vessel) {
+      throw new Error("Vessel not found");
+    }
+    if (args.cargoQuantity !== undefined && args.cargoQuantity <= 0) {
+      throw new Error("Quantity must be greater than zero");
+    }
+
+    const now = Date.now();
+    const patch = {
+      vesselId: args.vesselId,
+      vesselNominatedAt: now,
+      ...(args.cargoQuantity !== undefined ? { cargoQuantity: args.cargoQuantity } : {}),
+    };
+    await ctx.db.patch(voyage._id, {
+      ...patch,
+      status: nominatedStatus(voyage, patch),
+      updatedAt: now,
+    });
+
+    const late = !!voyage.vesselNominationDeadline && now > voyage.vesselNominationDeadline;
+    await logCoaActivity(
+      ctx,
+      subject,
+      "coa-vessel-nominated",
+      `Nominated ${vessel.name} for voyage ${voyage.voyageNumber}${late ? " after the nomination deadline" : ""}`,
+      { voyageId: voyage._id, late },
+      user._id
+    );
+  },
+});
+
+// Nominate the laycan of a voyage, within its lifting window
+export const nominateLaycan = mutation({
+  args: {
+    voyageId: v.id("voyages"),
+    laycanStart: v.number(),
+    laycanEnd: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { voyage, user, ...subject } = await requireVoyageAccess(ctx, args.voyageId, "edit-contracts");
+    if (voyage.status === "completed" || voyage.status === "cancelled") {
+      throw new Error("This voyage is closed");
+    }
+
+    if (args.laycanEnd < args.laycanStart) {
+      throw new Error("Laycan must end on or after its start");
+    }
+    if (
+      (voyage.windowStart !== undefined && args.laycanStart < voyage.windowStart) ||
+      (voyage.windowEnd !== undefined && args.laycanEnd > voyage.windowEnd)
+    ) {
+      throw new Error("Laycan must fall within the voyage's lifting window");
+    }
+
+    const now = Date.now();
+    const patch = {
+      laycanStart: args.laycanStart,
+      laycanEnd: args.laycanEnd,
+      laycanNominatedAt: now,
+    };
+    await ctx.db.patch(voyage._id, {
+      ...patch,
+      status: nominatedStatus(voyage, patch),
+      updatedAt: now,
+    });
+
+    const late = !!voyage.laycanNominationDeadline && now > voyage.laycanNominationDeadline;
+    await logCoaActivity(
+      ctx,
+      subject,
+      "coa-laycan-nominated",
+      `Nominated the laycan for voyage ${voyage.voyageNumber}${late ? " after the nomination deadline" : ""}`,
+      { voyageId: voyage._id, late },
+      user._id
+    );
+  },
+});
+
+// Record the quantity a voyage shipped (bill of lading quantity)
+export const recordLifting = mutation({
+  args: {
+    voyageId: v.id("voyages"),
+    shippedQuantity: v.number(),
+    completedAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { voyage, user, ...subject } = await requireVoyageAccess(ctx, args.voyageId, "edit-contracts");
+    if (voyage.status !== "nominated") {
+      throw new Error("Nominate the vessel and laycan before recording the lifting");
+    }
+    if (args.shippedQuantity <= 0) {
+      throw new Error("Shipped quantity must be greater than zero");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(voyage._id, {
+      shippedQuantity: args.shippedQuantity,
+      status: "completed",
+      completedAt: args.completedAt ?? now,
+      updatedAt: now,
+    });
+
+    await logCoaActivity(
+      ctx,
+      subject,
+      "coa-lifting-recorded",
+      `Voyage ${voyage.voyageNumber} shipped ${args.shippedQuantity.toLocaleString("en-US")} ${subject.deal.quantityUnit ?? "MT"}`,
+      { voyageId: voyage._id, shippedQuantity: args.shippedQuantity },
+      user._id
+    );
+  },
+});
+
+// Cancel a voyage that will not be lifted
+export const cancelVoyage = mutation({
+  args: { voyageId: v.id("voyages") },
+  handler: async (ctx, args) => {
+    const { voyage, user, ...subject } = await requireVoyageAccess(ctx, args.voyageId, "edit-contracts");
+    if (voyage.status === "completed" || voyage.status === "cancelled") {
+      throw new Error("This voyage is closed");
+    }
+
+    await ctx.db.patch(voyage._id, { status: "cancelled", updatedAt: Date.now() });
+
+    await logCoaActivity(
+      ctx,
+      subject,
+      "coa-voyage-cancelled",
+      `Cancelled voyage ${voyage.voyageNumber}`,
+      { voyageId: voyage._id },
+      user._id
+    );
+  },
+});
+
+// ============================================================================
+// LIFTING FLAGS
+// ============================================================================
+
+const FLAG_DESCRIPTIONS: Record<LiftingFlag, (ended: boolean) => string> = {
+  "on-track": () => "Lifting is back within the COA tolerance",
+  "under-lifting": (ended) =>
+    ended ? "COA period ended under-lifted" : "COA is projected to be under-lifted by the end of the period",
+  "over-lifting": (ended) =>
+    ended ? "COA period ended over-lifted" : "COA is projected to be over-lifted by the end of the period",
+};
+
+async function flagLiftingPosition(ctx: MutationCtx, subject: CoaSubject, now: number) {
+  const { deal } = subject;
+  const terms = deal.coaTerms;
+  if (!terms || now < terms.periodEnd - FLAG_WINDOW_MS) return false;
+  // The position is final once flagged after the period ended
+  if (deal.coaLiftingFlaggedAt && deal.coaLiftingFlaggedAt > terms.periodEnd) return false;
+
+  const position = computeLiftingPosition(deal, await listVoyages(ctx, subject), now);
+  const changed = position.flag !== (deal.coaLiftingFlag ?? "on-track");
+
+  await ctx.db.patch(deal._id, {
+    coaLiftingFlag: position.flag,
+    coaLiftingFlaggedAt: now,
+  });
+
+  if (changed || position.periodEnded) {
+    await logCoaActivity(
+      ctx,
+      subject,
+      `coa-${position.flag}`,
+      FLAG_DESCRIPTIONS[position.flag](position.periodEnded),
+      {
+        shipped: position.shipped,
+        planned: position.planned,
+        minQuantity: position.minQuantity,
+        maxQuantity: position.maxQuantity,
+      }
+    );
+  }
+  return changed;
+}
+
+// Flag COAs whose period is ending or has ended outside their quantity tolerance
+export const flagLiftingPositions = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    let flagged = 0;
+
+    const contracts = await ctx.db
+      .query("contracts")
+      .withIndex("by_contract_type", (q) => q.eq("contractType", "coa"))
+      .collect();
+    for (const contract of contracts) {
+      if (await flagLiftingPosition(ctx, { type: "contract", deal: contract }, now)) flagged++;
+    }
+
+    const recaps = await ctx.db
+      .query("recap_managers")
+      .withIndex("by_contract_type", (q) => q.eq("contractType", "coa"))
+      .collect();
+    for (const recap of recaps) {
+      if (await flagLiftingPosition(ctx, { type: "recap", deal: recap }, now)) flagged++;
+    }
+
+    return { flagged };
+  },
+});
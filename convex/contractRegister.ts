@@ -0,0 +1,137 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { QueryCtx } from "./_generated/server";
+import { requireOrgMember } from "./authorization";
+
+// ============================================================================
+// CONTRACT REGISTER
+// ============================================================================
+// One row per charter party and recap of an organization, with its
+// approval and signature progress, for the contract-centric register page.
+// Recaps have no approval or signature rows, so those columns stay empty.
+
+async function companyWithAvatar(ctx: QueryCtx, companyId: Id<"companies"> | undefined) {
+  const company = companyId ? await ctx.db.get(companyId) : null;
+  if (!company) return null;
+  return {
+    name: company.name,
+    avatarUrl: company.avatar ? await ctx.storage.getUrl(company.avatar) : null,
+  };
+}
+
+async function buildRegisterRow(
+  ctx: QueryCtx,
+  deal: Doc<"contracts"> | Doc<"recap_managers">,
+  progress: {
+    source: "contract" | "recap";
+    number: string;
+    approvals: { approved: number; rejected: number; total: number } | null;
+    signatures: { signed: number; total: number } | null;
+    addendaCount: number;
+  }
+) {
+  const fixture = deal.fixtureId ? await ctx.db.get(deal.fixtureId) : null;
+  const vessel = deal.vesselId ? await ctx.db.get(deal.vesselId) : null;
+
+  return {
+    _id: deal._id as string,
+    ...progress,
+    contractType: deal.contractType,
+    status: deal.status,
+    approvalStatus: deal.approvalStatus,
+    fullySignedDate: "fullySignedDate" in deal ? deal.fullySignedDate : undefined,
+    owner: await companyWithAvatar(ctx, deal.ownerId),
+    charterer: await companyWithAvatar(ctx, deal.chartererId),
+    broker: await companyWithAvatar(ctx, deal.brokerId),
+    vessel: vessel ? vessel.name : null,
+    laycanStart: deal.laycanStart,
+    laycanEnd: deal.laycanEnd,
+    fixtureNumber: fixture?.fixtureNumber ?? null,
+    createdAt: deal.createdAt,
+    updatedAt: deal.updatedAt,
+  };
+}
+
+async function buildContractRow(ctx: QueryCtx, contract: Doc<"contracts">) {
+  const approvals = await ctx.db
+    .query("contract_approvals")
+    .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+    .collect();
+  const signatures = await ctx.db
+    .query("contract_signatures")
+    .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+    .collect();
+  const addenda = await ctx.db
+    .query("contract_addenda")
+    .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+    .collect();
+
+  return await buildRegisterRow(ctx, contract, {
+    source: "contract",
+    number: contract.contractNumber,
+    approvals: {
+      approved: approvals.filter((a) => a.status === "approved").length,
+      rejected: approvals.filter((a) => a.status === "rejected").length,
+      total: approvals.length,
+    },
+    signatures: {
+      signed: signatures.filter((s) => s.status === "signed").length,
+      total: signatures.length,
+    },
+    addendaCount: addenda.length,
+  });
+}
+
+async function buildRecapRow(ctx: QueryCtx, recap: Doc<"recap_managers">) {
+  const addenda = await ctx.db
+    .query("recap_addenda")
+    .withIndex("by_recap", (q) => q.eq("recapManagerId", recap._id))
+    .collect();
+
+  return await buildRegisterRow(ctx, recap, {
+    source: "recap",
+    number: recap.recapNumber,
+    approvals: null,
+    signatures: null,
+    addendaCount: addenda.length,
+  });
+}
+
+// Page through an organization's register, most recently updated first.
+// Reads the contract rows of the fixture_rows read model, so progress is only
+// loaded for the rows on the page; a recap whose negotiation also became a
+// charter party is listed once, as the charter party.
+export const list = query({
+  args: {
+    organizationId: v.id("organizations"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
+    const result = await ctx.db
+      .query("fixture_rows")
+      .withIndex("by_org_unit_lastUpdated", (q) =>
+        q.eq("organizationId", args.organizationId).eq("unit", "contract")
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    const page = await Promise.all(
+      result.page.map(async (row) => {
+        if (row.kind === "contract") {
+          const contractId = ctx.db.normalizeId("contracts", row.entityId);
+          const contract = contractId ? await ctx.db.get(contractId) : null;
+          return contract ? await buildContractRow(ctx, contract) : null;
+        }
+        const recapId = ctx.db.normalizeId("recap_managers", row.entityId);
+        const recap = recapId ? await ctx.db.get(recapId) : null;
+        return recap ? await buildRecapRow(ctx, recap) : null;
+      })
+    );
+
+    return { ...result, page: page.filter((row) => row !== null) };
+  },
+});
@@ -0,0 +1,278 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { requireContractAccess, requireRecapAccess } from "./authorization";
+import { resolveClauseReferences } from "./clauses";
+
+// ============================================================================
+// CONTRACT SNAPSHOTS
+// ============================================================================
+// A frozen copy of a contract's or recap's terms and agreed clause text,
+// taken when it is created, at every status transition and with each
+// addendum, so any two versions can be compared as a redline.
+
+export type SnapshotTrigger = "created" | "status" | "addendum";
+
+type SnapshotSubject =
+  | { type: "contract"; id: Id<"contracts"> }
+  | { type: "recap"; id: Id<"recap_managers"> };
+
+// Term fields in the order they appear on a recap
+const SNAPSHOT_FIELDS = [
+  "status",
+  "contractType",
+  "owner",
+  "charterer",
+  "broker",
+  "vessel",
+  "loadPort",
+  "dischargePort",
+  "loadDeliveryType",
+  "dischargeRedeliveryType",
+  "laycanStart",
+  "laycanEnd",
+  "cargoType",
+  "quantity",
+  "quantityUnit",
+  "freightRate",
+  "freightRateType",
+  "demurrageRate",
+  "despatchRate",
+  "addressCommission",
+  "brokerCommission",
+] as const;
+
+// Terms as display values, with linked records resolved to their names
+async function buildSnapshotTerms(
+  ctx: QueryCtx,
+  deal: Doc<"contracts"> | Doc<"recap_managers">
+): Promise<Array<{ field: string; value: string }>> {
+  const nameOf = async (id: Id<"companies"> | Id<"vessels"> | Id<"ports"> | Id<"cargo_types"> | undefined) =>
+    id ? (await ctx.db.get(id))?.name : undefined;
+
+  const values: Record<(typeof SNAPSHOT_FIELDS)[number], string | number | undefined> = {
+    status: deal.status,
+    contractType: deal.contractType,
+    owner: await nameOf(deal.ownerId),
+    charterer: await nameOf(deal.chartererId),
+    broker: await nameOf(deal.brokerId),
+    vessel: await nameOf(deal.vesselId),
+    loadPort: await nameOf(deal.loadPortId),
+    dischargePort: await nameOf(deal.dischargePortId),
+    loadDeliveryType: "loadDeliveryType" in deal ? deal.loadDeliveryType : undefined,
+    dischargeRedeliveryType:
+      "dischargeRedeliveryType" in deal ? deal.dischargeRedeliveryType : undefined,
+    laycanStart: deal.laycanStart,
+    laycanEnd: deal.laycanEnd,
+    cargoType: await nameOf(deal.cargoTypeId),
+    quantity: deal.quantity,
+    quantityUnit: deal.quantityUnit,
+    freightRate: deal.freightRate,
+    freightRateType: deal.freightRateType,
+    demurrageRate: deal.demurrageRate,
+    despatchRate: deal.despatchRate,
+    addressCommission: deal.addressCommission,
+    brokerCommission: deal.brokerCommission,
+  };
+
+  return SNAPSHOT_FIELDS.filter((field) => values[field] !== undefined && values[field] !== "").map(
+    (field) => ({ field, value: String(values[field]) })
+  );
+}
+
+/**
+ * Freeze the current terms and clause text of a contract or recap as its
+ * next version. Call after the change has been written.
+ */
+export async function recordContractSnapshot(
+  ctx: MutationCtx,
+  subject: SnapshotSubject,
+  trigger: SnapshotTrigger,
+  userId?: Id<"users">,
+  addendum?: { id: string; addendaNumber: string }
+): Promise<Id<"contract_snapshots">> {
+  const deal = await ctx.db.get(subject.id);
+  if (!deal) {
+    throw new Error(subject.type === "contract" ? "Contract not found" : "Recap manager not found");
+  }
+
+  const latest =
+    subject.type === "contract"
+      ? await ctx.db
+          .query("contract_snapshots")
+          .withIndex("by_contract", (q) => q.eq("contractId", subject.id))
+          .order("desc")
+          .first()
+      : await ctx.db
+          .query("contract_snapshots")
+          .withIndex("by_recap", (q) => q.eq("recapManagerId", subject.id))
+          .order("desc")
+          .first();
+
+  // Clauses in force: the CP's own, then those introduced or replaced by addenda
+  const addenda =
+    subject.type === "contract"
+      ? await ctx.db
+          .query("contract_addenda")
+          .withIndex("by_contract", (q) => q.eq("contractId", subject.id))
+          .collect()
+      : await ctx.db
+          .query("recap_addenda")
+          .withIndex("by_recap", (q) => q.eq("recapManagerId", subject.id))
+          .collect();
+
+  const references = [...(deal.clauses ?? [])];
+  for (const addendum of addenda.sort((a, b) => a.createdAt - b.createdAt)) {
+    for (const reference of addendum.clauses ?? []) {
+      const index = references.findIndex((existing) => existing.clauseId === reference.clauseId);
+      if (index >= 0) {
+        references[index] = reference;
+      } else {
+        references.push(reference);
+      }
+    }
+  }
+
+  const clauses = await resolveClauseReferences(ctx, references);
+
+  return await ctx.db.insert("contract_snapshots", {
+    contractId: subject.type === "contract" ? subject.id : undefined,
+    recapManagerId: subject.type === "recap" ? subject.id : undefined,
+    version: (latest?.version ?? 0) + 1,
+    trigger,
+    status: deal.status,
+    addendaId: addendum?.id,
+    addendaNumber: addendum?.addendaNumber,
+    terms: await buildSnapshotTerms(ctx, deal),
+    clauses: clauses.map(({ clauseId, version, title, text }) => ({
+      clauseId,
+      version,
+      title,
+      text,
+    })),
+    createdBy: userId,
+    createdAt: Date.now(),
+  });
+}
+
+async function requireSnapshotAccess(ctx: QueryCtx, snapshot: Doc<"contract_snapshots">) {
+  if (snapshot.contractId) {
+    await requireContractAccess(ctx, snapshot.contractId);
+  } else if (snapshot.recapManagerId) {
+    await requireRecapAccess(ctx, snapshot.recapManagerId);
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+// List a contract's or recap's versions, oldest first
+export const listVersions = query({
+  args: {
+    contractId: v.optional(v.id("contracts")),
+    recapId: v.optional(v.id("recap_managers")),
+  },
+  handler: async (ctx, args) => {
+    let snapshots: Doc<"contract_snapshots">[];
+    if (args.contractId) {
+      await requireContractAccess(ctx, args.contractId);
+      snapshots = await ctx.db
+        .query("contract_snapshots")
+        .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+        .collect();
+    } else if (args.recapId) {
+      await requireRecapAccess(ctx, args.recapId);
+      snapshots = await ctx.db
+        .query("contract_snapshots")
+        .withIndex("by_recap", (q) => q.eq("recapManagerId", args.recapId))
+        .collect();
+    } else {
+      throw new Error("contractId or recapId is required");
+    }
+
+    return await Promise.all(
+      snapshots.map(async (snapshot) => {
+        const user = snapshot.createdBy ? await ctx.db.get(snapshot.createdBy) : null;
+        return {
+          _id: snapshot._id,
+          version: snapshot.version,
+          trigger: snapshot.trigger,
+          status: snapshot.status,
+          addendaNumber: snapshot.addendaNumber,
+          createdAt: snapshot.createdAt,
+          user: user ? { name: user.name } : null,
+        };
+      })
+    );
+  },
+});
+
+// Compare two versions: changed terms, and added, removed or reworded clauses
+export const compare = query({
+  args: {
+    fromId: v.id("contract_snapshots"),
+    toId: v.id("contract_snapshots"),
+  },
+  handler: async (ctx, args) => {
+    const from = await ctx.db.get(args.fromId);
+    const to = await ctx.db.get(args.toId);
+    if (!from || !to) {
+      throw new Error("Version not found");
+    }
+    if (from.contractId !== to.contractId || from.recapManagerId !== to.recapManagerId) {
+      throw new Error("Versions belong to different contracts");
+    }
+
+    await requireSnapshotAccess(ctx, to);
+
+    // Terms, in snapshot field order
+    const fromTerms = new Map(from.terms.map((term) => [term.field, term.value]));
+    const toTerms = new Map(to.terms.map((term) => [term.field, term.value]));
+    const fields = SNAPSHOT_FIELDS.filter(
+      (field) => fromTerms.has(field) || toTerms.has(field)
+    );
+    const terms = fields.map((field) => ({
+      field,
+      from: fromTerms.get(field),
+      to: toTerms.get(field),
+      changed: fromTerms.get(field) !== toTerms.get(field),
+    }));
+
+    // Clauses, in the newer version's order with removed clauses at the end
+    const fromClauses = new Map(from.clauses.map((clause) => [clause.clauseId, clause]));
+    const toClauseIds = new Set(to.clauses.map((clause) => clause.clauseId));
+    const clauses = [
+      ...to.clauses.map((clause) => {
+        const previous = fromClauses.get(clause.clauseId);
+        return {
+          clauseId: clause.clauseId,
+          title: clause.title,
+          change: !previous
+            ? ("added" as const)
+            : previous.text !== clause.text || previous.title !== clause.title
+              ? ("changed" as const)
+              : ("unchanged" as const),
+          fromVersion: previous?.version,
+          toVersion: clause.version,
+          fromText: previous?.text,
+          toText: clause.text,
+        };
+      }),
+      ...from.clauses
+        .filter((clause) => !toClauseIds.has(clause.clauseId))
+        .map((clause) => ({
+          clauseId: clause.clauseId,
+          title: clause.title,
+          change: "removed" as const,
+          fromVersion: clause.version,
+          toVersion: undefined,
+          fromText: clause.text,
+          toText: undefined,
+        })),
+    ];
+
+    return { terms, clauses };
+  },
+});
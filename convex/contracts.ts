@@ -1,7 +1,27 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { Id } from "./_generated/dataModel";
-import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import {
+  amendmentValidator,
+  createAddendumPartyRows,
+  describeAmendments,
+  validateAmendments,
+} from "./addenda";
+import { trackFieldChanges } from "./audit";
+import {
+  filterAccessibleDeals,
+  requireContractAccess,
+  requireDealAccess,
+  requireNegotiationAccess,
+  requireOrderAccess,
+} from "./authorization";
+import { resolveClauseReferences } from "./clauses";
+import { markCpDocumentStale } from "./cpDocuments";
+import { recordContractSnapshot } from "./contractSnapshots";
+import { allocateDocumentNumber } from "./documentNumbers";
+import { syncFixtureRows } from "./fixtureRows";
+import { buildRates } from "./rates";
 
 // Helper function to calculate and update fixture's lastUpdated
 // Duplicated here to avoid circular dependency issues with internal functions
@@ -44,6 +64,7 @@ async function updateFixtureLastUpdated(
 
   const lastUpdated = Math.max(...timestamps);
   await ctx.db.patch(fixtureId, { lastUpdated });
+  await syncFixtureRows(ctx, fixtureId);
 }
 
 // Helper function to rebuild fixture's searchText
@@ -123,12 +144,7 @@ async function updateFixtureSearchText(
 
   const searchText = Array.from(values).map((v) => v.toLowerCase()).join(" ");
   await ctx.db.patch(fixtureId, { searchText });
-}
-
-// Generate contract number (CP12345)
-function generateContractNumber(): string {
-  const randomNum = Math.floor(10000 + Math.random() * 90000);
-  return `CP${randomNum}`;
+  await syncFixtureRows(ctx, fixtureId);
 }
 
 // Create a new contract
@@ -171,13 +187,32 @@ export const create = mutation({
   },
   handler: async (ctx, args) => {
     const now = Date.now();
-    const contractNumber = generateContractNumber();
 
     // Validate: both orderId and negotiationId must be present, OR both must be empty
     if ((args.orderId && !args.negotiationId) || (!args.orderId && args.negotiationId)) {
       throw new Error("orderId and negotiationId must both be present or both be empty");
     }
 
+    const { user, membership } = await requireDealAccess(
+      ctx,
+      { fixtureId: args.fixtureId, orderId: args.orderId },
+      "edit-contracts"
+    );
+
+    // The negotiation must belong to the order it is being attached to
+    if (args.negotiationId) {
+      const negotiation = await ctx.db.get(args.negotiationId);
+      if (!negotiation || negotiation.orderId !== args.orderId) {
+        throw new Error("Negotiation does not belong to this order");
+      }
+    }
+
+    const contractNumber = await allocateDocumentNumber(
+      ctx,
+      membership.organizationId,
+      "contract"
+    );
+
     const contractId = await ctx.db.insert("contracts", {
       contractNumber,
       fixtureId: args.fixtureId,
@@ -199,6 +234,7 @@ export const create = mutation({
       despatchRate: args.despatchRate,
       addressCommission: args.addressCommission,
       brokerCommission: args.brokerCommission,
+      rates: buildRates(args),
       cargoTypeId: args.cargoTypeId,
       quantity: args.quantity,
       quantityUnit: args.quantityUnit,
@@ -208,6 +244,8 @@ export const create = mutation({
       updatedAt: now,
     });
 
+    await recordContractSnapshot(ctx, { type: "contract", id: contractId }, "created", user._id);
+
     // Update the fixture's lastUpdated timestamp and searchText if fixtureId is provided
     if (args.fixtureId) {
       await updateFixtureLastUpdated(ctx, args.fixtureId);
@@ -244,22 +282,38 @@ export const update = mutation({
     quantity: v.optional(v.number()),
     quantityUnit: v.optional(v.string()),
     approvalStatus: v.optional(v.string()),
+    changeReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const { contractId, ...updates } = args;
+    const { contractId, changeReason, ...updates } = args;
 
-    const existing = await ctx.db.get(contractId);
-    if (!existing) {
-      throw new Error("Contract not found");
-    }
+    const { user, contract: existing } = await requireContractAccess(
+      ctx,
+      contractId,
+      "edit-contracts"
+    );
 
-    // TODO: Track field changes
+    await trackFieldChanges(
+      ctx,
+      "contract",
+      contractId,
+      existing,
+      updates,
+      user._id,
+      changeReason
+    );
 
     await ctx.db.patch(contractId, {
       ...updates,
+      rates: buildRates({ ...existing, ...updates }),
       updatedAt: Date.now(),
     });
 
+    // Regenerate the CP document from the new terms
+    if (existing.fullCpChainStorageId) {
+      await markCpDocumentStale(ctx, { contractId });
+    }
+
     // Update the fixture's lastUpdated timestamp and searchText if fixtureId exists
     if (existing.fixtureId) {
       await updateFixtureLastUpdated(ctx, existing.fixtureId);
@@ -280,12 +334,14 @@ export const updateStatus = mutation({
       v.literal("final"),
       v.literal("rejected")
     ),
+    changeReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const contract = await ctx.db.get(args.contractId);
-    if (!contract) {
-      throw new Error("Contract not found");
-    }
+    const { user, contract } = await requireContractAccess(
+      ctx,
+      args.contractId,
+      "edit-contracts"
+    );
 
     const updates: any = {
       status: args.status,
@@ -296,8 +352,24 @@ export const updateStatus = mutation({
       updates.signedAt = Date.now();
     }
 
+    await trackFieldChanges(
+      ctx,
+      "contract",
+      args.contractId,
+      contract,
+      { status: args.status },
+      user._id,
+      args.changeReason
+    );
+
     await ctx.db.patch(args.contractId, updates);
 
+    // The status is printed on the CP document
+    if (contract.fullCpChainStorageId) {
+      await markCpDocumentStale(ctx, { contractId: args.contractId });
+    }
+    await recordContractSnapshot(ctx, { type: "contract", id: args.contractId }, "status", user._id);
+
     // Update the fixture's lastUpdated timestamp and searchText if fixtureId exists
     if (contract.fixtureId) {
       await updateFixtureLastUpdated(ctx, contract.fixtureId);
@@ -310,16 +382,150 @@ export const updateStatus = mutation({
   },
 });
 
+// Add an addendum and snapshot the contract terms it amends
+export const createAddendum = mutation({
+  args: {
+    contractId: v.id("contracts"),
+    description: v.optional(v.string()),
+    amendments: v.optional(v.array(amendmentValidator)),
+  },
+  handler: async (ctx, args) => {
+    const { user, contract } = await requireContractAccess(
+      ctx,
+      args.contractId,
+      "edit-contracts"
+    );
+
+    if (args.amendments) {
+      await validateAmendments(ctx, args.amendments);
+    }
+
+    const existing = await ctx.db
+      .query("contract_addenda")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .collect();
+    const addendaNumber = String(existing.length + 1);
+
+    const now = Date.now();
+    const addendaId = await ctx.db.insert("contract_addenda", {
+      contractId: args.contractId,
+      addendaNumber,
+      description: args.description?.trim() || undefined,
+      status: "draft",
+      amendments: args.amendments,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await createAddendumPartyRows(ctx, addendaId, "contract", [
+      ["owner", contract.ownerId],
+      ["charterer", contract.chartererId],
+    ]);
+
+    await recordContractSnapshot(
+      ctx,
+      { type: "contract", id: args.contractId },
+      "addendum",
+      user._id,
+      { id: addendaId, addendaNumber }
+    );
+
+    // Update the fixture's lastUpdated timestamp if fixtureId exists
+    if (contract.fixtureId) {
+      await updateFixtureLastUpdated(ctx, contract.fixtureId);
+    }
+
+    return addendaId;
+  },
+});
+
 // List all contracts
 export const list = query({
   args: {},
   handler: async (ctx) => {
     const contracts = await ctx.db.query("contracts").collect();
-    return contracts.sort((a, b) => b._creationTime - a._creationTime);
+    const accessible = await filterAccessibleDeals(ctx, contracts);
+    return accessible.sort((a, b) => b._creationTime - a._creationTime);
   },
 });
 
 // Get contract by ID with full details
+// A contract with its parties, vessel, ports, clauses and addenda, as shown on
+// its page and filled into the generated CP document
+export async function loadContractDetails(ctx: QueryCtx, contract: Doc<"contracts">) {
+  // Get related entities
+  const owner = await ctx.db.get(contract.ownerId);
+  const charterer = await ctx.db.get(contract.chartererId);
+  const broker = contract.brokerId
+    ? await ctx.db.get(contract.brokerId)
+    : null;
+  const vessel = contract.vesselId
+    ? await ctx.db.get(contract.vesselId)
+    : null;
+  const loadPort = contract.loadPortId
+    ? await ctx.db.get(contract.loadPortId)
+    : null;
+  const dischargePort = contract.dischargePortId
+    ? await ctx.db.get(contract.dischargePortId)
+    : null;
+  const cargoType = contract.cargoTypeId
+    ? await ctx.db.get(contract.cargoTypeId)
+    : null;
+  const negotiation = contract.negotiationId
+    ? await ctx.db.get(contract.negotiationId)
+    : null;
+  const order = contract.orderId ? await ctx.db.get(contract.orderId) : null;
+
+  // Get addenda
+  const addenda = await ctx.db
+    .query("contract_addenda")
+    .withIndex("by_contract", (q) => q.eq("contractId", contract._id))
+    .collect();
+
+  // Get voyages if COA
+  const voyages =
+    contract.contractType === "coa"
+      ? await ctx.db
+          .query("voyages")
+          .withIndex("by_contract", (q) =>
+            q.eq("parentContractId", contract._id)
+          )
+          .collect()
+      : [];
+
+  // Agreed clause versions, on the CP and on each addendum
+  const clauses = await resolveClauseReferences(ctx, contract.clauses);
+  const addendaWithClauses = await Promise.all(
+    addenda.map(async (addendum) => ({
+      ...addendum,
+      clauses: await resolveClauseReferences(ctx, addendum.clauses),
+      amendmentSummary: await describeAmendments(ctx, addendum.amendments),
+    }))
+  );
+
+  // Generated CP document
+  const cpDocumentUrl = contract.fullCpChainStorageId
+    ? await ctx.storage.getUrl(contract.fullCpChainStorageId)
+    : null;
+
+  return {
+    ...contract,
+    owner,
+    charterer,
+    broker,
+    vessel,
+    loadPort,
+    dischargePort,
+    cargoType,
+    negotiation,
+    order,
+    addenda: addendaWithClauses,
+    voyages,
+    clauses,
+    cpDocumentUrl,
+  };
+}
+
 export const getById = query({
   args: { contractId: v.id("contracts") },
   handler: async (ctx, args) => {
@@ -328,60 +534,9 @@ export const getById = query({
       return null;
     }
 
-    // Get related entities
-    const owner = await ctx.db.get(contract.ownerId);
-    const charterer = await ctx.db.get(contract.chartererId);
-    const broker = contract.brokerId
-      ? await ctx.db.get(contract.brokerId)
-      : null;
-    const vessel = contract.vesselId
-      ? await ctx.db.get(contract.vesselId)
-      : null;
-    const loadPort = contract.loadPortId
-      ? await ctx.db.get(contract.loadPortId)
-      : null;
-    const dischargePort = contract.dischargePortId
-      ? await ctx.db.get(contract.dischargePortId)
-      : null;
-    const cargoType = contract.cargoTypeId
-      ? await ctx.db.get(contract.cargoTypeId)
-      : null;
-    const negotiation = contract.negotiationId
-      ? await ctx.db.get(contract.negotiationId)
-      : null;
-    const order = contract.orderId ? await ctx.db.get(contract.orderId) : null;
-
-    // Get addenda
-    const addenda = await ctx.db
-      .query("contract_addenda")
-      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
-      .collect();
+    await requireDealAccess(ctx, contract);
 
-    // Get voyages if COA
-    const voyages =
-      contract.contractType === "coa"
-        ? await ctx.db
-            .query("voyages")
-            .withIndex("by_contract", (q) =>
-              q.eq("parentContractId", args.contractId)
-            )
-            .collect()
-        : [];
-
-    return {
-      ...contract,
-      owner,
-      charterer,
-      broker,
-      vessel,
-      loadPort,
-      dischargePort,
-      cargoType,
-      negotiation,
-      order,
-      addenda,
-      voyages,
-    };
+    return await loadContractDetails(ctx, contract);
   },
 });
 
@@ -401,7 +556,8 @@ export const listByStatus = query({
       .withIndex("by_status", (q) => q.eq("status", args.status))
       .collect();
 
-    return contracts.sort((a, b) => b._creationTime - a._creationTime);
+    const accessible = await filterAccessibleDeals(ctx, contracts);
+    return accessible.sort((a, b) => b._creationTime - a._creationTime);
   },
 });
 
@@ -409,6 +565,8 @@ export const listByStatus = query({
 export const listByNegotiation = query({
   args: { negotiationId: v.id("negotiations") },
   handler: async (ctx, args) => {
+    await requireNegotiationAccess(ctx, args.negotiationId);
+
     const contracts = await ctx.db
       .query("contracts")
       .withIndex("by_negotiation", (q) =>
@@ -424,6 +582,8 @@ export const listByNegotiation = query({
 export const listByOrder = query({
   args: { orderId: v.id("orders") },
   handler: async (ctx, args) => {
+    await requireOrderAccess(ctx, args.orderId);
+
     const contracts = await ctx.db
       .query("contracts")
       .withIndex("by_order", (q) => q.eq("orderId", args.orderId))
@@ -437,7 +597,10 @@ export const listByOrder = query({
 export const listEnriched = query({
   args: {},
   handler: async (ctx) => {
-    const contracts = await ctx.db.query("contracts").collect();
+    const contracts = await filterAccessibleDeals(
+      ctx,
+      await ctx.db.query("contracts").collect()
+    );
 
     const enrichedContracts = await Promise.all(
       contracts.map(async (contract) => {
@@ -0,0 +1,30 @@
+"use node";
+
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { generateCharterPartyPdf } from "../src/utils/cpDocument";
+
+// Re-render a CP document whose terms changed since it was generated, with
+// the same form and signature pages. Scheduled by cpDocuments.markCpDocumentStale.
+export const regenerate = internalAction({
+  args: {
+    contractId: v.optional(v.id("contracts")),
+    recapId: v.optional(v.id("recap_managers")),
+  },
+  handler: async (ctx, args) => {
+    const source = await ctx.runQuery(internal.cpDocuments.getRegenerationData, args);
+    // Already regenerated, e.g. by a user generating it by hand
+    if (!source) return;
+
+    const blob = generateCharterPartyPdf(source.data, source.form, source.signatures);
+    const storageId = await ctx.storage.store(blob);
+
+    await ctx.runMutation(internal.cpDocuments.attachRegenerated, {
+      ...args,
+      storageId,
+      form: source.form,
+      sourceUpdatedAt: source.updatedAt,
+    });
+  },
+});
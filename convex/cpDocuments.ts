@@ -0,0 +1,359 @@
+import { v, type Infer } from "convex/values";
+import { internalMutation, internalQuery, mutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { CharterPartySignature } from "../src/utils/cpDocument";
+import { logActivity } from "./audit";
+import { requireContractAccess, requireRecapAccess } from "./authorization";
+import { loadContractDetails } from "./contracts";
+import { loadRecapDetails } from "./recapManagers";
+
+// ============================================================================
+// CHARTER PARTY DOCUMENTS
+// ============================================================================
+// The PDF is rendered by generateCharterPartyPdf (src/utils/cpDocument.ts)
+// from the data contracts.getById / recapManagers.getById return: in the
+// browser when a user generates it, and in Node actions when signature pages
+// are stamped in or terms changed since it was generated (cpDocumentFiles.ts).
+// These functions store the result as the full CP chain.
+
+export const cpDocumentFormValidator = v.union(
+  v.literal("gencon"),
+  v.literal("wet-recap")
+);
+
+type CpDocumentForm = Infer<typeof cpDocumentFormValidator>;
+
+const FORM_LABELS = {
+  gencon: "GENCON",
+  "wet-recap": "wet fixture recap",
+} as const;
+
+// The document a change to the terms outdates: a contract or a recap
+const documentTargetArgs = {
+  contractId: v.optional(v.id("contracts")),
+  recapId: v.optional(v.id("recap_managers")),
+};
+
+type DocumentTarget =
+  | { contractId: Id<"contracts">; recapId?: undefined }
+  | { recapId: Id<"recap_managers">; contractId?: undefined };
+
+// Flag a generated CP document as outdated by the terms just saved, and
+// schedule its regeneration. Callers check that a document exists.
+export async function markCpDocumentStale(ctx: MutationCtx, target: DocumentTarget) {
+  const id = target.contractId ?? target.recapId;
+  await ctx.db.patch(id, { cpDocumentStale: true });
+  await ctx.scheduler.runAfter(0, internal.cpDocumentFiles.regenerate, target);
+}
+
+// Replace a previously generated document, if any
+async function deletePreviousDocument(
+  ctx: MutationCtx,
+  previousId: Id<"_storage"> | undefined,
+  nextId: Id<"_storage">
+) {
+  if (!previousId || previousId === nextId) return;
+  try {
+    await ctx.storage.delete(previousId);
+  } catch (error) {
+    // File may have already been deleted, continue
+    console.error(`Failed to delete CP document ${previousId}:`, error);
+  }
+}
+
+// A signed version is kept as evidence of what each party signed
+async function isSignedVersion(
+  ctx: MutationCtx,
+  contractId: Id<"contracts">,
+  storageId: Id<"_storage"> | undefined
+): Promise<boolean> {
+  if (!storageId) return false;
+  const signatures = await ctx.db
+    .query("contract_signatures")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+  return signatures.some((signature) => signature.documentStorageId === storageId);
+}
+
+// A contract's electronic signatures, in the shape stamped onto the signature page
+async function loadStampedSignatures(
+  ctx: QueryCtx,
+  contractId: Id<"contracts">
+): Promise<CharterPartySignature[]> {
+  const signatures = await ctx.db
+    .query("contract_signatures")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+
+  return await Promise.all(
+    signatures
+      .filter((signature) => signature.status === "signed" && signature.documentHash)
+      .map(async (signature) => {
+        const company = await ctx.db.get(signature.companyId);
+        const signer = signature.signedBy ? await ctx.db.get(signature.signedBy) : null;
+        const principal = signature.onBehalfOf ? await ctx.db.get(signature.onBehalfOf) : null;
+        return {
+          partyRole: signature.partyRole,
+          companyName: company?.name ?? "Unknown company",
+          signerName: signer?.name ?? "Unknown user",
+          onBehalfOfName: principal?.name,
+          signedAt: signature.signedAt ?? signature.updatedAt,
+          documentHash: signature.documentHash!,
+        };
+      })
+  );
+}
+
+// A contract's terms and signatures, as its CP document is rendered from.
+// Called by esign.signContract to stamp the signature page.
+export const getContractDocumentData = internalQuery({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    const { contract } = await requireContractAccess(ctx, args.contractId);
+
+    return {
+      data: {
+        ...(await loadContractDetails(ctx, contract)),
+        documentNumber: contract.contractNumber,
+      },
+      form: contract.cpDocumentForm ?? "gencon",
+      signatures: await loadStampedSignatures(ctx, args.contractId),
+    };
+  },
+});
+
+// A stale CP document's terms, as it is re-rendered from, or null when it
+// no longer needs regenerating. Called by cpDocumentFiles.regenerate.
+export const getRegenerationData = internalQuery({
+  args: documentTargetArgs,
+  handler: async (ctx, args) => {
+    if (args.contractId) {
+      const contract = await ctx.db.get(args.contractId);
+      if (!contract?.fullCpChainStorageId || !contract.cpDocumentStale) return null;
+      return {
+        data: {
+          ...(await loadContractDetails(ctx, contract)),
+          documentNumber: contract.contractNumber,
+        },
+        form: contract.cpDocumentForm ?? "gencon",
+        signatures: await loadStampedSignatures(ctx, contract._id),
+        updatedAt: contract.updatedAt,
+      };
+    }
+
+    if (args.recapId) {
+      const recap = await ctx.db.get(args.recapId);
+      if (!recap?.fullCpChainStorageId || !recap.cpDocumentStale) return null;
+      return {
+        data: {
+          ...(await loadRecapDetails(ctx, recap)),
+          documentNumber: recap.recapNumber,
+        },
+        form: recap.cpDocumentForm ?? "wet-recap",
+        signatures: [],
+        updatedAt: recap.updatedAt,
+      };
+    }
+
+    return null;
+  },
+});
+
+// Link a regenerated CP document, unless the terms changed again while it was
+// rendered: the run scheduled by that change replaces it instead.
+export const attachRegenerated = internalMutation({
+  args: {
+    ...documentTargetArgs,
+    storageId: v.id("_storage"),
+    form: cpDocumentFormValidator,
+    sourceUpdatedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const contract = args.contractId ? await ctx.db.get(args.contractId) : null;
+    const recap = args.recapId ? await ctx.db.get(args.recapId) : null;
+    const document = contract ?? recap;
+
+    if (!document?.cpDocumentStale || document.updatedAt !== args.sourceUpdatedAt) {
+      await ctx.storage.delete(args.storageId);
+      return null;
+    }
+
+    if (contract) {
+      await linkContractDocument(ctx, contract, args.storageId, args.form);
+    } else if (recap) {
+      await linkRecapDocument(ctx, recap, args.storageId, args.form);
+    }
+    return args.storageId;
+  },
+});
+
+// Generate upload URL for a contract's CP document
+export const generateContractUploadUrl = mutation({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    await requireContractAccess(ctx, args.contractId, "edit-contracts");
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Generate upload URL for a recap's CP document
+export const generateRecapUploadUrl = mutation({
+  args: { recapId: v.id("recap_managers") },
+  handler: async (ctx, args) => {
+    await requireRecapAccess(ctx, args.recapId, "edit-contracts");
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Link a generated CP document to a contract. The user is absent when the
+// document was regenerated by a scheduled action.
+async function linkContractDocument(
+  ctx: MutationCtx,
+  contract: Doc<"contracts">,
+  storageId: Id<"_storage">,
+  form: CpDocumentForm,
+  userId?: Id<"users">
+) {
+  if (!(await isSignedVersion(ctx, contract._id, contract.fullCpChainStorageId))) {
+    await deletePreviousDocument(ctx, contract.fullCpChainStorageId, storageId);
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(contract._id, {
+    fullCpChainStorageId: storageId,
+    cpUrl: (await ctx.storage.getUrl(storageId)) ?? undefined,
+    cpDocumentForm: form,
+    cpDocumentGeneratedAt: now,
+    cpDocumentStale: false,
+    cpDocumentHash: undefined,
+    updatedAt: now,
+  });
+
+  await logActivity(
+    ctx,
+    "contract",
+    contract._id,
+    "document-generated",
+    `Generated ${FORM_LABELS[form]} charter party`,
+    undefined,
+    { form, regenerated: !!contract.fullCpChainStorageId },
+    userId
+  );
+}
+
+// Link a generated CP document to a recap
+async function linkRecapDocument(
+  ctx: MutationCtx,
+  recap: Doc<"recap_managers">,
+  storageId: Id<"_storage">,
+  form: CpDocumentForm,
+  userId?: Id<"users">
+) {
+  await deletePreviousDocument(ctx, recap.fullCpChainStorageId, storageId);
+
+  const now = Date.now();
+  await ctx.db.patch(recap._id, {
+    fullCpChainStorageId: storageId,
+    cpDocumentForm: form,
+    cpDocumentGeneratedAt: now,
+    cpDocumentStale: false,
+    updatedAt: now,
+  });
+
+  await logActivity(
+    ctx,
+    "recap_manager",
+    recap._id,
+    "document-generated",
+    `Generated ${FORM_LABELS[form]} charter party`,
+    undefined,
+    { form, regenerated: !!recap.fullCpChainStorageId },
+    userId
+  );
+}
+
+// Link an uploaded CP document to a contract
+export const attachToContract = mutation({
+  args: {
+    contractId: v.id("contracts"),
+    storageId: v.id("_storage"),
+    form: cpDocumentFormValidator,
+  },
+  handler: async (ctx, args) => {
+    const { user, contract } = await requireContractAccess(
+      ctx,
+      args.contractId,
+      "edit-contracts"
+    );
+
+    await linkContractDocument(ctx, contract, args.storageId, args.form, user._id);
+    return args.storageId;
+  },
+});
+
+// Link a CP document stamped with signature pages to a contract, in place of
+// the signed version it was rendered from. Called by esign.signContract.
+export const attachSignedToContract = internalMutation({
+  args: {
+    contractId: v.id("contracts"),
+    signedStorageId: v.id("_storage"),
+    storageId: v.id("_storage"),
+    documentHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { user, contract } = await requireContractAccess(ctx, args.contractId);
+
+    // Stamping follows a signature: the document it replaces is kept as signed
+    if (
+      contract.fullCpChainStorageId !== args.signedStorageId ||
+      !(await isSignedVersion(ctx, args.contractId, contract.fullCpChainStorageId))
+    ) {
+      // The stamped copy is stale: drop it rather than replace a newer document
+      await ctx.storage.delete(args.storageId);
+      return null;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.contractId, {
+      fullCpChainStorageId: args.storageId,
+      cpUrl: (await ctx.storage.getUrl(args.storageId)) ?? undefined,
+      cpDocumentGeneratedAt: now,
+      cpDocumentHash: args.documentHash,
+      updatedAt: now,
+    });
+
+    await logActivity(
+      ctx,
+      "contract",
+      args.contractId,
+      "document-stamped",
+      "Added signature pages to the charter party",
+      undefined,
+      { documentHash: args.documentHash },
+      user._id
+    );
+
+    return args.storageId;
+  },
+});
+
+// Link an uploaded CP document to a recap
+export const attachToRecap = mutation({
+  args: {
+    recapId: v.id("recap_managers"),
+    storageId: v.id("_storage"),
+    form: cpDocumentFormValidator,
+  },
+  handler: async (ctx, args) => {
+    const { user, recap } = await requireRecapAccess(
+      ctx,
+      args.recapId,
+      "edit-contracts"
+    );
+
+    await linkRecapDocument(ctx, recap, args.storageId, args.form, user._id);
+    return args.storageId;
+  },
+});
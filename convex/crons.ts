@@ -0,0 +1,38 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Move lapsed firm offers/bids and subjects to their expired status
+crons.interval(
+  "expire lapsed negotiations",
+  { minutes: 5 },
+  internal.negotiations.expireLapsed,
+  {}
+);
+
+// Flag COAs that are ending under- or over-lifted
+crons.daily(
+  "flag coa lifting positions",
+  { hourUTC: 6, minuteUTC: 0 },
+  internal.coa.flagLiftingPositions,
+  {}
+);
+
+// Notify saved-view subscribers of fixtures entering or leaving their bookmarks
+crons.interval(
+  "evaluate bookmark alerts",
+  { minutes: 15 },
+  internal.bookmarkAlerts.evaluateAll,
+  {}
+);
+
+// Send scheduled Fixtures exports that are due
+crons.hourly(
+  "run scheduled exports",
+  { minuteUTC: 0 },
+  internal.scheduledExports.runDue,
+  {}
+);
+
+export default crons;
@@ -0,0 +1,297 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { logActivity } from "./audit";
+import { requireOrgMember } from "./authorization";
+import type { OrgAccess } from "./authorization";
+import { membershipHasPermission } from "./permissions";
+
+// ============================================================================
+// DELEGATED AUTHORITY
+// ============================================================================
+// A user can lend their approval or signing authority to a colleague for a
+// date range. The colleague then approves or signs "on behalf of" them: the
+// delegator's permissions and policy steps apply, and the row and audit trail
+// record both names.
+
+export const delegatedAuthorityValidator = v.union(
+  v.literal("approve"), // Approve or reject contracts and addenda
+  v.literal("sign") // Sign or decline contracts and addenda
+);
+
+export type DelegatedAuthority = Infer<typeof delegatedAuthorityValidator>;
+
+const AUTHORITY_PERMISSIONS = {
+  approve: "approve-contract",
+  sign: "sign-cp",
+} as const;
+
+/**
+ * Who is acting and whose authority they act under.
+ * Without a delegation `principal` is the acting user.
+ */
+export interface ActingAuthority {
+  user: Doc<"users">;
+  principal: Doc<"users">;
+  membership: Doc<"memberships">; // The principal's membership
+  delegationId?: Id<"approval_delegations">;
+}
+
+/**
+ * The delegation currently letting `delegateId` act for `delegatorId`, or null
+ */
+export async function findActiveDelegation(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  delegatorId: Id<"users">,
+  delegateId: Id<"users">,
+  authority: DelegatedAuthority
+): Promise<Doc<"approval_delegations"> | null> {
+  const now = Date.now();
+  const delegations = await ctx.db
+    .query("approval_delegations")
+    .withIndex("by_delegate", (q) => q.eq("delegateId", delegateId))
+    .collect();
+
+  return (
+    delegations.find(
+      (delegation) =>
+        delegation.organizationId === organizationId &&
+        delegation.delegatorId === delegatorId &&
+        delegation.authority.includes(authority) &&
+        !delegation.revokedAt &&
+        delegation.startsAt <= now &&
+        now <= delegation.endsAt
+    ) ?? null
+  );
+}
+
+/**
+ * Resolve the authority a caller acts under for an approval or signature.
+ * Acting for themselves they need the permission; acting on behalf of a
+ * colleague they need an active delegation and the colleague the permission.
+ */
+export async function resolveActingAuthority(
+  ctx: QueryCtx,
+  access: OrgAccess,
+  authority: DelegatedAuthority,
+  onBehalfOf?: Id<"users">
+): Promise<ActingAuthority> {
+  const permission = AUTHORITY_PERMISSIONS[authority];
+  const organizationId = access.membership.organizationId;
+
+  if (!onBehalfOf || onBehalfOf === access.user._id) {
+    if (!(await membershipHasPermission(ctx, access.membership, permission))) {
+      throw new Error(`Access denied: missing permission "${permission}"`);
+    }
+    return { user: access.user, principal: access.user, membership: access.membership };
+  }
+
+  const delegation = await findActiveDelegation(
+    ctx,
+    organizationId,
+    onBehalfOf,
+    access.user._id,
+    authority
+  );
+  if (!delegation) {
+    throw new Error("Access denied: no active delegation from this user");
+  }
+
+  const principal = await ctx.db.get(onBehalfOf);
+  const membership = await ctx.db
+    .query("memberships")
+    .withIndex("by_userId", (q) => q.eq("userId", onBehalfOf))
+    .filter((q) => q.eq(q.field("organizationId"), organizationId))
+    .first();
+  if (!principal || !membership) {
+    throw new Error("Access denied: delegator is no longer a member of this organization");
+  }
+  if (!(await membershipHasPermission(ctx, membership, permission))) {
+    throw new Error(`Access denied: ${principal.name} is missing permission "${permission}"`);
+  }
+
+  return { user: access.user, principal, membership, delegationId: delegation._id };
+}
+
+/**
+ * Log an approval or signature decision, naming the delegator when the
+ * caller acted on their behalf ("Approved the contract on behalf of B")
+ */
+export async function logAuthorityActivity(
+  ctx: MutationCtx,
+  entity: { type: "contract"; id: Id<"contracts"> } | { type: "recap_manager"; id: Id<"recap_managers"> },
+  action: string,
+  description: string,
+  authority: ActingAuthority,
+  metadata?: Record<string, unknown>
+) {
+  const isDelegated = !!authority.delegationId;
+
+  await logActivity(
+    ctx,
+    entity.type,
+    entity.id,
+    action,
+    isDelegated ? `${description} on behalf of ${authority.principal.name}` : description,
+    undefined,
+    {
+      ...metadata,
+      ...(isDelegated
+        ? { onBehalfOf: authority.principal._id, delegationId: authority.delegationId }
+        : {}),
+    },
+    authority.user._id
+  );
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+// Delegations in an organization that are current or upcoming, soonest first
+export const list = query({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
+    const now = Date.now();
+    const delegations = await ctx.db
+      .query("approval_delegations")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .collect();
+
+    return await Promise.all(
+      delegations
+        .filter((delegation) => !delegation.revokedAt && delegation.endsAt >= now)
+        .sort((a, b) => a.startsAt - b.startsAt)
+        .map(async (delegation) => {
+          const delegator = await ctx.db.get(delegation.delegatorId);
+          const delegate = await ctx.db.get(delegation.delegateId);
+          return {
+            ...delegation,
+            isActive: delegation.startsAt <= now,
+            delegator: delegator ? { _id: delegator._id, name: delegator.name } : null,
+            delegate: delegate ? { _id: delegate._id, name: delegate.name } : null,
+          };
+        })
+    );
+  },
+});
+
+// Colleagues the current user may act for right now, with the authority lent
+export const listActingFor = query({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const { user } = await requireOrgMember(ctx, args.organizationId);
+
+    const now = Date.now();
+    const delegations = await ctx.db
+      .query("approval_delegations")
+      .withIndex("by_delegate", (q) => q.eq("delegateId", user._id))
+      .collect();
+
+    return await Promise.all(
+      delegations
+        .filter(
+          (delegation) =>
+            delegation.organizationId === args.organizationId &&
+            !delegation.revokedAt &&
+            delegation.startsAt <= now &&
+            now <= delegation.endsAt
+        )
+        .map(async (delegation) => {
+          const delegator = await ctx.db.get(delegation.delegatorId);
+          return {
+            delegationId: delegation._id,
+            delegatorId: delegation.delegatorId,
+            delegatorName: delegator?.name ?? "Unknown user",
+            authority: delegation.authority,
+            endsAt: delegation.endsAt,
+          };
+        })
+    );
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+// Delegate approval or signing authority to a colleague for a date range.
+// Member managers may set up a delegation for someone else.
+export const create = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    delegatorId: v.optional(v.id("users")), // Defaults to the caller
+    delegateId: v.id("users"),
+    authority: v.array(delegatedAuthorityValidator),
+    startsAt: v.number(),
+    endsAt: v.number(),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireOrgMember(ctx, args.organizationId);
+
+    const delegatorId = args.delegatorId ?? user._id;
+    if (delegatorId !== user._id) {
+      await requireOrgMember(ctx, args.organizationId, "manage-members");
+    }
+
+    if (args.delegateId === delegatorId) {
+      throw new Error("You cannot delegate to yourself");
+    }
+    if (args.authority.length === 0) {
+      throw new Error("Choose approval or signing authority to delegate");
+    }
+    if (args.endsAt <= args.startsAt) {
+      throw new Error("Delegation must end after it starts");
+    }
+    if (args.endsAt <= Date.now()) {
+      throw new Error("Delegation must end in the future");
+    }
+
+    for (const userId of [delegatorId, args.delegateId]) {
+      const membership = await ctx.db
+        .query("memberships")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .filter((q) => q.eq(q.field("organizationId"), args.organizationId))
+        .first();
+      if (!membership) {
+        throw new Error("Both users must be members of this organization");
+      }
+    }
+
+    return await ctx.db.insert("approval_delegations", {
+      organizationId: args.organizationId,
+      delegatorId,
+      delegateId: args.delegateId,
+      authority: Array.from(new Set(args.authority)),
+      startsAt: args.startsAt,
+      endsAt: args.endsAt,
+      reason: args.reason?.trim() || undefined,
+      createdBy: user._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Revoke a delegation. The delegator, the delegate or a member manager may revoke.
+export const revoke = mutation({
+  args: { delegationId: v.id("approval_delegations") },
+  handler: async (ctx, args) => {
+    const delegation = await ctx.db.get(args.delegationId);
+    if (!delegation) {
+      throw new Error("Delegation not found");
+    }
+
+    const { user } = await requireOrgMember(ctx, delegation.organizationId);
+    if (user._id !== delegation.delegatorId && user._id !== delegation.delegateId) {
+      await requireOrgMember(ctx, delegation.organizationId, "manage-members");
+    }
+
+    await ctx.db.patch(args.delegationId, { revokedAt: Date.now() });
+  },
+});
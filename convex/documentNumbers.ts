@@ -0,0 +1,271 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { requireOrgMember, resolveDealOrganizationId } from "./authorization";
+
+// ============================================================================
+// DOCUMENT TYPES
+// ============================================================================
+
+export const documentTypeValidator = v.union(
+  v.literal("order"),
+  v.literal("negotiation"),
+  v.literal("fixture"),
+  v.literal("contract"),
+  v.literal("recap")
+);
+
+export type DocumentType = Infer<typeof documentTypeValidator>;
+
+const DOCUMENT_TYPES: DocumentType[] = [
+  "order",
+  "negotiation",
+  "fixture",
+  "contract",
+  "recap",
+];
+
+const DEFAULT_PREFIXES: Record<DocumentType, string> = {
+  order: "ORD",
+  negotiation: "NEG",
+  fixture: "FIX",
+  contract: "CP",
+  recap: "RCP",
+};
+
+const DEFAULT_PADDING = 5;
+
+type SequenceSettings = Pick<
+  Doc<"document_sequences">,
+  "prefix" | "includeYear" | "padding"
+>;
+
+/**
+ * Format a counter value as a document number:
+ * "FIX00042", or "FIX-2026-00042" when the year is included
+ */
+export function formatDocumentNumber(
+  documentType: DocumentType,
+  settings: SequenceSettings | null,
+  value: number,
+  year: number
+): string {
+  const prefix = settings?.prefix ?? DEFAULT_PREFIXES[documentType];
+  const digits = String(value).padStart(settings?.padding ?? DEFAULT_PADDING, "0");
+  return settings?.includeYear ? `${prefix}-${year}-${digits}` : `${prefix}${digits}`;
+}
+
+// Whether a document of this type in the organization already carries the
+// number (numbers issued before sequences existed were random). Every org
+// starts from the same default prefixes, so other orgs' numbers don't count.
+async function isDocumentNumberTaken(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  documentType: DocumentType,
+  documentNumber: string
+): Promise<boolean> {
+  switch (documentType) {
+    case "order":
+      return !!(await ctx.db
+        .query("orders")
+        .withIndex("by_organization_and_orderNumber", (q) =>
+          q.eq("organizationId", organizationId).eq("orderNumber", documentNumber)
+        )
+        .first());
+    case "fixture":
+      return !!(await ctx.db
+        .query("fixtures")
+        .withIndex("by_organization_and_fixtureNumber", (q) =>
+          q.eq("organizationId", organizationId).eq("fixtureNumber", documentNumber)
+        )
+        .first());
+    case "negotiation": {
+      // Negotiations belong to an org through their order
+      const negotiations = await ctx.db
+        .query("negotiations")
+        .withIndex("by_negotiationNumber", (q) =>
+          q.eq("negotiationNumber", documentNumber)
+        )
+        .collect();
+      for (const negotiation of negotiations) {
+        const order = await ctx.db.get(negotiation.orderId);
+        if (order?.organizationId === organizationId) return true;
+      }
+      return false;
+    }
+    case "contract":
+      return await isDealNumberTakenInOrg(
+        ctx,
+        organizationId,
+        await ctx.db
+          .query("contracts")
+          .withIndex("by_contractNumber", (q) =>
+            q.eq("contractNumber", documentNumber)
+          )
+          .collect()
+      );
+    case "recap":
+      return await isDealNumberTakenInOrg(
+        ctx,
+        organizationId,
+        await ctx.db
+          .query("recap_managers")
+          .withIndex("by_recapNumber", (q) => q.eq("recapNumber", documentNumber))
+          .collect()
+      );
+  }
+}
+
+// Contracts and recaps belong to an org through their fixture or order
+async function isDealNumberTakenInOrg(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  deals: { fixtureId?: Id<"fixtures">; orderId?: Id<"orders"> }[]
+): Promise<boolean> {
+  for (const deal of deals) {
+    if ((await resolveDealOrganizationId(ctx, deal)) === organizationId) return true;
+  }
+  return false;
+}
+
+async function getSequence(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  documentType: DocumentType
+): Promise<Doc<"document_sequences"> | null> {
+  return await ctx.db
+    .query("document_sequences")
+    .withIndex("by_organization_and_type", (q) =>
+      q.eq("organizationId", organizationId).eq("documentType", documentType)
+    )
+    .first();
+}
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/**
+ * Hand out the next number in an organization's sequence for a document type.
+ * Runs inside the caller's mutation, so the counter only moves if the document
+ * is actually written: a failed mutation rolls it back and leaves no gap.
+ * Year-based sequences restart at 1 each calendar year (UTC).
+ */
+export async function allocateDocumentNumber(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  documentType: DocumentType
+): Promise<string> {
+  const now = Date.now();
+  const year = new Date(now).getUTCFullYear();
+  const sequence = await getSequence(ctx, organizationId, documentType);
+
+  let value =
+    sequence && (!sequence.includeYear || sequence.year === year)
+      ? sequence.lastValue
+      : 0;
+
+  // Step over numbers already used by documents created before sequences
+  let documentNumber: string;
+  do {
+    value++;
+    documentNumber = formatDocumentNumber(documentType, sequence, value, year);
+  } while (await isDocumentNumberTaken(ctx, organizationId, documentType, documentNumber));
+
+  if (sequence) {
+    await ctx.db.patch(sequence._id, { lastValue: value, year, updatedAt: now });
+  } else {
+    await ctx.db.insert("document_sequences", {
+      organizationId,
+      documentType,
+      year,
+      lastValue: value,
+      updatedAt: now,
+    });
+  }
+
+  return documentNumber;
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+// Get the organization's numbering settings and next number for every document type
+export const getSequences = query({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
+    const year = new Date().getUTCFullYear();
+
+    return await Promise.all(
+      DOCUMENT_TYPES.map(async (documentType) => {
+        const sequence = await getSequence(ctx, args.organizationId, documentType);
+        const lastValue =
+          sequence && (!sequence.includeYear || sequence.year === year)
+            ? sequence.lastValue
+            : 0;
+
+        return {
+          documentType,
+          prefix: sequence?.prefix ?? DEFAULT_PREFIXES[documentType],
+          includeYear: sequence?.includeYear ?? false,
+          padding: sequence?.padding ?? DEFAULT_PADDING,
+          lastValue,
+          nextNumber: formatDocumentNumber(documentType, sequence, lastValue + 1, year),
+        };
+      })
+    );
+  },
+});
+
+// Set the prefix, year pattern and padding of a document type's numbers.
+// Omitted settings go back to the defaults; the counter carries on.
+export const configureSequence = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    documentType: documentTypeValidator,
+    prefix: v.optional(v.string()),
+    includeYear: v.optional(v.boolean()),
+    padding: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId, "manage-members");
+
+    const prefix = args.prefix?.trim();
+    if (prefix !== undefined && !/^[A-Za-z0-9-]{1,10}$/.test(prefix)) {
+      throw new Error("Prefix must be 1-10 letters, digits or dashes");
+    }
+    if (
+      args.padding !== undefined &&
+      (!Number.isInteger(args.padding) || args.padding < 1 || args.padding > 10)
+    ) {
+      throw new Error("Padding must be a whole number between 1 and 10");
+    }
+
+    const now = Date.now();
+    const settings = {
+      prefix,
+      includeYear: args.includeYear,
+      padding: args.padding,
+      updatedAt: now,
+    };
+
+    const existing = await getSequence(ctx, args.organizationId, args.documentType);
+    if (existing) {
+      await ctx.db.patch(existing._id, settings);
+      return existing._id;
+    }
+
+    return await ctx.db.insert("document_sequences", {
+      organizationId: args.organizationId,
+      documentType: args.documentType,
+      ...settings,
+      year: new Date(now).getUTCFullYear(),
+      lastValue: 0,
+    });
+  },
+});
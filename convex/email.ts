@@ -1,6 +1,6 @@
 "use node";
 
-import { action } from "./_generated/server";
+import { action, internalAction } from "./_generated/server";
 import { v } from "convex/values";
 import { Resend } from "resend";
 
@@ -156,3 +156,167 @@ export const sendPasswordResetEmail = action({
     return { success: true, messageId: data?.id };
   },
 });
+
+// Bookmark names are user input
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const fixtureList = (heading: string, fixtureNumbers: string[]) =>
+  fixtureNumbers.length === 0
+    ? ""
+    : `
+              <p style="margin: 0 0 8px; font-size: 16px; font-weight: 600; color: #18181b;">
+                ${heading}
+              </p>
+              <ul style="margin: 0 0 16px; padding-left: 20px; font-size: 16px; color: #3f3f46; line-height: 1.5;">
+                ${fixtureNumbers.map((number) => `<li>${escapeHtml(number)}</li>`).join("")}
+              </ul>`;
+
+// Send a saved-view alert: fixtures that entered or left a subscribed bookmark
+export const sendBookmarkAlertEmail = internalAction({
+  args: {
+    toEmail: v.string(),
+    userName: v.string(),
+    bookmarkId: v.id("user_bookmarks"),
+    bookmarkName: v.string(),
+    enteredFixtureNumbers: v.array(v.string()),
+    leftFixtureNumbers: v.array(v.string()),
+  },
+  handler: async (_ctx, args) => {
+    const siteUrl = process.env.SITE_URL;
+    if (!siteUrl) {
+      throw new Error("SITE_URL environment variable is not set");
+    }
+
+    const fixturesLink = `${siteUrl}/fixtures?bk=${args.bookmarkId}`;
+    const bookmarkName = escapeHtml(args.bookmarkName);
+
+    const { data, error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to: args.toEmail,
+      subject: `Changes in your saved view "${args.bookmarkName}"`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Saved view alert</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+            <div style="background-color: #ffffff; border-radius: 8px; padding: 40px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
+              <h1 style="margin: 0 0 24px; font-size: 24px; font-weight: 600; color: #18181b;">
+                ${bookmarkName}
+              </h1>
+
+              <p style="margin: 0 0 16px; font-size: 16px; color: #3f3f46; line-height: 1.5;">
+                Hi ${escapeHtml(args.userName)}, the fixtures matching your saved view <strong>${bookmarkName}</strong> have changed.
+              </p>
+${fixtureList("Now matching", args.enteredFixtureNumbers)}
+${fixtureList("No longer matching", args.leftFixtureNumbers)}
+
+              <a href="${fixturesLink}" style="display: inline-block; padding: 12px 24px; background-color: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px; font-size: 16px; font-weight: 500;">
+                Open Fixtures
+              </a>
+
+              <hr style="margin: 32px 0; border: none; border-top: 1px solid #e4e4e7;">
+
+              <p style="margin: 0; font-size: 12px; color: #a1a1aa;">
+                You're receiving this because you turned on email alerts for this saved view. You can turn them off from the Fixtures page.
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      console.error("Failed to send bookmark alert email:", error);
+      throw new Error(`Failed to send bookmark alert email: ${error.message}`);
+    }
+
+    console.log("Bookmark alert email sent successfully:", data?.id);
+    return { success: true, messageId: data?.id };
+  },
+});
+
+// Send a scheduled Fixtures export to its recipients, with the file attached
+export const sendScheduledExportEmail = internalAction({
+  args: {
+    toEmails: v.array(v.string()),
+    bookmarkName: v.string(),
+    fileName: v.string(),
+    rowCount: v.number(),
+    fixtureLimit: v.optional(v.number()), // Set when the export was cut short
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.storage.get(args.storageId);
+    if (!file) {
+      throw new Error("Export file not found");
+    }
+
+    const bookmarkName = escapeHtml(args.bookmarkName);
+
+    const { data, error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to: args.toEmails,
+      subject: `${args.bookmarkName}: scheduled fixtures export`,
+      attachments: [
+        {
+          filename: args.fileName,
+          content: Buffer.from(await file.arrayBuffer()),
+        },
+      ],
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Scheduled export</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+            <div style="background-color: #ffffff; border-radius: 8px; padding: 40px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
+              <h1 style="margin: 0 0 24px; font-size: 24px; font-weight: 600; color: #18181b;">
+                ${bookmarkName}
+              </h1>
+
+              <p style="margin: 0 0 16px; font-size: 16px; color: #3f3f46; line-height: 1.5;">
+                Your scheduled export of the <strong>${bookmarkName}</strong> fixtures view is attached
+                (${args.rowCount} ${args.rowCount === 1 ? "row" : "rows"}).
+              </p>
+${
+  args.fixtureLimit
+    ? `
+              <p style="margin: 0 0 16px; font-size: 16px; color: #b45309; line-height: 1.5;">
+                The view matches more than ${args.fixtureLimit} fixtures, so only the first ${args.fixtureLimit} are included.
+                Narrow the view's filters to export everything.
+              </p>
+`
+    : ""
+}
+              <hr style="margin: 32px 0; border: none; border-top: 1px solid #e4e4e7;">
+
+              <p style="margin: 0; font-size: 12px; color: #a1a1aa;">
+                You're receiving this because you're on the distribution list of a scheduled SeamlessSea export.
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      console.error("Failed to send scheduled export email:", error);
+      throw new Error(`Failed to send scheduled export email: ${error.message}`);
+    }
+
+    console.log("Scheduled export email sent successfully:", data?.id);
+    return { success: true, messageId: data?.id };
+  },
+});
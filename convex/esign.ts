@@ -0,0 +1,181 @@
+"use node";
+
+import { createHash } from "node:crypto";
+import { v } from "convex/values";
+import { verifyPassword } from "better-auth/crypto";
+import { action } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { components, internal } from "./_generated/api";
+import { authComponent } from "./authQueries";
+import { generateCharterPartyPdf } from "../src/utils/cpDocument";
+
+// ============================================================================
+// ELECTRONIC SIGNING
+// ============================================================================
+// The signing ceremony: the signer reviews the stored CP document, confirms
+// its SHA-256 hash and re-enters their password. The hash is recomputed here
+// from the stored bytes, so the signature is bound to the exact version the
+// signer reviewed. The action then stamps a signature page into a new
+// version of the document, which is hashed too.
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const bytes = Buffer.from(await blob.arrayBuffer());
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+async function hashStoredFile(ctx: ActionCtx, storageId: Id<"_storage">): Promise<string> {
+  const blob = await ctx.storage.get(storageId);
+  if (!blob) {
+    throw new Error("Document file not found");
+  }
+  return await hashBlob(blob);
+}
+
+// Render the contract's CP document with a signature page for every
+// e-signature so far, and link it in place of the version just signed.
+// Returns whether the stamped version became the current document.
+async function stampSignaturePage(
+  ctx: ActionCtx,
+  contractId: Id<"contracts">,
+  signedStorageId: Id<"_storage">
+): Promise<boolean> {
+  const { data, form, signatures } = await ctx.runQuery(internal.cpDocuments.getContractDocumentData, {
+    contractId,
+  });
+
+  const blob = generateCharterPartyPdf(data, form, signatures);
+  const documentHash = await hashBlob(blob);
+  const storageId = await ctx.storage.store(blob);
+
+  const attached = await ctx.runMutation(internal.cpDocuments.attachSignedToContract, {
+    contractId,
+    signedStorageId,
+    storageId,
+    documentHash,
+  });
+  return attached !== null;
+}
+
+// Check the signed-in user's password again before a signature is recorded
+async function reauthenticate(ctx: ActionCtx, password: string) {
+  const authUser = await authComponent.safeGetAuthUser(ctx);
+  if (!authUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const account = await ctx.runQuery(components.betterAuth.adapter.findOne, {
+    model: "account",
+    where: [
+      { field: "userId", value: authUser._id },
+      { field: "providerId", value: "credential" },
+    ],
+  });
+  if (!account?.password) {
+    throw new Error("Signing requires a password. Set one from the reset password page first.");
+  }
+
+  if (!(await verifyPassword({ hash: account.password, password }))) {
+    throw new Error("Incorrect password");
+  }
+}
+
+/**
+ * Sign a contract electronically against the reviewed document version
+ */
+export const signContract = action({
+  args: {
+    signatureId: v.id("contract_signatures"),
+    password: v.string(),
+    documentHash: v.string(), // SHA-256 the signer reviewed, computed in the browser
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
+  },
+  handler: async (ctx, args) => {
+    await reauthenticate(ctx, args.password);
+
+    const { contractId, storageId } = await ctx.runQuery(internal.signatures.getSigningDocument, {
+      signatureId: args.signatureId,
+    });
+
+    const documentHash = await hashStoredFile(ctx, storageId);
+    if (documentHash !== args.documentHash.toLowerCase()) {
+      throw new Error("The charter party does not match the version you reviewed. Reload it and review it again.");
+    }
+
+    await ctx.runMutation(internal.signatures.recordElectronicSignature, {
+      signatureId: args.signatureId,
+      documentStorageId: storageId,
+      documentHash,
+      onBehalfOf: args.onBehalfOf,
+    });
+
+    // The signature stands on its own; a failed stamp only leaves the
+    // signed version without its signature page
+    let stamped = false;
+    try {
+      stamped = await stampSignaturePage(ctx, contractId, storageId);
+    } catch (error) {
+      console.error("Failed to stamp signature page:", error);
+    }
+
+    return { documentHash, stamped };
+  },
+});
+
+// A stored document re-hashed and compared with its recorded hash
+interface DocumentCheck {
+  recordedHash: string;
+  actualHash: string | null; // Null when the file is missing
+  intact: boolean;
+}
+
+interface DocumentVerification {
+  current: DocumentCheck | null;
+  signatures: Array<DocumentCheck & { signatureId: Id<"contract_signatures">; partyRole: string }>;
+  intact: boolean;
+  verifiedAt: number;
+}
+
+/**
+ * Re-hash the current CP document and every signed version, and compare
+ * them with the hashes recorded when they were signed or stamped
+ */
+export const verifyContractDocument = action({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args): Promise<DocumentVerification> => {
+    const documents = await ctx.runQuery(internal.signatures.getSignedDocuments, {
+      contractId: args.contractId,
+    });
+
+    const check = async (storageId: Id<"_storage">, recordedHash: string): Promise<DocumentCheck> => {
+      try {
+        const actualHash = await hashStoredFile(ctx, storageId);
+        return { recordedHash, actualHash, intact: actualHash === recordedHash };
+      } catch {
+        return { recordedHash, actualHash: null, intact: false };
+      }
+    };
+
+    const signatures = await Promise.all(
+      documents.signatures.map(async (signature) => ({
+        signatureId: signature.signatureId,
+        partyRole: signature.partyRole,
+        ...(await check(signature.storageId, signature.hash)),
+      }))
+    );
+
+    // The current document has a recorded hash once it has been stamped
+    const current = documents.current?.hash
+      ? await check(documents.current.storageId, documents.current.hash)
+      : null;
+
+    return {
+      current,
+      signatures,
+      intact: signatures.every((signature) => signature.intact) && (current?.intact ?? true),
+      verifiedAt: Date.now(),
+    };
+  },
+});
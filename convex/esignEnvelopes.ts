@@ -0,0 +1,684 @@
+import { v } from "convex/values";
+import {
+  action,
+  httpAction,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { applyAmendmentsIfComplete } from "./addenda";
+import { logActivity } from "./audit";
+import {
+  isOrgMember,
+  requireAddendaAccess,
+  requireContractAccess,
+  resolveDealOrganizationId,
+} from "./authorization";
+import type { AddendaParent, OrgAccess } from "./authorization";
+import type { Permission } from "./permissions";
+import { markFullySignedIfComplete } from "./signatures";
+import {
+  envelopeStatusValidator,
+  esignProviderValidator,
+  getCallbackUrl,
+  getProvider,
+  listConfiguredProviders,
+} from "./esignProviders";
+
+// ============================================================================
+// E-SIGNATURE ENVELOPES
+// ============================================================================
+// A pending contract or addenda signature row can be sent to a signer through
+// an e-signature provider. The provider reports progress to
+// /esign/callback/<provider>; once the envelope completes, the signed document
+// is downloaded, stored and hashed, and the signature row is marked signed.
+
+const signatureTypeValidator = v.union(v.literal("contract"), v.literal("addenda"));
+
+const TERMINAL_STATUSES = ["completed", "declined", "voided"];
+
+type SignatureRow = Doc<"contract_signatures"> | Doc<"addenda_signatures">;
+
+// The addendum an addenda signature row belongs to
+async function getAddendum(ctx: QueryCtx, signature: Doc<"addenda_signatures">) {
+  if (signature.addendaType === "contract") {
+    const id = ctx.db.normalizeId("contract_addenda", signature.addendaId);
+    return id ? await ctx.db.get(id) : null;
+  }
+  const id = ctx.db.normalizeId("recap_addenda", signature.addendaId);
+  return id ? await ctx.db.get(id) : null;
+}
+
+// The signature row an envelope was sent for
+async function getEnvelopeSignature(ctx: QueryCtx, envelope: Doc<"esign_envelopes">) {
+  if (envelope.signatureType === "contract") {
+    const id = ctx.db.normalizeId("contract_signatures", envelope.signatureId);
+    return { type: "contract" as const, signature: id ? await ctx.db.get(id) : null };
+  }
+  const id = ctx.db.normalizeId("addenda_signatures", envelope.signatureId);
+  return { type: "addenda" as const, signature: id ? await ctx.db.get(id) : null };
+}
+
+/**
+ * Load a signature row by its string ID and check access through its
+ * contract or addendum
+ */
+async function requireSignatureAccess(
+  ctx: QueryCtx,
+  signatureId: string,
+  signatureType: "contract" | "addenda",
+  permission?: Permission
+): Promise<
+  OrgAccess & {
+    signature: SignatureRow;
+    parent: AddendaParent;
+    subject: string; // "the contract", "addendum A1"
+    documentStorageId?: Id<"_storage">;
+    documentName: string;
+  }
+> {
+  if (signatureType === "contract") {
+    const id = ctx.db.normalizeId("contract_signatures", signatureId);
+    const signature = id ? await ctx.db.get(id) : null;
+    if (!signature) {
+      throw new Error("Signature not found");
+    }
+    const { user, membership, contract } = await requireContractAccess(
+      ctx,
+      signature.contractId,
+      permission
+    );
+    return {
+      user,
+      membership,
+      signature,
+      parent: { type: "contract", id: contract._id },
+      subject: "the contract",
+      // A stale document no longer matches the agreed terms
+      documentStorageId: contract.cpDocumentStale ? undefined : contract.fullCpChainStorageId,
+      documentName: `${contract.contractNumber}.pdf`,
+    };
+  }
+
+  const id = ctx.db.normalizeId("addenda_signatures", signatureId);
+  const signature = id ? await ctx.db.get(id) : null;
+  if (!signature) {
+    throw new Error("Signature not found");
+  }
+  const access = await requireAddendaAccess(
+    ctx,
+    signature.addendaId,
+    signature.addendaType,
+    permission
+  );
+  const addendum = await getAddendum(ctx, signature);
+  return {
+    user: access.user,
+    membership: access.membership,
+    signature,
+    parent: access.parent,
+    subject: `addendum ${access.addendaNumber}`,
+    documentStorageId: addendum?.documentStorageId,
+    documentName: `${access.addendaNumber}.pdf`,
+  };
+}
+
+// Envelopes for the given signature rows, newest first
+async function listEnvelopesForSignatures(ctx: QueryCtx, signatures: SignatureRow[]) {
+  const envelopes = await Promise.all(
+    signatures.map(async (signature) => {
+      const rows = await ctx.db
+        .query("esign_envelopes")
+        .withIndex("by_signature", (q) => q.eq("signatureId", signature._id))
+        .collect();
+      return rows.map(({ providerEnvelopeId: _providerEnvelopeId, ...envelope }) => ({
+        ...envelope,
+        partyRole: signature.partyRole,
+      }));
+    })
+  );
+  return envelopes.flat().sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// The organization owning the contract or recap an envelope's signature belongs to
+async function resolveEnvelopeOrganizationId(
+  ctx: QueryCtx,
+  envelope: Doc<"esign_envelopes">
+): Promise<Id<"organizations"> | null> {
+  const { type, signature } = await getEnvelopeSignature(ctx, envelope);
+  if (!signature) return null;
+
+  if (type === "contract") {
+    const contract = await ctx.db.get(signature.contractId);
+    return contract ? await resolveDealOrganizationId(ctx, contract) : null;
+  }
+
+  const addendum = await getAddendum(ctx, signature);
+  if (!addendum) return null;
+  const deal =
+    "contractId" in addendum
+      ? await ctx.db.get(addendum.contractId)
+      : await ctx.db.get(addendum.recapManagerId);
+  return deal ? await resolveDealOrganizationId(ctx, deal) : null;
+}
+
+// Look up the user a provider signer corresponds to: an account with the
+// signer's email that is a member of the deal's organization. Anyone else is
+// recorded by name only, so an outside signer can't be attributed to an
+// unrelated account that shares the address.
+async function findSignerUser(ctx: QueryCtx, envelope: Doc<"esign_envelopes">) {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_email", (q) => q.eq("email", envelope.signerEmail))
+    .first();
+  if (!user) return null;
+
+  const organizationId = await resolveEnvelopeOrganizationId(ctx, envelope);
+  if (!organizationId || !(await isOrgMember(ctx, user._id, organizationId))) {
+    return null;
+  }
+  return user;
+}
+
+// Fields an envelope outcome sets on its signature row
+type SignatureOutcome = Pick<
+  Partial<Doc<"contract_signatures">>,
+  "status" | "signedBy" | "signedAt" | "signingMethod" | "documentStorageId" | "documentHash"
+>;
+
+async function patchSignature(
+  ctx: MutationCtx,
+  envelope: Doc<"esign_envelopes">,
+  outcome: SignatureOutcome
+) {
+  const { signature } = await getEnvelopeSignature(ctx, envelope);
+  // A signature recorded another way in the meantime is left as it is
+  if (!signature || signature.status !== "pending") return;
+  await ctx.db.patch(signature._id, { ...outcome, updatedAt: Date.now() });
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+// Providers available for sending envelopes
+export const listProviders = query({
+  args: {},
+  handler: async () => {
+    return listConfiguredProviders().map((provider) => ({
+      name: provider.name,
+      label: provider.label,
+    }));
+  },
+});
+
+// Envelopes sent for a contract's signatures
+export const listForContract = query({
+  args: { contractId: v.id("contracts") },
+  handler: async (ctx, args) => {
+    await requireContractAccess(ctx, args.contractId);
+
+    const signatures = await ctx.db
+      .query("contract_signatures")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .collect();
+
+    return await listEnvelopesForSignatures(ctx, signatures);
+  },
+});
+
+// Envelopes sent for an addendum's signatures
+export const listForAddenda = query({
+  args: {
+    addendaId: v.string(),
+    addendaType: v.union(v.literal("contract"), v.literal("recap")),
+  },
+  handler: async (ctx, args) => {
+    await requireAddendaAccess(ctx, args.addendaId, args.addendaType);
+
+    const signatures = await ctx.db
+      .query("addenda_signatures")
+      .withIndex("by_addenda", (q) => q.eq("addendaId", args.addendaId))
+      .collect();
+
+    return await listEnvelopesForSignatures(ctx, signatures);
+  },
+});
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+// The document a pending signature row would be sent out with
+export const getEnvelopeDocument = internalQuery({
+  args: {
+    signatureId: v.string(),
+    signatureType: signatureTypeValidator,
+  },
+  handler: async (ctx, args) => {
+    const { signature, documentStorageId, documentName } = await requireSignatureAccess(
+      ctx,
+      args.signatureId,
+      args.signatureType,
+      "edit-contracts"
+    );
+    if (signature.status !== "pending") {
+      throw new Error("This signature has already been recorded");
+    }
+    if (!documentStorageId) {
+      throw new Error("Generate an up-to-date document before sending it for signature");
+    }
+
+    const envelopes = await ctx.db
+      .query("esign_envelopes")
+      .withIndex("by_signature", (q) => q.eq("signatureId", args.signatureId))
+      .collect();
+    if (envelopes.some((envelope) => !TERMINAL_STATUSES.includes(envelope.status))) {
+      throw new Error("This signature is already out for signing. Void the open envelope first.");
+    }
+
+    return { documentStorageId, documentName };
+  },
+});
+
+export const recordSent = internalMutation({
+  args: {
+    signatureId: v.string(),
+    signatureType: signatureTypeValidator,
+    provider: esignProviderValidator,
+    providerEnvelopeId: v.string(),
+    signerName: v.string(),
+    signerEmail: v.string(),
+    documentStorageId: v.id("_storage"),
+    providerLabel: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { user, signature, parent, subject } = await requireSignatureAccess(
+      ctx,
+      args.signatureId,
+      args.signatureType,
+      "edit-contracts"
+    );
+
+    const now = Date.now();
+    const envelopeId = await ctx.db.insert("esign_envelopes", {
+      signatureId: args.signatureId,
+      signatureType: args.signatureType,
+      provider: args.provider,
+      providerEnvelopeId: args.providerEnvelopeId,
+      status: "sent",
+      signerName: args.signerName,
+      signerEmail: args.signerEmail,
+      documentStorageId: args.documentStorageId,
+      events: [{ status: "sent", occurredAt: now }],
+      sentBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await logActivity(
+      ctx,
+      parent.type,
+      parent.id,
+      "signature-requested",
+      `Sent ${subject} to ${args.signerName} to sign for the ${signature.partyRole} via ${args.providerLabel}`,
+      undefined,
+      { envelopeId, signatureId: args.signatureId, provider: args.provider },
+      user._id
+    );
+
+    return envelopeId;
+  },
+});
+
+/**
+ * Send a pending signature row to a signer through an e-signature provider
+ */
+export const sendForSignature = action({
+  args: {
+    signatureId: v.string(), // contract_signatures or addenda_signatures ID
+    signatureType: signatureTypeValidator,
+    provider: esignProviderValidator,
+    signerName: v.string(),
+    signerEmail: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"esign_envelopes">> => {
+    const signerName = args.signerName.trim();
+    const signerEmail = args.signerEmail.trim().toLowerCase();
+    if (!signerName || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(signerEmail)) {
+      throw new Error("Enter the signer's name and a valid email address");
+    }
+
+    const provider = getProvider(args.provider);
+    const { documentStorageId, documentName } = await ctx.runQuery(
+      internal.esignEnvelopes.getEnvelopeDocument,
+      { signatureId: args.signatureId, signatureType: args.signatureType }
+    );
+
+    const document = await ctx.storage.get(documentStorageId);
+    if (!document) {
+      throw new Error("Document file not found");
+    }
+
+    const { providerEnvelopeId } = await provider.sendEnvelope(ctx, {
+      document,
+      documentName,
+      signer: { name: signerName, email: signerEmail },
+      callbackUrl: getCallbackUrl(provider.name),
+    });
+
+    return await ctx.runMutation(internal.esignEnvelopes.recordSent, {
+      signatureId: args.signatureId,
+      signatureType: args.signatureType,
+      provider: provider.name,
+      providerEnvelopeId,
+      signerName,
+      signerEmail,
+      documentStorageId,
+      providerLabel: provider.label,
+    });
+  },
+});
+
+export const getEnvelopeForSender = internalQuery({
+  args: { envelopeId: v.id("esign_envelopes") },
+  handler: async (ctx, args) => {
+    const envelope = await ctx.db.get(args.envelopeId);
+    if (!envelope) {
+      throw new Error("Envelope not found");
+    }
+    await requireSignatureAccess(ctx, envelope.signatureId, envelope.signatureType, "edit-contracts");
+    if (TERMINAL_STATUSES.includes(envelope.status)) {
+      throw new Error(`This envelope is already ${envelope.status}`);
+    }
+    return envelope;
+  },
+});
+
+/**
+ * Cancel an open envelope so the signature can be sent again
+ */
+export const voidEnvelope = action({
+  args: { envelopeId: v.id("esign_envelopes") },
+  handler: async (ctx, args) => {
+    const envelope = await ctx.runQuery(internal.esignEnvelopes.getEnvelopeForSender, {
+      envelopeId: args.envelopeId,
+    });
+
+    await getProvider(envelope.provider).voidEnvelope(ctx, envelope);
+
+    await ctx.runMutation(internal.esignEnvelopes.recordProviderEvent, {
+      provider: envelope.provider,
+      providerEnvelopeId: envelope.providerEnvelopeId,
+      status: "voided",
+      occurredAt: Date.now(),
+    });
+  },
+});
+
+// ============================================================================
+// PROVIDER CALLBACKS
+// ============================================================================
+
+/**
+ * Apply a status change reported by the provider. Events for envelopes that
+ * already completed, were declined or were voided are ignored.
+ */
+export const recordProviderEvent = internalMutation({
+  args: {
+    provider: esignProviderValidator,
+    providerEnvelopeId: v.string(),
+    status: envelopeStatusValidator,
+    occurredAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const envelope = await ctx.db
+      .query("esign_envelopes")
+      .withIndex("by_provider_envelope", (q) =>
+        q.eq("provider", args.provider).eq("providerEnvelopeId", args.providerEnvelopeId)
+      )
+      .first();
+    if (!envelope) {
+      throw new Error("Envelope not found");
+    }
+    if (TERMINAL_STATUSES.includes(envelope.status)) return;
+
+    await ctx.db.patch(envelope._id, {
+      status: args.status,
+      events: [...envelope.events, { status: args.status, occurredAt: args.occurredAt }],
+      updatedAt: Date.now(),
+    });
+
+    if (args.status === "completed") {
+      await ctx.scheduler.runAfter(0, internal.esignEnvelopes.downloadCompletedDocument, {
+        envelopeId: envelope._id,
+      });
+    }
+
+    if (args.status === "declined") {
+      const signer = await findSignerUser(ctx, envelope);
+      await patchSignature(ctx, envelope, {
+        status: "rejected",
+        signedBy: signer?._id,
+        signedAt: args.occurredAt,
+      });
+      await logEnvelopeActivity(
+        ctx,
+        envelope,
+        "signature-rejected",
+        (subject, partyRole) => `${envelope.signerName} declined to sign ${subject} for the ${partyRole}`
+      );
+    }
+  },
+});
+
+export const getEnvelope = internalQuery({
+  args: { envelopeId: v.id("esign_envelopes") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.envelopeId);
+  },
+});
+
+// Fetch the signed document from the provider, store it and hash it.
+// A failed download is recorded on the envelope so it can be retried.
+export const downloadCompletedDocument = internalAction({
+  args: { envelopeId: v.id("esign_envelopes") },
+  handler: async (ctx, args) => {
+    const envelope = await ctx.runQuery(internal.esignEnvelopes.getEnvelope, {
+      envelopeId: args.envelopeId,
+    });
+    if (!envelope || envelope.completedDocumentStorageId) return;
+
+    const provider = getProvider(envelope.provider);
+    let document: Blob;
+    try {
+      document = await provider.downloadCompletedDocument(ctx, envelope);
+    } catch (error) {
+      console.error(`Failed to download envelope ${args.envelopeId}:`, error);
+      await ctx.runMutation(internal.esignEnvelopes.recordDownloadFailure, {
+        envelopeId: args.envelopeId,
+        error: error instanceof Error ? error.message : "Download failed",
+      });
+      return;
+    }
+
+    const digest = await crypto.subtle.digest("SHA-256", await document.arrayBuffer());
+    const documentHash = Array.from(new Uint8Array(digest), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("");
+    const storageId = await ctx.storage.store(document);
+
+    await ctx.runMutation(internal.esignEnvelopes.completeSignature, {
+      envelopeId: args.envelopeId,
+      storageId,
+      documentHash,
+      signingMethod: provider.label,
+    });
+  },
+});
+
+export const recordDownloadFailure = internalMutation({
+  args: {
+    envelopeId: v.id("esign_envelopes"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.envelopeId, {
+      downloadError: args.error,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Download a completed envelope's signed document again after a failure
+ */
+export const retryDownload = mutation({
+  args: { envelopeId: v.id("esign_envelopes") },
+  handler: async (ctx, args) => {
+    const envelope = await ctx.db.get(args.envelopeId);
+    if (!envelope) {
+      throw new Error("Envelope not found");
+    }
+    await requireSignatureAccess(ctx, envelope.signatureId, envelope.signatureType, "edit-contracts");
+    if (envelope.status !== "completed" || envelope.completedDocumentStorageId) {
+      throw new Error("This envelope has no signed document to download");
+    }
+
+    await ctx.db.patch(args.envelopeId, { downloadError: undefined, updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(0, internal.esignEnvelopes.downloadCompletedDocument, {
+      envelopeId: args.envelopeId,
+    });
+  },
+});
+
+export const completeSignature = internalMutation({
+  args: {
+    envelopeId: v.id("esign_envelopes"),
+    storageId: v.id("_storage"),
+    documentHash: v.string(),
+    signingMethod: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const envelope = await ctx.db.get(args.envelopeId);
+    if (!envelope) {
+      throw new Error("Envelope not found");
+    }
+
+    const completedAt =
+      envelope.events.find((event) => event.status === "completed")?.occurredAt ?? Date.now();
+    const signer = await findSignerUser(ctx, envelope);
+
+    await ctx.db.patch(args.envelopeId, {
+      completedDocumentStorageId: args.storageId,
+      downloadError: undefined,
+      updatedAt: Date.now(),
+    });
+    await patchSignature(ctx, envelope, {
+      status: "signed",
+      signedBy: signer?._id,
+      signedAt: completedAt,
+      signingMethod: args.signingMethod,
+      documentStorageId: args.storageId,
+      documentHash: args.documentHash,
+    });
+
+    await logEnvelopeActivity(
+      ctx,
+      envelope,
+      "signed",
+      (subject, partyRole) =>
+        `${envelope.signerName} signed ${subject} for the ${partyRole} via ${args.signingMethod}`,
+      { documentHash: args.documentHash }
+    );
+
+    const { type, signature } = await getEnvelopeSignature(ctx, envelope);
+    if (type === "contract" && signature) {
+      await markFullySignedIfComplete(ctx, signature.contractId);
+    } else if (type === "addenda" && signature) {
+      await applyAmendmentsIfComplete(
+        ctx,
+        signature.addendaId,
+        signature.addendaType,
+        signer?._id ?? envelope.sentBy
+      );
+    }
+  },
+});
+
+// Log an envelope outcome on the contract or recap the signature belongs to.
+// Callbacks carry no user session, so the parent is resolved without an access check.
+async function logEnvelopeActivity(
+  ctx: MutationCtx,
+  envelope: Doc<"esign_envelopes">,
+  action: string,
+  describe: (subject: string, partyRole: string) => string,
+  metadata?: Record<string, unknown>
+) {
+  let parent: AddendaParent | null = null;
+  let subject = "the contract";
+
+  const { type, signature } = await getEnvelopeSignature(ctx, envelope);
+  if (!signature) return;
+
+  if (type === "contract") {
+    parent = { type: "contract", id: signature.contractId };
+  } else {
+    const addendum = await getAddendum(ctx, signature);
+    if (addendum) {
+      parent =
+        "contractId" in addendum
+          ? { type: "contract", id: addendum.contractId }
+          : { type: "recap_manager", id: addendum.recapManagerId };
+      subject = `addendum ${addendum.addendaNumber}`;
+    }
+  }
+  if (!parent) return;
+  const partyRole = signature.partyRole;
+
+  await logActivity(ctx, parent.type, parent.id, action, describe(subject, partyRole), undefined, {
+    ...metadata,
+    envelopeId: envelope._id,
+    signatureId: envelope.signatureId,
+    provider: envelope.provider,
+  });
+}
+
+/**
+ * HTTP endpoint for provider status callbacks: POST /esign/callback/<provider>
+ */
+export const providerCallback = httpAction(async (ctx, request) => {
+  const providerName = new URL(request.url).pathname.split("/").pop() ?? "";
+
+  let provider;
+  try {
+    provider = getProvider(providerName);
+  } catch {
+    return new Response("Unknown provider", { status: 404 });
+  }
+
+  let event;
+  try {
+    event = await provider.parseCallback(request);
+  } catch (error) {
+    console.error(`Rejected ${providerName} e-sign callback:`, error);
+    return new Response("Invalid callback", { status: 401 });
+  }
+
+  try {
+    await ctx.runMutation(internal.esignEnvelopes.recordProviderEvent, {
+      provider: provider.name,
+      ...event,
+    });
+  } catch (error) {
+    console.error(`Failed to apply ${providerName} e-sign callback:`, error);
+    return new Response("Envelope not found", { status: 404 });
+  }
+
+  return new Response(null, { status: 200 });
+});
@@ -0,0 +1,199 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { internalAction } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+// ============================================================================
+// E-SIGNATURE PROVIDERS
+// ============================================================================
+// Signature rows can be sent out as envelopes through an external e-signature
+// provider. Each provider implements the adapter below; esignEnvelopes drives
+// the lifecycle and http.ts routes the provider's status callbacks to it.
+//
+// The mock provider simulates an envelope lifecycle without an external
+// service: it posts signed "delivered" then "completed" callbacks to our own
+// HTTP endpoint. It is enabled by setting ESIGN_MOCK_SECRET. Signer emails
+// containing "+decline" make the mock signer decline instead.
+
+export const esignProviderValidator = v.union(
+  v.literal("mock") // Local simulation, for development and testing
+);
+
+export type ESignProviderName = Infer<typeof esignProviderValidator>;
+
+export const envelopeStatusValidator = v.union(
+  v.literal("sent"),
+  v.literal("delivered"), // Opened by the signer
+  v.literal("completed"),
+  v.literal("declined"),
+  v.literal("voided") // Cancelled by the sender
+);
+
+export type EnvelopeStatus = Infer<typeof envelopeStatusValidator>;
+
+export interface EnvelopeRequest {
+  document: Blob;
+  documentName: string;
+  signer: { name: string; email: string };
+  callbackUrl: string; // Where the provider posts status changes
+}
+
+// A status change reported by a provider callback
+export interface ProviderEvent {
+  providerEnvelopeId: string;
+  status: EnvelopeStatus;
+  occurredAt: number;
+}
+
+export interface ESignProvider {
+  name: ESignProviderName;
+  label: string; // Recorded as the signature's signingMethod
+  isConfigured: () => boolean;
+  sendEnvelope: (ctx: ActionCtx, request: EnvelopeRequest) => Promise<{ providerEnvelopeId: string }>;
+  voidEnvelope: (ctx: ActionCtx, envelope: Doc<"esign_envelopes">) => Promise<void>;
+  // Throws when the callback cannot be authenticated
+  parseCallback: (request: Request) => Promise<ProviderEvent>;
+  downloadCompletedDocument: (ctx: ActionCtx, envelope: Doc<"esign_envelopes">) => Promise<Blob>;
+}
+
+// ============================================================================
+// CALLBACK SIGNING
+// ============================================================================
+
+async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+// ============================================================================
+// MOCK PROVIDER
+// ============================================================================
+
+const MOCK_SIGNATURE_HEADER = "X-Mock-Signature";
+
+// Delays before the mock signer opens and then signs (or declines) the envelope
+const MOCK_DELIVERED_AFTER_MS = 5 * 1000;
+const MOCK_COMPLETED_AFTER_MS = 20 * 1000;
+
+const mockProvider: ESignProvider = {
+  name: "mock",
+  label: "Mock e-signature",
+  isConfigured: () => !!process.env.ESIGN_MOCK_SECRET,
+
+  sendEnvelope: async (ctx, request) => {
+    const providerEnvelopeId = `mock-${crypto.randomUUID()}`;
+    const outcome = request.signer.email.includes("+decline") ? "declined" : "completed";
+
+    await ctx.scheduler.runAfter(MOCK_DELIVERED_AFTER_MS, internal.esignProviders.simulateMockEvent, {
+      callbackUrl: request.callbackUrl,
+      providerEnvelopeId,
+      status: "delivered",
+    });
+    await ctx.scheduler.runAfter(MOCK_COMPLETED_AFTER_MS, internal.esignProviders.simulateMockEvent, {
+      callbackUrl: request.callbackUrl,
+      providerEnvelopeId,
+      status: outcome,
+    });
+
+    return { providerEnvelopeId };
+  },
+
+  // Callbacks still arrive for a voided mock envelope; esignEnvelopes ignores them
+  voidEnvelope: async () => {},
+
+  parseCallback: async (request) => {
+    const body = await request.text();
+    const expected = await hmacSha256Hex(process.env.ESIGN_MOCK_SECRET!, body);
+    if (!constantTimeEqual(request.headers.get(MOCK_SIGNATURE_HEADER) ?? "", expected)) {
+      throw new Error("Invalid callback signature");
+    }
+
+    const event = JSON.parse(body);
+    return {
+      providerEnvelopeId: event.envelopeId,
+      status: event.status,
+      occurredAt: event.occurredAt,
+    };
+  },
+
+  // The mock signer signs the document exactly as it was sent
+  downloadCompletedDocument: async (ctx, envelope) => {
+    const blob = await ctx.storage.get(envelope.documentStorageId);
+    if (!blob) {
+      throw new Error("Envelope document not found");
+    }
+    return blob;
+  },
+};
+
+// Post a signed status callback, as the mock provider's servers would
+export const simulateMockEvent = internalAction({
+  args: {
+    callbackUrl: v.string(),
+    providerEnvelopeId: v.string(),
+    status: envelopeStatusValidator,
+  },
+  handler: async (_ctx, args) => {
+    const body = JSON.stringify({
+      envelopeId: args.providerEnvelopeId,
+      status: args.status,
+      occurredAt: Date.now(),
+    });
+
+    const response = await fetch(args.callbackUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [MOCK_SIGNATURE_HEADER]: await hmacSha256Hex(process.env.ESIGN_MOCK_SECRET!, body),
+      },
+      body,
+    });
+    if (!response.ok) {
+      console.error(`Mock e-sign callback ${args.status} failed: ${response.status}`);
+    }
+  },
+});
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const PROVIDERS: Record<ESignProviderName, ESignProvider> = {
+  mock: mockProvider,
+};
+
+export function getProvider(name: string): ESignProvider {
+  const provider = PROVIDERS[name as ESignProviderName];
+  if (!provider || !provider.isConfigured()) {
+    throw new Error(`E-signature provider "${name}" is not configured`);
+  }
+  return provider;
+}
+
+export function listConfiguredProviders(): ESignProvider[] {
+  return Object.values(PROVIDERS).filter((provider) => provider.isConfigured());
+}
+
+// Status callbacks for a provider are posted here
+export function getCallbackUrl(provider: ESignProviderName): string {
+  return `${process.env.CONVEX_SITE_URL}/esign/callback/${provider}`;
+}
@@ -0,0 +1,27 @@
+import { v } from "convex/values";
+
+// ============================================================================
+// FIXTURE EXPORT OPTIONS
+// ============================================================================
+// Validators for the export options a scheduled export keeps. The rows and
+// their formatting are shared with browser exports (src/utils/fixtureExport.ts),
+// and carry the same column IDs as the Fixtures table so saved column
+// selections apply unchanged.
+
+export const exportFormatValidator = v.union(
+  v.literal("csv"),
+  v.literal("excel"),
+  v.literal("pdf")
+);
+
+// How statuses are written: "Contract • Final", "Final" or "contract-final"
+export const statusFormatValidator = v.union(
+  v.literal("full"),
+  v.literal("short"),
+  v.literal("value")
+);
+
+export const exportColumnValidator = v.object({
+  id: v.string(),
+  label: v.string(),
+});
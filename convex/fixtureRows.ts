@@ -0,0 +1,664 @@
+import { v } from "convex/values";
+import { internalMutation, mutation } from "./_generated/server";
+import type { FilterBuilder, Indexes, NamedTableInfo } from "convex/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { DataModel, Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+// ============================================================================
+// FIXTURE ROWS (READ MODEL)
+// ============================================================================
+// A flattened projection of the Fixtures table: one row per fixture, per
+// negotiation and per contract/recap, carrying the values the table sorts,
+// filters and searches on. Rows are rebuilt by syncFixtureRows wherever a
+// fixture's lastUpdated and searchText are recalculated, which lets
+// listEnrichedPaginated page through an index instead of loading every
+// fixture, vessel, company and port in the organization.
+//
+// Text fields are stored lowercased so sorting and filtering are
+// case-insensitive. Fixture rows project the fixture's lead contract/recap
+// (the first contract, else the first recap), the same entity the in-memory
+// paginator sorts and groups by.
+
+export const fixtureRowUnitValidator = v.union(
+  v.literal("fixture"),
+  v.literal("negotiation"),
+  v.literal("contract")
+);
+
+export const fixtureRowKindValidator = v.union(
+  v.literal("fixture"),
+  v.literal("negotiation"),
+  v.literal("contract"),
+  v.literal("recap")
+);
+
+export type FixtureRowUnit = "fixture" | "negotiation" | "contract";
+type FixtureRowFields = Omit<Doc<"fixture_rows">, "_id" | "_creationTime">;
+type FixtureRowTable = NamedTableInfo<DataModel, "fixture_rows">;
+type FixtureRowSortIndex = Extract<keyof Indexes<FixtureRowTable>, `by_org_unit_${string}`>;
+
+// Table column (sort/filter field) → projected row field
+const ROW_FIELDS: Record<string, keyof FixtureRowFields> = {
+  lastUpdated: "lastUpdated",
+  fixtureId: "fixtureNumber",
+  cpId: "cpNumber",
+  negotiationId: "negotiationNumber",
+  status: "status",
+  contractType: "contractType",
+  vessels: "vesselName",
+  vesselImo: "vesselImo",
+  owner: "ownerName",
+  charterer: "chartererName",
+  broker: "brokerName",
+  loadPortName: "loadPortName",
+  loadPortCountry: "loadPortCountry",
+  dischargePortName: "dischargePortName",
+  dischargePortCountry: "dischargePortCountry",
+  cargoTypeName: "cargoTypeName",
+  laycanStart: "laycanStart",
+  laycanEnd: "laycanEnd",
+  cargoQuantity: "quantity",
+  cpDate: "createdAt",
+};
+
+// Table column → index used to sort by it
+const ROW_SORT_INDEXES: Record<string, FixtureRowSortIndex> = {
+  lastUpdated: "by_org_unit_lastUpdated",
+  fixtureId: "by_org_unit_fixtureNumber",
+  cpId: "by_org_unit_cpNumber",
+  negotiationId: "by_org_unit_negotiationNumber",
+  status: "by_org_unit_status",
+  vessels: "by_org_unit_vesselName",
+  owner: "by_org_unit_ownerName",
+  charterer: "by_org_unit_chartererName",
+  broker: "by_org_unit_brokerName",
+  loadPortName: "by_org_unit_loadPortName",
+  dischargePortName: "by_org_unit_dischargePortName",
+  cargoTypeName: "by_org_unit_cargoTypeName",
+  laycanStart: "by_org_unit_laycanStart",
+  cargoQuantity: "by_org_unit_quantity",
+  cpDate: "by_org_unit_createdAt",
+};
+
+// Group columns counted for the fixture unit's bookmark tab counts
+const ROW_GROUP_FIELDS: Record<string, keyof FixtureRowFields> = {
+  broker: "brokerName",
+  owner: "ownerName",
+  charterer: "chartererName",
+  vessels: "vesselName",
+  loadPortName: "loadPortName",
+  dischargePortName: "dischargePortName",
+  cargoTypeName: "cargoTypeName",
+  contractType: "contractType",
+};
+
+// Rows scanned when counting a filtered result; past this the count is a lower bound
+const COUNT_SCAN_LIMIT = 4000;
+// Rows read per page before returning a short page, so sparse filters stay within limits
+const PAGE_MAX_ROWS_READ = 2000;
+// Search index matches ranked per search; past this the count is a lower bound
+const SEARCH_COUNT_LIMIT = 1024;
+
+// Weight of a search term matching each column when ranking search results:
+// fixture, contract and negotiation numbers and vessels first, then parties
+// and cargo, then ports
+const SEARCH_FIELD_WEIGHTS: Record<string, number> = {
+  fixtureId: 8,
+  cpId: 8,
+  negotiationId: 8,
+  vessels: 6,
+  vesselImo: 6,
+  owner: 3,
+  charterer: 3,
+  broker: 3,
+  cargoTypeName: 3,
+  loadPortName: 1,
+  loadPortCountry: 1,
+  dischargePortName: 1,
+  dischargePortCountry: 1,
+};
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+const lower = (value: string | undefined | null) => (value ? value.toLowerCase() : undefined);
+
+// Build the rows a fixture should have, reading its deals and their lookups
+async function buildFixtureRows(
+  ctx: MutationCtx,
+  fixture: Doc<"fixtures">
+): Promise<FixtureRowFields[]> {
+  const [contracts, recaps] = await Promise.all([
+    ctx.db.query("contracts").withIndex("by_fixture", (q) => q.eq("fixtureId", fixture._id)).collect(),
+    ctx.db.query("recap_managers").withIndex("by_fixture", (q) => q.eq("fixtureId", fixture._id)).collect(),
+  ]);
+  const negotiations = fixture.orderId
+    ? await ctx.db
+        .query("negotiations")
+        .withIndex("by_order", (q) => q.eq("orderId", fixture.orderId!))
+        .collect()
+    : [];
+
+  // Memoized lookups: a fixture's deals usually share vessels, companies and ports
+  const cache = new Map<string, unknown>();
+  async function lookup<T extends "vessels" | "companies" | "ports" | "cargo_types">(
+    id: Id<T> | undefined
+  ): Promise<Doc<T> | null> {
+    if (!id) return null;
+    if (!cache.has(id)) cache.set(id, await ctx.db.get(id));
+    return cache.get(id) as Doc<T> | null;
+  }
+
+  type Deal = Doc<"contracts"> | Doc<"recap_managers">;
+  const negotiationById = new Map(negotiations.map((n) => [n._id as string, n]));
+
+  // Fields shared by every row kind, resolved from a deal and/or a negotiation
+  async function projectDeal(deal: Deal | null, negotiation: Doc<"negotiations"> | null) {
+    const vessel = await lookup(negotiation?.vesselId ?? deal?.vesselId);
+    const owner = await lookup(deal?.ownerId);
+    const charterer = await lookup(negotiation?.counterpartyId ?? deal?.chartererId);
+    const broker = await lookup(negotiation?.brokerId ?? deal?.brokerId);
+    const loadPort = await lookup(deal?.loadPortId);
+    const dischargePort = await lookup(deal?.dischargePortId);
+    const cargoType = await lookup(deal?.cargoTypeId);
+
+    return {
+      organizationId: fixture.organizationId,
+      fixtureId: fixture._id,
+      fixtureNumber: fixture.fixtureNumber.toLowerCase(),
+      cpNumber: lower(deal ? ("contractNumber" in deal ? deal.contractNumber : deal.recapNumber) : undefined),
+      negotiationNumber: lower(negotiation?.negotiationNumber),
+      contractType: deal?.contractType,
+      vesselName: lower(vessel?.name),
+      vesselImo: lower(vessel?.imoNumber),
+      ownerName: lower(owner?.name),
+      chartererName: lower(charterer?.name),
+      brokerName: lower(broker?.name),
+      loadPortName: lower(loadPort?.name),
+      loadPortCountry: lower(loadPort?.country),
+      dischargePortName: lower(dischargePort?.name),
+      dischargePortCountry: lower(dischargePort?.country),
+      cargoTypeName: lower(cargoType?.name),
+      laycanStart: deal?.laycanStart,
+      laycanEnd: deal?.laycanEnd,
+      quantity: deal?.quantity,
+      searchText: fixture.searchText ?? fixture.fixtureNumber.toLowerCase(),
+    };
+  }
+
+  const rows: FixtureRowFields[] = [];
+
+  // Fixture row, projecting the lead contract/recap
+  const lead: Deal | null = contracts[0] ?? recaps[0] ?? null;
+  const leadNegotiation = lead?.negotiationId
+    ? (negotiationById.get(lead.negotiationId) ?? null)
+    : null;
+  rows.push({
+    ...(await projectDeal(lead, null)),
+    negotiationNumber: lower(leadNegotiation?.negotiationNumber),
+    unit: "fixture",
+    kind: "fixture",
+    entityId: fixture._id,
+    status: fixture.status,
+    createdAt: fixture._creationTime,
+    lastUpdated: fixture.lastUpdated ?? fixture._creationTime,
+  });
+
+  // Negotiation rows, with the contract/recap each negotiation became (if any)
+  const dealByNegotiation = new Map<string, Deal>();
+  for (const deal of [...contracts, ...recaps]) {
+    if (deal.negotiationId && !dealByNegotiation.has(deal.negotiationId)) {
+      dealByNegotiation.set(deal.negotiationId, deal);
+    }
+  }
+  for (const negotiation of negotiations) {
+    const deal = dealByNegotiation.get(negotiation._id) ?? null;
+    rows.push({
+      ...(await projectDeal(deal, negotiation)),
+      unit: "negotiation",
+      kind: "negotiation",
+      entityId: negotiation._id,
+      status: negotiation.status,
+      createdAt: negotiation._creationTime,
+      lastUpdated: negotiation.updatedAt ?? negotiation._creationTime,
+    });
+  }
+
+  // Contract rows; a recap is skipped when a contract came from the same negotiation
+  const contractNegotiations = new Set(
+    contracts.map((c) => c.negotiationId).filter((id): id is Id<"negotiations"> => !!id)
+  );
+  const deals: { deal: Deal; kind: "contract" | "recap" }[] = [
+    ...contracts.map((deal) => ({ deal, kind: "contract" as const })),
+    ...recaps
+      .filter((r) => !r.negotiationId || !contractNegotiations.has(r.negotiationId))
+      .map((deal) => ({ deal, kind: "recap" as const })),
+  ];
+  for (const { deal, kind } of deals) {
+    const negotiation = deal.negotiationId
+      ? (negotiationById.get(deal.negotiationId) ?? (await ctx.db.get(deal.negotiationId)))
+      : null;
+    rows.push({
+      ...(await projectDeal(deal, null)),
+      negotiationNumber: lower(negotiation?.negotiationNumber),
+      unit: "contract",
+      kind,
+      entityId: deal._id,
+      status: deal.status,
+      createdAt: deal._creationTime,
+      lastUpdated: deal.updatedAt ?? deal._creationTime,
+    });
+  }
+
+  return rows;
+}
+
+// Field-by-field comparison, ignoring the order fields were stored in
+function rowsDiffer(current: Doc<"fixture_rows">, next: FixtureRowFields): boolean {
+  const keys = new Set([
+    ...Object.keys(current).filter((key) => !key.startsWith("_")),
+    ...Object.keys(next),
+  ]);
+  for (const key of keys) {
+    if ((current as Record<string, unknown>)[key] !== (next as Record<string, unknown>)[key]) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Apply row count changes per organization and unit
+async function adjustRowCounts(ctx: MutationCtx, deltas: Map<string, number>) {
+  for (const [key, delta] of deltas) {
+    if (delta === 0) continue;
+    const [orgKey, unit] = key.split("|") as [string, FixtureRowUnit];
+    const organizationId = orgKey as Id<"organizations">;
+
+    const counter = await ctx.db
+      .query("fixture_row_counts")
+      .withIndex("by_org_unit", (q) => q.eq("organizationId", organizationId).eq("unit", unit))
+      .unique();
+    if (counter) {
+      await ctx.db.patch(counter._id, { count: Math.max(0, counter.count + delta) });
+    } else {
+      await ctx.db.insert("fixture_row_counts", { organizationId, unit, count: Math.max(0, delta) });
+    }
+  }
+}
+
+// Rebuild a fixture's rows, patching only those that changed.
+// Deletes them when the fixture no longer exists.
+export async function syncFixtureRows(ctx: MutationCtx, fixtureId: Id<"fixtures">): Promise<void> {
+  const existing = await ctx.db
+    .query("fixture_rows")
+    .withIndex("by_fixture", (q) => q.eq("fixtureId", fixtureId))
+    .collect();
+  const fixture = await ctx.db.get(fixtureId);
+  const desired = fixture ? await buildFixtureRows(ctx, fixture) : [];
+
+  const deltas = new Map<string, number>();
+  const adjust = (row: { organizationId: Id<"organizations">; unit: FixtureRowUnit }, delta: number) => {
+    const key = `${row.organizationId}|${row.unit}`;
+    deltas.set(key, (deltas.get(key) ?? 0) + delta);
+  };
+
+  const existingByKey = new Map(existing.map((row) => [`${row.kind}:${row.entityId}`, row]));
+  for (const row of desired) {
+    const key = `${row.kind}:${row.entityId}`;
+    const current = existingByKey.get(key);
+    if (!current) {
+      await ctx.db.insert("fixture_rows", row);
+      adjust(row, 1);
+      continue;
+    }
+    existingByKey.delete(key);
+    if (current.organizationId !== row.organizationId) {
+      adjust(current, -1);
+      adjust(row, 1);
+    }
+    if (rowsDiffer(current, row)) {
+      await ctx.db.replace(current._id, row);
+    }
+  }
+
+  for (const stale of existingByKey.values()) {
+    await ctx.db.delete(stale._id);
+    adjust(stale, -1);
+  }
+
+  await adjustRowCounts(ctx, deltas);
+}
+
+// Rebuild rows for a batch of fixtures, then schedule the next batch
+export const backfillBatch = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query("fixtures").paginate({ cursor: args.cursor, numItems: 100 });
+    for (const fixture of page.page) {
+      await syncFixtureRows(ctx, fixture._id);
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.fixtureRows.backfillBatch, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+// Backfill mutation to populate fixture_rows for all existing fixtures (runs in batches)
+export const backfill = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await ctx.scheduler.runAfter(0, internal.fixtureRows.backfillBatch, { cursor: null });
+    return { message: "Scheduled fixture_rows backfill" };
+  },
+});
+
+// ============================================================================
+// QUERYING
+// ============================================================================
+
+// The listEnrichedPaginated arguments the read model understands
+export interface FixtureRowQuery {
+  organizationId?: Id<"organizations">;
+  cursor?: string;
+  limit?: number;
+  paginationUnit?: FixtureRowUnit;
+  status?: string[];
+  vesselNames?: string[];
+  ownerNames?: string[];
+  chartererNames?: string[];
+  dateRangeStart?: number;
+  dateRangeEnd?: number;
+  searchTerms?: string[];
+  sortField?: string;
+  sortDirection?: "asc" | "desc";
+  multiselectFilters?: { field: string; values: string[] }[];
+  dateRangeFilters?: { field: string; from?: number; to?: number }[];
+  numberRangeFilters?: { field: string; min?: number; max?: number }[];
+  groupByField?: string;
+}
+
+type RowCondition =
+  | { type: "in"; field: keyof FixtureRowFields; values: (string | undefined)[] }
+  | { type: "range"; field: keyof FixtureRowFields; min?: number; max?: number };
+
+// Whether every sort, filter and group field of a query is projected onto fixture_rows.
+// Queries that aren't (negotiation-only, computed, approval and user fields) keep
+// using the in-memory paginators.
+export function canQueryFixtureRows(args: FixtureRowQuery): boolean {
+  if (!args.organizationId) return false;
+  if (args.sortField && !ROW_SORT_INDEXES[args.sortField]) return false;
+  const filterFields = [
+    ...(args.multiselectFilters ?? []),
+    ...(args.dateRangeFilters ?? []),
+    ...(args.numberRangeFilters ?? []),
+  ].map((filter) => filter.field);
+  if (!filterFields.every((field) => ROW_FIELDS[field])) return false;
+  if (args.groupByField && (args.paginationUnit ?? "fixture") === "fixture") {
+    if (!ROW_GROUP_FIELDS[args.groupByField]) return false;
+  }
+  return true;
+}
+
+// Normalize a query's filters into conditions on row fields
+function buildRowConditions(args: FixtureRowQuery): RowCondition[] {
+  const conditions: RowCondition[] = [];
+  const names = (values: string[]) => values.map((value) => value.toLowerCase());
+
+  if (args.status?.length) conditions.push({ type: "in", field: "status", values: args.status });
+  if (args.vesselNames?.length) {
+    conditions.push({ type: "in", field: "vesselName", values: names(args.vesselNames) });
+  }
+  if (args.ownerNames?.length) {
+    conditions.push({ type: "in", field: "ownerName", values: names(args.ownerNames) });
+  }
+  if (args.chartererNames?.length) {
+    conditions.push({ type: "in", field: "chartererName", values: names(args.chartererNames) });
+  }
+  if (args.dateRangeStart !== undefined || args.dateRangeEnd !== undefined) {
+    conditions.push({ type: "range", field: "createdAt", min: args.dateRangeStart, max: args.dateRangeEnd });
+  }
+
+  for (const filter of args.multiselectFilters ?? []) {
+    const field = ROW_FIELDS[filter.field];
+    // Status and contract type are stored as-is; every other text field is lowercased
+    const values = field === "status" || field === "contractType" ? filter.values : names(filter.values);
+    conditions.push({ type: "in", field, values });
+  }
+  for (const filter of args.dateRangeFilters ?? []) {
+    conditions.push({ type: "range", field: ROW_FIELDS[filter.field], min: filter.from, max: filter.to });
+  }
+  for (const filter of args.numberRangeFilters ?? []) {
+    conditions.push({ type: "range", field: ROW_FIELDS[filter.field], min: filter.min, max: filter.max });
+  }
+
+  return conditions;
+}
+
+// The same conditions as a Convex filter expression, for paging
+function toFilterExpression(q: FilterBuilder<FixtureRowTable>, conditions: RowCondition[]) {
+  return q.and(
+    ...conditions.map((condition) => {
+      const field = q.field(condition.field);
+      if (condition.type === "in") {
+        return q.or(...condition.values.map((value) => q.eq(field, value)));
+      }
+      const bounds = [q.neq(field, undefined)];
+      if (condition.min != null) bounds.push(q.gte(field, condition.min));
+      if (condition.max != null) bounds.push(q.lte(field, condition.max));
+      return q.and(...bounds);
+    })
+  );
+}
+
+// ...and as a predicate, for counting
+function matchesConditions(row: Doc<"fixture_rows">, conditions: RowCondition[]): boolean {
+  return conditions.every((condition) => {
+    const value = row[condition.field];
+    if (condition.type === "in") return condition.values.includes(value as string | undefined);
+    if (typeof value !== "number") return false;
+    if (condition.min != null && value < condition.min) return false;
+    if (condition.max != null && value > condition.max) return false;
+    return true;
+  });
+}
+
+// Every search term must appear in the fixture's search text, as in the in-memory path
+const matchesSearch = (row: Doc<"fixture_rows">, terms: string[]) =>
+  terms.every((term) => row.searchText.includes(term));
+
+// Columns a search term matched on a row, e.g. { vessels: ["ocean"] }
+export type SearchHighlights = Record<string, string[]>;
+
+function getSearchHighlights(row: Doc<"fixture_rows">, terms: string[]): SearchHighlights {
+  const highlights: SearchHighlights = {};
+  for (const column of Object.keys(SEARCH_FIELD_WEIGHTS)) {
+    const value = row[ROW_FIELDS[column]];
+    if (typeof value !== "string") continue;
+    const matched = terms.filter((term) => value.includes(term));
+    if (matched.length > 0) highlights[column] = matched;
+  }
+  return highlights;
+}
+
+const searchScore = (highlights: SearchHighlights) =>
+  Object.entries(highlights).reduce(
+    (score, [column, terms]) => score + SEARCH_FIELD_WEIGHTS[column] * terms.length,
+    0
+  );
+
+function countGroups(rows: Doc<"fixture_rows">[], field: keyof FixtureRowFields): number {
+  const groups = new Set<string>();
+  for (const row of rows) {
+    const value = row[field];
+    if (value != null) groups.add(String(value));
+  }
+  return groups.size;
+}
+
+function rowGroupField(args: FixtureRowQuery): keyof FixtureRowFields | undefined {
+  const unit = args.paginationUnit ?? "fixture";
+  return unit === "fixture" && args.groupByField ? ROW_GROUP_FIELDS[args.groupByField] : undefined;
+}
+
+function requireOrganizationId(args: FixtureRowQuery): Id<"organizations"> {
+  if (!args.organizationId) throw new Error("Fixture rows are scoped to an organization");
+  return args.organizationId;
+}
+
+// Every row of a query that matches its filters and search terms, without
+// paging: search index matches in relevance order, otherwise a bounded scan of
+// the most recently updated rows. Lets one function count or diff several saved views, since
+// Convex allows only one paginated query per function.
+export async function matchFixtureRows(ctx: Pick<QueryCtx, "db">, args: FixtureRowQuery) {
+  const unit = args.paginationUnit ?? "fixture";
+  const organizationId = requireOrganizationId(args);
+  const conditions = buildRowConditions(args);
+  const searchTerms = (args.searchTerms ?? []).map((term) => term.toLowerCase()).filter(Boolean);
+
+  if (searchTerms.length > 0) {
+    const candidates = await ctx.db
+      .query("fixture_rows")
+      .withSearchIndex("search_text", (q) =>
+        q.search("searchText", searchTerms.join(" ")).eq("organizationId", organizationId).eq("unit", unit)
+      )
+      .take(SEARCH_COUNT_LIMIT);
+    return {
+      rows: candidates.filter((row) => matchesConditions(row, conditions) && matchesSearch(row, searchTerms)),
+      isLowerBound: candidates.length === SEARCH_COUNT_LIMIT,
+    };
+  }
+
+  const scanned = await ctx.db
+    .query("fixture_rows")
+    .withIndex("by_org_unit_lastUpdated", (q) => q.eq("organizationId", organizationId).eq("unit", unit))
+    .order("desc")
+    .take(COUNT_SCAN_LIMIT);
+  return {
+    rows: scanned.filter((row) => matchesConditions(row, conditions)),
+    isLowerBound: scanned.length === COUNT_SCAN_LIMIT,
+  };
+}
+
+// An organization's row count for a unit, as adjustRowCounts keeps it
+export async function getFixtureRowCount(
+  ctx: Pick<QueryCtx, "db">,
+  organizationId: Id<"organizations">,
+  unit: FixtureRowUnit
+): Promise<number> {
+  const counter = await ctx.db
+    .query("fixture_row_counts")
+    .withIndex("by_org_unit", (q) => q.eq("organizationId", organizationId).eq("unit", unit))
+    .unique();
+  return counter?.count ?? 0;
+}
+
+// The counts of a query, as queryFixtureRows reports them for a filtered page
+export async function countFixtureRows(ctx: Pick<QueryCtx, "db">, args: FixtureRowQuery) {
+  const { rows, isLowerBound } = await matchFixtureRows(ctx, args);
+  const groupField = rowGroupField(args);
+  return {
+    totalCount: rows.length,
+    totalCountIsLowerBound: isLowerBound,
+    totalGroupCount: groupField ? countGroups(rows, groupField) : undefined,
+  };
+}
+
+// One page of fixture rows plus the counts the Fixtures table shows.
+// Sorted pages walk the column's index. Searches take the search index's
+// matches, rank them by the columns the terms matched (see SEARCH_FIELD_WEIGHTS,
+// ties keep the index's relevance order) and page through them by offset.
+export async function queryFixtureRows(ctx: Pick<QueryCtx, "db">, args: FixtureRowQuery) {
+  const unit = args.paginationUnit ?? "fixture";
+  const organizationId = requireOrganizationId(args);
+  const limit = args.limit ?? 25;
+  const conditions = buildRowConditions(args);
+  const searchTerms = (args.searchTerms ?? []).map((term) => term.toLowerCase()).filter(Boolean);
+  const groupField = rowGroupField(args);
+
+  const unfilteredTotalCount = await getFixtureRowCount(ctx, organizationId, unit);
+
+  if (searchTerms.length > 0) {
+    const { rows, isLowerBound } = await matchFixtureRows(ctx, args);
+    const ranked = rows
+      .map((row, relevance) => ({ row, relevance, score: searchScore(getSearchHighlights(row, searchTerms)) }))
+      .sort((a, b) => b.score - a.score || a.relevance - b.relevance)
+      .map(({ row }) => row);
+
+    const offset = args.cursor ? Number(args.cursor) : 0;
+    const end = offset + limit;
+    return {
+      rows: ranked.slice(offset, end),
+      nextCursor: end < ranked.length ? String(end) : null,
+      hasMore: end < ranked.length,
+      totalCount: ranked.length,
+      totalCountIsLowerBound: isLowerBound,
+      unfilteredTotalCount,
+      totalGroupCount: groupField ? countGroups(ranked, groupField) : undefined,
+    };
+  }
+
+  let query = ctx.db
+    .query("fixture_rows")
+    .withIndex(ROW_SORT_INDEXES[args.sortField ?? "lastUpdated"], (q) =>
+      q.eq("organizationId", organizationId).eq("unit", unit)
+    )
+    .order(args.sortDirection ?? "desc");
+  if (conditions.length > 0) {
+    query = query.filter((q) => toFilterExpression(q, conditions));
+  }
+
+  const result = await query.paginate({
+    cursor: args.cursor ?? null,
+    numItems: limit,
+    maximumRowsRead: PAGE_MAX_ROWS_READ,
+  });
+
+  // Counts: exact from the counter when unfiltered, otherwise a bounded scan
+  let totalCount = unfilteredTotalCount;
+  let totalCountIsLowerBound = false;
+  let totalGroupCount: number | undefined;
+
+  if (conditions.length > 0 || groupField) {
+    const counts = await countFixtureRows(ctx, args);
+    if (conditions.length > 0) {
+      totalCountIsLowerBound = counts.totalCountIsLowerBound;
+      totalCount = counts.totalCount;
+    }
+    totalGroupCount = counts.totalGroupCount;
+  }
+
+  return {
+    rows: result.page,
+    nextCursor: result.isDone ? null : result.continueCursor,
+    hasMore: !result.isDone,
+    totalCount,
+    totalCountIsLowerBound,
+    unfilteredTotalCount,
+    totalGroupCount,
+  };
+}
+
+// Search highlights for every negotiation, contract and recap of the given
+// fixtures, keyed by entity ID so each table row can pick up its own
+export async function getFixtureRowHighlights(
+  ctx: Pick<QueryCtx, "db">,
+  fixtureIds: Id<"fixtures">[],
+  searchTerms: string[]
+): Promise<Record<string, SearchHighlights>> {
+  const terms = searchTerms.map((term) => term.toLowerCase()).filter(Boolean);
+  const highlights: Record<string, SearchHighlights> = {};
+  for (const fixtureId of fixtureIds) {
+    const rows = await ctx.db
+      .query("fixture_rows")
+      .withIndex("by_fixture", (q) => q.eq("fixtureId", fixtureId))
+      .collect();
+    for (const row of rows) {
+      if (row.unit !== "fixture") highlights[row.entityId] = getSearchHighlights(row, terms);
+    }
+  }
+  return highlights;
+}
@@ -1,13 +1,31 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { MutationCtx } from "./_generated/server";
-import type { Id } from "./_generated/dataModel";
-
-// Generate fixture number (FIX12345)
-function generateFixtureNumber(): string {
-  const randomNum = Math.floor(10000 + Math.random() * 90000);
-  return `FIX${randomNum}`;
-}
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { createContractApprovalRow, summarizeContractApprovals } from "./approvalPolicies";
+import { logActivity } from "./audit";
+import {
+  canReadBookmark,
+  getAccessibleOrganizationIds,
+  requireFixtureAccess,
+  requireContractAccess,
+  requireNegotiationAccess,
+  requireOrderAccess,
+  requireOrgMember,
+  requireRecapAccess,
+} from "./authorization";
+import { recordContractSnapshot } from "./contractSnapshots";
+import { allocateDocumentNumber } from "./documentNumbers";
+import {
+  canQueryFixtureRows,
+  countFixtureRows,
+  getFixtureRowCount,
+  getFixtureRowHighlights,
+  matchFixtureRows,
+  queryFixtureRows,
+  syncFixtureRows,
+} from "./fixtureRows";
+import { buildRates } from "./rates";
 
 // Helper function to recalculate and update fixture's lastUpdated
 // This should be called whenever contracts, recap managers, or negotiations are modified
@@ -227,12 +245,14 @@ async function updateFixtureSearchText(
 ): Promise<void> {
   const searchText = await buildFixtureSearchText(ctx, fixtureId);
   await ctx.db.patch(fixtureId, { searchText });
+  await syncFixtureRows(ctx, fixtureId);
 }
 
 // Public mutation to manually recalculate lastUpdated (for backfill or debugging)
 export const recalculateLastUpdated = mutation({
   args: { fixtureId: v.id("fixtures") },
   handler: async (ctx, args) => {
+    await requireFixtureAccess(ctx, args.fixtureId);
     const lastUpdated = await calculateFixtureLastUpdated(ctx, args.fixtureId);
     await ctx.db.patch(args.fixtureId, { lastUpdated });
     return lastUpdated;
@@ -273,6 +293,41 @@ export const backfillSearchText = mutation({
   },
 });
 
+// Helper function to insert a fixture and build its initial searchText.
+// Shared by the create mutation and by deals accepted on the Trade Desk.
+export async function createFixture(
+  ctx: MutationCtx,
+  args: {
+    orderId?: Id<"orders">;
+    title?: string;
+    organizationId: Id<"organizations">;
+    status?: Doc<"fixtures">["status"];
+  }
+): Promise<Id<"fixtures">> {
+  const now = Date.now();
+  const fixtureNumber = await allocateDocumentNumber(
+    ctx,
+    args.organizationId,
+    "fixture"
+  );
+
+  const fixtureId = await ctx.db.insert("fixtures", {
+    fixtureNumber,
+    orderId: args.orderId,
+    title: args.title,
+    organizationId: args.organizationId,
+    status: args.status || "draft",
+    lastUpdated: now, // Initialize lastUpdated to creation time
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  // Build initial searchText (covers fixture number + any linked order data)
+  await updateFixtureSearchText(ctx, fixtureId);
+
+  return fixtureId;
+}
+
 // Create a new fixture
 export const create = mutation({
   args: {
@@ -291,24 +346,209 @@ export const create = mutation({
     ),
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
-    const fixtureNumber = generateFixtureNumber();
+    await requireOrgMember(ctx, args.organizationId, "edit-contracts");
+    return await createFixture(ctx, args);
+  },
+});
 
-    const fixtureId = await ctx.db.insert("fixtures", {
-      fixtureNumber,
-      orderId: args.orderId,
-      title: args.title,
-      organizationId: args.organizationId,
-      status: args.status || "draft",
-      lastUpdated: now, // Initialize lastUpdated to creation time
+// Cargo categories traded on the wet market (recaps); everything else is dry (contracts)
+const WET_CARGO_CATEGORIES: Doc<"cargo_types">["category"][] = ["crude-oil", "lng"];
+
+// Format a commission percentage as the contract string ("3.75%")
+function formatCommission(percent: number | undefined): string | undefined {
+  return percent !== undefined ? `${percent}%` : undefined;
+}
+
+// Turn a fixed negotiation into a fixture with its charter party: a contract
+// for dry cargo or a recap manager for wet cargo, carrying over the vessel,
+// ports, laycan, rates and commissions. Contracts also get pending approval and
+// signature rows for the owner and charterer.
+export const createFromNegotiation = mutation({
+  args: {
+    negotiationId: v.id("negotiations"),
+    contractType: v.optional(
+      v.union(
+        v.literal("voyage-charter"),
+        v.literal("time-charter"),
+        v.literal("bareboat"),
+        v.literal("coa")
+      )
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { user, negotiation } = await requireNegotiationAccess(
+      ctx,
+      args.negotiationId,
+      "edit-contracts"
+    );
+
+    if (negotiation.status !== "fixed") {
+      throw new Error("Only a fixed negotiation can be converted to a fixture");
+    }
+
+    const order = await ctx.db.get(negotiation.orderId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const existingContract = await ctx.db
+      .query("contracts")
+      .withIndex("by_negotiation", (q) => q.eq("negotiationId", negotiation._id))
+      .first();
+    const existingRecap = await ctx.db
+      .query("recap_managers")
+      .withIndex("by_negotiation", (q) => q.eq("negotiationId", negotiation._id))
+      .first();
+    if (existingContract || existingRecap) {
+      throw new Error("This negotiation already has a charter party");
+    }
+
+    // The counterparty takes the side the order's own organization isn't on
+    const ownerId = order.type === "sell" ? order.ownerId : negotiation.counterpartyId;
+    const chartererId = order.type === "sell" ? negotiation.counterpartyId : order.chartererId;
+    if (!ownerId || !chartererId) {
+      throw new Error("The order needs an owner and a charterer before it can be fixed");
+    }
+
+    const cargoType = order.cargoTypeId ? await ctx.db.get(order.cargoTypeId) : null;
+    const isWet = !!cargoType && WET_CARGO_CATEGORIES.includes(cargoType.category);
+
+    // Reuse the fixture opened when the firm offer was accepted
+    const existingFixture = await ctx.db
+      .query("fixtures")
+      .withIndex("by_order", (q) => q.eq("orderId", order._id))
+      .first();
+    const fixtureId =
+      existingFixture?._id ??
+      (await createFixture(ctx, {
+        orderId: order._id,
+        title: order.title,
+        organizationId: order.organizationId,
+      }));
+
+    const now = Date.now();
+    const terms = {
+      fixtureId,
+      negotiationId: negotiation._id,
+      orderId: order._id,
+      contractType: args.contractType || "voyage-charter",
+      ownerId,
+      chartererId,
+      brokerId: negotiation.brokerId ?? order.brokerId,
+      vesselId: negotiation.vesselId,
+      loadPortId: order.loadPortId,
+      dischargePortId: order.dischargePortId,
+      laycanStart: order.laycanStart,
+      laycanEnd: order.laycanEnd,
+      freightRate: negotiation.freightRate ?? order.freightRate,
+      freightRateType: order.freightRateType,
+      demurrageRate: negotiation.demurrageRate ?? order.demurrageRate,
+      despatchRate: order.despatchRate,
+      addressCommission: formatCommission(negotiation.addressCommissionPercent),
+      brokerCommission: formatCommission(negotiation.brokerCommissionPercent),
+      cargoTypeId: order.cargoTypeId,
+      quantity: order.quantity,
+      quantityUnit: order.quantityUnit,
       createdAt: now,
       updatedAt: now,
-    });
+    };
+    const rates = buildRates(terms);
+
+    let contractId: Id<"contracts"> | null = null;
+    let recapManagerId: Id<"recap_managers"> | null = null;
+
+    if (isWet) {
+      recapManagerId = await ctx.db.insert("recap_managers", {
+        ...terms,
+        recapNumber: await allocateDocumentNumber(
+          ctx,
+          order.organizationId,
+          "recap"
+        ),
+        rates,
+        status: "draft",
+      });
+
+      await logActivity(
+        ctx,
+        "recap_manager",
+        recapManagerId,
+        "created",
+        "Created recap from the fixed negotiation",
+        { value: "recap-draft", label: "Recap draft" },
+        { negotiationId: negotiation._id, fixtureId },
+        user._id
+      );
 
-    // Build initial searchText (covers fixture number + any linked order data)
+      await recordContractSnapshot(
+        ctx,
+        { type: "recap", id: recapManagerId },
+        "created",
+        user._id
+      );
+    } else {
+      contractId = await ctx.db.insert("contracts", {
+        ...terms,
+        contractNumber: await allocateDocumentNumber(
+          ctx,
+          order.organizationId,
+          "contract"
+        ),
+        rates,
+        status: "draft",
+      });
+
+      for (const [partyRole, companyId] of [
+        ["owner", ownerId],
+        ["charterer", chartererId],
+      ] as const) {
+        await createContractApprovalRow(ctx, contractId, partyRole, companyId);
+        await ctx.db.insert("contract_signatures", {
+          contractId,
+          partyRole,
+          companyId,
+          status: "pending",
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      await logActivity(
+        ctx,
+        "contract",
+        contractId,
+        "created",
+        "Created charter party from the fixed negotiation. Awaiting owner and charterer approval",
+        { value: "contract-draft", label: "Contract draft" },
+        { negotiationId: negotiation._id, fixtureId },
+        user._id
+      );
+
+      await recordContractSnapshot(
+        ctx,
+        { type: "contract", id: contractId },
+        "created",
+        user._id
+      );
+    }
+
+    await logActivity(
+      ctx,
+      "negotiation",
+      negotiation._id,
+      "converted",
+      isWet ? "Converted to a fixture with a recap" : "Converted to a fixture with a charter party",
+      undefined,
+      { fixtureId, contractId, recapManagerId },
+      user._id
+    );
+
+    await ctx.db.patch(fixtureId, {
+      lastUpdated: await calculateFixtureLastUpdated(ctx, fixtureId),
+    });
     await updateFixtureSearchText(ctx, fixtureId);
 
-    return fixtureId;
+    return { fixtureId, contractId, recapManagerId };
   },
 });
 
@@ -330,11 +570,7 @@ export const update = mutation({
   },
   handler: async (ctx, args) => {
     const { fixtureId, ...updates } = args;
-
-    const existing = await ctx.db.get(fixtureId);
-    if (!existing) {
-      throw new Error("Fixture not found");
-    }
+    await requireFixtureAccess(ctx, fixtureId, "edit-contracts");
 
     const now = Date.now();
 
@@ -359,20 +595,27 @@ export const update = mutation({
 export const remove = mutation({
   args: { fixtureId: v.id("fixtures") },
   handler: async (ctx, args) => {
-    const fixture = await ctx.db.get(args.fixtureId);
-    if (!fixture) {
-      throw new Error("Fixture not found");
-    }
+    await requireFixtureAccess(ctx, args.fixtureId, "edit-contracts");
 
     await ctx.db.delete(args.fixtureId);
+    await syncFixtureRows(ctx, args.fixtureId);
   },
 });
 
-// List all fixtures
+// List all fixtures in the caller's organizations
 export const list = query({
   args: {},
   handler: async (ctx) => {
-    const fixtures = await ctx.db.query("fixtures").collect();
+    const organizationIds = await getAccessibleOrganizationIds(ctx);
+    const fixtures: Doc<"fixtures">[] = [];
+    for (const organizationId of organizationIds) {
+      fixtures.push(
+        ...(await ctx.db
+          .query("fixtures")
+          .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+          .collect())
+      );
+    }
     return fixtures.sort((a, b) => b._creationTime - a._creationTime);
   },
 });
@@ -381,7 +624,11 @@ export const list = query({
 export const getById = query({
   args: { fixtureId: v.id("fixtures") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.fixtureId);
+    const fixture = await ctx.db.get(args.fixtureId);
+    if (!fixture) return null;
+
+    await requireOrgMember(ctx, fixture.organizationId);
+    return fixture;
   },
 });
 
@@ -389,6 +636,8 @@ export const getById = query({
 export const listByOrganization = query({
   args: { organizationId: v.id("organizations") },
   handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
     const fixtures = await ctx.db
       .query("fixtures")
       .withIndex("by_organization", (q) =>
@@ -498,18 +747,15 @@ async function enrichFixture(
             company,
             companyAvatarUrl,
             user,
+
+            onBehalfOfUser: approval.onBehalfOf ? await ctx.db.get(approval.onBehalfOf) : null,
             userAvatarUrl,
           };
         })
       );
 
-      // Calculate approval summary
-      const approvalSummary = {
-        total: approvals.length,
-        approved: approvals.filter((a: any) => a.status === "approved").length,
-        pending: approvals.filter((a: any) => a.status === "pending").length,
-        rejected: approvals.filter((a: any) => a.status === "rejected").length,
-      };
+      // Calculate approval summary, with progress through policy steps
+      const approvalSummary = summarizeContractApprovals(approvals);
 
       // Get contract signatures
       const signatures = await ctx.db
@@ -546,6 +792,8 @@ async function enrichFixture(
             company,
             companyAvatarUrl,
             user,
+
+            onBehalfOfUser: signature.onBehalfOf ? await ctx.db.get(signature.onBehalfOf) : null,
             userAvatarUrl,
             documentUrl,
           };
@@ -771,6 +1019,60 @@ type PaginatedQueryArgs = {
   groupByField?: string;
 };
 
+// Query args for a saved Fixtures bookmark, built the way the Fixtures page
+// builds them from its filters, search and grouping. Stored dates are timestamps.
+export function bookmarkQueryArgs(
+  bookmark: Pick<Doc<"user_bookmarks">, "filtersState" | "tableState">
+): PaginatedQueryArgs {
+  const activeFilters: Record<string, unknown> = bookmark.filtersState?.activeFilters ?? {};
+  const searchTerms: string[] = bookmark.filtersState?.globalSearchTerms ?? [];
+  const sorting: { id: string; desc: boolean }[] = bookmark.tableState?.sorting ?? [];
+  const groupColumn: string | undefined = bookmark.tableState?.grouping?.[0];
+
+  const strings = (value: unknown) =>
+    Array.isArray(value) && value.length > 0 ? value.map((item) => String(item)) : undefined;
+  const isNumberPair = (value: unknown): value is [number, number] =>
+    Array.isArray(value) && value.length === 2 && typeof value[0] === "number";
+
+  // Statuses are stored with their entity prefix ("contract-final" → "final")
+  const statuses = strings(activeFilters.status)
+    ?.filter((status) => status.includes("-"))
+    .map((status) => status.substring(status.indexOf("-") + 1));
+
+  const multiselectFilters: { field: string; values: string[] }[] = [];
+  const numberRangeFilters: { field: string; min?: number; max?: number }[] = [];
+  for (const [field, value] of Object.entries(activeFilters)) {
+    if (["status", "vessels", "owner", "charterer", "cpDate"].includes(field) || value == null) continue;
+    if (Array.isArray(value) && value.length > 0 && typeof value[0] === "string") {
+      multiselectFilters.push({ field, values: value as string[] });
+    } else if (isNumberPair(value)) {
+      numberRangeFilters.push({ field, min: value[0], max: value[1] });
+    } else if (typeof value === "number") {
+      numberRangeFilters.push({ field, min: value, max: value });
+    }
+  }
+
+  const cpDate = isNumberPair(activeFilters.cpDate) ? activeFilters.cpDate : undefined;
+
+  return {
+    paginationUnit:
+      groupColumn === "negotiationId" ? "negotiation" : groupColumn === "cpId" ? "contract" : "fixture",
+    status: statuses && statuses.length > 0 ? [...new Set(statuses)] : undefined,
+    vesselNames: strings(activeFilters.vessels),
+    ownerNames: strings(activeFilters.owner),
+    chartererNames: strings(activeFilters.charterer),
+    dateRangeStart: cpDate?.[0],
+    dateRangeEnd: cpDate?.[1],
+    searchTerms: searchTerms.length > 0 ? searchTerms : undefined,
+    sortField: sorting[0]?.id,
+    sortDirection: sorting[0]?.desc ? "desc" : "asc",
+    multiselectFilters: multiselectFilters.length > 0 ? multiselectFilters : undefined,
+    numberRangeFilters: numberRangeFilters.length > 0 ? numberRangeFilters : undefined,
+    groupByField:
+      groupColumn && !["fixtureId", "negotiationId", "cpId"].includes(groupColumn) ? groupColumn : undefined,
+  };
+}
+
 // Unified lookup data loaded once per query execution
 type UnifiedLookups = {
   // Sort/filter lookups (by ID → display value)
@@ -1469,6 +1771,7 @@ async function paginateByFixture(ctx: { db: any; storage: any }, args: Paginated
     nextCursor,
     hasMore,
     totalCount: allFixtures.length,
+    totalCountIsLowerBound: false,
     unfilteredTotalCount,
     totalGroupCount: groupValues ? groupValues.size : undefined,
   };
@@ -1740,6 +2043,7 @@ async function paginateByNegotiation(ctx: { db: any; storage: any }, args: Pagin
     nextCursor,
     hasMore,
     totalCount: filtered.length,
+    totalCountIsLowerBound: false,
     unfilteredTotalCount,
     totalGroupCount: undefined as number | undefined,
   };
@@ -1940,24 +2244,137 @@ async function paginateByContract(ctx: { db: any; storage: any }, args: Paginate
     nextCursor,
     hasMore,
     totalCount: filtered.length,
+    totalCountIsLowerBound: false,
     unfilteredTotalCount,
     totalGroupCount: undefined as number | undefined,
   };
 }
 
+// Paginate through the fixture_rows read model. Each row is one page item of
+// the requested unit; rows are grouped back into enriched fixtures scoped to
+// the negotiations, contracts and recaps on the page.
+type DealEntity = { _id: string; negotiationId?: string };
+
+async function paginateByFixtureRows(ctx: QueryCtx, args: PaginatedQueryArgs) {
+  const unit = args.paginationUnit ?? "fixture";
+  const result = await queryFixtureRows(ctx, args);
+
+  const fixtureMap = new Map<string, { fixtureId: Id<"fixtures">; entityIds: Set<string> }>();
+  for (const row of result.rows) {
+    if (!fixtureMap.has(row.fixtureId)) {
+      fixtureMap.set(row.fixtureId, { fixtureId: row.fixtureId, entityIds: new Set() });
+    }
+    fixtureMap.get(row.fixtureId)!.entityIds.add(row.entityId);
+  }
+
+  const enrichedFixtures = await Promise.all(
+    Array.from(fixtureMap.values()).map(async ({ fixtureId, entityIds }) => {
+      const fixture = await ctx.db.get(fixtureId);
+      if (!fixture) return null;
+      const enriched = await enrichFixture(ctx, fixture);
+      if (unit === "negotiation") {
+        enriched.negotiations = enriched.negotiations.filter((n: { _id: string }) => entityIds.has(n._id));
+        enriched.contracts = enriched.contracts.filter(
+          (c: DealEntity) => c.negotiationId && entityIds.has(c.negotiationId)
+        );
+        enriched.recapManagers = enriched.recapManagers.filter(
+          (r: DealEntity) => r.negotiationId && entityIds.has(r.negotiationId)
+        );
+      } else if (unit === "contract") {
+        enriched.contracts = enriched.contracts.filter((c: DealEntity) => entityIds.has(c._id));
+        enriched.recapManagers = enriched.recapManagers.filter((r: DealEntity) => entityIds.has(r._id));
+        const negIds = new Set<string>();
+        enriched.contracts.forEach((c: DealEntity) => { if (c.negotiationId) negIds.add(c.negotiationId); });
+        enriched.recapManagers.forEach((r: DealEntity) => { if (r.negotiationId) negIds.add(r.negotiationId); });
+        enriched.negotiations = enriched.negotiations.filter((n: { _id: string }) => negIds.has(n._id));
+      }
+      return { ...enriched, lastUpdated: fixture.lastUpdated ?? fixture._creationTime };
+    })
+  );
+
+  return {
+    items: enrichedFixtures.filter((item) => item !== null),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+    totalCount: result.totalCount,
+    totalCountIsLowerBound: result.totalCountIsLowerBound,
+    unfilteredTotalCount: result.unfilteredTotalCount,
+    totalGroupCount: result.totalGroupCount,
+  };
+}
+
+async function paginateFixtures(ctx: QueryCtx, args: PaginatedQueryArgs) {
+  const unit = args.paginationUnit ?? "fixture";
+  if (canQueryFixtureRows(args)) return paginateByFixtureRows(ctx, args);
+  if (unit === "negotiation") return paginateByNegotiation(ctx, args);
+  if (unit === "contract") return paginateByContract(ctx, args);
+  return paginateByFixture(ctx, args);
+}
+
+// Fixtures the in-memory paginators return when matching a bookmark
+const BOOKMARK_MATCH_LIMIT = 500;
+
+// Fixtures matching a saved bookmark, with the filters, search and grouping
+// listEnrichedPaginated applies for it. isComplete is false when the match was
+// cut off at a scan limit, so fixtures missing from it may still match.
+export async function matchBookmarkFixtureIds(
+  ctx: QueryCtx,
+  bookmark: Pick<Doc<"user_bookmarks">, "filtersState" | "tableState">,
+  organizationId: Id<"organizations">
+): Promise<{ fixtureIds: Id<"fixtures">[]; isComplete: boolean }> {
+  const query = { ...bookmarkQueryArgs(bookmark), organizationId };
+  if (canQueryFixtureRows(query)) {
+    const { rows, isLowerBound } = await matchFixtureRows(ctx, query);
+    return {
+      fixtureIds: [...new Set(rows.map((row) => row.fixtureId))],
+      isComplete: !isLowerBound,
+    };
+  }
+
+  const page = await paginateFixtures(ctx, { ...query, limit: BOOKMARK_MATCH_LIMIT });
+  return {
+    fixtureIds: [...new Set(page.items.map((item) => item._id as Id<"fixtures">))],
+    isComplete: !page.hasMore,
+  };
+}
+
+// The first `limit` enriched fixtures of a saved bookmark, in its sort order,
+// as listEnrichedPaginated pages them for the Fixtures table, and whether
+// more fixtures match than were returned
+export async function listBookmarkFixtures(
+  ctx: QueryCtx,
+  bookmark: Pick<Doc<"user_bookmarks">, "filtersState" | "tableState">,
+  organizationId: Id<"organizations">,
+  limit: number
+) {
+  const page = await paginateFixtures(ctx, { ...bookmarkQueryArgs(bookmark), organizationId, limit });
+  return { fixtures: page.items, isTruncated: page.hasMore };
+}
+
 // List fixtures with enriched data - PAGINATED VERSION
 // Returns cursor-based pagination for better performance with large datasets
 // paginationUnit controls what entity drives pagination:
 //   "fixture" (default) — paginate by fixtures
 //   "negotiation" — paginate by negotiations
 //   "contract" — paginate by contracts/recap managers
+// Queries the fixture_rows read model can answer are paged through its
+// indexes; the rest fall back to the in-memory paginators below.
+// Searches also return, per negotiation/contract/recap, the columns each
+// search term matched, so the table highlights only those.
 export const listEnrichedPaginated = query({
-  args: paginatedQueryArgs,
+  args: { ...paginatedQueryArgs, organizationId: v.id("organizations") },
   handler: async (ctx, args) => {
-    const unit = args.paginationUnit ?? "fixture";
-    if (unit === "negotiation") return paginateByNegotiation(ctx, args);
-    if (unit === "contract") return paginateByContract(ctx, args);
-    return paginateByFixture(ctx, args);
+    await requireOrgMember(ctx, args.organizationId);
+
+    const page = await paginateFixtures(ctx, args);
+    const searchHighlights = args.searchTerms?.length
+      ? await getFixtureRowHighlights(
+          ctx,
+          page.items.map((item) => item._id as Id<"fixtures">),
+          args.searchTerms
+        )
+      : undefined;
+    return { ...page, searchHighlights };
   },
 });
 
@@ -1969,18 +2386,23 @@ export const listEnriched = query({
     organizationId: v.optional(v.id("organizations")),
   },
   handler: async (ctx, args) => {
-    // Get fixtures (optionally filtered by organization)
-    let fixtures;
-    const orgId = args.organizationId;
-    if (orgId !== undefined) {
-      fixtures = await ctx.db
-        .query("fixtures")
-        .withIndex("by_organization", (q) =>
-          q.eq("organizationId", orgId)
-        )
-        .collect();
+    // Get fixtures (optionally filtered to one of the caller's organizations)
+    let organizationIds: Iterable<Id<"organizations">>;
+    if (args.organizationId !== undefined) {
+      await requireOrgMember(ctx, args.organizationId);
+      organizationIds = [args.organizationId];
     } else {
-      fixtures = await ctx.db.query("fixtures").collect();
+      organizationIds = await getAccessibleOrganizationIds(ctx);
+    }
+
+    const fixtures: Doc<"fixtures">[] = [];
+    for (const orgId of organizationIds) {
+      fixtures.push(
+        ...(await ctx.db
+          .query("fixtures")
+          .withIndex("by_organization", (q) => q.eq("organizationId", orgId))
+          .collect())
+      );
     }
 
     // Enrich each fixture using the shared helper function
@@ -1991,6 +2413,51 @@ export const listEnriched = query({
     return enrichedFixtures.sort((a, b) => b._creationTime - a._creationTime);
   },
 });
+
+// The enriched fixture a contract or recap belongs to, so a deep link can
+// open its row without paging the table to it
+export const getEnrichedForDeal = query({
+  args: { dealId: v.string() },
+  handler: async (ctx, args) => {
+    const contractId = ctx.db.normalizeId("contracts", args.dealId);
+    const recapId = ctx.db.normalizeId("recap_managers", args.dealId);
+    const deal = contractId
+      ? await ctx.db.get(contractId)
+      : recapId
+        ? await ctx.db.get(recapId)
+        : null;
+    if (!deal?.fixtureId) return null;
+
+    const fixture = await ctx.db.get(deal.fixtureId);
+    if (!fixture) return null;
+
+    await requireOrgMember(ctx, fixture.organizationId);
+    return await enrichFixture(ctx, fixture);
+  },
+});
+// Require access to the organization owning an order, contract, recap or fixture
+async function requireApprovalEntityAccess(
+  ctx: QueryCtx,
+  entityType: "order" | "contract" | "recap_manager" | "fixture",
+  entityId: string
+): Promise<void> {
+  const tables = {
+    order: "orders",
+    contract: "contracts",
+    recap_manager: "recap_managers",
+    fixture: "fixtures",
+  } as const;
+  const id = ctx.db.normalizeId(tables[entityType], entityId);
+  if (!id) {
+    throw new Error("Entity not found");
+  }
+
+  if (entityType === "order") await requireOrderAccess(ctx, id as Id<"orders">);
+  else if (entityType === "contract") await requireContractAccess(ctx, id as Id<"contracts">);
+  else if (entityType === "recap_manager") await requireRecapAccess(ctx, id as Id<"recap_managers">);
+  else await requireFixtureAccess(ctx, id as Id<"fixtures">);
+}
+
 // Get approval status for an entity
 export const getApprovalStatus = query({
   args: {
@@ -2003,6 +2470,8 @@ export const getApprovalStatus = query({
     entityId: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireApprovalEntityAccess(ctx, args.entityType, args.entityId);
+
     const approvals = await ctx.db
       .query("approvals")
       .withIndex("by_entity", (q) =>
@@ -2014,6 +2483,19 @@ export const getApprovalStatus = query({
     const rejected = approvals.filter((a) => !a.approved).length;
     const total = approvals.length;
 
+    // Approvals still required come from the contract's approval policy steps;
+    // other entities have no policy and need none
+    const contractId =
+      args.entityType === "contract" ? ctx.db.normalizeId("contracts", args.entityId) : null;
+    const pending = contractId
+      ? summarizeContractApprovals(
+          await ctx.db
+            .query("contract_approvals")
+            .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+            .collect()
+        ).outstanding
+      : 0;
+
     // Enrich with user data
     const enrichedApprovals = await Promise.all(
       approvals.map(async (approval) => {
@@ -2041,7 +2523,7 @@ export const getApprovalStatus = query({
         approved,
         rejected,
         total,
-        pending: Math.max(0, 2 - total), // Assuming 2 approvals needed
+        pending,
       },
     };
   },
@@ -2056,6 +2538,8 @@ export const getFixtureDetails = query({
       return null;
     }
 
+    await requireOrgMember(ctx, fixture.organizationId);
+
     // Get contracts for this fixture
     const contracts = await ctx.db
       .query("contracts")
@@ -2922,6 +3406,8 @@ export const updateToNewOrg = mutation({
   handler: async (ctx) => {
     const oldOrgId = "jn74yz9z6a4dgqz6s1197cvxzs7p2g27" as any;
     const newOrgId = "jn7ccnv64at1jyxt0ytp6nwe457p2qrm" as any;
+    await requireOrgMember(ctx, oldOrgId, "manage-members");
+    await requireOrgMember(ctx, newOrgId, "manage-members");
 
     // Update fixtures
     const fixtures = await ctx.db
@@ -2931,6 +3417,7 @@ export const updateToNewOrg = mutation({
 
     for (const fixture of fixtures) {
       await ctx.db.patch(fixture._id, { organizationId: newOrgId });
+      await syncFixtureRows(ctx, fixture._id);
     }
 
     // Update orders
@@ -2952,64 +3439,40 @@ export const updateToNewOrg = mutation({
 });
 
 // Lightweight query to compute bookmark counts (total fixtures, negotiations, contracts)
-// without enrichment or avatar lookups - just counting.
+// from the fixture_rows counters, without scanning the organization's fixtures.
+// bookmarkIds adds live counts for saved bookmarks the caller can see (e.g. ones
+// shared by teammates), counted the way the Fixtures page counts the active tab.
+// Only bookmarks the read model can answer are counted; the client shows the
+// count saved with the others.
 export const getBookmarkCounts = query({
-  args: { organizationId: v.optional(v.id("organizations")) },
+  args: {
+    organizationId: v.id("organizations"),
+    bookmarkIds: v.optional(v.array(v.id("user_bookmarks"))),
+  },
   handler: async (ctx, args) => {
-    const allFixtures = args.organizationId
-      ? await ctx.db
-          .query("fixtures")
-          .withIndex("by_organization", (q) =>
-            q.eq("organizationId", args.organizationId!)
-          )
-          .collect()
-      : await ctx.db.query("fixtures").collect();
+    const { user } = await requireOrgMember(ctx, args.organizationId);
 
-    const uniqueNegotiationIds = new Set<string>();
-    let totalContractItems = 0;
-
-    for (const fixture of allFixtures) {
-      const contracts = await ctx.db
-        .query("contracts")
-        .withIndex("by_fixture", (q) => q.eq("fixtureId", fixture._id))
-        .collect();
-
-      const recaps = await ctx.db
-        .query("recap_managers")
-        .withIndex("by_fixture", (q) => q.eq("fixtureId", fixture._id))
-        .collect();
-
-      // Deduplicate contracts+recaps by negotiationId (mirrors transformFixturesToTableData)
-      const seenNegs = new Set<string>();
-      for (const item of [...contracts, ...recaps]) {
-        const negId =
-          item.negotiationId ||
-          ("negotiation" in item ? (item as { negotiation?: { _id: string } }).negotiation?._id : undefined);
-        if (negId) {
-          if (seenNegs.has(negId as string)) continue;
-          seenNegs.add(negId as string);
-          uniqueNegotiationIds.add(negId as string);
-        }
-        totalContractItems++;
-      }
+    const [totalFixtures, totalNegotiations, totalContracts] = await Promise.all(
+      (["fixture", "negotiation", "contract"] as const).map((unit) =>
+        getFixtureRowCount(ctx, args.organizationId, unit)
+      )
+    );
 
-      // Standalone negotiations (fixtures with negotiations but no contracts/recaps)
-      if (contracts.length === 0 && recaps.length === 0 && fixture.orderId) {
-        const negotiations = await ctx.db
-          .query("negotiations")
-          .withIndex("by_order", (q) => q.eq("orderId", fixture.orderId!))
-          .collect();
-        for (const neg of negotiations) {
-          uniqueNegotiationIds.add(neg._id);
-          totalContractItems++;
-        }
-      }
+    const bookmarkCounts: Record<string, number> = {};
+    for (const bookmarkId of args.bookmarkIds ?? []) {
+      const bookmark = await ctx.db.get(bookmarkId);
+      if (!bookmark || !(await canReadBookmark(ctx, bookmark, user._id))) continue;
+      const query = { ...bookmarkQueryArgs(bookmark), organizationId: args.organizationId };
+      if (!canQueryFixtureRows(query)) continue;
+      const counts = await countFixtureRows(ctx, query);
+      bookmarkCounts[bookmarkId] = counts.totalGroupCount ?? counts.totalCount;
     }
 
     return {
-      totalFixtures: allFixtures.length,
-      totalNegotiations: uniqueNegotiationIds.size,
-      totalContracts: totalContractItems,
+      totalFixtures,
+      totalNegotiations,
+      totalContracts,
+      bookmarkCounts,
     };
   },
 });
@@ -3020,6 +3483,8 @@ export const getBookmarkCounts = query({
 export const getFilterOptions = query({
   args: { organizationId: v.id("organizations") },
   handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
     // Bulk-load all reference tables in parallel
     const [allVessels, allCompanies, allPorts, allCargoTypes, allUsers] = await Promise.all([
       ctx.db.query("vessels").collect(),
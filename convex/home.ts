@@ -1,5 +1,10 @@
 import { query } from "./_generated/server";
 import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAccessibleOrganizationIds } from "./authorization";
+
+// Cap on the expired negotiations read for the Home page count
+const EXPIRED_NEGOTIATIONS_LIMIT = 50;
 
 // Static placeholder news items used when the news table is empty
 const PLACEHOLDER_NEWS = [
@@ -210,6 +215,54 @@ export const getAttentionItems = query({
       })
     );
 
+    // --- Expired Offers & Subjects ---
+    // Newest expiries first, keeping only negotiations on the caller's
+    // organizations' orders and stopping once the cap is reached
+    const expiredStatuses = ["firm-offer-expired", "subs-expired"] as const;
+    const organizationIds = await getAccessibleOrganizationIds(ctx);
+    const orderOrganizations = new Map<Id<"orders">, Id<"organizations"> | undefined>();
+
+    const expiredNegotiationsArrays = await Promise.all(
+      expiredStatuses.map(async (status) => {
+        const matches: Doc<"negotiations">[] = [];
+        if (organizationIds.size === 0) return matches;
+
+        for await (const neg of ctx.db
+          .query("negotiations")
+          .withIndex("by_status_and_updatedAt", (q) => q.eq("status", status))
+          .order("desc")) {
+          if (!orderOrganizations.has(neg.orderId)) {
+            const order = await ctx.db.get(neg.orderId);
+            orderOrganizations.set(neg.orderId, order?.organizationId);
+          }
+          const organizationId = orderOrganizations.get(neg.orderId);
+          if (!organizationId || !organizationIds.has(organizationId)) continue;
+
+          matches.push(neg);
+          if (matches.length >= EXPIRED_NEGOTIATIONS_LIMIT) break;
+        }
+        return matches;
+      })
+    );
+    const expiredNegotiations = expiredNegotiationsArrays
+      .flat()
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, EXPIRED_NEGOTIATIONS_LIMIT);
+
+    const expiredNegotiationsPreview = await Promise.all(
+      expiredNegotiations.slice(0, 3).map(async (neg) => {
+        const counterparty = await ctx.db.get(neg.counterpartyId);
+        const order = await ctx.db.get(neg.orderId);
+        return {
+          id: neg._id,
+          itemRef: neg.negotiationNumber ?? order?.orderNumber ?? "—",
+          label: counterparty?.displayName ?? counterparty?.name ?? "—",
+          status: neg.status,
+          updatedAt: neg.updatedAt,
+        };
+      })
+    );
+
     return {
       pendingApprovals: {
         count: allPendingApprovals.length,
@@ -227,6 +280,10 @@ export const getAttentionItems = query({
         count: allActiveNegotiations.length,
         items: activeNegotiationsPreview,
       },
+      expiredNegotiations: {
+        count: expiredNegotiations.length,
+        items: expiredNegotiationsPreview,
+      },
     };
   },
 });
@@ -1,9 +1,17 @@
 import { httpRouter } from "convex/server";
 import { authComponent, createAuth } from "./auth";
+import { providerCallback } from "./esignEnvelopes";
 
 const http = httpRouter();
 
 // Register Better Auth routes with CORS enabled
 authComponent.registerRoutes(http, createAuth as Parameters<typeof authComponent.registerRoutes>[1], { cors: true });
 
+// E-signature provider status callbacks: /esign/callback/<provider>
+http.route({
+  pathPrefix: "/esign/callback/",
+  method: "POST",
+  handler: providerCallback,
+});
+
 export default http;
@@ -1,6 +1,7 @@
 import { query, mutation, action } from "./_generated/server";
 import { v } from "convex/values";
 import { api } from "./_generated/api";
+import { membershipHasPermission, parseRole } from "./permissions";
 
 // Token expiry: 7 days in milliseconds
 const INVITATION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
@@ -23,6 +24,26 @@ export const createInvitation = mutation({
     invitedBy: v.id("users"),
   },
   handler: async (ctx, args) => {
+    const role = parseRole(args.role);
+
+    // Check if inviter can manage members of the organization
+    const membership = await ctx.db
+      .query("memberships")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("userId"), args.invitedBy),
+          q.eq(q.field("organizationId"), args.organizationId)
+        )
+      )
+      .first();
+
+    if (
+      !membership ||
+      !(await membershipHasPermission(ctx, membership, "manage-members"))
+    ) {
+      throw new Error("You do not have permission to create invitations");
+    }
+
     // Check if there's already a pending invitation for this email and org
     const existingInvitation = await ctx.db
       .query("invitations")
@@ -67,7 +88,7 @@ export const createInvitation = mutation({
     const invitationId = await ctx.db.insert("invitations", {
       email: args.email,
       organizationId: args.organizationId,
-      role: args.role,
+      role,
       token,
       invitedBy: args.invitedBy,
       status: "pending",
@@ -88,7 +109,9 @@ export const createInvitationManual = mutation({
     invitedBy: v.id("users"),
   },
   handler: async (ctx, args) => {
-    // Check if user is admin of the organization
+    const role = parseRole(args.role);
+
+    // Check if user can manage members of the organization
     const membership = await ctx.db
       .query("memberships")
       .filter((q) =>
@@ -99,8 +122,11 @@ export const createInvitationManual = mutation({
       )
       .first();
 
-    if (!membership || membership.role.toLowerCase() !== "admin") {
-      throw new Error("Only admins can create invitations");
+    if (
+      !membership ||
+      !(await membershipHasPermission(ctx, membership, "manage-members"))
+    ) {
+      throw new Error("You do not have permission to create invitations");
     }
 
     // Use the existing createInvitation logic
@@ -151,7 +177,7 @@ export const createInvitationManual = mutation({
     await ctx.db.insert("invitations", {
       email: args.email,
       organizationId: args.organizationId,
-      role: args.role,
+      role,
       token,
       invitedBy: args.invitedBy,
       status: "pending",
@@ -411,7 +437,7 @@ export const getOrganizationInvitations = query({
     userId: v.id("users"),
   },
   handler: async (ctx, args) => {
-    // Check if user is admin of the organization
+    // Check if user can manage members of the organization
     const membership = await ctx.db
       .query("memberships")
       .filter((q) =>
@@ -422,8 +448,11 @@ export const getOrganizationInvitations = query({
       )
       .first();
 
-    if (!membership || membership.role.toLowerCase() !== "admin") {
-      throw new Error("Only admins can view organization invitations");
+    if (
+      !membership ||
+      !(await membershipHasPermission(ctx, membership, "manage-members"))
+    ) {
+      throw new Error("You do not have permission to view organization invitations");
     }
 
     const invitations = await ctx.db
@@ -492,7 +521,7 @@ export const deleteInvitation = mutation({
       throw new Error("Invitation not found");
     }
 
-    // Check if user is admin of the organization
+    // Check if user can manage members of the organization
     const membership = await ctx.db
       .query("memberships")
       .filter((q) =>
@@ -503,8 +532,11 @@ export const deleteInvitation = mutation({
       )
       .first();
 
-    if (!membership || membership.role.toLowerCase() !== "admin") {
-      throw new Error("Only admins can delete invitations");
+    if (
+      !membership ||
+      !(await membershipHasPermission(ctx, membership, "manage-members"))
+    ) {
+      throw new Error("You do not have permission to delete invitations");
     }
 
     // Only allow deleting non-pending invitations
@@ -531,7 +563,7 @@ export const revokeInvitation = mutation({
       throw new Error("Invitation not found");
     }
 
-    // Check if user is admin of the organization
+    // Check if user can manage members of the organization
     const membership = await ctx.db
       .query("memberships")
       .filter((q) =>
@@ -542,8 +574,11 @@ export const revokeInvitation = mutation({
       )
       .first();
 
-    if (!membership || membership.role.toLowerCase() !== "admin") {
-      throw new Error("Only admins can revoke invitations");
+    if (
+      !membership ||
+      !(await membershipHasPermission(ctx, membership, "manage-members"))
+    ) {
+      throw new Error("You do not have permission to revoke invitations");
     }
 
     if (invitation.status !== "pending") {
@@ -1,5 +1,18 @@
 import { query, mutation } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { membershipHasPermission, normalizeRole, parseRole } from "./permissions";
+
+// Admins of an organization, counting legacy lowercase roles that
+// migrations/normalizeRoles hasn't rewritten yet
+async function countOrgAdmins(ctx: QueryCtx, organizationId: Id<"organizations">) {
+  const memberships = await ctx.db
+    .query("memberships")
+    .withIndex("by_organizationId", (q) => q.eq("organizationId", organizationId))
+    .collect();
+  return memberships.filter((m) => normalizeRole(m.role) === "Admin").length;
+}
 
 // Get organization members with user details
 export const getOrganizationMembers = query({
@@ -97,7 +110,7 @@ export const removeMember = mutation({
       throw new Error("Membership not found");
     }
 
-    // Check if requesting user is admin of the organization
+    // Check if requesting user can manage members of the organization
     const requestingMembership = await ctx.db
       .query("memberships")
       .filter((q) =>
@@ -108,26 +121,21 @@ export const removeMember = mutation({
       )
       .first();
 
-    if (!requestingMembership || requestingMembership.role.toLowerCase() !== "admin") {
-      throw new Error("Only admins can remove members");
+    if (
+      !requestingMembership ||
+      !(await membershipHasPermission(ctx, requestingMembership, "manage-members"))
+    ) {
+      throw new Error("You do not have permission to remove members");
     }
 
     // Prevent self-removal if they're the only admin
-    if (membershipToRemove.userId === args.requestingUserId) {
-      const adminCount = await ctx.db
-        .query("memberships")
-        .filter((q) =>
-          q.and(
-            q.eq(q.field("organizationId"), membershipToRemove.organizationId),
-            q.or(
-              q.eq(q.field("role"), "Admin"),
-              q.eq(q.field("role"), "admin")
-            )
-          )
-        )
-        .collect();
+    if (
+      membershipToRemove.userId === args.requestingUserId &&
+      normalizeRole(membershipToRemove.role) === "Admin"
+    ) {
+      const adminCount = await countOrgAdmins(ctx, membershipToRemove.organizationId);
 
-      if (adminCount.length === 1) {
+      if (adminCount === 1) {
         throw new Error(
           "Cannot remove yourself as the only admin. Transfer admin role first."
         );
@@ -147,12 +155,14 @@ export const updateMemberRole = mutation({
     newRole: v.string(),
   },
   handler: async (ctx, args) => {
+    const newRole = parseRole(args.newRole);
+
     const membershipToUpdate = await ctx.db.get(args.membershipId);
     if (!membershipToUpdate) {
       throw new Error("Membership not found");
     }
 
-    // Check if requesting user is admin of the organization
+    // Check if requesting user can manage members of the organization
     const requestingMembership = await ctx.db
       .query("memberships")
       .filter((q) =>
@@ -163,36 +173,25 @@ export const updateMemberRole = mutation({
       )
       .first();
 
-    if (!requestingMembership || requestingMembership.role.toLowerCase() !== "admin") {
-      throw new Error("Only admins can update member roles");
+    if (
+      !requestingMembership ||
+      !(await membershipHasPermission(ctx, requestingMembership, "manage-members"))
+    ) {
+      throw new Error("You do not have permission to update member roles");
     }
 
     // Prevent downgrading the only admin
-    if (
-      membershipToUpdate.role.toLowerCase() === "admin" &&
-      args.newRole.toLowerCase() !== "admin"
-    ) {
-      const adminCount = await ctx.db
-        .query("memberships")
-        .filter((q) =>
-          q.and(
-            q.eq(q.field("organizationId"), membershipToUpdate.organizationId),
-            q.or(
-              q.eq(q.field("role"), "Admin"),
-              q.eq(q.field("role"), "admin")
-            )
-          )
-        )
-        .collect();
+    if (normalizeRole(membershipToUpdate.role) === "Admin" && newRole !== "Admin") {
+      const adminCount = await countOrgAdmins(ctx, membershipToUpdate.organizationId);
 
-      if (adminCount.length === 1) {
+      if (adminCount === 1) {
         throw new Error(
           "Cannot downgrade the only admin. Promote another member first."
         );
       }
     }
 
-    await ctx.db.patch(args.membershipId, { role: args.newRole });
+    await ctx.db.patch(args.membershipId, { role: newRole });
     return { success: true };
   },
 });
@@ -223,7 +222,7 @@ export const addMember = mutation({
     const membershipId = await ctx.db.insert("memberships", {
       userId: args.userId,
       organizationId: args.organizationId,
-      role: args.role,
+      role: parseRole(args.role),
       createdAt: Date.now(),
     });
 
@@ -243,7 +242,7 @@ export const forceUpdateMemberRole = mutation({
       throw new Error("Membership not found");
     }
 
-    await ctx.db.patch(args.membershipId, { role: args.newRole });
+    await ctx.db.patch(args.membershipId, { role: parseRole(args.newRole) });
     return { success: true };
   },
 });
@@ -2,6 +2,9 @@ import { mutation, internalMutation } from "./_generated/server";
 import type { MutationCtx } from "./_generated/server";
 import type { Id } from "./_generated/dataModel";
 import { logActivity, trackFieldChange } from "./audit";
+import { internal } from "./_generated/api";
+import { buildRates, parseRateValue } from "./rates";
+import type { RateFields, Rates } from "./rates";
 import { v } from "convex/values";
 
 // Helper to get random item from array
@@ -2660,10 +2663,8 @@ export const backfillFixtureData = mutation({
 
         // If we have current freight/demurrage rates, use them as baseline
         if (negotiation.freightRate) {
-          const freightNum = parseFloat(
-            negotiation.freightRate.replace(/[^0-9.]/g, "")
-          );
-          if (!isNaN(freightNum)) {
+          const freightNum = parseRateValue(negotiation.freightRate);
+          if (freightNum !== undefined) {
             freightRates.push({
               value: freightNum,
               timestamp: negotiation.updatedAt,
@@ -2672,10 +2673,8 @@ export const backfillFixtureData = mutation({
         }
 
         if (negotiation.demurrageRate) {
-          const demurrageNum = parseFloat(
-            negotiation.demurrageRate.replace(/[^0-9.]/g, "")
-          );
-          if (!isNaN(demurrageNum)) {
+          const demurrageNum = parseRateValue(negotiation.demurrageRate);
+          if (demurrageNum !== undefined) {
             demurrageRates.push({
               value: demurrageNum,
               timestamp: negotiation.updatedAt,
@@ -2722,3 +2721,114 @@ export const backfillFixtureData = mutation({
   },
 });
 
+const rateTableValidator = v.union(
+  v.literal("orders"),
+  v.literal("negotiations"),
+  v.literal("contracts"),
+  v.literal("recap_managers")
+);
+
+// Tables backfillStructuredRates walks, in order
+const RATE_TABLES = ["orders", "negotiations", "contracts", "recap_managers"] as const;
+
+// Rate string fields and the structured rate each is parsed into
+const RATE_FIELDS: Array<[string, keyof Rates]> = [
+  ["freightRate", "freight"],
+  ["demurrageRate", "demurrage"],
+  ["despatchRate", "despatch"],
+  ["tce", "tce"],
+  ["addressCommission", "addressCommission"],
+  ["brokerCommission", "brokerCommission"],
+  ["bidPrice", "bid"],
+  ["offerPrice", "offer"],
+];
+
+// Parse one page of a table's free-text rate strings into the structured
+// rates field, then schedule the next page (or the next table). Strings that
+// can't be parsed are logged so they can be fixed by hand.
+export const backfillStructuredRatesBatch = internalMutation({
+  args: {
+    table: rateTableValidator,
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const paginationOpts = { cursor: args.cursor, numItems: 100 };
+    const unparsed: string[] = [];
+
+    // Build a document's rates, recording strings that produced no structured value
+    const parseRates = (fields: RateFields & Record<string, unknown>) => {
+      const rates = buildRates(fields);
+      for (const [field, key] of RATE_FIELDS) {
+        const value = fields[field];
+        if (typeof value === "string" && value.trim() && !rates[key]) {
+          unparsed.push(value);
+        }
+      }
+      return rates;
+    };
+
+    let page: { isDone: boolean; continueCursor: string; count: number };
+    if (args.table === "orders") {
+      const result = await ctx.db.query("orders").paginate(paginationOpts);
+      for (const order of result.page) {
+        await ctx.db.patch(order._id, { rates: parseRates(order) });
+      }
+      page = { ...result, count: result.page.length };
+    } else if (args.table === "negotiations") {
+      const result = await ctx.db.query("negotiations").paginate(paginationOpts);
+      for (const negotiation of result.page) {
+        const order = await ctx.db.get(negotiation.orderId);
+        await ctx.db.patch(negotiation._id, {
+          rates: parseRates({ ...negotiation, freightRateType: order?.freightRateType }),
+        });
+      }
+      page = { ...result, count: result.page.length };
+    } else if (args.table === "contracts") {
+      const result = await ctx.db.query("contracts").paginate(paginationOpts);
+      for (const contract of result.page) {
+        await ctx.db.patch(contract._id, { rates: parseRates(contract) });
+      }
+      page = { ...result, count: result.page.length };
+    } else {
+      const result = await ctx.db.query("recap_managers").paginate(paginationOpts);
+      for (const recap of result.page) {
+        await ctx.db.patch(recap._id, { rates: parseRates(recap) });
+      }
+      page = { ...result, count: result.page.length };
+    }
+
+    console.log(`Structured rates: ${page.count} ${args.table}`);
+    if (unparsed.length > 0) {
+      console.warn(`Unparsed ${args.table} rates: ${Array.from(new Set(unparsed)).join(", ")}`);
+    }
+
+    const nextTable = RATE_TABLES[RATE_TABLES.indexOf(args.table) + 1];
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillStructuredRatesBatch, {
+        table: args.table,
+        cursor: page.continueCursor,
+      });
+    } else if (nextTable) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillStructuredRatesBatch, {
+        table: nextTable,
+        cursor: null,
+      });
+    } else {
+      console.log("✅ Structured rates backfill complete");
+    }
+  },
+});
+
+// Parse the free-text rate strings on orders, negotiations, contracts and
+// recap managers into the structured rates field (runs in batches). Safe to
+// re-run; strings that can't be parsed are logged by each batch.
+export const backfillStructuredRates = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await ctx.scheduler.runAfter(0, internal.migrations.backfillStructuredRatesBatch, {
+      table: "orders",
+      cursor: null,
+    });
+    return { message: "Scheduled structured rates backfill" };
+  },
+});
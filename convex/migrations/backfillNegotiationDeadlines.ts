@@ -0,0 +1,47 @@
+import { mutation } from "../_generated/server";
+import {
+  EXPIRING_NEGOTIATION_STATUSES,
+  getNegotiationDeadline,
+} from "../negotiationStatus";
+
+// Migration to set validUntil on live firm offers/bids and subjects created
+// before deadlines were tracked. The deadline is counted from the last update,
+// so anything already past its validity is picked up by the next expiry run.
+export const backfillNegotiationDeadlines = mutation({
+  args: {},
+  handler: async (ctx) => {
+    let updated = 0;
+    let skipped = 0;
+
+    for (const status of EXPIRING_NEGOTIATION_STATUSES) {
+      const negotiations = await ctx.db
+        .query("negotiations")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .collect();
+
+      for (const negotiation of negotiations) {
+        if (negotiation.validUntil !== undefined) continue;
+
+        const validUntil = await getNegotiationDeadline(
+          ctx,
+          negotiation,
+          status,
+          negotiation.updatedAt
+        );
+
+        if (validUntil === undefined) {
+          skipped++;
+          continue;
+        }
+
+        await ctx.db.patch(negotiation._id, { validUntil });
+        updated++;
+      }
+    }
+
+    return {
+      success: true,
+      message: `Set deadlines on ${updated} negotiations (${skipped} without a known validity)`,
+    };
+  },
+});
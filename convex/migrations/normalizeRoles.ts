@@ -0,0 +1,45 @@
+import { mutation } from "../_generated/server";
+import { normalizeRole } from "../permissions";
+
+// Migration to normalize free-text roles ("admin", " trader ") onto the typed
+// role set. The schema keeps memberships.role and invitations.role as strings
+// until this has run everywhere; only then can they be narrowed to the role
+// union. Rows with unrecognised roles fall back to "Trader" and are reported.
+export const normalizeMembershipRoles = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const unknownRoles: string[] = [];
+    let membershipsUpdated = 0;
+    let invitationsUpdated = 0;
+
+    const memberships = await ctx.db.query("memberships").collect();
+    for (const membership of memberships) {
+      const storedRole = membership.role;
+      const role = normalizeRole(storedRole) ?? "Trader";
+      if (!normalizeRole(storedRole)) unknownRoles.push(storedRole);
+
+      if (role !== storedRole) {
+        await ctx.db.patch(membership._id, { role });
+        membershipsUpdated++;
+      }
+    }
+
+    const invitations = await ctx.db.query("invitations").collect();
+    for (const invitation of invitations) {
+      const storedRole = invitation.role;
+      const role = normalizeRole(storedRole) ?? "Trader";
+      if (!normalizeRole(storedRole)) unknownRoles.push(storedRole);
+
+      if (role !== storedRole) {
+        await ctx.db.patch(invitation._id, { role });
+        invitationsUpdated++;
+      }
+    }
+
+    return {
+      success: true,
+      message: `Normalized ${membershipsUpdated} memberships and ${invitationsUpdated} invitations`,
+      unknownRoles: Array.from(new Set(unknownRoles)),
+    };
+  },
+});
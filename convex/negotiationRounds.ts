@@ -0,0 +1,122 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import { requireNegotiationAccess } from "./authorization";
+import type { NegotiationStatus } from "./negotiationStatus";
+import { buildRates } from "./rates";
+
+// ============================================================================
+// ROUNDS
+// ============================================================================
+
+// Statuses that put a bid or an offer on the table
+const ROUND_SIDES: Partial<Record<NegotiationStatus, "bid" | "offer">> = {
+  "indicative-offer": "offer",
+  "firm-offer": "offer",
+  "indicative-bid": "bid",
+  "firm-bid": "bid",
+};
+
+// Terms compared between consecutive rounds
+const ROUND_TERMS = [
+  ["rate", "Rate"],
+  ["freightRate", "Freight rate"],
+  ["demurrageRate", "Demurrage"],
+  ["tce", "TCE"],
+  ["validity", "Validity"],
+] as const;
+
+type RoundTerms = Pick<
+  Doc<"negotiation_rounds">,
+  (typeof ROUND_TERMS)[number][0]
+>;
+
+/**
+ * Record the negotiation's current bid or offer as a new round.
+ * Skipped when the negotiation isn't on a bid/offer status, or when the
+ * same side re-states identical terms.
+ */
+export async function recordNegotiationRound(
+  ctx: MutationCtx,
+  negotiationId: Id<"negotiations">,
+  userId?: Id<"users">
+): Promise<Id<"negotiation_rounds"> | null> {
+  const negotiation = await ctx.db.get(negotiationId);
+  if (!negotiation) return null;
+
+  const side = ROUND_SIDES[negotiation.status];
+  if (!side) return null;
+
+  const terms: RoundTerms = {
+    rate: side === "bid" ? negotiation.bidPrice : negotiation.offerPrice,
+    freightRate: negotiation.freightRate,
+    demurrageRate: negotiation.demurrageRate,
+    tce: negotiation.tce,
+    validity: negotiation.validity,
+  };
+
+  const previous = await ctx.db
+    .query("negotiation_rounds")
+    .withIndex("by_negotiation", (q) => q.eq("negotiationId", negotiationId))
+    .order("desc")
+    .first();
+
+  const termsChanged = ROUND_TERMS.filter(
+    ([field]) => previous && terms[field] !== previous[field]
+  ).map(([, label]) => label);
+
+  if (previous && previous.side === side && termsChanged.length === 0) {
+    return null;
+  }
+
+  const order = await ctx.db.get(negotiation.orderId);
+
+  return await ctx.db.insert("negotiation_rounds", {
+    negotiationId,
+    roundNumber: (previous?.roundNumber ?? 0) + 1,
+    side,
+    firm: negotiation.status.startsWith("firm"),
+    ...terms,
+    rates: buildRates({
+      freightRate: terms.freightRate,
+      demurrageRate: terms.demurrageRate,
+      tce: terms.tce,
+      bidPrice: side === "bid" ? terms.rate : undefined,
+      offerPrice: side === "offer" ? terms.rate : undefined,
+      freightRateType: order?.freightRateType,
+    }),
+    termsChanged,
+    userId,
+    timestamp: Date.now(),
+  });
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+// List a negotiation's rounds, oldest first
+export const listByNegotiation = query({
+  args: { negotiationId: v.id("negotiations") },
+  handler: async (ctx, args) => {
+    await requireNegotiationAccess(ctx, args.negotiationId);
+
+    const rounds = await ctx.db
+      .query("negotiation_rounds")
+      .withIndex("by_negotiation", (q) =>
+        q.eq("negotiationId", args.negotiationId)
+      )
+      .collect();
+
+    return await Promise.all(
+      rounds.map(async (round) => {
+        const user = round.userId ? await ctx.db.get(round.userId) : null;
+        return {
+          ...round,
+          user: user ? { _id: user._id, name: user.name } : null,
+        };
+      })
+    );
+  },
+});
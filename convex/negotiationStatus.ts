@@ -0,0 +1,287 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { logActivity } from "./audit";
+
+// ============================================================================
+// STATUSES
+// ============================================================================
+
+export const negotiationStatusValidator = v.union(
+  v.literal("indicative-offer"),
+  v.literal("indicative-bid"),
+  v.literal("firm-offer"),
+  v.literal("firm-bid"),
+  v.literal("firm"),
+  v.literal("on-subs"),
+  v.literal("fixed"),
+  v.literal("firm-offer-expired"),
+  v.literal("withdrawn"),
+  v.literal("firm-amendment"),
+  v.literal("subs-expired"),
+  v.literal("subs-failed"),
+  v.literal("on-subs-amendment")
+);
+
+export type NegotiationStatus = Doc<"negotiations">["status"];
+
+// Statuses a negotiation may be opened with
+export const INITIAL_NEGOTIATION_STATUSES: NegotiationStatus[] = [
+  "indicative-offer",
+  "indicative-bid",
+  "firm-offer",
+  "firm-bid",
+];
+
+/**
+ * Allowed status transitions. Anything not listed is rejected.
+ *
+ * Main path: indicative → firm offer/bid → firm → on-subs → fixed,
+ * with counters between offer and bid, expiry of firm offers and subjects,
+ * amendment loops on firm and on-subs, and withdrawal from any live state.
+ */
+export const NEGOTIATION_TRANSITIONS: Record<
+  NegotiationStatus,
+  NegotiationStatus[]
+> = {
+  "indicative-offer": ["indicative-bid", "firm-offer", "firm-bid", "withdrawn"],
+  "indicative-bid": ["indicative-offer", "firm-offer", "firm-bid", "withdrawn"],
+  "firm-offer": [
+    "firm-bid",
+    "indicative-bid",
+    "firm",
+    "firm-offer-expired",
+    "withdrawn",
+  ],
+  "firm-bid": [
+    "firm-offer",
+    "indicative-offer",
+    "firm",
+    "firm-offer-expired",
+    "withdrawn",
+  ],
+  "firm-offer-expired": [
+    "indicative-offer",
+    "indicative-bid",
+    "firm-offer",
+    "firm-bid",
+    "withdrawn",
+  ],
+  firm: ["on-subs", "fixed", "firm-amendment", "withdrawn"],
+  "firm-amendment": ["firm", "withdrawn"],
+  "on-subs": [
+    "fixed",
+    "on-subs-amendment",
+    "subs-expired",
+    "subs-failed",
+    "withdrawn",
+  ],
+  "on-subs-amendment": ["on-subs", "subs-failed", "withdrawn"],
+  "subs-expired": ["on-subs", "subs-failed", "withdrawn"],
+  fixed: [],
+  "subs-failed": [],
+  withdrawn: [],
+};
+
+// Activity log action and description recorded when entering each status
+const STATUS_EVENTS: Record<
+  NegotiationStatus,
+  { action: string; description: string }
+> = {
+  "indicative-offer": { action: "sent", description: "Sent indicative offer" },
+  "indicative-bid": { action: "sent", description: "Sent indicative bid" },
+  "firm-offer": { action: "sent", description: "Sent firm offer" },
+  "firm-bid": { action: "sent", description: "Sent firm bid" },
+  firm: {
+    action: "accepted",
+    description: "Accepted the terms. Negotiation is now firm",
+  },
+  "firm-amendment": {
+    action: "amended",
+    description: "Proposed an amendment to the firm terms",
+  },
+  "on-subs": {
+    action: "on-subs",
+    description: "Went on subs. Subject to final conditions",
+  },
+  "on-subs-amendment": {
+    action: "amended",
+    description: "Proposed an amendment while on subs",
+  },
+  fixed: {
+    action: "fixed",
+    description: "Set negotiation as fixed. All subjects lifted",
+  },
+  "firm-offer-expired": {
+    action: "expired",
+    description: "Firm offer expired. Offer validity period ended",
+  },
+  "subs-expired": {
+    action: "expired",
+    description: "Subjects expired. Subject deadline passed",
+  },
+  "subs-failed": {
+    action: "subs-failed",
+    description: "Subs failed. Subject conditions could not be satisfied",
+  },
+  withdrawn: { action: "withdrawn", description: "Withdrew from negotiations" },
+};
+
+/**
+ * Human-readable status label ("firm-offer-expired" → "firm offer expired")
+ */
+export function formatNegotiationStatus(status: NegotiationStatus): string {
+  return status.replace(/-/g, " ");
+}
+
+export function canTransitionNegotiation(
+  from: NegotiationStatus,
+  to: NegotiationStatus
+): boolean {
+  return NEGOTIATION_TRANSITIONS[from].includes(to);
+}
+
+// ============================================================================
+// EXPIRY
+// ============================================================================
+
+// Statuses that lapse once their validity deadline passes, and the status
+// they lapse into
+export const NEGOTIATION_EXPIRY: Partial<
+  Record<NegotiationStatus, NegotiationStatus>
+> = {
+  "firm-offer": "firm-offer-expired",
+  "firm-bid": "firm-offer-expired",
+  "on-subs": "subs-expired",
+};
+
+export const EXPIRING_NEGOTIATION_STATUSES = Object.keys(
+  NEGOTIATION_EXPIRY
+) as NegotiationStatus[];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const VALIDITY_UNITS: Record<string, number> = {
+  m: MINUTE_MS,
+  min: MINUTE_MS,
+  mins: MINUTE_MS,
+  minute: MINUTE_MS,
+  minutes: MINUTE_MS,
+  h: HOUR_MS,
+  hr: HOUR_MS,
+  hrs: HOUR_MS,
+  hour: HOUR_MS,
+  hours: HOUR_MS,
+  d: DAY_MS,
+  day: DAY_MS,
+  days: DAY_MS,
+};
+
+/**
+ * Turn a free-text validity ("48h", "2d", "30 mins", "72") into an absolute
+ * deadline counted from `from`. Bare numbers are hours; anything else is tried
+ * as a date. Returns null when the validity can't be understood.
+ */
+export function parseValidityDeadline(
+  validity: string,
+  from: number
+): number | null {
+  const normalized = validity.trim().toLowerCase();
+  if (!normalized || normalized === "-") return null;
+
+  const match = normalized.match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/);
+  if (match) {
+    const unit = VALIDITY_UNITS[match[2] || "h"];
+    return unit ? from + Number(match[1]) * unit : null;
+  }
+
+  const date = Date.parse(validity);
+  return Number.isNaN(date) ? null : date;
+}
+
+/**
+ * Deadline for a negotiation entering `status`: its own validity, falling
+ * back to the order's validityHours. Undefined for statuses that don't expire
+ * or when no validity is known.
+ */
+export async function getNegotiationDeadline(
+  ctx: QueryCtx,
+  negotiation: Pick<Doc<"negotiations">, "orderId" | "validity">,
+  status: NegotiationStatus,
+  from: number
+): Promise<number | undefined> {
+  if (!NEGOTIATION_EXPIRY[status]) return undefined;
+
+  if (negotiation.validity) {
+    const deadline = parseValidityDeadline(negotiation.validity, from);
+    if (deadline !== null) return deadline;
+  }
+
+  const order = await ctx.db.get(negotiation.orderId);
+  return order?.validityHours ? from + order.validityHours * HOUR_MS : undefined;
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/**
+ * Write the activity log entry for a negotiation entering a status
+ */
+export async function logNegotiationStatus(
+  ctx: MutationCtx,
+  negotiationId: Id<"negotiations">,
+  fromStatus: NegotiationStatus | null,
+  toStatus: NegotiationStatus,
+  userId?: Id<"users">
+): Promise<void> {
+  const event = STATUS_EVENTS[toStatus];
+
+  await logActivity(
+    ctx,
+    "negotiation",
+    negotiationId,
+    event.action,
+    event.description,
+    {
+      value: `negotiation-${toStatus}`,
+      label: `Negotiation ${formatNegotiationStatus(toStatus)}`,
+    },
+    { fromStatus, toStatus },
+    userId
+  );
+}
+
+/**
+ * Move a negotiation to a new status, enforcing the transition table and
+ * logging who made the change along with the before/after status.
+ * Entering a firm offer/bid or subjects restarts the validity deadline.
+ * Callers are responsible for authorization and fixture denormalization.
+ * Omit userId for system changes such as scheduled expiry.
+ */
+export async function transitionNegotiation(
+  ctx: MutationCtx,
+  negotiation: Doc<"negotiations">,
+  toStatus: NegotiationStatus,
+  userId?: Id<"users">
+): Promise<void> {
+  const fromStatus = negotiation.status;
+
+  if (!canTransitionNegotiation(fromStatus, toStatus)) {
+    throw new Error(
+      `Cannot change negotiation status from "${fromStatus}" to "${toStatus}"`
+    );
+  }
+
+  const now = Date.now();
+
+  await ctx.db.patch(negotiation._id, {
+    status: toStatus,
+    validUntil: await getNegotiationDeadline(ctx, negotiation, toStatus, now),
+    updatedAt: now,
+  });
+
+  await logNegotiationStatus(ctx, negotiation._id, fromStatus, toStatus, userId);
+}
@@ -1,13 +1,28 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import type { Id } from "./_generated/dataModel";
-import type { MutationCtx } from "./_generated/server";
-
-// Generate negotiation number (NEG12345)
-function generateNegotiationNumber(): string {
-  const randomNum = Math.floor(10000 + Math.random() * 90000);
-  return `NEG${randomNum}`;
-}
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { trackFieldChange, trackFieldChanges } from "./audit";
+import {
+  getAccessibleOrganizationIds,
+  requireNegotiationAccess,
+  requireOrderAccess,
+} from "./authorization";
+import { allocateDocumentNumber } from "./documentNumbers";
+import { syncFixtureRows } from "./fixtureRows";
+import { createFixture } from "./fixtures";
+import { recordNegotiationRound } from "./negotiationRounds";
+import {
+  EXPIRING_NEGOTIATION_STATUSES,
+  INITIAL_NEGOTIATION_STATUSES,
+  NEGOTIATION_EXPIRY,
+  NEGOTIATION_TRANSITIONS,
+  getNegotiationDeadline,
+  logNegotiationStatus,
+  negotiationStatusValidator,
+  transitionNegotiation,
+} from "./negotiationStatus";
+import { buildRates, parseRateValue } from "./rates";
 
 // Helper function to calculate and update fixture's lastUpdated
 // Duplicated here to avoid circular dependency issues with internal functions
@@ -50,6 +65,7 @@ async function updateFixtureLastUpdated(
 
   const lastUpdated = Math.max(...timestamps);
   await ctx.db.patch(fixtureId, { lastUpdated });
+  await syncFixtureRows(ctx, fixtureId);
 }
 
 // Helper function to update fixture's lastUpdated via order
@@ -145,6 +161,7 @@ async function updateFixtureSearchText(
 
   const searchText = Array.from(values).map((v) => v.toLowerCase()).join(" ");
   await ctx.db.patch(fixtureId, { searchText });
+  await syncFixtureRows(ctx, fixtureId);
 }
 
 // Helper function to update fixture's searchText via order
@@ -162,6 +179,95 @@ async function updateFixtureSearchTextViaOrder(
   }
 }
 
+// Keep only negotiations whose order belongs to one of the caller's orgs
+async function filterAccessibleNegotiations(
+  ctx: QueryCtx,
+  negotiations: Doc<"negotiations">[]
+): Promise<Doc<"negotiations">[]> {
+  const organizationIds = await getAccessibleOrganizationIds(ctx);
+  if (organizationIds.size === 0) return [];
+
+  const results: Doc<"negotiations">[] = [];
+  for (const negotiation of negotiations) {
+    const order = await ctx.db.get(negotiation.orderId);
+    if (order && organizationIds.has(order.organizationId)) {
+      results.push(negotiation);
+    }
+  }
+  return results;
+}
+
+type NegotiationFields = {
+  counterpartyId: Id<"companies">;
+  brokerId?: Id<"companies">;
+  bidPrice?: string;
+  offerPrice?: string;
+  freightRate?: string;
+  demurrageRate?: string;
+  tce?: string;
+  validity?: string;
+  vesselId?: Id<"vessels">;
+  status?: Doc<"negotiations">["status"];
+  personInChargeId?: Id<"users">;
+};
+
+// Helper function to open a negotiation on an order: inserts it, logs the
+// opening status, records the first round and refreshes the fixture.
+// Callers are responsible for authorization.
+export async function openNegotiation(
+  ctx: MutationCtx,
+  order: Doc<"orders">,
+  fields: NegotiationFields,
+  userId?: Id<"users">
+): Promise<Id<"negotiations">> {
+  const status = fields.status || "indicative-offer";
+  if (!INITIAL_NEGOTIATION_STATUSES.includes(status)) {
+    throw new Error(`Cannot open a negotiation with status "${status}"`);
+  }
+
+  const now = Date.now();
+  const negotiationNumber = await allocateDocumentNumber(
+    ctx,
+    order.organizationId,
+    "negotiation"
+  );
+  const validUntil = await getNegotiationDeadline(
+    ctx,
+    { orderId: order._id, validity: fields.validity },
+    status,
+    now
+  );
+
+  const negotiationId = await ctx.db.insert("negotiations", {
+    negotiationNumber,
+    orderId: order._id,
+    counterpartyId: fields.counterpartyId,
+    brokerId: fields.brokerId,
+    bidPrice: fields.bidPrice,
+    offerPrice: fields.offerPrice,
+    freightRate: fields.freightRate,
+    demurrageRate: fields.demurrageRate,
+    tce: fields.tce,
+    rates: buildRates({ ...fields, freightRateType: order.freightRateType }),
+    validity: fields.validity,
+    validUntil,
+    vesselId: fields.vesselId,
+    status,
+    personInChargeId: fields.personInChargeId,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  // Update the fixture's lastUpdated timestamp and searchText via the order
+  await updateFixtureLastUpdatedViaOrder(ctx, order._id);
+  await updateFixtureSearchTextViaOrder(ctx, order._id);
+
+  await logNegotiationStatus(ctx, negotiationId, null, status, userId);
+  await recordNegotiationRound(ctx, negotiationId, userId);
+
+  return negotiationId;
+}
+
 // Create a new negotiation
 export const create = mutation({
   args: {
@@ -175,55 +281,17 @@ export const create = mutation({
     tce: v.optional(v.string()),
     validity: v.optional(v.string()),
     vesselId: v.optional(v.id("vessels")),
-    status: v.optional(
-      v.union(
-        v.literal("indicative-offer"),
-        v.literal("indicative-bid"),
-        v.literal("firm-offer"),
-        v.literal("firm-bid"),
-        v.literal("firm"),
-        v.literal("on-subs"),
-        v.literal("fixed"),
-        v.literal("firm-offer-expired"),
-        v.literal("withdrawn"),
-        v.literal("firm-amendment"),
-        v.literal("subs-expired"),
-        v.literal("subs-failed"),
-        v.literal("on-subs-amendment")
-      )
-    ),
+    status: v.optional(negotiationStatusValidator),
     personInChargeId: v.optional(v.id("users")),
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
-    const negotiationNumber = generateNegotiationNumber();
-
-    const negotiationId = await ctx.db.insert("negotiations", {
-      negotiationNumber,
-      orderId: args.orderId,
-      counterpartyId: args.counterpartyId,
-      brokerId: args.brokerId,
-      bidPrice: args.bidPrice,
-      offerPrice: args.offerPrice,
-      freightRate: args.freightRate,
-      demurrageRate: args.demurrageRate,
-      tce: args.tce,
-      validity: args.validity,
-      vesselId: args.vesselId,
-      status: args.status || "indicative-offer",
-      personInChargeId: args.personInChargeId,
-      createdAt: now,
-      updatedAt: now,
-    });
-
-    // Update the fixture's lastUpdated timestamp and searchText via the order
-    await updateFixtureLastUpdatedViaOrder(ctx, args.orderId);
-    await updateFixtureSearchTextViaOrder(ctx, args.orderId);
-
-    // TODO: Log activity
-    // await logActivity(ctx, "negotiation", negotiationId, "created", ...);
+    const { user, order } = await requireOrderAccess(
+      ctx,
+      args.orderId,
+      "negotiate"
+    );
 
-    return negotiationId;
+    return await openNegotiation(ctx, order, args, user._id);
   },
 });
 
@@ -239,23 +307,58 @@ export const update = mutation({
     validity: v.optional(v.string()),
     vesselId: v.optional(v.id("vessels")),
     personInChargeId: v.optional(v.id("users")),
+    changeReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const { negotiationId, ...updates } = args;
+    const { negotiationId, changeReason, ...updates } = args;
 
     // Get existing for field change tracking
-    const existing = await ctx.db.get(negotiationId);
-    if (!existing) {
-      throw new Error("Negotiation not found");
-    }
+    const { user, negotiation: existing } = await requireNegotiationAccess(
+      ctx,
+      negotiationId,
+      "negotiate"
+    );
 
-    // TODO: Track field changes
+    await trackFieldChanges(
+      ctx,
+      "negotiation",
+      negotiationId,
+      existing,
+      updates,
+      user._id,
+      changeReason
+    );
+
+    const now = Date.now();
+
+    // A new validity on a live firm offer/bid or subjects restarts the clock
+    const validUntil =
+      updates.validity !== undefined && NEGOTIATION_EXPIRY[existing.status]
+        ? await getNegotiationDeadline(
+            ctx,
+            { orderId: existing.orderId, validity: updates.validity },
+            existing.status,
+            now
+          )
+        : existing.validUntil;
+
+    // Freight, bid and offer default to the order's freight rate type
+    const order = await ctx.db.get(existing.orderId);
 
     await ctx.db.patch(negotiationId, {
       ...updates,
-      updatedAt: Date.now(),
+      rates: buildRates({
+        ...existing,
+        ...updates,
+        freightRateType: order?.freightRateType,
+      }),
+      validUntil,
+      updatedAt: now,
     });
 
+    // A revised bid or offer counts as a new round
+    await recordNegotiationRound(ctx, negotiationId, user._id);
+
     // Update the fixture's lastUpdated timestamp and searchText via the order
     await updateFixtureLastUpdatedViaOrder(ctx, existing.orderId);
     await updateFixtureSearchTextViaOrder(ctx, existing.orderId);
@@ -268,48 +371,223 @@ export const update = mutation({
 export const updateStatus = mutation({
   args: {
     negotiationId: v.id("negotiations"),
-    status: v.union(
-      v.literal("indicative-offer"),
-      v.literal("indicative-bid"),
-      v.literal("firm-offer"),
-      v.literal("firm-bid"),
-      v.literal("firm"),
-      v.literal("on-subs"),
-      v.literal("fixed"),
-      v.literal("firm-offer-expired"),
-      v.literal("withdrawn"),
-      v.literal("firm-amendment"),
-      v.literal("subs-expired"),
-      v.literal("subs-failed"),
-      v.literal("on-subs-amendment")
-    ),
+    status: negotiationStatusValidator,
+    changeReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const negotiation = await ctx.db.get(args.negotiationId);
-    if (!negotiation) {
-      throw new Error("Negotiation not found");
+    const { user, negotiation } = await requireNegotiationAccess(
+      ctx,
+      args.negotiationId,
+      "negotiate"
+    );
+
+    // Enforces the transition table and logs the before/after status
+    await transitionNegotiation(ctx, negotiation, args.status, user._id);
+
+    await trackFieldChange(
+      ctx,
+      "negotiation",
+      args.negotiationId,
+      "status",
+      negotiation.status,
+      args.status,
+      user._id,
+      args.changeReason
+    );
+    await recordNegotiationRound(ctx, args.negotiationId, user._id);
+
+    // Update the fixture's lastUpdated timestamp and searchText via the order
+    await updateFixtureLastUpdatedViaOrder(ctx, negotiation.orderId);
+    await updateFixtureSearchTextViaOrder(ctx, negotiation.orderId);
+
+    return args.negotiationId;
+  },
+});
+
+// Counter with a new bid or offer: updates the price and terms, moves the
+// negotiation to the matching indicative/firm status and records the round
+export const counter = mutation({
+  args: {
+    negotiationId: v.id("negotiations"),
+    side: v.union(v.literal("bid"), v.literal("offer")),
+    firm: v.boolean(),
+    price: v.string(),
+    freightRate: v.optional(v.string()),
+    demurrageRate: v.optional(v.string()),
+    validity: v.optional(v.string()),
+    changeReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user, negotiation } = await requireNegotiationAccess(
+      ctx,
+      args.negotiationId,
+      "negotiate"
+    );
+
+    const status: Doc<"negotiations">["status"] = `${
+      args.firm ? "firm" : "indicative"
+    }-${args.side}`;
+    if (
+      status !== negotiation.status &&
+      !NEGOTIATION_TRANSITIONS[negotiation.status].includes(status)
+    ) {
+      throw new Error(
+        `Cannot counter a negotiation with status "${negotiation.status}"`
+      );
     }
 
+    const terms = {
+      bidPrice: args.side === "bid" ? args.price : negotiation.bidPrice,
+      offerPrice: args.side === "offer" ? args.price : negotiation.offerPrice,
+      freightRate: args.freightRate ?? negotiation.freightRate,
+      demurrageRate: args.demurrageRate ?? negotiation.demurrageRate,
+      validity: args.validity ?? negotiation.validity,
+    };
+
+    await trackFieldChanges(
+      ctx,
+      "negotiation",
+      args.negotiationId,
+      negotiation,
+      terms,
+      user._id,
+      args.changeReason
+    );
+
+    // Freight, bid and offer default to the order's freight rate type
+    const order = await ctx.db.get(negotiation.orderId);
+    const countered = { ...negotiation, ...terms };
+
     await ctx.db.patch(args.negotiationId, {
-      status: args.status,
+      ...terms,
+      rates: buildRates({
+        ...countered,
+        freightRateType: order?.freightRateType,
+      }),
       updatedAt: Date.now(),
     });
 
+    if (status !== negotiation.status) {
+      // Enforces the transition table, restarts the deadline and logs the change
+      await transitionNegotiation(ctx, countered, status, user._id);
+    } else {
+      // Same side countering again: restart the clock and log the revision
+      const now = Date.now();
+      await ctx.db.patch(args.negotiationId, {
+        validUntil: await getNegotiationDeadline(ctx, countered, status, now),
+      });
+      await logNegotiationStatus(ctx, args.negotiationId, status, status, user._id);
+    }
+
+    await recordNegotiationRound(ctx, args.negotiationId, user._id);
+
     // Update the fixture's lastUpdated timestamp and searchText via the order
     await updateFixtureLastUpdatedViaOrder(ctx, negotiation.orderId);
     await updateFixtureSearchTextViaOrder(ctx, negotiation.orderId);
 
-    // TODO: Log activity
-    // await logActivity(ctx, "negotiation", args.negotiationId, "status_changed", ...);
-
     return args.negotiationId;
   },
 });
 
+// Accept a firm offer or bid. The negotiation goes firm and the order's
+// fixture is created if it doesn't exist yet.
+export const acceptFirm = mutation({
+  args: { negotiationId: v.id("negotiations") },
+  handler: async (ctx, args) => {
+    const { user, negotiation } = await requireNegotiationAccess(
+      ctx,
+      args.negotiationId,
+      "negotiate"
+    );
+
+    if (negotiation.status !== "firm-offer" && negotiation.status !== "firm-bid") {
+      throw new Error("Only a firm offer or bid can be accepted");
+    }
+
+    const order = await ctx.db.get(negotiation.orderId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    await transitionNegotiation(ctx, negotiation, "firm", user._id);
+
+    const existingFixture = await ctx.db
+      .query("fixtures")
+      .withIndex("by_order", (q) => q.eq("orderId", order._id))
+      .first();
+
+    const fixtureId =
+      existingFixture?._id ??
+      (await createFixture(ctx, {
+        orderId: order._id,
+        organizationId: order.organizationId,
+      }));
+
+    // Update the fixture's lastUpdated timestamp and searchText via the order
+    await updateFixtureLastUpdatedViaOrder(ctx, order._id);
+    await updateFixtureSearchTextViaOrder(ctx, order._id);
+
+    return fixtureId;
+  },
+});
+
+// Expire firm offers/bids and subjects whose validity deadline has passed.
+// Runs on a schedule (see crons.ts); the change is logged as a system event.
+export const expireLapsed = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const orderIds = new Set<Id<"orders">>();
+    let expired = 0;
+
+    for (const status of EXPIRING_NEGOTIATION_STATUSES) {
+      const lapsed = await ctx.db
+        .query("negotiations")
+        .withIndex("by_status_and_valid_until", (q) =>
+          q.eq("status", status).gt("validUntil", 0).lte("validUntil", now)
+        )
+        .collect();
+
+      for (const negotiation of lapsed) {
+        await transitionNegotiation(
+          ctx,
+          negotiation,
+          NEGOTIATION_EXPIRY[status]!
+        );
+        orderIds.add(negotiation.orderId);
+        expired++;
+      }
+    }
+
+    // Update the affected fixtures' lastUpdated timestamp and searchText
+    for (const orderId of orderIds) {
+      await updateFixtureLastUpdatedViaOrder(ctx, orderId);
+      await updateFixtureSearchTextViaOrder(ctx, orderId);
+    }
+
+    return { expired };
+  },
+});
+
+// Get the statuses a negotiation can move to from its current status
+export const getAllowedTransitions = query({
+  args: { negotiationId: v.id("negotiations") },
+  handler: async (ctx, args) => {
+    const { negotiation } = await requireNegotiationAccess(
+      ctx,
+      args.negotiationId
+    );
+
+    return NEGOTIATION_TRANSITIONS[negotiation.status];
+  },
+});
+
 // List negotiations by order
 export const listByOrder = query({
   args: { orderId: v.id("orders") },
   handler: async (ctx, args) => {
+    await requireOrderAccess(ctx, args.orderId);
+
     const negotiations = await ctx.db
       .query("negotiations")
       .withIndex("by_order", (q) => q.eq("orderId", args.orderId))
@@ -352,6 +630,8 @@ export const getById = query({
       return null;
     }
 
+    await requireOrderAccess(ctx, negotiation.orderId);
+
     // Get related entities
     const counterparty = await ctx.db.get(negotiation.counterpartyId);
     const broker = negotiation.brokerId
@@ -379,21 +659,7 @@ export const getById = query({
 // List negotiations by status
 export const listByStatus = query({
   args: {
-    status: v.union(
-      v.literal("indicative-offer"),
-      v.literal("indicative-bid"),
-      v.literal("firm-offer"),
-      v.literal("firm-bid"),
-      v.literal("firm"),
-      v.literal("on-subs"),
-      v.literal("fixed"),
-      v.literal("firm-offer-expired"),
-      v.literal("withdrawn"),
-      v.literal("firm-amendment"),
-      v.literal("subs-expired"),
-      v.literal("subs-failed"),
-      v.literal("on-subs-amendment")
-    ),
+    status: negotiationStatusValidator,
   },
   handler: async (ctx, args) => {
     const negotiations = await ctx.db
@@ -401,7 +667,8 @@ export const listByStatus = query({
       .withIndex("by_status", (q) => q.eq("status", args.status))
       .collect();
 
-    return negotiations.sort((a, b) => b._creationTime - a._creationTime);
+    const accessible = await filterAccessibleNegotiations(ctx, negotiations);
+    return accessible.sort((a, b) => b._creationTime - a._creationTime);
   },
 });
 
@@ -416,12 +683,13 @@ export const listByCounterparty = query({
       )
       .collect();
 
-    return negotiations.sort((a, b) => b._creationTime - a._creationTime);
+    const accessible = await filterAccessibleNegotiations(ctx, negotiations);
+    return accessible.sort((a, b) => b._creationTime - a._creationTime);
   },
 });
 
 /**
- * Calculate analytics for a negotiation from activity log history
+ * Calculate analytics for a negotiation from its bid/offer rounds
  * This should be called when a negotiation reaches "firm" or "fixed" status
  */
 export const calculateAnalytics = mutation({
@@ -429,26 +697,50 @@ export const calculateAnalytics = mutation({
     negotiationId: v.id("negotiations"),
   },
   handler: async (ctx, args) => {
-    const negotiation = await ctx.db.get(args.negotiationId);
-    if (!negotiation) {
-      throw new Error("Negotiation not found");
-    }
+    const { negotiation } = await requireNegotiationAccess(
+      ctx,
+      args.negotiationId,
+      "negotiate"
+    );
 
-    // Get all activity logs for this negotiation
-    const activityLogs = await ctx.db
-      .query("activity_logs")
-      .withIndex("by_entity", (q) =>
-        q.eq("entityType", "negotiation").eq("entityId", negotiation._id)
+    // Every bid and offer exchanged, oldest first
+    const rounds = await ctx.db
+      .query("negotiation_rounds")
+      .withIndex("by_negotiation", (q) =>
+        q.eq("negotiationId", negotiation._id)
       )
       .collect();
 
+    const freightRates: Array<{ value: number; timestamp: number }> = [];
+    const demurrageRates: Array<{ value: number; timestamp: number }> = [];
+
+    for (const round of rounds) {
+      const freight = round.rates?.freight?.value;
+      if (freight !== undefined) {
+        freightRates.push({ value: freight, timestamp: round.timestamp });
+      }
+      const demurrage = round.rates?.demurrage?.value;
+      if (demurrage !== undefined) {
+        demurrageRates.push({ value: demurrage, timestamp: round.timestamp });
+      }
+    }
+
+    // Negotiations that predate round tracking fall back to the activity log
+    const activityLogs =
+      rounds.length > 0
+        ? []
+        : await ctx.db
+            .query("activity_logs")
+            .withIndex("by_entity", (q) =>
+              q.eq("entityType", "negotiation").eq("entityId", negotiation._id)
+            )
+            .collect();
+
     // Sort by timestamp
     const sortedLogs = activityLogs.sort((a, b) => a.timestamp - b.timestamp);
 
     // Extract freight rates and demurrage values from activity logs
     // Activity logs with expandable data may contain freight/demurrage information
-    const freightRates: Array<{ value: number; timestamp: number }> = [];
-    const demurrageRates: Array<{ value: number; timestamp: number }> = [];
 
     for (const log of sortedLogs) {
       // Check if expandable data contains rate information
@@ -459,8 +751,8 @@ export const calculateAnalytics = mutation({
             item.label.toLowerCase().includes("freight") ||
             item.label.toLowerCase().includes("rate")
           ) {
-            const numericValue = parseFloat(item.value.replace(/[^0-9.]/g, ""));
-            if (!isNaN(numericValue)) {
+            const numericValue = parseRateValue(item.value);
+            if (numericValue !== undefined) {
               freightRates.push({
                 value: numericValue,
                 timestamp: log.timestamp,
@@ -469,8 +761,8 @@ export const calculateAnalytics = mutation({
           }
           // Look for demurrage entries
           if (item.label.toLowerCase().includes("demurrage")) {
-            const numericValue = parseFloat(item.value.replace(/[^0-9.]/g, ""));
-            if (!isNaN(numericValue)) {
+            const numericValue = parseRateValue(item.value);
+            if (numericValue !== undefined) {
               demurrageRates.push({
                 value: numericValue,
                 timestamp: log.timestamp,
@@ -482,19 +774,19 @@ export const calculateAnalytics = mutation({
 
       // Also check if the negotiation's freightRate/demurrageRate fields have numeric values
       if (log.timestamp && negotiation.freightRate) {
-        const freightNum = parseFloat(
-          negotiation.freightRate.replace(/[^0-9.]/g, "")
-        );
-        if (!isNaN(freightNum) && freightRates.length === 0) {
+        const freightNum =
+          negotiation.rates?.freight?.value ??
+          parseRateValue(negotiation.freightRate);
+        if (freightNum !== undefined && freightRates.length === 0) {
           freightRates.push({ value: freightNum, timestamp: log.timestamp });
         }
       }
 
       if (log.timestamp && negotiation.demurrageRate) {
-        const demurrageNum = parseFloat(
-          negotiation.demurrageRate.replace(/[^0-9.]/g, "")
-        );
-        if (!isNaN(demurrageNum) && demurrageRates.length === 0) {
+        const demurrageNum =
+          negotiation.rates?.demurrage?.value ??
+          parseRateValue(negotiation.demurrageRate);
+        if (demurrageNum !== undefined && demurrageRates.length === 0) {
           demurrageRates.push({
             value: demurrageNum,
             timestamp: log.timestamp,
@@ -0,0 +1,99 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { getCurrentAppUser, requireCurrentUser } from "./authorization";
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+// In-app notifications, listed on the Notifications page. Features create
+// them with createNotification; each one belongs to a single user.
+
+export const notificationTypeValidator = v.union(
+  v.literal("bookmark_alert") // A fixture entered or left a subscribed bookmark
+);
+
+type NewNotification = {
+  userId: Id<"users">;
+  organizationId?: Id<"organizations">;
+  type: "bookmark_alert";
+  title: string;
+  body: string;
+  link?: string; // App path to open, e.g. "/fixtures?bk=..."
+  bookmarkId?: Id<"user_bookmarks">;
+  fixtureIds?: Id<"fixtures">[];
+};
+
+export async function createNotification(
+  ctx: MutationCtx,
+  notification: NewNotification
+): Promise<Id<"notifications">> {
+  return await ctx.db.insert("notifications", {
+    ...notification,
+    createdAt: Date.now(),
+  });
+}
+
+// The current user's notifications, newest first
+export const listMine = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentAppUser(ctx);
+    if (!user) return [];
+
+    return await ctx.db
+      .query("notifications")
+      .withIndex("by_user_created", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(args.limit ?? 100);
+  },
+});
+
+export const getUnreadCount = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentAppUser(ctx);
+    if (!user) return 0;
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) => q.eq("userId", user._id).eq("readAt", undefined))
+      .collect();
+    return unread.length;
+  },
+});
+
+export const markRead = mutation({
+  args: { notificationId: v.id("notifications") },
+  handler: async (ctx, args) => {
+    const user = await requireCurrentUser(ctx);
+    const notification = await ctx.db.get(args.notificationId);
+    if (!notification || notification.userId !== user._id) {
+      throw new Error("Notification not found");
+    }
+
+    if (notification.readAt === undefined) {
+      await ctx.db.patch(args.notificationId, { readAt: Date.now() });
+    }
+  },
+});
+
+export const markAllRead = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireCurrentUser(ctx);
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) => q.eq("userId", user._id).eq("readAt", undefined))
+      .collect();
+
+    const now = Date.now();
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { readAt: now });
+    }
+    return { marked: unread.length };
+  },
+});
@@ -1,11 +1,10 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-
-// Generate order number (ORD12345)
-function generateOrderNumber(): string {
-  const randomNum = Math.floor(10000 + Math.random() * 90000);
-  return `ORD${randomNum}`;
-}
+import { trackFieldChanges } from "./audit";
+import { requireOrderAccess, requireOrgMember } from "./authorization";
+import { allocateDocumentNumber } from "./documentNumbers";
+import { openNegotiation } from "./negotiations";
+import { buildRates } from "./rates";
 
 // Create a new order
 export const create = mutation({
@@ -46,8 +45,18 @@ export const create = mutation({
     brokerId: v.optional(v.id("companies")),
   },
   handler: async (ctx, args) => {
+    const { user } = await requireOrgMember(
+      ctx,
+      args.organizationId,
+      "edit-orders"
+    );
+
     const now = Date.now();
-    const orderNumber = generateOrderNumber();
+    const orderNumber = await allocateDocumentNumber(
+      ctx,
+      args.organizationId,
+      "order"
+    );
 
     const orderId = await ctx.db.insert("orders", {
       orderNumber,
@@ -67,11 +76,13 @@ export const create = mutation({
       demurrageRate: args.demurrageRate,
       despatchRate: args.despatchRate,
       tce: args.tce,
+      rates: buildRates(args),
       validityHours: args.validityHours,
       organizationId: args.organizationId,
       chartererId: args.chartererId,
       ownerId: args.ownerId,
       brokerId: args.brokerId,
+      createdByUserId: user._id,
       status: "draft",
       createdAt: now,
       updatedAt: now,
@@ -120,25 +131,31 @@ export const update = mutation({
     chartererId: v.optional(v.id("companies")),
     ownerId: v.optional(v.id("companies")),
     brokerId: v.optional(v.id("companies")),
+    changeReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const { orderId, ...updates } = args;
+    const { orderId, changeReason, ...updates } = args;
 
     // Get existing order for field change tracking
-    const existingOrder = await ctx.db.get(orderId);
-    if (!existingOrder) {
-      throw new Error("Order not found");
-    }
+    const { user, order: existing } = await requireOrderAccess(
+      ctx,
+      orderId,
+      "edit-orders"
+    );
 
-    // TODO: Track field changes
-    // for (const [key, newValue] of Object.entries(updates)) {
-    //   if (newValue !== undefined && existingOrder[key] !== newValue) {
-    //     await trackFieldChange(ctx, "order", orderId, key, existingOrder[key], newValue);
-    //   }
-    // }
+    await trackFieldChanges(
+      ctx,
+      "order",
+      orderId,
+      existing,
+      updates,
+      user._id,
+      changeReason
+    );
 
     await ctx.db.patch(orderId, {
       ...updates,
+      rates: buildRates({ ...existing, ...updates }),
       updatedAt: Date.now(),
     });
 
@@ -146,21 +163,78 @@ export const update = mutation({
   },
 });
 
-// Distribute an order (change status to distributed)
+// Distribute an order (change status to distributed). Opens an indicative
+// negotiation with each selected counterparty that isn't already negotiating
+// on the order, quoting the order's own terms.
 export const distribute = mutation({
-  args: { orderId: v.id("orders") },
+  args: {
+    orderId: v.id("orders"),
+    counterpartyIds: v.optional(v.array(v.id("companies"))),
+    brokerId: v.optional(v.id("companies")),
+  },
   handler: async (ctx, args) => {
-    const order = await ctx.db.get(args.orderId);
-    if (!order) {
-      throw new Error("Order not found");
+    const { user, order } = await requireOrderAccess(
+      ctx,
+      args.orderId,
+      "distribute-order"
+    );
+
+    // Only drafts go out, and distributed orders can go to more counterparties;
+    // withdrawn and fixed orders stay closed
+    if (order.status !== "draft" && order.status !== "distributed") {
+      throw new Error(`Cannot distribute an order that is ${order.status}`);
+    }
+
+    const existing = await ctx.db
+      .query("negotiations")
+      .withIndex("by_order", (q) => q.eq("orderId", args.orderId))
+      .collect();
+    if (existing.some((n) => n.status === "fixed")) {
+      throw new Error("Cannot distribute an order that is already fixed");
     }
 
+    await trackFieldChanges(
+      ctx,
+      "order",
+      args.orderId,
+      order,
+      { status: "distributed" },
+      user._id
+    );
+
     await ctx.db.patch(args.orderId, {
       status: "distributed",
       distributedAt: Date.now(),
       updatedAt: Date.now(),
     });
 
+    const negotiating = new Set(existing.map((n) => n.counterpartyId));
+
+    // Sell orders go out as offers, buy and charter orders as bids
+    const side = order.type === "sell" ? "offer" : "bid";
+
+    for (const counterpartyId of args.counterpartyIds ?? []) {
+      if (negotiating.has(counterpartyId)) continue;
+      negotiating.add(counterpartyId);
+
+      await openNegotiation(
+        ctx,
+        order,
+        {
+          counterpartyId,
+          brokerId: args.brokerId,
+          status: `indicative-${side}`,
+          bidPrice: side === "bid" ? order.freightRate : undefined,
+          offerPrice: side === "offer" ? order.freightRate : undefined,
+          freightRate: order.freightRate,
+          demurrageRate: order.demurrageRate,
+          tce: order.tce,
+          validity: order.validityHours ? `${order.validityHours}h` : undefined,
+        },
+        user._id
+      );
+    }
+
     // TODO: Log activity
     // await logActivity(ctx, "order", args.orderId, "distributed", ...);
 
@@ -172,10 +246,20 @@ export const distribute = mutation({
 export const withdraw = mutation({
   args: { orderId: v.id("orders") },
   handler: async (ctx, args) => {
-    const order = await ctx.db.get(args.orderId);
-    if (!order) {
-      throw new Error("Order not found");
-    }
+    const { user, order } = await requireOrderAccess(
+      ctx,
+      args.orderId,
+      "distribute-order"
+    );
+
+    await trackFieldChanges(
+      ctx,
+      "order",
+      args.orderId,
+      order,
+      { status: "withdrawn" },
+      user._id
+    );
 
     await ctx.db.patch(args.orderId, {
       status: "withdrawn",
@@ -194,6 +278,8 @@ export const withdraw = mutation({
 export const list = query({
   args: { organizationId: v.id("organizations") },
   handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
     const orders = await ctx.db
       .query("orders")
       .withIndex("by_organization", (q) =>
@@ -214,6 +300,8 @@ export const getById = query({
       return null;
     }
 
+    await requireOrgMember(ctx, order.organizationId);
+
     // Get related negotiations
     const negotiations = await ctx.db
       .query("negotiations")
@@ -275,6 +363,8 @@ export const listByStatus = query({
     ),
   },
   handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
     const orders = await ctx.db
       .query("orders")
       .withIndex("by_organization", (q) =>
@@ -299,6 +389,8 @@ export const listByStage = query({
     ),
   },
   handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
     const orders = await ctx.db
       .query("orders")
       .withIndex("by_organization", (q) =>
@@ -315,6 +407,8 @@ export const listByStage = query({
 export const listWithNegotiations = query({
   args: { organizationId: v.id("organizations") },
   handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
     const orders = await ctx.db
       .query("orders")
       .withIndex("by_organization", (q) =>
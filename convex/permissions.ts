@@ -0,0 +1,140 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { QueryCtx } from "./_generated/server";
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+export const ROLES = ["Admin", "Trader", "Broker"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const roleValidator = v.union(
+  v.literal("Admin"),
+  v.literal("Trader"),
+  v.literal("Broker")
+);
+
+/**
+ * Map a stored or user-supplied role onto a known role (case-insensitive).
+ * Returns null for anything outside the role set.
+ */
+export function normalizeRole(role: string): Role | null {
+  const normalized = role.trim().toLowerCase();
+  return ROLES.find((r) => r.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Validate a role argument, throwing for unknown roles
+ */
+export function parseRole(role: string): Role {
+  const parsed = normalizeRole(role);
+  if (!parsed) {
+    throw new Error(`Invalid role "${role}". Expected one of: ${ROLES.join(", ")}`);
+  }
+  return parsed;
+}
+
+// ============================================================================
+// PERMISSIONS
+// ============================================================================
+
+export const PERMISSIONS = [
+  "edit-orders",
+  "distribute-order",
+  "negotiate",
+  "edit-contracts",
+  "approve-contract",
+  "sign-cp",
+  "manage-members",
+  "edit-reference-data",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const permissionValidator = v.union(
+  v.literal("edit-orders"),
+  v.literal("distribute-order"),
+  v.literal("negotiate"),
+  v.literal("edit-contracts"),
+  v.literal("approve-contract"),
+  v.literal("sign-cp"),
+  v.literal("manage-members"),
+  v.literal("edit-reference-data")
+);
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "edit-orders": "Create and edit orders",
+  "distribute-order": "Distribute and withdraw orders",
+  negotiate: "Record bids, offers and counters",
+  "edit-contracts": "Create and edit contracts and recaps",
+  "approve-contract": "Approve contracts and addenda",
+  "sign-cp": "Sign charter parties and addenda",
+  "manage-members": "Invite members and change roles",
+  "edit-reference-data": "Edit vessels, ports, companies and cargo types",
+};
+
+/**
+ * Built-in mapping used until an organization customises a role.
+ * Admin always holds every permission so an org can never lock itself out.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  Admin: [...PERMISSIONS],
+  Trader: [
+    "edit-orders",
+    "distribute-order",
+    "negotiate",
+    "edit-contracts",
+    "approve-contract",
+    "sign-cp",
+  ],
+  Broker: ["negotiate", "edit-contracts"],
+};
+
+// Roles whose permissions cannot be customised per organization
+export const LOCKED_ROLES: Role[] = ["Admin"];
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Effective permissions for a role in an organization:
+ * the org's override from role_permissions, falling back to the defaults
+ */
+export async function getRolePermissions(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  role: Role
+): Promise<Permission[]> {
+  if (LOCKED_ROLES.includes(role)) {
+    return DEFAULT_ROLE_PERMISSIONS[role];
+  }
+
+  const override = await ctx.db
+    .query("role_permissions")
+    .withIndex("by_organization_and_role", (q) =>
+      q.eq("organizationId", organizationId).eq("role", role)
+    )
+    .first();
+
+  return override ? override.permissions : DEFAULT_ROLE_PERMISSIONS[role];
+}
+
+/**
+ * Check whether a membership grants a permission in its organization
+ */
+export async function membershipHasPermission(
+  ctx: QueryCtx,
+  membership: Doc<"memberships">,
+  permission: Permission
+): Promise<boolean> {
+  const role = normalizeRole(membership.role);
+  if (!role) return false;
+
+  const permissions = await getRolePermissions(
+    ctx,
+    membership.organizationId,
+    role
+  );
+  return permissions.includes(permission);
+}
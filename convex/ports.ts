@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import type { MutationCtx } from "./_generated/server";
+import { requirePermissionInAnyOrg } from "./authorization";
 
 // Internal seed function that can be called from other mutations
 export const seedPortsInternal = async (ctx: MutationCtx) => {
@@ -228,6 +229,8 @@ export const create = mutation({
     isVerified: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    await requirePermissionInAnyOrg(ctx, "edit-reference-data");
+
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) {
       throw new Error("Not authenticated");
@@ -275,6 +278,8 @@ export const update = mutation({
     isActive: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    await requirePermissionInAnyOrg(ctx, "edit-reference-data");
+
     const { id, ...updates } = args;
     await ctx.db.patch(id, updates);
     return id;
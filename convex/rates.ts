@@ -0,0 +1,173 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+// ============================================================================
+// RATE MODEL
+// ============================================================================
+
+export const rateBasisValidator = v.union(
+  v.literal("worldscale"),
+  v.literal("lumpsum"),
+  v.literal("per-tonne"),
+  v.literal("per-day"),
+  v.literal("percent")
+);
+
+export type RateBasis = Infer<typeof rateBasisValidator>;
+
+/**
+ * A numeric rate parsed from the free-text field it sits next to.
+ * `value` is the headline figure (the low end when quoted as a range).
+ */
+export const rateValidator = v.object({
+  value: v.number(),
+  unit: v.string(), // "WS", "mt", "day", "lumpsum", "%"
+  currency: v.optional(v.string()), // ISO code, absent for Worldscale and percentages
+  basis: rateBasisValidator,
+  range: v.optional(v.object({ min: v.number(), max: v.number() })),
+});
+
+export type Rate = Infer<typeof rateValidator>;
+
+// Structured counterparts of the rate strings on orders, negotiations,
+// contracts and recap managers. The strings stay as the display text.
+export const ratesValidator = v.object({
+  freight: v.optional(rateValidator),
+  demurrage: v.optional(rateValidator),
+  despatch: v.optional(rateValidator),
+  tce: v.optional(rateValidator),
+  addressCommission: v.optional(rateValidator),
+  brokerCommission: v.optional(rateValidator),
+  bid: v.optional(rateValidator),
+  offer: v.optional(rateValidator),
+});
+
+export type Rates = Infer<typeof ratesValidator>;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const RATE_UNITS: Record<RateBasis, string> = {
+  worldscale: "WS",
+  lumpsum: "lumpsum",
+  "per-tonne": "mt",
+  "per-day": "day",
+  percent: "%",
+};
+
+const CURRENCIES: Array<[RegExp, string]> = [
+  [/\$|\busd\b/, "USD"],
+  [/€|\beur\b/, "EUR"],
+  [/£|\bgbp\b/, "GBP"],
+];
+
+function detectBasis(text: string): RateBasis | null {
+  if (/\bws\b|worldscale/.test(text)) return "worldscale";
+  if (/%/.test(text)) return "percent";
+  if (/lump\s*-?\s*sum|\bls\b/.test(text)) return "lumpsum";
+  if (/\/\s*(day|d)\b|per\s+day|\bpdpr\b|\bpd\b/.test(text)) return "per-day";
+  if (/\/\s*(mt|t|ton|tonne)\b|per\s+(metric\s+)?(ton|tonne)|\bpmt\b/.test(text)) {
+    return "per-tonne";
+  }
+  return null;
+}
+
+// Numbers in the text, honouring thousands separators and k/m suffixes
+function extractNumbers(text: string): number[] {
+  const numbers: number[] = [];
+  const pattern = /(\d[\d,]*(?:\.\d+)?)(?:\s*([km])(?![a-z]))?/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const base = parseFloat(match[1].replace(/,/g, ""));
+    if (isNaN(base)) continue;
+    const multiplier =
+      match[2] === "k" ? 1_000 : match[2] === "m" ? 1_000_000 : 1;
+    numbers.push(base * multiplier);
+  }
+
+  return numbers;
+}
+
+/**
+ * Parse a rate string ("WS 85-90", "$25.12/mt", "USD 1.2m LS", "2.5%").
+ * The basis comes from the text, falling back to `defaultBasis`.
+ * Returns null when no number or basis can be found.
+ */
+export function parseRate(
+  text: string | undefined,
+  defaultBasis?: RateBasis
+): Rate | null {
+  if (!text) return null;
+
+  const normalized = text.trim().toLowerCase();
+  const numbers = extractNumbers(normalized);
+  if (numbers.length === 0) return null;
+
+  const basis = detectBasis(normalized) ?? defaultBasis;
+  if (!basis) return null;
+
+  const currency =
+    basis === "worldscale" || basis === "percent"
+      ? undefined
+      : (CURRENCIES.find(([pattern]) => pattern.test(normalized))?.[1] ?? "USD");
+
+  const isRange =
+    numbers.length > 1 && /\d\s*(?:-|–|to)\s*[$€£]?\s*\d/.test(normalized);
+  const [min, max] = isRange
+    ? [Math.min(numbers[0], numbers[1]), Math.max(numbers[0], numbers[1])]
+    : [numbers[0], numbers[0]];
+
+  return {
+    value: min,
+    unit: RATE_UNITS[basis],
+    currency,
+    basis,
+    range: isRange ? { min, max } : undefined,
+  };
+}
+
+/**
+ * Numeric value of a rate string, for sorting and analytics.
+ * Only the figure matters here, so text without a recognisable basis still parses.
+ */
+export function parseRateValue(text: string | undefined): number | undefined {
+  return parseRate(text, "lumpsum")?.value;
+}
+
+export type RateFields = {
+  freightRate?: string;
+  freightRateType?: "worldscale" | "lumpsum" | "per-tonne";
+  demurrageRate?: string;
+  despatchRate?: string;
+  tce?: string;
+  addressCommission?: string;
+  brokerCommission?: string;
+  bidPrice?: string;
+  offerPrice?: string;
+};
+
+/**
+ * Build the structured rates for a document from its rate strings.
+ * Freight, bid and offer default to the freight rate type; demurrage,
+ * despatch and TCE are per day; commissions are percentages.
+ */
+export function buildRates(fields: RateFields): Rates {
+  const freightBasis = fields.freightRateType;
+  const parsed: Array<[keyof Rates, Rate | null]> = [
+    ["freight", parseRate(fields.freightRate, freightBasis)],
+    ["demurrage", parseRate(fields.demurrageRate, "per-day")],
+    ["despatch", parseRate(fields.despatchRate, "per-day")],
+    ["tce", parseRate(fields.tce, "per-day")],
+    ["addressCommission", parseRate(fields.addressCommission, "percent")],
+    ["brokerCommission", parseRate(fields.brokerCommission, "percent")],
+    ["bid", parseRate(fields.bidPrice, freightBasis)],
+    ["offer", parseRate(fields.offerPrice, freightBasis)],
+  ];
+
+  const rates: Rates = {};
+  for (const [key, rate] of parsed) {
+    if (rate) rates[key] = rate;
+  }
+  return rates;
+}
@@ -1,7 +1,27 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { Id } from "./_generated/dataModel";
-import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import {
+  amendmentValidator,
+  createAddendumPartyRows,
+  describeAmendments,
+  validateAmendments,
+} from "./addenda";
+import { trackFieldChanges } from "./audit";
+import {
+  filterAccessibleDeals,
+  requireRecapAccess,
+  requireDealAccess,
+  requireNegotiationAccess,
+  requireOrderAccess,
+} from "./authorization";
+import { resolveClauseReferences } from "./clauses";
+import { markCpDocumentStale } from "./cpDocuments";
+import { recordContractSnapshot } from "./contractSnapshots";
+import { allocateDocumentNumber } from "./documentNumbers";
+import { syncFixtureRows } from "./fixtureRows";
+import { buildRates } from "./rates";
 
 // Helper function to calculate and update fixture's lastUpdated
 // Duplicated here to avoid circular dependency issues with internal functions
@@ -44,6 +64,7 @@ async function updateFixtureLastUpdated(
 
   const lastUpdated = Math.max(...timestamps);
   await ctx.db.patch(fixtureId, { lastUpdated });
+  await syncFixtureRows(ctx, fixtureId);
 }
 
 // Helper function to rebuild fixture's searchText
@@ -123,12 +144,7 @@ async function updateFixtureSearchText(
 
   const searchText = Array.from(values).map((v) => v.toLowerCase()).join(" ");
   await ctx.db.patch(fixtureId, { searchText });
-}
-
-// Generate recap number (RCP12345)
-function generateRecapNumber(): string {
-  const randomNum = Math.floor(10000 + Math.random() * 90000);
-  return `RCP${randomNum}`;
+  await syncFixtureRows(ctx, fixtureId);
 }
 
 // Create a new recap manager (wet market)
@@ -171,13 +187,32 @@ export const create = mutation({
   },
   handler: async (ctx, args) => {
     const now = Date.now();
-    const recapNumber = generateRecapNumber();
 
     // Validate: both orderId and negotiationId must be present, OR both must be empty
     if ((args.orderId && !args.negotiationId) || (!args.orderId && args.negotiationId)) {
       throw new Error("orderId and negotiationId must both be present or both be empty");
     }
 
+    const { user, membership } = await requireDealAccess(
+      ctx,
+      { fixtureId: args.fixtureId, orderId: args.orderId },
+      "edit-contracts"
+    );
+
+    // The negotiation must belong to the order it is being attached to
+    if (args.negotiationId) {
+      const negotiation = await ctx.db.get(args.negotiationId);
+      if (!negotiation || negotiation.orderId !== args.orderId) {
+        throw new Error("Negotiation does not belong to this order");
+      }
+    }
+
+    const recapNumber = await allocateDocumentNumber(
+      ctx,
+      membership.organizationId,
+      "recap"
+    );
+
     const recapId = await ctx.db.insert("recap_managers", {
       recapNumber,
       fixtureId: args.fixtureId,
@@ -199,6 +234,7 @@ export const create = mutation({
       despatchRate: args.despatchRate,
       addressCommission: args.addressCommission,
       brokerCommission: args.brokerCommission,
+      rates: buildRates(args),
       cargoTypeId: args.cargoTypeId,
       quantity: args.quantity,
       quantityUnit: args.quantityUnit,
@@ -208,6 +244,8 @@ export const create = mutation({
       updatedAt: now,
     });
 
+    await recordContractSnapshot(ctx, { type: "recap", id: recapId }, "created", user._id);
+
     // Update the fixture's lastUpdated timestamp and searchText if fixtureId is provided
     if (args.fixtureId) {
       await updateFixtureLastUpdated(ctx, args.fixtureId);
@@ -244,22 +282,38 @@ export const update = mutation({
     quantity: v.optional(v.number()),
     quantityUnit: v.optional(v.string()),
     approvalStatus: v.optional(v.string()),
+    changeReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const { recapId, ...updates } = args;
+    const { recapId, changeReason, ...updates } = args;
 
-    const existing = await ctx.db.get(recapId);
-    if (!existing) {
-      throw new Error("Recap manager not found");
-    }
+    const { user, recap: existing } = await requireRecapAccess(
+      ctx,
+      recapId,
+      "edit-contracts"
+    );
 
-    // TODO: Track field changes
+    await trackFieldChanges(
+      ctx,
+      "recap_manager",
+      recapId,
+      existing,
+      updates,
+      user._id,
+      changeReason
+    );
 
     await ctx.db.patch(recapId, {
       ...updates,
+      rates: buildRates({ ...existing, ...updates }),
       updatedAt: Date.now(),
     });
 
+    // Regenerate the CP document from the new terms
+    if (existing.fullCpChainStorageId) {
+      await markCpDocumentStale(ctx, { recapId });
+    }
+
     // Update the fixture's lastUpdated timestamp and searchText if fixtureId exists
     if (existing.fixtureId) {
       await updateFixtureLastUpdated(ctx, existing.fixtureId);
@@ -281,12 +335,14 @@ export const updateStatus = mutation({
       v.literal("canceled"),
       v.literal("failed")
     ),
+    changeReason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const recap = await ctx.db.get(args.recapId);
-    if (!recap) {
-      throw new Error("Recap manager not found");
-    }
+    const { user, recap } = await requireRecapAccess(
+      ctx,
+      args.recapId,
+      "edit-contracts"
+    );
 
     const updates: any = {
       status: args.status,
@@ -297,8 +353,24 @@ export const updateStatus = mutation({
       updates.fixedAt = Date.now();
     }
 
+    await trackFieldChanges(
+      ctx,
+      "recap_manager",
+      args.recapId,
+      recap,
+      { status: args.status },
+      user._id,
+      args.changeReason
+    );
+
     await ctx.db.patch(args.recapId, updates);
 
+    // The status is printed on the CP document
+    if (recap.fullCpChainStorageId) {
+      await markCpDocumentStale(ctx, { recapId: args.recapId });
+    }
+    await recordContractSnapshot(ctx, { type: "recap", id: args.recapId }, "status", user._id);
+
     // Update the fixture's lastUpdated timestamp and searchText if fixtureId exists
     if (recap.fixtureId) {
       await updateFixtureLastUpdated(ctx, recap.fixtureId);
@@ -311,16 +383,144 @@ export const updateStatus = mutation({
   },
 });
 
+// Add an addendum and snapshot the recap terms it amends
+export const createAddendum = mutation({
+  args: {
+    recapId: v.id("recap_managers"),
+    description: v.optional(v.string()),
+    amendments: v.optional(v.array(amendmentValidator)),
+  },
+  handler: async (ctx, args) => {
+    const { user, recap } = await requireRecapAccess(
+      ctx,
+      args.recapId,
+      "edit-contracts"
+    );
+
+    if (args.amendments) {
+      await validateAmendments(ctx, args.amendments);
+    }
+
+    const existing = await ctx.db
+      .query("recap_addenda")
+      .withIndex("by_recap", (q) => q.eq("recapManagerId", args.recapId))
+      .collect();
+    const addendaNumber = String(existing.length + 1);
+
+    const now = Date.now();
+    const addendaId = await ctx.db.insert("recap_addenda", {
+      recapManagerId: args.recapId,
+      addendaNumber,
+      description: args.description?.trim() || undefined,
+      status: "draft",
+      amendments: args.amendments,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await createAddendumPartyRows(ctx, addendaId, "recap", [
+      ["owner", recap.ownerId],
+      ["charterer", recap.chartererId],
+    ]);
+
+    await recordContractSnapshot(
+      ctx,
+      { type: "recap", id: args.recapId },
+      "addendum",
+      user._id,
+      { id: addendaId, addendaNumber }
+    );
+
+    // Update the fixture's lastUpdated timestamp if fixtureId exists
+    if (recap.fixtureId) {
+      await updateFixtureLastUpdated(ctx, recap.fixtureId);
+    }
+
+    return addendaId;
+  },
+});
+
 // List all recap managers
 export const list = query({
   args: {},
   handler: async (ctx) => {
     const recaps = await ctx.db.query("recap_managers").collect();
-    return recaps.sort((a, b) => b._creationTime - a._creationTime);
+    const accessible = await filterAccessibleDeals(ctx, recaps);
+    return accessible.sort((a, b) => b._creationTime - a._creationTime);
   },
 });
 
 // Get recap manager by ID with full details
+// A recap manager with its parties, vessel, ports, clauses and addenda, as shown on
+// its page and filled into the generated CP document
+export async function loadRecapDetails(ctx: QueryCtx, recap: Doc<"recap_managers">) {
+  // Get related entities
+  const owner = await ctx.db.get(recap.ownerId);
+  const charterer = await ctx.db.get(recap.chartererId);
+  const broker = recap.brokerId ? await ctx.db.get(recap.brokerId) : null;
+  const vessel = recap.vesselId ? await ctx.db.get(recap.vesselId) : null;
+  const loadPort = recap.loadPortId
+    ? await ctx.db.get(recap.loadPortId)
+    : null;
+  const dischargePort = recap.dischargePortId
+    ? await ctx.db.get(recap.dischargePortId)
+    : null;
+  const cargoType = recap.cargoTypeId
+    ? await ctx.db.get(recap.cargoTypeId)
+    : null;
+  const negotiation = recap.negotiationId
+    ? await ctx.db.get(recap.negotiationId)
+    : null;
+  const order = recap.orderId ? await ctx.db.get(recap.orderId) : null;
+
+  // Get addenda
+  const addenda = await ctx.db
+    .query("recap_addenda")
+    .withIndex("by_recap", (q) => q.eq("recapManagerId", recap._id))
+    .collect();
+
+  // Get voyages if COA
+  const voyages =
+    recap.contractType === "coa"
+      ? await ctx.db
+          .query("voyages")
+          .withIndex("by_recap", (q) => q.eq("parentRecapId", recap._id))
+          .collect()
+      : [];
+
+  // Agreed clause versions, on the CP and on each addendum
+  const clauses = await resolveClauseReferences(ctx, recap.clauses);
+  const addendaWithClauses = await Promise.all(
+    addenda.map(async (addendum) => ({
+      ...addendum,
+      clauses: await resolveClauseReferences(ctx, addendum.clauses),
+      amendmentSummary: await describeAmendments(ctx, addendum.amendments),
+    }))
+  );
+
+  // Generated CP document
+  const cpDocumentUrl = recap.fullCpChainStorageId
+    ? await ctx.storage.getUrl(recap.fullCpChainStorageId)
+    : null;
+
+  return {
+    ...recap,
+    owner,
+    charterer,
+    broker,
+    vessel,
+    loadPort,
+    dischargePort,
+    cargoType,
+    negotiation,
+    order,
+    addenda: addendaWithClauses,
+    voyages,
+    clauses,
+    cpDocumentUrl,
+  };
+}
+
 export const getById = query({
   args: { recapId: v.id("recap_managers") },
   handler: async (ctx, args) => {
@@ -329,54 +529,9 @@ export const getById = query({
       return null;
     }
 
-    // Get related entities
-    const owner = await ctx.db.get(recap.ownerId);
-    const charterer = await ctx.db.get(recap.chartererId);
-    const broker = recap.brokerId ? await ctx.db.get(recap.brokerId) : null;
-    const vessel = recap.vesselId ? await ctx.db.get(recap.vesselId) : null;
-    const loadPort = recap.loadPortId
-      ? await ctx.db.get(recap.loadPortId)
-      : null;
-    const dischargePort = recap.dischargePortId
-      ? await ctx.db.get(recap.dischargePortId)
-      : null;
-    const cargoType = recap.cargoTypeId
-      ? await ctx.db.get(recap.cargoTypeId)
-      : null;
-    const negotiation = recap.negotiationId
-      ? await ctx.db.get(recap.negotiationId)
-      : null;
-    const order = recap.orderId ? await ctx.db.get(recap.orderId) : null;
-
-    // Get addenda
-    const addenda = await ctx.db
-      .query("recap_addenda")
-      .withIndex("by_recap", (q) => q.eq("recapManagerId", args.recapId))
-      .collect();
+    await requireDealAccess(ctx, recap);
 
-    // Get voyages if COA
-    const voyages =
-      recap.contractType === "coa"
-        ? await ctx.db
-            .query("voyages")
-            .withIndex("by_recap", (q) => q.eq("parentRecapId", args.recapId))
-            .collect()
-        : [];
-
-    return {
-      ...recap,
-      owner,
-      charterer,
-      broker,
-      vessel,
-      loadPort,
-      dischargePort,
-      cargoType,
-      negotiation,
-      order,
-      addenda,
-      voyages,
-    };
+    return await loadRecapDetails(ctx, recap);
   },
 });
 
@@ -397,7 +552,8 @@ export const listByStatus = query({
       .withIndex("by_status", (q) => q.eq("status", args.status))
       .collect();
 
-    return recaps.sort((a, b) => b._creationTime - a._creationTime);
+    const accessible = await filterAccessibleDeals(ctx, recaps);
+    return accessible.sort((a, b) => b._creationTime - a._creationTime);
   },
 });
 
@@ -405,6 +561,8 @@ export const listByStatus = query({
 export const listByNegotiation = query({
   args: { negotiationId: v.id("negotiations") },
   handler: async (ctx, args) => {
+    await requireNegotiationAccess(ctx, args.negotiationId);
+
     const recaps = await ctx.db
       .query("recap_managers")
       .withIndex("by_negotiation", (q) =>
@@ -420,6 +578,8 @@ export const listByNegotiation = query({
 export const listByOrder = query({
   args: { orderId: v.id("orders") },
   handler: async (ctx, args) => {
+    await requireOrderAccess(ctx, args.orderId);
+
     const recaps = await ctx.db
       .query("recap_managers")
       .withIndex("by_order", (q) => q.eq("orderId", args.orderId))
@@ -433,7 +593,10 @@ export const listByOrder = query({
 export const listEnriched = query({
   args: {},
   handler: async (ctx) => {
-    const recaps = await ctx.db.query("recap_managers").collect();
+    const recaps = await filterAccessibleDeals(
+      ctx,
+      await ctx.db.query("recap_managers").collect()
+    );
 
     const enrichedRecaps = await Promise.all(
       recaps.map(async (recap) => {
@@ -0,0 +1,135 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireOrgMember } from "./authorization";
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  LOCKED_ROLES,
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  ROLES,
+  getRolePermissions,
+  normalizeRole,
+  parseRole,
+  permissionValidator,
+} from "./permissions";
+
+// Get the organization's role → permission matrix
+export const getPermissionMatrix = query({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId);
+
+    const overrides = await ctx.db
+      .query("role_permissions")
+      .withIndex("by_organization_and_role", (q) =>
+        q.eq("organizationId", args.organizationId)
+      )
+      .collect();
+
+    const roles = await Promise.all(
+      ROLES.map(async (role) => ({
+        role,
+        permissions: await getRolePermissions(ctx, args.organizationId, role),
+        isLocked: LOCKED_ROLES.includes(role),
+        isCustomized: overrides.some((o) => o.role === role),
+      }))
+    );
+
+    return {
+      roles,
+      permissions: PERMISSIONS.map((permission) => ({
+        permission,
+        label: PERMISSION_LABELS[permission],
+      })),
+    };
+  },
+});
+
+// Get the current user's effective permissions in an organization
+export const getMyPermissions = query({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const { membership } = await requireOrgMember(ctx, args.organizationId);
+
+    const role = normalizeRole(membership.role);
+    if (!role) return [];
+
+    return await getRolePermissions(ctx, args.organizationId, role);
+  },
+});
+
+// Customise the permissions granted to a role in an organization
+export const updateRolePermissions = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    role: v.string(),
+    permissions: v.array(permissionValidator),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireOrgMember(
+      ctx,
+      args.organizationId,
+      "manage-members"
+    );
+
+    const role = parseRole(args.role);
+    if (LOCKED_ROLES.includes(role)) {
+      throw new Error(`${role} permissions cannot be changed`);
+    }
+
+    // Store in canonical order without duplicates
+    const permissions = PERMISSIONS.filter((p) => args.permissions.includes(p));
+
+    const existing = await ctx.db
+      .query("role_permissions")
+      .withIndex("by_organization_and_role", (q) =>
+        q.eq("organizationId", args.organizationId).eq("role", role)
+      )
+      .first();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        permissions,
+        updatedBy: user._id,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("role_permissions", {
+      organizationId: args.organizationId,
+      role,
+      permissions,
+      updatedBy: user._id,
+      updatedAt: now,
+    });
+  },
+});
+
+// Reset a role back to the built-in default permissions
+export const resetRolePermissions = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    role: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireOrgMember(ctx, args.organizationId, "manage-members");
+
+    const role = parseRole(args.role);
+
+    const existing = await ctx.db
+      .query("role_permissions")
+      .withIndex("by_organization_and_role", (q) =>
+        q.eq("organizationId", args.organizationId).eq("role", role)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+
+    return DEFAULT_ROLE_PERMISSIONS[role];
+  },
+});
@@ -0,0 +1,130 @@
+"use node";
+
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+import Papa from "papaparse";
+import ExcelJS from "exceljs";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import type { ExportFormat } from "../src/types/export";
+import type { ExportCell } from "../src/utils/fixtureExport";
+
+// File extension and MIME type per export format
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  excel: {
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  pdf: { extension: "pdf", mimeType: "application/pdf" },
+};
+
+// "Tanker fixtures" → "tanker_fixtures_2026-10-19", as generateFileName names downloads
+function exportFileName(bookmarkName: string, format: ExportFormat): string {
+  const prefix = bookmarkName.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "fixtures_export";
+  const date = new Date().toISOString().split("T")[0];
+  return `${prefix}_${date}.${FILE_TYPES[format].extension}`;
+}
+
+// Same layouts as exportToCSV, exportToExcel and exportToPDF in exportHelpers.ts
+async function renderFile(format: ExportFormat, headers: string[], body: ExportCell[][]): Promise<ArrayBuffer | string> {
+  if (format === "csv") {
+    // UTF-8 BOM for Excel compatibility
+    return "\uFEFF" + Papa.unparse({ fields: headers, data: body });
+  }
+
+  if (format === "excel") {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet("Fixtures");
+    worksheet.addRow(headers);
+    body.forEach((row) => worksheet.addRow(row));
+    worksheet.views = [{ state: "frozen", ySplit: 1 }];
+    worksheet.columns = headers.map((header, index) => ({
+      header,
+      key: header,
+      width: Math.min(Math.max(header.length, ...body.map((row) => String(row[index] ?? "").length)) + 2, 50),
+    }));
+    return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+  }
+
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  autoTable(doc, {
+    head: [headers],
+    body,
+    styles: { fontSize: 8, cellPadding: 2 },
+    headStyles: { fillColor: [66, 66, 66], textColor: [255, 255, 255], fontStyle: "bold" },
+    margin: { top: 10 },
+  });
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.text(
+      `Page ${page} of ${pageCount}`,
+      doc.internal.pageSize.getWidth() / 2,
+      doc.internal.pageSize.getHeight() - 5,
+      { align: "center" }
+    );
+  }
+  return doc.output("arraybuffer");
+}
+
+/**
+ * Run a scheduled export: build the bookmark's file, store it and email it
+ * to the schedule's recipients. Failures are recorded on the run.
+ */
+export const generate = internalAction({
+  args: { scheduledExportId: v.id("scheduled_exports") },
+  handler: async (ctx, args) => {
+    const data = await ctx.runQuery(internal.scheduledExports.getRunData, {
+      scheduledExportId: args.scheduledExportId,
+    });
+    if (!data) {
+      await ctx.runMutation(internal.scheduledExports.recordRun, {
+        scheduledExportId: args.scheduledExportId,
+        status: "failed",
+        error:
+          "The bookmark was deleted or is no longer shared with you, or no recipient is still a member of the organization. The schedule has been paused.",
+        pause: true,
+      });
+      return;
+    }
+
+    const fileName = exportFileName(data.bookmarkName, data.format);
+    let storageId: Id<"_storage"> | undefined;
+    try {
+      const content = await renderFile(data.format, data.headers, data.body);
+      storageId = await ctx.storage.store(new Blob([content], { type: FILE_TYPES[data.format].mimeType }));
+
+      await ctx.runAction(internal.email.sendScheduledExportEmail, {
+        toEmails: data.recipients,
+        bookmarkName: data.bookmarkName,
+        fileName,
+        rowCount: data.body.length,
+        fixtureLimit: data.fixtureLimit,
+        storageId,
+      });
+    } catch (error) {
+      console.error("Scheduled export failed:", error);
+      await ctx.runMutation(internal.scheduledExports.recordRun, {
+        scheduledExportId: args.scheduledExportId,
+        status: "failed",
+        fileName,
+        storageId,
+        error: error instanceof Error ? error.message : "Export failed",
+      });
+      return;
+    }
+
+    await ctx.runMutation(internal.scheduledExports.recordRun, {
+      scheduledExportId: args.scheduledExportId,
+      status: "sent",
+      fileName,
+      storageId,
+      rowCount: data.body.length,
+      fixtureLimit: data.fixtureLimit,
+    });
+  },
+});
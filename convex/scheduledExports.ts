@@ -0,0 +1,368 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  canFollowBookmark,
+  getCurrentAppUser,
+  requireBookmarkAccess,
+  requireCurrentUser,
+} from "./authorization";
+import { listBookmarkFixtures } from "./fixtures";
+import {
+  exportColumnValidator,
+  exportFormatValidator,
+  statusFormatValidator,
+} from "./fixtureExports";
+import { buildFixtureExportRows, toExportTable } from "../src/utils/fixtureExport";
+
+// ============================================================================
+// SCHEDULED EXPORTS
+// ============================================================================
+// Recurring exports of a Fixtures bookmark. An hourly cron picks up the
+// schedules that are due; each run builds the file in a Node action
+// (scheduledExportFiles.generate), keeps it in storage and emails it to the
+// schedule's recipients, who must be members of the schedule's organization.
+
+export const exportFrequencyValidator = v.union(
+  v.literal("daily"),
+  v.literal("weekly"),
+  v.literal("monthly")
+);
+
+export const exportRunStatusValidator = v.union(
+  v.literal("sent"),
+  v.literal("failed")
+);
+
+// Fixtures included in one export, in the bookmark's sort order
+const EXPORT_FIXTURE_LIMIT = 500;
+// Recipients per schedule
+const MAX_RECIPIENTS = 20;
+// Runs (and their files) kept per schedule
+const KEPT_RUNS = 12;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type ExportSchedule = Pick<Doc<"scheduled_exports">, "frequency" | "hourUTC" | "dayOfWeek" | "dayOfMonth">;
+
+/**
+ * The first run time after `after`: at hourUTC every day, on dayOfWeek
+ * (0 = Sunday) every week, or on dayOfMonth (1–28) every month
+ */
+export function computeNextRunAt(schedule: ExportSchedule, after: number): number {
+  const next = new Date(after);
+  next.setUTCHours(schedule.hourUTC, 0, 0, 0);
+
+  if (schedule.frequency === "daily") {
+    if (next.getTime() <= after) next.setUTCDate(next.getUTCDate() + 1);
+  } else if (schedule.frequency === "weekly") {
+    const dayOfWeek = schedule.dayOfWeek ?? 1;
+    next.setUTCDate(next.getUTCDate() + ((dayOfWeek - next.getUTCDay() + 7) % 7));
+    if (next.getTime() <= after) next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCDate(schedule.dayOfMonth ?? 1);
+    if (next.getTime() <= after) {
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      next.setUTCDate(schedule.dayOfMonth ?? 1);
+    }
+  }
+
+  return next.getTime();
+}
+
+function validateSchedule(args: {
+  hourUTC: number;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  recipients: string[];
+  columns: { id: string }[];
+}): string[] {
+  if (!Number.isInteger(args.hourUTC) || args.hourUTC < 0 || args.hourUTC > 23) {
+    throw new Error("Hour must be between 0 and 23");
+  }
+  if (args.dayOfWeek !== undefined && (!Number.isInteger(args.dayOfWeek) || args.dayOfWeek < 0 || args.dayOfWeek > 6)) {
+    throw new Error("Day of week must be between 0 (Sunday) and 6 (Saturday)");
+  }
+  if (args.dayOfMonth !== undefined && (!Number.isInteger(args.dayOfMonth) || args.dayOfMonth < 1 || args.dayOfMonth > 28)) {
+    throw new Error("Day of month must be between 1 and 28");
+  }
+  if (args.columns.length === 0) {
+    throw new Error("Choose at least one column to export");
+  }
+
+  const recipients = [...new Set(args.recipients.map((email) => email.trim().toLowerCase()))].filter(Boolean);
+  if (recipients.length === 0) {
+    throw new Error("Add at least one recipient");
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    throw new Error(`A schedule can have at most ${MAX_RECIPIENTS} recipients`);
+  }
+  const invalid = recipients.find((email) => !EMAIL_PATTERN.test(email));
+  if (invalid) {
+    throw new Error(`Invalid email address: ${invalid}`);
+  }
+  return recipients;
+}
+
+// Whether an email address belongs to a member of the organization
+async function isMemberEmail(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  email: string
+): Promise<boolean> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_email", (q) => q.eq("email", email))
+    .first();
+  if (!user) return false;
+
+  const memberships = await ctx.db
+    .query("memberships")
+    .withIndex("by_userId", (q) => q.eq("userId", user._id))
+    .collect();
+  return memberships.some((membership) => membership.organizationId === organizationId);
+}
+
+// The current user's schedules for a bookmark, with their recent runs
+export const listForBookmark = query({
+  args: { bookmarkId: v.id("user_bookmarks") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentAppUser(ctx);
+    if (!user) return [];
+
+    const schedules = await ctx.db
+      .query("scheduled_exports")
+      .withIndex("by_bookmark", (q) => q.eq("bookmarkId", args.bookmarkId))
+      .collect();
+
+    return await Promise.all(
+      schedules
+        .filter((schedule) => schedule.userId === user._id)
+        .map(async (schedule) => {
+          const runs = await ctx.db
+            .query("scheduled_export_runs")
+            .withIndex("by_export_created", (q) => q.eq("scheduledExportId", schedule._id))
+            .order("desc")
+            .take(5);
+          return {
+            ...schedule,
+            runs: await Promise.all(
+              runs.map(async (run) => ({
+                ...run,
+                fileUrl: run.storageId ? await ctx.storage.getUrl(run.storageId) : null,
+              }))
+            ),
+          };
+        })
+    );
+  },
+});
+
+export const create = mutation({
+  args: {
+    bookmarkId: v.id("user_bookmarks"),
+    organizationId: v.id("organizations"),
+    format: exportFormatValidator,
+    columns: v.array(exportColumnValidator),
+    statusFormat: statusFormatValidator,
+    frequency: exportFrequencyValidator,
+    hourUTC: v.number(),
+    dayOfWeek: v.optional(v.number()),
+    dayOfMonth: v.optional(v.number()),
+    recipients: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user, bookmark } = await requireBookmarkAccess(ctx, args.bookmarkId, "read");
+    if ((bookmark.page ?? "fixtures") !== "fixtures") {
+      throw new Error("Only Fixtures bookmarks can be exported on a schedule");
+    }
+    if (!(await canFollowBookmark(ctx, bookmark, user._id, args.organizationId))) {
+      throw new Error("Access denied");
+    }
+    const recipients = validateSchedule(args);
+    for (const email of recipients) {
+      if (!(await isMemberEmail(ctx, args.organizationId, email))) {
+        throw new Error(`${email} is not a member of this organization`);
+      }
+    }
+
+    const now = Date.now();
+    const schedule = {
+      frequency: args.frequency,
+      hourUTC: args.hourUTC,
+      dayOfWeek: args.frequency === "weekly" ? (args.dayOfWeek ?? 1) : undefined,
+      dayOfMonth: args.frequency === "monthly" ? (args.dayOfMonth ?? 1) : undefined,
+    };
+
+    return await ctx.db.insert("scheduled_exports", {
+      bookmarkId: args.bookmarkId,
+      userId: user._id,
+      organizationId: args.organizationId,
+      format: args.format,
+      columns: args.columns,
+      statusFormat: args.statusFormat,
+      ...schedule,
+      recipients,
+      isActive: true,
+      nextRunAt: computeNextRunAt(schedule, now),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Pause or resume a schedule
+export const setActive = mutation({
+  args: {
+    scheduledExportId: v.id("scheduled_exports"),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireCurrentUser(ctx);
+    const schedule = await ctx.db.get(args.scheduledExportId);
+    if (!schedule || schedule.userId !== user._id) {
+      throw new Error("Scheduled export not found");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.scheduledExportId, {
+      isActive: args.isActive,
+      // Resuming skips the runs missed while paused
+      nextRunAt: args.isActive ? computeNextRunAt(schedule, now) : schedule.nextRunAt,
+      updatedAt: now,
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { scheduledExportId: v.id("scheduled_exports") },
+  handler: async (ctx, args) => {
+    const user = await requireCurrentUser(ctx);
+    const schedule = await ctx.db.get(args.scheduledExportId);
+    if (!schedule || schedule.userId !== user._id) {
+      throw new Error("Scheduled export not found");
+    }
+
+    const runs = await ctx.db
+      .query("scheduled_export_runs")
+      .withIndex("by_export_created", (q) => q.eq("scheduledExportId", args.scheduledExportId))
+      .collect();
+    for (const run of runs) {
+      if (run.storageId) await ctx.storage.delete(run.storageId);
+      await ctx.db.delete(run._id);
+    }
+    await ctx.db.delete(args.scheduledExportId);
+  },
+});
+
+// Start every schedule that is due and move it to its next run time
+export const runDue = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("scheduled_exports")
+      .withIndex("by_active_next_run", (q) => q.eq("isActive", true).lte("nextRunAt", now))
+      .collect();
+
+    for (const schedule of due) {
+      await ctx.db.patch(schedule._id, { nextRunAt: computeNextRunAt(schedule, now) });
+      await ctx.scheduler.runAfter(0, internal.scheduledExportFiles.generate, {
+        scheduledExportId: schedule._id,
+      });
+    }
+
+    return { started: due.length };
+  },
+});
+
+// Everything a run needs: the schedule, its bookmark's rows as formatted
+// cells, and where to send them. Null when the schedule is gone, its owner
+// can no longer see the bookmark, or none of its recipients is still a member.
+export const getRunData = internalQuery({
+  args: { scheduledExportId: v.id("scheduled_exports") },
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.scheduledExportId);
+    if (!schedule) return null;
+    const bookmark = await ctx.db.get(schedule.bookmarkId);
+    if (!bookmark || !(await canFollowBookmark(ctx, bookmark, schedule.userId, schedule.organizationId))) {
+      return null;
+    }
+
+    const recipients: string[] = [];
+    for (const email of schedule.recipients) {
+      if (await isMemberEmail(ctx, schedule.organizationId, email)) recipients.push(email);
+    }
+    if (recipients.length === 0) return null;
+
+    const { fixtures, isTruncated } = await listBookmarkFixtures(
+      ctx,
+      bookmark,
+      schedule.organizationId,
+      EXPORT_FIXTURE_LIMIT
+    );
+    const rows = buildFixtureExportRows(fixtures);
+    const { headers, body } = toExportTable(rows, schedule.columns, schedule.statusFormat, "UTC");
+
+    return {
+      format: schedule.format,
+      recipients,
+      bookmarkName: bookmark.name,
+      headers,
+      body,
+      fixtureLimit: isTruncated ? EXPORT_FIXTURE_LIMIT : undefined,
+    };
+  },
+});
+
+// Record a run, keep its file, and drop files of runs past KEPT_RUNS.
+// Schedules whose bookmark became unavailable are paused.
+export const recordRun = internalMutation({
+  args: {
+    scheduledExportId: v.id("scheduled_exports"),
+    status: exportRunStatusValidator,
+    fileName: v.optional(v.string()),
+    storageId: v.optional(v.id("_storage")),
+    rowCount: v.optional(v.number()),
+    fixtureLimit: v.optional(v.number()),
+    error: v.optional(v.string()),
+    pause: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.scheduledExportId);
+    if (!schedule) {
+      if (args.storageId) await ctx.storage.delete(args.storageId);
+      return;
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("scheduled_export_runs", {
+      scheduledExportId: args.scheduledExportId,
+      status: args.status,
+      fileName: args.fileName,
+      storageId: args.storageId,
+      rowCount: args.rowCount,
+      fixtureLimit: args.fixtureLimit,
+      error: args.error,
+      createdAt: now,
+    });
+    await ctx.db.patch(args.scheduledExportId, {
+      lastRunAt: now,
+      lastRunStatus: args.status,
+      ...(args.pause ? { isActive: false } : {}),
+    });
+
+    const runs = await ctx.db
+      .query("scheduled_export_runs")
+      .withIndex("by_export_created", (q) => q.eq("scheduledExportId", args.scheduledExportId))
+      .order("desc")
+      .collect();
+    for (const run of runs.slice(KEPT_RUNS)) {
+      if (run.storageId) await ctx.storage.delete(run.storageId);
+      await ctx.db.delete(run._id);
+    }
+  },
+});
@@ -1,5 +1,21 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { ratesValidator } from "./rates";
+import {
+  approvalConditionsValidator,
+  approvalSequencingValidator,
+  approvalStepProgressValidator,
+  approvalStepValidator,
+} from "./approvalPolicies";
+import { amendmentValidator } from "./addenda";
+import { bookmarkPageValidator, bookmarkVisibilityValidator } from "./user_bookmarks";
+import { notificationTypeValidator } from "./notifications";
+import { exportColumnValidator, exportFormatValidator, statusFormatValidator } from "./fixtureExports";
+import { exportFrequencyValidator, exportRunStatusValidator } from "./scheduledExports";
+import { coaTermsValidator, liftingFlagValidator } from "./coa";
+import { delegatedAuthorityValidator } from "./delegations";
+import { fixtureRowKindValidator, fixtureRowUnitValidator } from "./fixtureRows";
+import { envelopeStatusValidator, esignProviderValidator } from "./esignProviders";
 
 export default defineSchema({
   // Users table with authentication
@@ -9,6 +25,8 @@ export default defineSchema({
     passwordHash: v.optional(v.string()),
     avatar: v.optional(v.id("_storage")),
     emailVerified: v.optional(v.boolean()),
+    // Platform-wide role, set from the Convex dashboard. Organization roles never grant it.
+    platformRole: v.optional(v.literal("admin")),
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   }).index("by_email", ["email"]),
@@ -35,17 +53,57 @@ export default defineSchema({
   memberships: defineTable({
     userId: v.id("users"),
     organizationId: v.id("organizations"),
-    role: v.string(), // Trader, Broker, Admin, etc.
+    // Admin, Trader or Broker. Stays a string until migrations/normalizeRoles
+    // has rewritten legacy free-text roles; narrow to the role union after.
+    role: v.string(),
     createdAt: v.number(),
   })
     .index("by_userId", ["userId"])
     .index("by_organizationId", ["organizationId"]),
 
+  // Per-organization role → permission overrides (defaults live in permissions.ts)
+  role_permissions: defineTable({
+    organizationId: v.id("organizations"),
+    role: v.union(v.literal("Admin"), v.literal("Trader"), v.literal("Broker")),
+    permissions: v.array(
+      v.union(
+        v.literal("edit-orders"),
+        v.literal("distribute-order"),
+        v.literal("negotiate"),
+        v.literal("edit-contracts"),
+        v.literal("approve-contract"),
+        v.literal("sign-cp"),
+        v.literal("manage-members"),
+        v.literal("edit-reference-data")
+      )
+    ),
+    updatedBy: v.optional(v.id("users")),
+    updatedAt: v.number(),
+  }).index("by_organization_and_role", ["organizationId", "role"]),
+
+  // Document number sequences - one gap-free counter per organization and document type
+  document_sequences: defineTable({
+    organizationId: v.id("organizations"),
+    documentType: v.union(
+      v.literal("order"),
+      v.literal("negotiation"),
+      v.literal("fixture"),
+      v.literal("contract"),
+      v.literal("recap")
+    ),
+    prefix: v.optional(v.string()), // Defaults per type: ORD, NEG, FIX, CP, RCP
+    includeYear: v.optional(v.boolean()), // FIX-2026-00042 instead of FIX00042
+    padding: v.optional(v.number()), // Digits in the counter, default 5
+    year: v.optional(v.number()), // Year the counter belongs to when includeYear is on
+    lastValue: v.number(), // Last number handed out
+    updatedAt: v.number(),
+  }).index("by_organization_and_type", ["organizationId", "documentType"]),
+
   // Organization Invitations
   invitations: defineTable({
     email: v.string(),
     organizationId: v.id("organizations"),
-    role: v.string(), // Admin, Trader, Broker
+    role: v.string(), // Admin, Trader or Broker (see memberships.role)
     token: v.string(),
     invitedBy: v.id("users"),
     status: v.union(
@@ -310,6 +368,7 @@ export default defineSchema({
     demurrageRate: v.optional(v.string()),
     despatchRate: v.optional(v.string()),
     tce: v.optional(v.string()), // Time Charter Equivalent
+    rates: v.optional(ratesValidator), // Parsed from the rate strings above
     validityHours: v.optional(v.number()),
     organizationId: v.id("organizations"),
     chartererId: v.optional(v.id("companies")),
@@ -328,7 +387,7 @@ export default defineSchema({
     withdrawnAt: v.optional(v.number()),
   })
     .index("by_organization", ["organizationId"])
-    .index("by_orderNumber", ["orderNumber"])
+    .index("by_organization_and_orderNumber", ["organizationId", "orderNumber"])
     .index("by_status", ["status"])
     .index("by_stage", ["stage"]),
 
@@ -356,7 +415,7 @@ export default defineSchema({
     updatedAt: v.number(),
   })
     .index("by_organization", ["organizationId"])
-    .index("by_fixtureNumber", ["fixtureNumber"])
+    .index("by_organization_and_fixtureNumber", ["organizationId", "fixtureNumber"])
     .index("by_order", ["orderId"])
     .index("by_status", ["status"])
     .index("by_organization_and_status", ["organizationId", "status"]),
@@ -372,7 +431,9 @@ export default defineSchema({
     freightRate: v.optional(v.string()),
     demurrageRate: v.optional(v.string()),
     tce: v.optional(v.string()),
+    rates: v.optional(ratesValidator), // Parsed from the rate strings above
     validity: v.optional(v.string()), // "48h", "72h", etc
+    validUntil: v.optional(v.number()), // Deadline for firm offers/bids and subjects
     vesselId: v.optional(v.id("vessels")),
     status: v.union(
       v.literal("indicative-offer"),
@@ -433,8 +494,27 @@ export default defineSchema({
     .index("by_order", ["orderId"])
     .index("by_counterparty", ["counterpartyId"])
     .index("by_status", ["status"])
+    .index("by_status_and_valid_until", ["status", "validUntil"])
+    .index("by_status_and_updatedAt", ["status", "updatedAt"])
     .index("by_negotiationNumber", ["negotiationNumber"]),
 
+  // Negotiation Rounds - Each bid, offer and counter exchanged in a negotiation
+  negotiation_rounds: defineTable({
+    negotiationId: v.id("negotiations"),
+    roundNumber: v.number(), // 1, 2, 3... in order of exchange
+    side: v.union(v.literal("bid"), v.literal("offer")),
+    firm: v.boolean(), // Firm vs indicative
+    rate: v.optional(v.string()), // Bid or offer price put on the table
+    freightRate: v.optional(v.string()),
+    demurrageRate: v.optional(v.string()),
+    tce: v.optional(v.string()),
+    validity: v.optional(v.string()),
+    rates: v.optional(ratesValidator), // Parsed from the rate strings above
+    termsChanged: v.array(v.string()), // Terms that differ from the previous round
+    userId: v.optional(v.id("users")),
+    timestamp: v.number(),
+  }).index("by_negotiation", ["negotiationId", "roundNumber"]),
+
   // Contracts - Dry market charter parties
   contracts: defineTable({
     contractNumber: v.string(), // CP12345
@@ -468,11 +548,23 @@ export default defineSchema({
     despatchRate: v.optional(v.string()),
     addressCommission: v.optional(v.string()),
     brokerCommission: v.optional(v.string()),
+    rates: v.optional(ratesValidator), // Parsed from the rate strings above
     cargoTypeId: v.optional(v.id("cargo_types")),
     quantity: v.optional(v.number()),
     quantityUnit: v.optional(v.string()),
     fullCpChainStorageId: v.optional(v.id("_storage")),
     itineraryStorageId: v.optional(v.id("_storage")),
+    // Generated CP document (stored as fullCpChainStorageId)
+    cpDocumentForm: v.optional(v.union(v.literal("gencon"), v.literal("wet-recap"))),
+    cpDocumentGeneratedAt: v.optional(v.number()),
+    cpDocumentStale: v.optional(v.boolean()), // Terms changed since generation
+    cpDocumentHash: v.optional(v.string()), // SHA-256 of the document stamped with signature pages
+    // Agreed clauses from the clause library, in CP order
+    clauses: v.optional(v.array(v.object({
+      clauseId: v.id("clauses"),
+      version: v.number(),
+      addedAt: v.number(),
+    }))),
     status: v.union(
       v.literal("draft"),
       v.literal("working-copy"),
@@ -490,6 +582,11 @@ export default defineSchema({
     // CP URL
     cpUrl: v.optional(v.string()), // Link to the CP document
 
+    // Contract of affreightment terms and lifting position (see coa.ts)
+    coaTerms: v.optional(coaTermsValidator),
+    coaLiftingFlag: v.optional(liftingFlagValidator),
+    coaLiftingFlaggedAt: v.optional(v.number()),
+
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -498,7 +595,8 @@ export default defineSchema({
     .index("by_negotiation", ["negotiationId"])
     .index("by_order", ["orderId"])
     .index("by_parent", ["parentContractId"])
-    .index("by_status", ["status"]),
+    .index("by_status", ["status"])
+    .index("by_contract_type", ["contractType"]),
 
   // Recap Managers - Wet market contracts
   recap_managers: defineTable({
@@ -531,11 +629,22 @@ export default defineSchema({
     despatchRate: v.optional(v.string()),
     addressCommission: v.optional(v.string()),
     brokerCommission: v.optional(v.string()),
+    rates: v.optional(ratesValidator), // Parsed from the rate strings above
     cargoTypeId: v.optional(v.id("cargo_types")),
     quantity: v.optional(v.number()),
     quantityUnit: v.optional(v.string()),
     fullCpChainStorageId: v.optional(v.id("_storage")),
     itineraryStorageId: v.optional(v.id("_storage")),
+    // Generated CP document (stored as fullCpChainStorageId)
+    cpDocumentForm: v.optional(v.union(v.literal("gencon"), v.literal("wet-recap"))),
+    cpDocumentGeneratedAt: v.optional(v.number()),
+    cpDocumentStale: v.optional(v.boolean()), // Terms changed since generation
+    // Agreed clauses from the clause library, in CP order
+    clauses: v.optional(v.array(v.object({
+      clauseId: v.id("clauses"),
+      version: v.number(),
+      addedAt: v.number(),
+    }))),
     status: v.union(
       v.literal("draft"),
       v.literal("on-subs"),
@@ -545,6 +654,11 @@ export default defineSchema({
     ),
     approvalStatus: v.optional(v.string()),
     fixedAt: v.optional(v.number()),
+    // Contract of affreightment terms and lifting position (see coa.ts)
+    coaTerms: v.optional(coaTermsValidator),
+    coaLiftingFlag: v.optional(liftingFlagValidator),
+    coaLiftingFlaggedAt: v.optional(v.number()),
+
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -553,7 +667,8 @@ export default defineSchema({
     .index("by_negotiation", ["negotiationId"])
     .index("by_order", ["orderId"])
     .index("by_parent", ["parentRecapId"])
-    .index("by_status", ["status"]),
+    .index("by_status", ["status"])
+    .index("by_contract_type", ["contractType"]),
 
   // Contract Addenda - Modifications to contracts (dry market)
   contract_addenda: defineTable({
@@ -567,6 +682,15 @@ export default defineSchema({
     ),
     approvalStatus: v.optional(v.string()),
     documentStorageId: v.optional(v.id("_storage")),
+    // Clauses introduced or replaced by this addendum
+    clauses: v.optional(v.array(v.object({
+      clauseId: v.id("clauses"),
+      version: v.number(),
+      addedAt: v.number(),
+    }))),
+    // Term amendments, applied to the contract once final and fully signed
+    amendments: v.optional(v.array(amendmentValidator)),
+    amendmentsAppliedAt: v.optional(v.number()),
 
     // Workflow Dates (for timeline tooltips)
     workingCopyDate: v.optional(v.number()),
@@ -590,12 +714,92 @@ export default defineSchema({
     ),
     approvalStatus: v.optional(v.string()),
     documentStorageId: v.optional(v.id("_storage")),
+    // Clauses introduced or replaced by this addendum
+    clauses: v.optional(v.array(v.object({
+      clauseId: v.id("clauses"),
+      version: v.number(),
+      addedAt: v.number(),
+    }))),
+    // Term amendments, applied to the recap once final and fully signed
+    amendments: v.optional(v.array(amendmentValidator)),
+    amendmentsAppliedAt: v.optional(v.number()),
+
+    // Workflow Dates
+    workingCopyDate: v.optional(v.number()),
+    finalDate: v.optional(v.number()),
+
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_recap", ["recapManagerId"])
     .index("by_status", ["status"]),
 
+  // Clause Library - Standard rider clauses and organization custom clauses
+  clauses: defineTable({
+    organizationId: v.optional(v.id("organizations")), // Unset for standard clauses
+    title: v.string(),
+    category: v.union(
+      v.literal("general"),
+      v.literal("laytime"),
+      v.literal("payment"),
+      v.literal("cargo"),
+      v.literal("liabilities"),
+      v.literal("war-risks"),
+      v.literal("sanctions"),
+      v.literal("environmental"),
+      v.literal("law-arbitration")
+    ),
+    tags: v.array(v.string()),
+    text: v.string(), // Text of the current version
+    currentVersion: v.number(),
+    isArchived: v.optional(v.boolean()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_organization", ["organizationId"])
+    .index("by_category", ["category"]),
+
+  // Clause Versions - Every revision of a clause's text
+  clause_versions: defineTable({
+    clauseId: v.id("clauses"),
+    version: v.number(),
+    title: v.string(),
+    text: v.string(),
+    changeNote: v.optional(v.string()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+  }).index("by_clause_and_version", ["clauseId", "version"]),
+
+  // Contract Snapshots - Frozen terms and clause text of each contract/recap version
+  contract_snapshots: defineTable({
+    contractId: v.optional(v.id("contracts")),
+    recapManagerId: v.optional(v.id("recap_managers")),
+    version: v.number(),
+    trigger: v.union(
+      v.literal("created"),
+      v.literal("status"),
+      v.literal("addendum")
+    ),
+    status: v.string(),
+    addendaId: v.optional(v.string()), // contract_addenda or recap_addenda ID
+    addendaNumber: v.optional(v.string()),
+    terms: v.array(v.object({
+      field: v.string(),
+      value: v.string(), // Display value; linked records stored by name
+    })),
+    clauses: v.array(v.object({
+      clauseId: v.id("clauses"),
+      version: v.number(),
+      title: v.string(),
+      text: v.string(),
+    })),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+  })
+    .index("by_contract", ["contractId", "version"])
+    .index("by_recap", ["recapManagerId", "version"]),
+
   // Contract Approvals - Flexible party approval system for contracts
   contract_approvals: defineTable({
     contractId: v.id("contracts"),
@@ -609,6 +813,12 @@ export default defineSchema({
     ),
     approvedAt: v.optional(v.number()),
     notes: v.optional(v.string()),
+    onBehalfOf: v.optional(v.id("users")), // Delegator when approvedBy acted under a delegation
+    // Approval policy in force when the row was created (see approvalPolicies.ts).
+    // Steps are copied from the policy so later edits don't move the goalposts.
+    policyId: v.optional(v.id("approval_policies")),
+    sequencing: v.optional(approvalSequencingValidator),
+    steps: v.optional(v.array(approvalStepProgressValidator)),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -616,6 +826,39 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_company", ["companyId"]),
 
+  // Approval Policies - Org-level rules for who must approve which contracts
+  approval_policies: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(), // "Large voyage charters"
+    description: v.optional(v.string()),
+    priority: v.number(), // Lower runs first; the first matching policy applies
+    conditions: approvalConditionsValidator,
+    sequencing: approvalSequencingValidator,
+    steps: v.array(approvalStepValidator),
+    isActive: v.boolean(),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_organization", ["organizationId", "priority"]),
+
+  // Approval Delegations - A user's approval or signing authority lent to a
+  // colleague for a date range (out of office, travel)
+  approval_delegations: defineTable({
+    organizationId: v.id("organizations"),
+    delegatorId: v.id("users"), // Whose authority is delegated
+    delegateId: v.id("users"), // Who may act on their behalf
+    authority: v.array(delegatedAuthorityValidator),
+    startsAt: v.number(),
+    endsAt: v.number(),
+    reason: v.optional(v.string()), // "Travelling to Singapore"
+    revokedAt: v.optional(v.number()),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_organization", ["organizationId"])
+    .index("by_delegate", ["delegateId"])
+    .index("by_delegator", ["delegatorId"]),
+
   // Contract Signatures - Flexible party signature system for contracts
   contract_signatures: defineTable({
     contractId: v.id("contracts"),
@@ -629,7 +872,9 @@ export default defineSchema({
     ),
     signingMethod: v.optional(v.string()), // "DocuSign", "Manual", "Wet Ink", etc.
     signedAt: v.optional(v.number()),
+    onBehalfOf: v.optional(v.id("users")), // Delegator when signedBy acted under a delegation
     documentStorageId: v.optional(v.id("_storage")), // Signed document
+    documentHash: v.optional(v.string()), // SHA-256 of the signed document, for e-signatures
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -654,6 +899,7 @@ export default defineSchema({
     ),
     approvedAt: v.optional(v.number()),
     notes: v.optional(v.string()),
+    onBehalfOf: v.optional(v.id("users")), // Delegator when approvedBy acted under a delegation
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -678,7 +924,9 @@ export default defineSchema({
     ),
     signingMethod: v.optional(v.string()),
     signedAt: v.optional(v.number()),
+    onBehalfOf: v.optional(v.id("users")), // Delegator when signedBy acted under a delegation
     documentStorageId: v.optional(v.id("_storage")),
+    documentHash: v.optional(v.string()), // SHA-256 of the signed document, for e-signatures
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -686,6 +934,33 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_company", ["companyId"]),
 
+  // E-signature envelopes - A signature row sent out through an e-signature
+  // provider (see esignProviders.ts); status is updated by provider callbacks
+  esign_envelopes: defineTable({
+    signatureId: v.string(), // contract_signatures or addenda_signatures ID
+    signatureType: v.union(
+      v.literal("contract"),
+      v.literal("addenda")
+    ),
+    provider: esignProviderValidator,
+    providerEnvelopeId: v.string(),
+    status: envelopeStatusValidator,
+    signerName: v.string(),
+    signerEmail: v.string(),
+    documentStorageId: v.id("_storage"), // Document sent for signature
+    completedDocumentStorageId: v.optional(v.id("_storage")), // Downloaded once completed
+    downloadError: v.optional(v.string()), // Last failed download, cleared once it succeeds
+    events: v.array(v.object({
+      status: envelopeStatusValidator,
+      occurredAt: v.number(),
+    })),
+    sentBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_signature", ["signatureId"])
+    .index("by_provider_envelope", ["provider", "providerEnvelopeId"]),
+
   // Field Changes - Complete audit trail
   field_changes: defineTable({
     entityType: v.union(
@@ -701,6 +976,7 @@ export default defineSchema({
     oldValue: v.optional(v.string()),
     newValue: v.optional(v.string()),
     changeReason: v.optional(v.string()),
+    addendaId: v.optional(v.string()), // Addendum whose amendments made the change
     userId: v.id("users"),
     timestamp: v.number(),
   })
@@ -766,9 +1042,18 @@ export default defineSchema({
     laycanStart: v.optional(v.number()),
     laycanEnd: v.optional(v.number()),
     cargoQuantity: v.optional(v.number()),
-    status: v.optional(v.string()),
+    status: v.optional(v.string()), // scheduled, nominated, completed, cancelled
     completedAt: v.optional(v.number()),
+    // COA lifting schedule (see coa.ts)
+    windowStart: v.optional(v.number()), // Lifting window the laycan must fall within
+    windowEnd: v.optional(v.number()),
+    vesselNominationDeadline: v.optional(v.number()),
+    laycanNominationDeadline: v.optional(v.number()),
+    vesselNominatedAt: v.optional(v.number()),
+    laycanNominatedAt: v.optional(v.number()),
+    shippedQuantity: v.optional(v.number()), // Bill of lading quantity
     createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
   })
     .index("by_contract", ["parentContractId"])
     .index("by_recap", ["parentRecapId"]),
@@ -829,12 +1114,77 @@ export default defineSchema({
     })),
   }).index("by_vessel", ["vesselId"]),
 
+  // Fixture Rows - Flattened read model of the Fixtures table (see fixtureRows.ts)
+  // One row per fixture, negotiation and contract/recap; text fields are lowercased
+  fixture_rows: defineTable({
+    organizationId: v.id("organizations"),
+    fixtureId: v.id("fixtures"),
+    unit: fixtureRowUnitValidator, // Pagination unit the row belongs to
+    kind: fixtureRowKindValidator,
+    entityId: v.string(), // Fixture, negotiation, contract or recap ID
+    fixtureNumber: v.string(),
+    cpNumber: v.optional(v.string()),
+    negotiationNumber: v.optional(v.string()),
+    status: v.optional(v.string()),
+    contractType: v.optional(v.string()),
+    vesselName: v.optional(v.string()),
+    vesselImo: v.optional(v.string()),
+    ownerName: v.optional(v.string()),
+    chartererName: v.optional(v.string()),
+    brokerName: v.optional(v.string()),
+    loadPortName: v.optional(v.string()),
+    loadPortCountry: v.optional(v.string()),
+    dischargePortName: v.optional(v.string()),
+    dischargePortCountry: v.optional(v.string()),
+    cargoTypeName: v.optional(v.string()),
+    laycanStart: v.optional(v.number()),
+    laycanEnd: v.optional(v.number()),
+    quantity: v.optional(v.number()),
+    createdAt: v.number(), // Creation time of the row's entity
+    lastUpdated: v.number(),
+    searchText: v.string(), // The fixture's searchText
+  })
+    .index("by_fixture", ["fixtureId"])
+    .index("by_org_unit_lastUpdated", ["organizationId", "unit", "lastUpdated"])
+    .index("by_org_unit_fixtureNumber", ["organizationId", "unit", "fixtureNumber"])
+    .index("by_org_unit_cpNumber", ["organizationId", "unit", "cpNumber"])
+    .index("by_org_unit_negotiationNumber", ["organizationId", "unit", "negotiationNumber"])
+    .index("by_org_unit_status", ["organizationId", "unit", "status"])
+    .index("by_org_unit_vesselName", ["organizationId", "unit", "vesselName"])
+    .index("by_org_unit_ownerName", ["organizationId", "unit", "ownerName"])
+    .index("by_org_unit_chartererName", ["organizationId", "unit", "chartererName"])
+    .index("by_org_unit_brokerName", ["organizationId", "unit", "brokerName"])
+    .index("by_org_unit_loadPortName", ["organizationId", "unit", "loadPortName"])
+    .index("by_org_unit_dischargePortName", ["organizationId", "unit", "dischargePortName"])
+    .index("by_org_unit_cargoTypeName", ["organizationId", "unit", "cargoTypeName"])
+    .index("by_org_unit_laycanStart", ["organizationId", "unit", "laycanStart"])
+    .index("by_org_unit_quantity", ["organizationId", "unit", "quantity"])
+    .index("by_org_unit_createdAt", ["organizationId", "unit", "createdAt"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["organizationId", "unit"],
+    }),
+
+  // Row counts per organization and pagination unit, kept by syncFixtureRows
+  fixture_row_counts: defineTable({
+    organizationId: v.id("organizations"),
+    unit: fixtureRowUnitValidator,
+    count: v.number(),
+  }).index("by_org_unit", ["organizationId", "unit"]),
+
   // User Bookmarks - Persistent user bookmarks for Fixtures table
   user_bookmarks: defineTable({
     userId: v.id("users"),
     name: v.string(),
     isDefault: v.boolean(),
     count: v.optional(v.number()),
+    // Page the view belongs to; unset for Fixtures bookmarks
+    page: v.optional(bookmarkPageValidator),
+    // Sharing: private (default), shared with specific users, or org-wide.
+    // Shared bookmarks belong to the organization they were shared in.
+    visibility: v.optional(bookmarkVisibilityValidator),
+    organizationId: v.optional(v.id("organizations")),
+    sharedWithUserIds: v.optional(v.array(v.id("users"))),
 
     // Filters State - nested object
     filtersState: v.optional(v.object({
@@ -856,8 +1206,75 @@ export default defineSchema({
     updatedAt: v.number(),
   })
     .index("by_userId", ["userId"])
+    .index("by_organization_visibility", ["organizationId", "visibility"])
     .index("by_user_and_default", ["userId", "isDefault"]),
 
+  // Saved-view alerts: a user following a Fixtures bookmark in an organization
+  bookmark_alerts: defineTable({
+    bookmarkId: v.id("user_bookmarks"),
+    userId: v.id("users"),
+    organizationId: v.id("organizations"),
+    emailEnabled: v.boolean(),
+    // Fixtures that matched at the last evaluation; unset until the first one
+    matchedFixtureIds: v.optional(v.array(v.id("fixtures"))),
+    lastEvaluatedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_bookmark", ["bookmarkId"])
+    .index("by_user", ["userId"])
+    .index("by_user_bookmark", ["userId", "bookmarkId"]),
+
+  // Recurring exports of a Fixtures bookmark, emailed to a distribution list
+  scheduled_exports: defineTable({
+    bookmarkId: v.id("user_bookmarks"),
+    userId: v.id("users"), // Who scheduled it
+    organizationId: v.id("organizations"),
+    format: exportFormatValidator,
+    columns: v.array(exportColumnValidator), // In export order
+    statusFormat: statusFormatValidator,
+    frequency: exportFrequencyValidator,
+    hourUTC: v.number(),
+    dayOfWeek: v.optional(v.number()), // Weekly: 0 = Sunday
+    dayOfMonth: v.optional(v.number()), // Monthly: 1–28
+    recipients: v.array(v.string()),
+    isActive: v.boolean(),
+    nextRunAt: v.number(),
+    lastRunAt: v.optional(v.number()),
+    lastRunStatus: v.optional(exportRunStatusValidator),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_bookmark", ["bookmarkId"])
+    .index("by_active_next_run", ["isActive", "nextRunAt"]),
+
+  // Files produced by scheduled exports (the latest few per schedule)
+  scheduled_export_runs: defineTable({
+    scheduledExportId: v.id("scheduled_exports"),
+    status: exportRunStatusValidator,
+    fileName: v.optional(v.string()),
+    storageId: v.optional(v.id("_storage")),
+    rowCount: v.optional(v.number()),
+    fixtureLimit: v.optional(v.number()), // Set when the bookmark matched more fixtures than were exported
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_export_created", ["scheduledExportId", "createdAt"]),
+
+  // In-app notifications
+  notifications: defineTable({
+    userId: v.id("users"),
+    organizationId: v.optional(v.id("organizations")),
+    type: notificationTypeValidator,
+    title: v.string(),
+    body: v.string(),
+    link: v.optional(v.string()), // App path to open
+    bookmarkId: v.optional(v.id("user_bookmarks")),
+    fixtureIds: v.optional(v.array(v.id("fixtures"))),
+    readAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_user_created", ["userId", "createdAt"])
+    .index("by_user_read", ["userId", "readAt"]),
+
   // News articles — used for both the home Breaking News section and the full Intelligence Feed
   news: defineTable({
     title: v.string(),
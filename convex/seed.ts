@@ -4,8 +4,10 @@ import { seedPortsInternal } from "./ports";
 import { seedVesselsInternal } from "./vessels";
 import { seedCargoTypesInternal } from "./cargo_types";
 import { seedRoutesInternal } from "./routes";
+import { seedStandardClausesInternal } from "./clauses";
 import { migrateTradeDeskDataInternal, migrateFixturesDataInternal, attachActivityLogsToFixtures } from "./migrations";
 import { calculateFixtureLastUpdated, buildFixtureSearchText } from "./fixtures";
+import { syncFixtureRows } from "./fixtureRows";
 
 // Master seed function to populate all reference data
 export const seedAll = mutation({
@@ -34,6 +36,10 @@ export const seedAll = mutation({
       const routesResult = await seedRoutesInternal(ctx);
       results.push(routesResult);
 
+      // 5b. Seed standard rider clauses for the clause library
+      const clausesResult = await seedStandardClausesInternal(ctx);
+      results.push(clausesResult);
+
       // Get user and organization for fixture migration
       const user = await ctx.db.query("users").first();
       if (!user) {
@@ -65,12 +71,13 @@ export const seedAll = mutation({
         message: "Activity logs attached to all fixtures"
       });
 
-      // 9. Backfill denormalized fields (lastUpdated + searchText)
+      // 9. Backfill denormalized fields (lastUpdated + searchText + fixture_rows)
       const allFixtures = await ctx.db.query("fixtures").collect();
       for (const fixture of allFixtures) {
         const lastUpdated = await calculateFixtureLastUpdated(ctx, fixture._id);
         const searchText = await buildFixtureSearchText(ctx, fixture._id);
         await ctx.db.patch(fixture._id, { lastUpdated, searchText });
+        await syncFixtureRows(ctx, fixture._id);
       }
       results.push({
         message: `Backfilled lastUpdated + searchText for ${allFixtures.length} fixtures`
@@ -1,5 +1,54 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { applyAmendmentsIfComplete } from "./addenda";
+import { requireAddendaAccess, requireContractAccess } from "./authorization";
+import { logActivity } from "./audit";
+import { logAuthorityActivity, resolveActingAuthority } from "./delegations";
+
+// Signing method recorded by the in-app signing ceremony (esign.signContract)
+export const E_SIGNATURE_METHOD = "E-signature";
+
+// Signatures made outside the app and recorded by hand. Electronic signatures
+// are only recorded by the signing ceremony and e-signature providers.
+export const offlineSigningMethodValidator = v.union(
+  v.literal("Wet Ink"),
+  v.literal("Manual")
+);
+
+/**
+ * Set fullySignedDate on a contract once every party's signature row is signed
+ */
+export async function markFullySignedIfComplete(ctx: MutationCtx, contractId: Id<"contracts">) {
+  const contract = await ctx.db.get(contractId);
+  if (!contract || contract.fullySignedDate) return;
+
+  const signatures = await ctx.db
+    .query("contract_signatures")
+    .withIndex("by_contract", (q) => q.eq("contractId", contractId))
+    .collect();
+  if (signatures.length === 0 || signatures.some((s) => s.status !== "signed")) return;
+
+  const now = Date.now();
+  await ctx.db.patch(contractId, { fullySignedDate: now, updatedAt: now });
+
+  await logActivity(
+    ctx,
+    "contract",
+    contractId,
+    "fully-signed",
+    "Contract fully signed by all parties",
+    { value: "contract-fully-signed", label: "Contract fully signed" }
+  );
+}
+
+// Addenda signature queries only receive the addendum ID, so tell contract
+// addenda from recap addenda by the table the ID belongs to
+async function requireAddendaReadAccess(ctx: QueryCtx, addendaId: string) {
+  const addendaType = ctx.db.normalizeId("contract_addenda", addendaId) ? "contract" : "recap";
+  return await requireAddendaAccess(ctx, addendaId, addendaType);
+}
 
 // ========================================
 // CONTRACT SIGNATURES
@@ -15,6 +64,17 @@ export const createContractSignature = mutation({
     companyId: v.id("companies"),
   },
   handler: async (ctx, args) => {
+    await requireContractAccess(ctx, args.contractId, "edit-contracts");
+
+    // A party signs once; an extra pending row would hold back fullySignedDate
+    const existing = await ctx.db
+      .query("contract_signatures")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .collect();
+    if (existing.some((s) => s.partyRole === args.partyRole && s.companyId === args.companyId)) {
+      throw new Error("This party already has a signature on the contract");
+    }
+
     const now = Date.now();
 
     const signatureId = await ctx.db.insert("contract_signatures", {
@@ -31,31 +91,170 @@ export const createContractSignature = mutation({
 });
 
 /**
- * Sign a contract
+ * Record a contract signature made offline
  */
 export const signContract = mutation({
   args: {
     signatureId: v.id("contract_signatures"),
     userId: v.id("users"),
-    signingMethod: v.optional(v.string()), // "DocuSign", "Manual", "Wet Ink", etc.
+    signingMethod: offlineSigningMethodValidator,
     documentStorageId: v.optional(v.id("_storage")),
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
   },
   handler: async (ctx, args) => {
+    const signature = await ctx.db.get(args.signatureId);
+    if (!signature) {
+      throw new Error("Signature not found");
+    }
+
+    const access = await requireContractAccess(ctx, signature.contractId);
+    if (access.user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "sign", args.onBehalfOf);
+
     const now = Date.now();
 
     await ctx.db.patch(args.signatureId, {
       status: "signed",
       signedBy: args.userId,
       signedAt: now,
+      onBehalfOf: authority.delegationId ? authority.principal._id : undefined,
       signingMethod: args.signingMethod,
       documentStorageId: args.documentStorageId,
       updatedAt: now,
     });
 
+    await logAuthorityActivity(
+      ctx,
+      { type: "contract", id: signature.contractId },
+      "signed",
+      `Signed the contract for the ${signature.partyRole} via ${args.signingMethod}`,
+      authority,
+      { signatureId: args.signatureId }
+    );
+
+    await markFullySignedIfComplete(ctx, signature.contractId);
+
     return await ctx.db.get(args.signatureId);
   },
 });
 
+/**
+ * The CP document a pending signature would be made against, for the
+ * signing ceremony to hash before recording the signature
+ */
+export const getSigningDocument = internalQuery({
+  args: {
+    signatureId: v.id("contract_signatures"),
+  },
+  handler: async (ctx, args) => {
+    const signature = await ctx.db.get(args.signatureId);
+    if (!signature) {
+      throw new Error("Signature not found");
+    }
+    if (signature.status !== "pending") {
+      throw new Error("This signature has already been recorded");
+    }
+
+    const { contract } = await requireContractAccess(ctx, signature.contractId);
+    if (!contract.fullCpChainStorageId) {
+      throw new Error("Generate the charter party before signing");
+    }
+    if (contract.cpDocumentStale) {
+      throw new Error("The charter party is out of date with the terms. Regenerate it before signing.");
+    }
+
+    return { contractId: contract._id, storageId: contract.fullCpChainStorageId };
+  },
+});
+
+/**
+ * Record an electronic signature against a hashed document version.
+ * Called by esign.signContract once the signer has re-authenticated.
+ */
+export const recordElectronicSignature = internalMutation({
+  args: {
+    signatureId: v.id("contract_signatures"),
+    documentStorageId: v.id("_storage"),
+    documentHash: v.string(),
+    onBehalfOf: v.optional(v.id("users")),
+  },
+  handler: async (ctx, args) => {
+    const signature = await ctx.db.get(args.signatureId);
+    if (!signature) {
+      throw new Error("Signature not found");
+    }
+    if (signature.status !== "pending") {
+      throw new Error("This signature has already been recorded");
+    }
+
+    const access = await requireContractAccess(ctx, signature.contractId);
+    // The document may have been regenerated while it was being hashed
+    if (access.contract.fullCpChainStorageId !== args.documentStorageId) {
+      throw new Error("The charter party changed while signing. Review the new version and sign again.");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "sign", args.onBehalfOf);
+
+    const now = Date.now();
+
+    await ctx.db.patch(args.signatureId, {
+      status: "signed",
+      signedBy: access.user._id,
+      signedAt: now,
+      onBehalfOf: authority.delegationId ? authority.principal._id : undefined,
+      signingMethod: E_SIGNATURE_METHOD,
+      documentStorageId: args.documentStorageId,
+      documentHash: args.documentHash,
+      updatedAt: now,
+    });
+
+    await logAuthorityActivity(
+      ctx,
+      { type: "contract", id: signature.contractId },
+      "signed",
+      `Signed the contract electronically for the ${signature.partyRole}`,
+      authority,
+      { signatureId: args.signatureId, documentHash: args.documentHash }
+    );
+
+    await markFullySignedIfComplete(ctx, signature.contractId);
+
+    return await ctx.db.get(args.signatureId);
+  },
+});
+
+/**
+ * Signed documents and the hashes recorded against them, for verification
+ */
+export const getSignedDocuments = internalQuery({
+  args: {
+    contractId: v.id("contracts"),
+  },
+  handler: async (ctx, args) => {
+    const { contract } = await requireContractAccess(ctx, args.contractId);
+
+    const signatures = await ctx.db
+      .query("contract_signatures")
+      .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
+      .collect();
+
+    return {
+      current: contract.fullCpChainStorageId
+        ? { storageId: contract.fullCpChainStorageId, hash: contract.cpDocumentHash }
+        : null,
+      signatures: signatures
+        .filter((s) => s.documentHash && s.documentStorageId)
+        .map((s) => ({
+          signatureId: s._id,
+          partyRole: s.partyRole,
+          storageId: s.documentStorageId!,
+          hash: s.documentHash!,
+        })),
+    };
+  },
+});
+
 /**
  * Reject a contract signature request
  */
@@ -63,17 +262,39 @@ export const rejectContractSignature = mutation({
   args: {
     signatureId: v.id("contract_signatures"),
     userId: v.id("users"),
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
   },
   handler: async (ctx, args) => {
+    const signature = await ctx.db.get(args.signatureId);
+    if (!signature) {
+      throw new Error("Signature not found");
+    }
+
+    const access = await requireContractAccess(ctx, signature.contractId);
+    if (access.user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "sign", args.onBehalfOf);
+
     const now = Date.now();
 
     await ctx.db.patch(args.signatureId, {
       status: "rejected",
       signedBy: args.userId,
       signedAt: now,
+      onBehalfOf: authority.delegationId ? authority.principal._id : undefined,
       updatedAt: now,
     });
 
+    await logAuthorityActivity(
+      ctx,
+      { type: "contract", id: signature.contractId },
+      "signature-rejected",
+      `Declined to sign the contract for the ${signature.partyRole}`,
+      authority,
+      { signatureId: args.signatureId }
+    );
+
     return await ctx.db.get(args.signatureId);
   },
 });
@@ -86,6 +307,8 @@ export const getContractSignatures = query({
     contractId: v.id("contracts"),
   },
   handler: async (ctx, args) => {
+    await requireContractAccess(ctx, args.contractId);
+
     const signatures = await ctx.db
       .query("contract_signatures")
       .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
@@ -120,6 +343,8 @@ export const getContractSignatures = query({
           company,
           companyAvatarUrl,
           user,
+
+          onBehalfOfUser: signature.onBehalfOf ? await ctx.db.get(signature.onBehalfOf) : null,
           userAvatarUrl,
           documentUrl,
         };
@@ -145,6 +370,17 @@ export const createAddendaSignature = mutation({
     companyId: v.id("companies"),
   },
   handler: async (ctx, args) => {
+    await requireAddendaAccess(ctx, args.addendaId, args.addendaType, "edit-contracts");
+
+    // A party signs once; an extra pending row would hold back the amendments
+    const existing = await ctx.db
+      .query("addenda_signatures")
+      .withIndex("by_addenda", (q) => q.eq("addendaId", args.addendaId))
+      .collect();
+    if (existing.some((s) => s.partyRole === args.partyRole && s.companyId === args.companyId)) {
+      throw new Error("This party already has a signature on the addendum");
+    }
+
     const now = Date.now();
 
     const signatureId = await ctx.db.insert("addenda_signatures", {
@@ -170,19 +406,47 @@ export const signAddenda = mutation({
     userId: v.id("users"),
     signingMethod: v.optional(v.string()),
     documentStorageId: v.optional(v.id("_storage")),
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
   },
   handler: async (ctx, args) => {
+    const signature = await ctx.db.get(args.signatureId);
+    if (!signature) {
+      throw new Error("Signature not found");
+    }
+
+    const access = await requireAddendaAccess(
+      ctx,
+      signature.addendaId,
+      signature.addendaType
+    );
+    if (access.user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "sign", args.onBehalfOf);
+
     const now = Date.now();
 
     await ctx.db.patch(args.signatureId, {
       status: "signed",
       signedBy: args.userId,
       signedAt: now,
+      onBehalfOf: authority.delegationId ? authority.principal._id : undefined,
       signingMethod: args.signingMethod,
       documentStorageId: args.documentStorageId,
       updatedAt: now,
     });
 
+    await logAuthorityActivity(
+      ctx,
+      access.parent,
+      "signed",
+      `Signed addendum ${access.addendaNumber} for the ${signature.partyRole}${args.signingMethod ? ` via ${args.signingMethod}` : ""}`,
+      authority,
+      { signatureId: args.signatureId, addendaId: signature.addendaId }
+    );
+
+    await applyAmendmentsIfComplete(ctx, signature.addendaId, signature.addendaType, args.userId);
+
     return await ctx.db.get(args.signatureId);
   },
 });
@@ -194,17 +458,43 @@ export const rejectAddendaSignature = mutation({
   args: {
     signatureId: v.id("addenda_signatures"),
     userId: v.id("users"),
+    onBehalfOf: v.optional(v.id("users")), // Delegator, when acting under a delegation
   },
   handler: async (ctx, args) => {
+    const signature = await ctx.db.get(args.signatureId);
+    if (!signature) {
+      throw new Error("Signature not found");
+    }
+
+    const access = await requireAddendaAccess(
+      ctx,
+      signature.addendaId,
+      signature.addendaType
+    );
+    if (access.user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+    const authority = await resolveActingAuthority(ctx, access, "sign", args.onBehalfOf);
+
     const now = Date.now();
 
     await ctx.db.patch(args.signatureId, {
       status: "rejected",
       signedBy: args.userId,
       signedAt: now,
+      onBehalfOf: authority.delegationId ? authority.principal._id : undefined,
       updatedAt: now,
     });
 
+    await logAuthorityActivity(
+      ctx,
+      access.parent,
+      "signature-rejected",
+      `Declined to sign addendum ${access.addendaNumber} for the ${signature.partyRole}`,
+      authority,
+      { signatureId: args.signatureId, addendaId: signature.addendaId }
+    );
+
     return await ctx.db.get(args.signatureId);
   },
 });
@@ -217,6 +507,8 @@ export const getAddendaSignatures = query({
     addendaId: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireAddendaReadAccess(ctx, args.addendaId);
+
     const signatures = await ctx.db
       .query("addenda_signatures")
       .withIndex("by_addenda", (q) => q.eq("addendaId", args.addendaId))
@@ -251,6 +543,8 @@ export const getAddendaSignatures = query({
           company,
           companyAvatarUrl,
           user,
+
+          onBehalfOfUser: signature.onBehalfOf ? await ctx.db.get(signature.onBehalfOf) : null,
           userAvatarUrl,
           documentUrl,
         };
@@ -270,6 +564,8 @@ export const getContractSignatureSummary = query({
     contractId: v.id("contracts"),
   },
   handler: async (ctx, args) => {
+    await requireContractAccess(ctx, args.contractId);
+
     const signatures = await ctx.db
       .query("contract_signatures")
       .withIndex("by_contract", (q) => q.eq("contractId", args.contractId))
@@ -294,6 +590,8 @@ export const getAddendaSignatureSummary = query({
     addendaId: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireAddendaReadAccess(ctx, args.addendaId);
+
     const signatures = await ctx.db
       .query("addenda_signatures")
       .withIndex("by_addenda", (q) => q.eq("addendaId", args.addendaId))
@@ -1,26 +1,109 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import {
+  requireBookmarkAccess,
+  requireCurrentUser,
+  requireOrgMember,
+  requireSelfInOrg,
+} from "./authorization";
+
+// Pages with saved views. Bookmarks without a page belong to Fixtures.
+export const bookmarkPageValidator = v.union(
+  v.literal("fixtures"),
+  v.literal("contracts")
+);
+
+// Who besides the owner can see a bookmark. Only the owner can edit it;
+// everyone else can duplicate it to their own bookmarks.
+export const bookmarkVisibilityValidator = v.union(
+  v.literal("private"),
+  v.literal("shared"), // Specific users (sharedWithUserIds)
+  v.literal("organization")
+);
+
+function toClientBookmark(bookmark: Doc<"user_bookmarks">) {
+  return {
+    id: bookmark._id,
+    name: bookmark.name,
+    type: "user" as const,
+    isDefault: bookmark.isDefault,
+    createdAt: bookmark.createdAt,
+    updatedAt: bookmark.updatedAt,
+    count: bookmark.count,
+    filtersState: bookmark.filtersState,
+    tableState: bookmark.tableState,
+    visibility: bookmark.visibility ?? "private",
+    sharedWithUserIds: bookmark.sharedWithUserIds ?? [],
+  };
+}
 
 export const getUserBookmarks = query({
-  args: { userId: v.id("users") },
+  args: {
+    userId: v.id("users"),
+    page: v.optional(bookmarkPageValidator),
+  },
   handler: async (ctx, args) => {
+    const user = await requireCurrentUser(ctx);
+    if (user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+
+    const page = args.page ?? "fixtures";
     const bookmarks = await ctx.db
       .query("user_bookmarks")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
       .order("asc")
       .collect();
 
-    return bookmarks.map((bookmark) => ({
-      id: bookmark._id,
-      name: bookmark.name,
-      type: "user" as const,
-      isDefault: bookmark.isDefault,
-      createdAt: bookmark.createdAt,
-      updatedAt: bookmark.updatedAt,
-      count: bookmark.count,
-      filtersState: bookmark.filtersState,
-      tableState: bookmark.tableState,
-    }));
+    return bookmarks
+      .filter((bookmark) => (bookmark.page ?? "fixtures") === page)
+      .map(toClientBookmark);
+  },
+});
+
+// Bookmarks teammates shared with the user in an organization, org-wide or directly
+export const getSharedBookmarks = query({
+  args: {
+    userId: v.id("users"),
+    organizationId: v.id("organizations"),
+    page: v.optional(bookmarkPageValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireSelfInOrg(ctx, args.userId, args.organizationId);
+    const page = args.page ?? "fixtures";
+
+    const [orgWide, direct] = await Promise.all(
+      (["organization", "shared"] as const).map((visibility) =>
+        ctx.db
+          .query("user_bookmarks")
+          .withIndex("by_organization_visibility", (q) =>
+            q.eq("organizationId", args.organizationId).eq("visibility", visibility)
+          )
+          .collect()
+      )
+    );
+
+    const bookmarks = [
+      ...orgWide,
+      ...direct.filter((b) => b.sharedWithUserIds?.includes(args.userId)),
+    ].filter(
+      (bookmark) =>
+        bookmark.userId !== args.userId && (bookmark.page ?? "fixtures") === page
+    );
+
+    return await Promise.all(
+      bookmarks
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(async (bookmark) => {
+          const owner = await ctx.db.get(bookmark.userId);
+          return {
+            ...toClientBookmark(bookmark),
+            isDefault: false,
+            ownerName: owner?.name ?? "Unknown",
+          };
+        })
+    );
   },
 });
 
@@ -31,13 +114,20 @@ export const createBookmark = mutation({
     filtersState: v.optional(v.any()),
     tableState: v.optional(v.any()),
     count: v.optional(v.number()),
+    page: v.optional(bookmarkPageValidator),
   },
   handler: async (ctx, args) => {
+    const user = await requireCurrentUser(ctx);
+    if (user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+
     const now = Date.now();
     const bookmarkId = await ctx.db.insert("user_bookmarks", {
       userId: args.userId,
       name: args.name,
       isDefault: false,
+      page: args.page === "fixtures" ? undefined : args.page,
       filtersState: args.filtersState,
       tableState: args.tableState,
       count: args.count,
@@ -48,17 +138,7 @@ export const createBookmark = mutation({
     const bookmark = await ctx.db.get(bookmarkId);
     if (!bookmark) throw new Error("Failed to create bookmark");
 
-    return {
-      id: bookmark._id,
-      name: bookmark.name,
-      type: "user" as const,
-      isDefault: bookmark.isDefault,
-      createdAt: bookmark.createdAt,
-      updatedAt: bookmark.updatedAt,
-      count: bookmark.count,
-      filtersState: bookmark.filtersState,
-      tableState: bookmark.tableState,
-    };
+    return toClientBookmark(bookmark);
   },
 });
 
@@ -72,8 +152,7 @@ export const updateBookmark = mutation({
   },
   handler: async (ctx, args) => {
     const { bookmarkId, ...updates } = args;
-    const existing = await ctx.db.get(bookmarkId);
-    if (!existing) throw new Error("Bookmark not found");
+    await requireBookmarkAccess(ctx, bookmarkId, "write");
 
     const updateData: any = { updatedAt: Date.now() };
     if (updates.name !== undefined) updateData.name = updates.name;
@@ -86,17 +165,7 @@ export const updateBookmark = mutation({
     const updated = await ctx.db.get(bookmarkId);
     if (!updated) throw new Error("Failed to update bookmark");
 
-    return {
-      id: updated._id,
-      name: updated.name,
-      type: "user" as const,
-      isDefault: updated.isDefault,
-      createdAt: updated.createdAt,
-      updatedAt: updated.updatedAt,
-      count: updated.count,
-      filtersState: updated.filtersState,
-      tableState: updated.tableState,
-    };
+    return toClientBookmark(updated);
   },
 });
 
@@ -106,8 +175,7 @@ export const renameBookmark = mutation({
     newName: v.string(),
   },
   handler: async (ctx, args) => {
-    const existing = await ctx.db.get(args.bookmarkId);
-    if (!existing) throw new Error("Bookmark not found");
+    await requireBookmarkAccess(ctx, args.bookmarkId, "write");
 
     await ctx.db.patch(args.bookmarkId, {
       name: args.newName,
@@ -119,32 +187,142 @@ export const renameBookmark = mutation({
 export const deleteBookmark = mutation({
   args: { bookmarkId: v.id("user_bookmarks") },
   handler: async (ctx, args) => {
-    const bookmark = await ctx.db.get(args.bookmarkId);
-    if (!bookmark) throw new Error("Bookmark not found");
+    await requireBookmarkAccess(ctx, args.bookmarkId, "write");
+
+    // Remove everyone's alerts on the bookmark
+    const alerts = await ctx.db
+      .query("bookmark_alerts")
+      .withIndex("by_bookmark", (q) => q.eq("bookmarkId", args.bookmarkId))
+      .collect();
+    for (const alert of alerts) {
+      await ctx.db.delete(alert._id);
+    }
+
+    // ...and the owner's scheduled exports of it, with their files
+    const schedules = await ctx.db
+      .query("scheduled_exports")
+      .withIndex("by_bookmark", (q) => q.eq("bookmarkId", args.bookmarkId))
+      .collect();
+    for (const schedule of schedules) {
+      const runs = await ctx.db
+        .query("scheduled_export_runs")
+        .withIndex("by_export_created", (q) => q.eq("scheduledExportId", schedule._id))
+        .collect();
+      for (const run of runs) {
+        if (run.storageId) await ctx.storage.delete(run.storageId);
+        await ctx.db.delete(run._id);
+      }
+      await ctx.db.delete(schedule._id);
+    }
+
     await ctx.db.delete(args.bookmarkId);
   },
 });
 
+// Change who can see a bookmark (owner only)
+export const shareBookmark = mutation({
+  args: {
+    bookmarkId: v.id("user_bookmarks"),
+    visibility: bookmarkVisibilityValidator,
+    organizationId: v.id("organizations"),
+    sharedWithUserIds: v.optional(v.array(v.id("users"))),
+  },
+  handler: async (ctx, args) => {
+    await requireBookmarkAccess(ctx, args.bookmarkId, "write");
+    const { user } = await requireOrgMember(ctx, args.organizationId);
+
+    if (args.visibility === "private") {
+      await ctx.db.patch(args.bookmarkId, {
+        visibility: undefined,
+        organizationId: undefined,
+        sharedWithUserIds: undefined,
+        updatedAt: Date.now(),
+      });
+      return;
+    }
+
+    let sharedWithUserIds: Doc<"user_bookmarks">["sharedWithUserIds"];
+    if (args.visibility === "shared") {
+      sharedWithUserIds = [...new Set(args.sharedWithUserIds ?? [])].filter(
+        (id) => id !== user._id
+      );
+      if (sharedWithUserIds.length === 0) {
+        throw new Error("Choose at least one person to share with");
+      }
+      for (const userId of sharedWithUserIds) {
+        const membership = await ctx.db
+          .query("memberships")
+          .withIndex("by_userId", (q) => q.eq("userId", userId))
+          .filter((q) => q.eq(q.field("organizationId"), args.organizationId))
+          .first();
+        if (!membership) {
+          throw new Error("Bookmarks can only be shared with members of the organization");
+        }
+      }
+    }
+
+    await ctx.db.patch(args.bookmarkId, {
+      visibility: args.visibility,
+      organizationId: args.organizationId,
+      sharedWithUserIds,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Copy a bookmark shared with the caller into their own (private) bookmarks
+export const duplicateBookmark = mutation({
+  args: {
+    bookmarkId: v.id("user_bookmarks"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const { user, bookmark: source } = await requireBookmarkAccess(ctx, args.bookmarkId, "read");
+    if (user._id !== args.userId) {
+      throw new Error("Access denied");
+    }
+
+    const now = Date.now();
+    const bookmarkId = await ctx.db.insert("user_bookmarks", {
+      userId: args.userId,
+      name: `${source.name} (copy)`,
+      isDefault: false,
+      page: source.page,
+      filtersState: source.filtersState,
+      tableState: source.tableState,
+      count: source.count,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const bookmark = await ctx.db.get(bookmarkId);
+    if (!bookmark) throw new Error("Failed to duplicate bookmark");
+
+    return toClientBookmark(bookmark);
+  },
+});
+
 export const setDefaultBookmark = mutation({
   args: {
     userId: v.id("users"),
     bookmarkId: v.id("user_bookmarks"),
   },
   handler: async (ctx, args) => {
-    // Verify bookmark exists and belongs to user
+    // Verify the caller owns the bookmark
+    const user = await requireCurrentUser(ctx);
     const bookmark = await ctx.db.get(args.bookmarkId);
-    if (!bookmark || bookmark.userId !== args.userId) {
+    if (!bookmark || bookmark.userId !== args.userId || user._id !== args.userId) {
       throw new Error("Bookmark not found or access denied");
     }
 
-    // Unset all defaults for this user
+    // Unset all defaults for this user on the same page
     const allUserBookmarks = await ctx.db
       .query("user_bookmarks")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
       .collect();
 
     for (const b of allUserBookmarks) {
-      if (b.isDefault) {
+      if (b.isDefault && b.page === bookmark.page) {
         await ctx.db.patch(b._id, {
           isDefault: false,
           updatedAt: Date.now(),
@@ -1,10 +1,13 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { requireBoardAccess, requireWidgetAccess } from "./authorization";
 
 // Query to get all widgets for a specific board
 export const getWidgetsByBoard = query({
   args: { boardId: v.id("boards") },
   handler: async (ctx, args) => {
+    await requireBoardAccess(ctx, args.boardId, "read");
+
     const widgets = await ctx.db
       .query("widgets")
       .filter((q) => q.eq(q.field("boardId"), args.boardId))
@@ -19,6 +22,8 @@ export const getWidgetsByBoard = query({
 export const getBoardLayouts = query({
   args: { boardId: v.id("boards") },
   handler: async (ctx, args) => {
+    await requireBoardAccess(ctx, args.boardId, "read");
+
     const layouts = await ctx.db
       .query("board_layouts")
       .filter((q) => q.eq(q.field("boardId"), args.boardId))
@@ -43,6 +48,8 @@ export const createWidget = mutation({
     config: v.any(),
   },
   handler: async (ctx, args) => {
+    await requireBoardAccess(ctx, args.boardId, "write");
+
     const now = Date.now();
 
     const widgetId = await ctx.db.insert("widgets", {
@@ -66,6 +73,8 @@ export const updateWidget = mutation({
     config: v.optional(v.any()),
   },
   handler: async (ctx, args) => {
+    await requireWidgetAccess(ctx, args.widgetId, "write");
+
     const updates: Partial<{
       title: string;
       config: any;
@@ -86,10 +95,7 @@ export const deleteWidget = mutation({
   args: { widgetId: v.id("widgets") },
   handler: async (ctx, args) => {
     // Get the widget to find its board
-    const widget = await ctx.db.get(args.widgetId);
-    if (!widget) {
-      throw new Error("Widget not found");
-    }
+    const { widget } = await requireWidgetAccess(ctx, args.widgetId, "write");
 
     // Remove widget from all layout configurations
     const layouts = await ctx.db
@@ -125,6 +131,8 @@ export const updateBoardLayout = mutation({
     })),
   },
   handler: async (ctx, args) => {
+    await requireBoardAccess(ctx, args.boardId, "write");
+
     // Check if layout already exists for this board and breakpoint
     const existingLayout = await ctx.db
       .query("board_layouts")
@@ -185,6 +193,8 @@ export const batchUpdateLayouts = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    await requireBoardAccess(ctx, args.boardId, "write");
+
     const now = Date.now();
 
     // Process each breakpoint layout
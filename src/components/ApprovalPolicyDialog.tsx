@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  Toggle,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  APPROVAL_SEQUENCING_LABELS,
+  POLICY_CONTRACT_TYPE_LABELS,
+  type ApprovalPolicy,
+  type ApprovalPolicyStep,
+  type PolicyContractType,
+} from "../types/approvalPolicy";
+
+interface ApprovalPolicyDialogProps {
+  organizationId: Id<"organizations">;
+  members: Array<{ userId: Id<"users">; name: string }>;
+  // Omitted when creating a new policy
+  policy?: ApprovalPolicy;
+  onClose: () => void;
+}
+
+// Step approver choice: a role, or the members picked by name
+const NAMED_MEMBERS = "members";
+const ANY_PARTY = "any";
+
+const ROLES = ["Admin", "Trader", "Broker"] as const;
+
+export function ApprovalPolicyDialog({
+  organizationId,
+  members,
+  policy,
+  onClose,
+}: ApprovalPolicyDialogProps) {
+  const [name, setName] = useState(policy?.name ?? "");
+  const [description, setDescription] = useState(policy?.description ?? "");
+  const [contractTypes, setContractTypes] = useState<PolicyContractType[]>(
+    policy?.conditions.contractTypes ?? []
+  );
+  const [minGrossFreight, setMinGrossFreight] = useState(
+    policy?.conditions.minGrossFreight?.toString() ?? ""
+  );
+  const [maxGrossFreight, setMaxGrossFreight] = useState(
+    policy?.conditions.maxGrossFreight?.toString() ?? ""
+  );
+  const [partyRole, setPartyRole] = useState(policy?.conditions.partyRoles?.[0] ?? ANY_PARTY);
+  const [sequencing, setSequencing] = useState<ApprovalPolicy["sequencing"]>(
+    policy?.sequencing ?? "sequential"
+  );
+  const [steps, setSteps] = useState<ApprovalPolicyStep[]>(
+    policy?.steps ?? [{ name: "", approverRole: "Admin", quorum: 1 }]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const createPolicy = useMutation(api.approvalPolicies.create);
+  const updatePolicy = useMutation(api.approvalPolicies.update);
+
+  const updateStep = (index: number, changes: Partial<ApprovalPolicyStep>) =>
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+
+  const toggleContractType = (contractType: PolicyContractType) =>
+    setContractTypes((prev) =>
+      prev.includes(contractType)
+        ? prev.filter((value) => value !== contractType)
+        : [...prev, contractType]
+    );
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return;
+
+    const conditions = {
+      contractTypes: contractTypes.length > 0 ? contractTypes : undefined,
+      minGrossFreight: minGrossFreight.trim() ? Number(minGrossFreight) : undefined,
+      maxGrossFreight: maxGrossFreight.trim() ? Number(maxGrossFreight) : undefined,
+      partyRoles: partyRole === ANY_PARTY ? undefined : [partyRole],
+    };
+
+    // Only the step settings; listed policies also carry resolved approver names
+    const stepSettings = steps.map(({ name, approverRole, approverUserIds, quorum }) => ({
+      name,
+      approverRole,
+      approverUserIds,
+      quorum,
+    }));
+
+    setIsSaving(true);
+    try {
+      if (policy) {
+        await updatePolicy({
+          policyId: policy._id,
+          name: name.trim(),
+          description: description.trim(),
+          conditions,
+          sequencing,
+          steps: stepSettings,
+        });
+        toast.success("Approval policy updated");
+      } else {
+        await createPolicy({
+          organizationId,
+          name: name.trim(),
+          description: description.trim() || undefined,
+          conditions,
+          sequencing,
+          steps: stepSettings,
+        });
+        toast.success("Approval policy created");
+      }
+      onClose();
+    } catch (error) {
+      console.error("Failed to save approval policy:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save approval policy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !isSaving && !!name.trim() && steps.every((step) => step.name.trim());
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{policy ? `Edit ${policy.name}` : "New approval policy"}</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Large voyage charters"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Description</label>
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">
+              Applies to contract types
+            </label>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(POLICY_CONTRACT_TYPE_LABELS).map(([value, label]) => (
+                <Toggle
+                  key={value}
+                  variant="outline"
+                  size="s"
+                  pressed={contractTypes.includes(value as PolicyContractType)}
+                  onPressedChange={() => toggleContractType(value as PolicyContractType)}
+                >
+                  {label}
+                </Toggle>
+              ))}
+            </div>
+            <span className="text-body-xs text-[var(--color-text-tertiary)]">
+              None selected applies the policy to every contract type
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">
+                Gross freight above
+              </label>
+              <Input
+                type="number"
+                value={minGrossFreight}
+                onChange={(e) => setMinGrossFreight(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">
+                Gross freight up to
+              </label>
+              <Input
+                type="number"
+                value={maxGrossFreight}
+                onChange={(e) => setMaxGrossFreight(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Party</label>
+              <Select value={partyRole} onValueChange={setPartyRole}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_PARTY}>Any party</SelectItem>
+                  <SelectItem value="owner">Owner</SelectItem>
+                  <SelectItem value="charterer">Charterer</SelectItem>
+                  <SelectItem value="broker">Broker</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Steps</label>
+            <Select
+              value={sequencing}
+              onValueChange={(value) => setSequencing(value as ApprovalPolicy["sequencing"])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(APPROVAL_SEQUENCING_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {steps.map((step, index) => {
+            const approver = step.approverRole ?? NAMED_MEMBERS;
+
+            return (
+              <div
+                key={index}
+                className="flex flex-col gap-2 rounded-m border border-[var(--color-border-primary-subtle)] p-3"
+              >
+                <div className="grid grid-cols-[1fr_10rem_5rem_auto] items-end gap-2">
+                  <div className="flex flex-col gap-1.5">
+                    <label className="text-body-sm text-[var(--color-text-primary)]">
+                      Step {index + 1}
+                    </label>
+                    <Input
+                      value={step.name}
+                      onChange={(e) => updateStep(index, { name: e.target.value })}
+                      placeholder="e.g. Ops manager"
+                    />
+                  </div>
+                  <div className="flex flex-col gap-1.5">
+                    <label className="text-body-sm text-[var(--color-text-primary)]">
+                      Approvers
+                    </label>
+                    <Select
+                      value={approver}
+                      onValueChange={(value) =>
+                        updateStep(index, {
+                          approverRole:
+                            value === NAMED_MEMBERS ? undefined : (value as (typeof ROLES)[number]),
+                          approverUserIds: value === NAMED_MEMBERS ? step.approverUserIds ?? [] : undefined,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            Any {role}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={NAMED_MEMBERS}>Named members</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex flex-col gap-1.5">
+                    <label className="text-body-sm text-[var(--color-text-primary)]">Quorum</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={step.quorum}
+                      onChange={(e) => updateStep(index, { quorum: Number(e.target.value) })}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="s"
+                    disabled={steps.length === 1}
+                    onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </Button>
+                </div>
+
+                {approver === NAMED_MEMBERS && (
+                  <div className="flex flex-wrap gap-1">
+                    {members.map((member) => {
+                      const isSelected = step.approverUserIds?.includes(member.userId) ?? false;
+                      return (
+                        <Toggle
+                          key={member.userId}
+                          variant="outline"
+                          size="s"
+                          pressed={isSelected}
+                          onPressedChange={() =>
+                            updateStep(index, {
+                              approverUserIds: isSelected
+                                ? step.approverUserIds?.filter((id) => id !== member.userId)
+                                : [...(step.approverUserIds ?? []), member.userId],
+                            })
+                          }
+                        >
+                          {member.name}
+                        </Toggle>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div>
+            <Button
+              variant="secondary"
+              size="s"
+              onClick={() =>
+                setSteps((prev) => [...prev, { name: "", approverRole: "Admin", quorum: 1 }])
+              }
+            >
+              Add step
+            </Button>
+          </div>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Saving…" : policy ? "Save policy" : "Create policy"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
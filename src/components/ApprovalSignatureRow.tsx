@@ -37,6 +37,11 @@ interface ApprovalSignatureRecord {
     name: string;
   } | null;
   userAvatarUrl?: string | null;
+  // Delegator, when the user approved or signed on their behalf
+  onBehalfOfUser?: {
+    _id: string;
+    name: string;
+  } | null;
   approvedAt?: number;
   signedAt?: number;
   signingMethod?: string;
@@ -53,6 +58,16 @@ interface ApprovalSignatureRowProps {
     signed?: number;
     pending: number;
     rejected: number;
+    // Progress through approval policy steps, when a policy applies
+    steps?: {
+      total: number;
+      approved: number;
+    };
+    awaiting?: Array<{
+      approvalId: string;
+      step: string;
+      remaining: number;
+    }>;
   };
 }
 
@@ -93,7 +108,19 @@ export function ApprovalSignatureRow({
   // Determine progress text
   const completedCount =
     type === "approval" ? summary.approved || 0 : summary.signed || 0;
-  const progressText = `(${completedCount}/${summary.total} ${type === "approval" ? "approved" : "signed"})`;
+  const progressText =
+    type === "approval" && summary.steps && summary.steps.total > 0
+      ? `(${summary.steps.approved}/${summary.steps.total} steps approved)`
+      : `(${completedCount}/${summary.total} ${type === "approval" ? "approved" : "signed"})`;
+
+  // Policy steps each pending approval is waiting on
+  const awaitingText = (recordId: string): string | null => {
+    const steps = summary.awaiting?.filter((item) => item.approvalId === recordId) ?? [];
+    if (steps.length === 0) return null;
+    return `awaiting ${steps
+      .map((item) => `${item.step}${item.remaining > 1 ? ` (${item.remaining} more)` : ""}`)
+      .join(", ")}`;
+  };
 
   // Sort records: completed first, then pending, then rejected
   const sortedRecords = [...records].sort((a, b) => {
@@ -122,7 +149,9 @@ export function ApprovalSignatureRow({
                 const timestamp = record.approvedAt || record.signedAt;
 
                 // Build tooltip content
-                const userName = record.user?.name || "Pending assignment";
+                const userName = record.user
+                  ? `${record.user.name}${record.onBehalfOfUser ? ` for ${record.onBehalfOfUser.name}` : ""}`
+                  : "Pending assignment";
                 const tooltipDate = timestamp ? formatDateTime(timestamp) : null;
                 const tooltipContent = tooltipDate
                   ? `${userName}\n${type === "approval" ? "Approved" : "Signed"}: ${tooltipDate}`
@@ -234,6 +263,9 @@ export function ApprovalSignatureRow({
                           <span>
                             {type === "approval" ? "approved the contract" : "signed the contract"}
                           </span>
+                          {record.onBehalfOfUser && (
+                            <span>on behalf of {record.onBehalfOfUser.name}</span>
+                          )}
                           {record.signingMethod && <span>via {formatSigningMethod(record.signingMethod)}</span>}
                           {record.company && (
                             <span className="text-body-sm text-[var(--color-text-secondary)]">
@@ -245,7 +277,11 @@ export function ApprovalSignatureRow({
                       )}
                       {isPending && (
                         <>
-                          <span>{type === "approval" ? "pending review" : "awaiting signature"}</span>
+                          <span>
+                            {type === "approval"
+                              ? awaitingText(record._id) ?? "pending review"
+                              : "awaiting signature"}
+                          </span>
                           {record.company && (
                             <span className="text-body-sm text-[var(--color-text-secondary)]">
                               ({record.partyRole} - {record.company.name})
@@ -256,6 +292,9 @@ export function ApprovalSignatureRow({
                       {isRejected && (
                         <>
                           <span className="text-[var(--color-text-danger)]">rejected</span>
+                          {record.onBehalfOfUser && (
+                            <span>on behalf of {record.onBehalfOfUser.name}</span>
+                          )}
                           {record.notes && <span>- {record.notes}</span>}
                           {record.company && (
                             <span className="text-body-sm text-[var(--color-text-secondary)]">
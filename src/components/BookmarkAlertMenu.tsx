@@ -0,0 +1,67 @@
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@rafal.lemieszewski/tide-ui";
+import { Bell, BellRing, Check } from "lucide-react";
+import type { BookmarkAlert } from "../hooks/useBookmarkAlerts";
+
+interface BookmarkAlertMenuProps {
+  alert: BookmarkAlert | undefined;
+  onSubscribe: (emailEnabled: boolean) => void;
+  onUnsubscribe: () => void;
+}
+
+/**
+ * Follow the active bookmark: get notified when fixtures start or stop
+ * matching its saved filters, in the app and optionally by email.
+ */
+export function BookmarkAlertMenu({ alert, onSubscribe, onUnsubscribe }: BookmarkAlertMenuProps) {
+  const options = [
+    { emailEnabled: false, label: "Notify me in the app" },
+    { emailEnabled: true, label: "Notify me in the app and by email" },
+  ];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={alert ? "secondary" : "ghost"}
+          icon={alert ? BellRing : Bell}
+          iconPosition="left"
+          className="h-[var(--size-m)] flex-shrink-0"
+        >
+          {alert ? "Alerts on" : "Alerts"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        {options.map((option) => {
+          const isSelected = alert?.emailEnabled === option.emailEnabled;
+          return (
+            <DropdownMenuItem
+              key={option.label}
+              onClick={() => !isSelected && onSubscribe(option.emailEnabled)}
+              className="cursor-pointer"
+            >
+              <div className="flex w-full items-center justify-between gap-3">
+                <span className="text-body-sm text-[var(--color-text-primary)]">{option.label}</span>
+                {isSelected && <Check size={16} className="text-[var(--color-text-brand)]" />}
+              </div>
+            </DropdownMenuItem>
+          );
+        })}
+        {alert && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onUnsubscribe} className="cursor-pointer">
+              Turn off alerts
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
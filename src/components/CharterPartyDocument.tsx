@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useQuery, useMutation, useAction } from "convex/react";
+import {
+  Button,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  CHARTER_PARTY_FORM_LABELS,
+  generateCharterPartyPdf,
+  type CharterPartyForm,
+  type CharterPartySignature,
+} from "../utils/cpDocument";
+import { formatEnumLabel } from "../utils/dataUtils";
+import { ENVELOPE_STATUS_LABELS } from "../types/esign";
+import { SendForSignatureDialog } from "./SendForSignatureDialog";
+import { SigningCeremonyDialog } from "./SigningCeremonyDialog";
+
+interface CharterPartyDocumentProps {
+  contractId?: Id<"contracts">;
+  recapId?: Id<"recap_managers">;
+}
+
+/**
+ * CharterPartyDocument
+ *
+ * Generates the CP PDF from a contract or recap's structured terms, stores
+ * it as the full CP chain. When the terms change the server regenerates it
+ * (cpDocumentFiles.regenerate); until then it is marked outdated.
+ * For contracts it also runs the signing ceremony (which stamps a signature
+ * page into the document server-side), verifies the signed hashes, and sends
+ * signatures out through e-signature providers.
+ */
+export function CharterPartyDocument({ contractId, recapId }: CharterPartyDocumentProps) {
+  const contract = useQuery(api.contracts.getById, contractId ? { contractId } : "skip");
+  const recap = useQuery(api.recapManagers.getById, recapId ? { recapId } : "skip");
+  const signatures = useQuery(
+    api.signatures.getContractSignatures,
+    contractId ? { contractId } : "skip"
+  );
+  const envelopes = useQuery(
+    api.esignEnvelopes.listForContract,
+    contractId ? { contractId } : "skip"
+  );
+  const data = contractId ? contract : recap;
+
+  const [form, setForm] = useState<CharterPartyForm>(recapId ? "wet-recap" : "gencon");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSignDialogOpen, setIsSignDialogOpen] = useState(false);
+  const [isSendDialogOpen, setIsSendDialogOpen] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const generateContractUploadUrl = useMutation(api.cpDocuments.generateContractUploadUrl);
+  const generateRecapUploadUrl = useMutation(api.cpDocuments.generateRecapUploadUrl);
+  const attachToContract = useMutation(api.cpDocuments.attachToContract);
+  const attachToRecap = useMutation(api.cpDocuments.attachToRecap);
+  const verifyContractDocument = useAction(api.esign.verifyContractDocument);
+  const voidEnvelope = useAction(api.esignEnvelopes.voidEnvelope);
+  const retryEnvelopeDownload = useMutation(api.esignEnvelopes.retryDownload);
+
+  // Electronic signatures, in the shape stamped onto the signature page
+  const signedSignatures: CharterPartySignature[] = (signatures ?? [])
+    .filter((signature) => signature.status === "signed" && signature.documentHash)
+    .map((signature) => ({
+      partyRole: signature.partyRole,
+      companyName: signature.company?.name ?? "Unknown company",
+      signerName: signature.user?.name ?? "Unknown user",
+      onBehalfOfName: signature.onBehalfOfUser?.name,
+      signedAt: signature.signedAt ?? signature.updatedAt,
+      documentHash: signature.documentHash!,
+    }));
+  const pendingSignatures = (signatures ?? [])
+    .filter((signature) => signature.status === "pending")
+    .map((signature) => ({
+      _id: signature._id,
+      partyRole: signature.partyRole,
+      companyName: signature.company?.name ?? "Unknown company",
+    }));
+
+  // Render the PDF and upload it, returning the new storage ID
+  const renderAndUpload = async (selectedForm: CharterPartyForm): Promise<Id<"_storage">> => {
+    const blob = generateCharterPartyPdf(
+      {
+        ...data!,
+        documentNumber: contract?.contractNumber ?? recap?.recapNumber ?? "",
+      },
+      selectedForm,
+      signedSignatures
+    );
+
+    // Generate upload URL
+    const uploadUrl = contractId
+      ? await generateContractUploadUrl({ contractId })
+      : await generateRecapUploadUrl({ recapId: recapId! });
+
+    // Upload file
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/pdf" },
+      body: blob,
+    });
+
+    if (!response.ok) throw new Error("Upload failed");
+
+    const { storageId } = await response.json();
+    return storageId;
+  };
+
+  const generate = async (selectedForm: CharterPartyForm) => {
+    if (!data) return;
+
+    setIsGenerating(true);
+    try {
+      const storageId = await renderAndUpload(selectedForm);
+
+      if (contractId) {
+        await attachToContract({ contractId, storageId, form: selectedForm });
+      } else {
+        await attachToRecap({ recapId: recapId!, storageId, form: selectedForm });
+      }
+
+      toast.success("Charter party generated");
+    } catch (error) {
+      console.error("Failed to generate charter party:", error);
+      toast.error("Failed to generate charter party");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const openEnvelopes = (envelopes ?? []).filter(
+    (envelope) => envelope.status === "sent" || envelope.status === "delivered"
+  );
+  // Completed envelopes whose signed document couldn't be fetched from the provider
+  const failedDownloads = (envelopes ?? []).filter(
+    (envelope) => envelope.status === "completed" && envelope.downloadError
+  );
+
+  const handleVoidEnvelope = async (envelopeId: Id<"esign_envelopes">) => {
+    try {
+      await voidEnvelope({ envelopeId });
+      toast.success("Envelope voided");
+    } catch (error) {
+      console.error("Failed to void envelope:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to void envelope");
+    }
+  };
+
+  const handleRetryDownload = async (envelopeId: Id<"esign_envelopes">) => {
+    try {
+      await retryEnvelopeDownload({ envelopeId });
+      toast.success("Downloading the signed document again");
+    } catch (error) {
+      console.error("Failed to retry download:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to retry download");
+    }
+  };
+
+  const verify = async () => {
+    if (!contractId) return;
+
+    setIsVerifying(true);
+    try {
+      const result = await verifyContractDocument({ contractId });
+      if (result.intact) {
+        toast.success(
+          `Verified: ${result.signatures.length} signed ${result.signatures.length === 1 ? "version matches its" : "versions match their"} recorded hash`
+        );
+      } else {
+        const tampered = result.signatures
+          .filter((signature) => !signature.intact)
+          .map((signature) => signature.partyRole);
+        toast.error(
+          tampered.length > 0
+            ? `Document changed since it was signed by the ${tampered.join(", ")}`
+            : "The current document does not match its recorded hash"
+        );
+      }
+    } catch (error) {
+      console.error("Failed to verify charter party:", error);
+      toast.error("Failed to verify charter party");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!data) {
+    return <span className="text-body-sm text-[var(--color-text-tertiary)]">—</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {data.cpDocumentUrl && (
+        <a
+          href={data.cpDocumentUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-body-sm text-[var(--color-text-link)] hover:underline"
+        >
+          {CHARTER_PARTY_FORM_LABELS[data.cpDocumentForm ?? form]} PDF
+        </a>
+      )}
+      {data.cpDocumentStale && (
+        <span className="text-body-xs text-[var(--color-text-tertiary)]">Outdated</span>
+      )}
+      <Select value={form} onValueChange={(val) => setForm(val as CharterPartyForm)}>
+        <SelectTrigger className="h-7 w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="gencon">{CHARTER_PARTY_FORM_LABELS.gencon}</SelectItem>
+          <SelectItem value="wet-recap">{CHARTER_PARTY_FORM_LABELS["wet-recap"]}</SelectItem>
+        </SelectContent>
+      </Select>
+      <Button variant="secondary" size="s" onClick={() => generate(form)} disabled={isGenerating}>
+        {isGenerating ? "Generating…" : data.cpDocumentUrl ? "Regenerate" : "Generate"}
+      </Button>
+      {data.cpDocumentUrl && !data.cpDocumentStale && pendingSignatures.length > 0 && (
+        <Button
+          variant="primary"
+          size="s"
+          onClick={() => setIsSignDialogOpen(true)}
+          disabled={isGenerating}
+        >
+          Sign
+        </Button>
+      )}
+      {data.cpDocumentUrl && !data.cpDocumentStale && pendingSignatures.length > 0 && (
+        <Button variant="secondary" size="s" onClick={() => setIsSendDialogOpen(true)}>
+          Send for signature
+        </Button>
+      )}
+      {signedSignatures.length > 0 && (
+        <Button variant="ghost" size="s" onClick={verify} disabled={isVerifying}>
+          {isVerifying ? "Verifying…" : "Verify signatures"}
+        </Button>
+      )}
+
+      {isSignDialogOpen && data.cpDocumentUrl && (
+        <SigningCeremonyDialog
+          documentUrl={data.cpDocumentUrl}
+          pendingSignatures={pendingSignatures}
+          onClose={() => setIsSignDialogOpen(false)}
+        />
+      )}
+      {isSendDialogOpen && (
+        <SendForSignatureDialog
+          signatureType="contract"
+          pendingSignatures={pendingSignatures}
+          onClose={() => setIsSendDialogOpen(false)}
+        />
+      )}
+
+      {openEnvelopes.map((envelope) => (
+        <div key={envelope._id} className="flex w-full items-center gap-2 text-body-xs">
+          <span className="text-[var(--color-text-secondary)]">
+            {formatEnumLabel(envelope.partyRole)} · {envelope.signerName} ·{" "}
+            {ENVELOPE_STATUS_LABELS[envelope.status]}
+          </span>
+          <Button variant="ghost" size="s" onClick={() => handleVoidEnvelope(envelope._id)}>
+            Void
+          </Button>
+        </div>
+      ))}
+      {failedDownloads.map((envelope) => (
+        <div key={envelope._id} className="flex w-full items-center gap-2 text-body-xs">
+          <span className="text-[var(--color-text-danger)]">
+            {formatEnumLabel(envelope.partyRole)} · {envelope.signerName} · Signed document
+            couldn't be downloaded
+          </span>
+          <Button variant="ghost" size="s" onClick={() => handleRetryDownload(envelope._id)}>
+            Retry
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { CLAUSE_CATEGORY_LABELS, type ClauseCategory } from "../types/clause";
+
+interface ClauseDialogProps {
+  organizationId: Id<"organizations">;
+  // Omitted when creating a new custom clause
+  clause?: Doc<"clauses">;
+  onClose: () => void;
+}
+
+export function ClauseDialog({ organizationId, clause, onClose }: ClauseDialogProps) {
+  const [title, setTitle] = useState(clause?.title ?? "");
+  const [category, setCategory] = useState<ClauseCategory>(clause?.category ?? "general");
+  const [tags, setTags] = useState(clause?.tags.join(", ") ?? "");
+  const [text, setText] = useState(clause?.text ?? "");
+  const [changeNote, setChangeNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const createClause = useMutation(api.clauses.create);
+  const updateClause = useMutation(api.clauses.update);
+
+  const isWordingChanged =
+    !!clause && (title.trim() !== clause.title || text.trim() !== clause.text);
+
+  const handleSubmit = async () => {
+    if (!title.trim() || !text.trim()) return;
+
+    const tagList = tags.split(",").map((tag) => tag.trim()).filter(Boolean);
+
+    setIsSaving(true);
+    try {
+      if (clause) {
+        const version = await updateClause({
+          clauseId: clause._id,
+          title: title.trim(),
+          category,
+          tags: tagList,
+          text: text.trim(),
+          changeNote: changeNote.trim() || undefined,
+        });
+        toast.success(isWordingChanged ? `Saved as version ${version}` : "Clause updated");
+      } else {
+        await createClause({
+          organizationId,
+          title: title.trim(),
+          category,
+          tags: tagList,
+          text: text.trim(),
+        });
+        toast.success("Clause created");
+      }
+      onClose();
+    } catch (error) {
+      console.error("Failed to save clause:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save clause");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !isSaving && title.trim().length > 0 && text.trim().length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{clause ? `Edit ${clause.title}` : "New clause"}</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Title</label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Piracy Clause"
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Category</label>
+              <Select value={category} onValueChange={(val) => setCategory(val as ClauseCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CLAUSE_CATEGORY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Tags</label>
+              <Input
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="voyage, time-charter"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Clause text</label>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={10}
+              className="w-full rounded-m border border-[var(--color-border-primary-subtle)] bg-[var(--color-surface-primary)] px-3 py-2 text-body-sm text-[var(--color-text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--color-border-brand)]"
+            />
+          </div>
+
+          {clause && isWordingChanged && (
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">
+                What changed in version {clause.currentVersion + 1}?
+              </label>
+              <Input
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                placeholder="e.g. Updated to York-Antwerp Rules 2016"
+              />
+            </div>
+          )}
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Saving…" : clause ? "Save" : "Create clause"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { CoaTerms } from "../types/coa";
+
+interface CoaTermsDialogProps {
+  contractId?: Id<"contracts">;
+  recapId?: Id<"recap_managers">;
+  terms: CoaTerms | null;
+  onClose: () => void;
+}
+
+const toDateInput = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * CoaTermsDialog
+ *
+ * Sets a COA's period, number of liftings, quantity tolerance and how many
+ * days ahead of each lifting window the vessel and laycan must be nominated.
+ */
+export function CoaTermsDialog({ contractId, recapId, terms, onClose }: CoaTermsDialogProps) {
+  const [periodStart, setPeriodStart] = useState(toDateInput(terms?.periodStart ?? Date.now()));
+  const [periodEnd, setPeriodEnd] = useState(
+    toDateInput(terms?.periodEnd ?? Date.now() + 365 * 24 * 60 * 60 * 1000)
+  );
+  const [liftings, setLiftings] = useState(String(terms?.liftings ?? 12));
+  const [tolerancePercent, setTolerancePercent] = useState(String(terms?.tolerancePercent ?? 10));
+  const [vesselNominationDays, setVesselNominationDays] = useState(
+    String(terms?.vesselNominationDays ?? 10)
+  );
+  const [laycanNominationDays, setLaycanNominationDays] = useState(
+    String(terms?.laycanNominationDays ?? 15)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setTerms = useMutation(api.coa.setTerms);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await setTerms({
+        contractId,
+        recapId,
+        terms: {
+          // Whole days: from the start of the first to the end of the last (local time)
+          periodStart: new Date(`${periodStart}T00:00:00`).getTime(),
+          periodEnd: new Date(`${periodEnd}T23:59:59`).getTime(),
+          liftings: Number(liftings),
+          tolerancePercent: Number(tolerancePercent),
+          vesselNominationDays: Number(vesselNominationDays),
+          laycanNominationDays: Number(laycanNominationDays),
+        },
+      });
+      toast.success("COA terms saved");
+      onClose();
+    } catch (error) {
+      console.error("Failed to save COA terms:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save COA terms");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit =
+    !isSaving && !!periodStart && !!periodEnd && !!liftings && tolerancePercent !== "";
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>COA terms</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Period from</label>
+              <Input type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Period until</label>
+              <Input type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Liftings</label>
+              <Input type="number" min={1} value={liftings} onChange={(e) => setLiftings(e.target.value)} />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Tolerance (±%)</label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={tolerancePercent}
+                onChange={(e) => setTolerancePercent(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">
+                Vessel nomination (days)
+              </label>
+              <Input
+                type="number"
+                min={0}
+                value={vesselNominationDays}
+                onChange={(e) => setVesselNominationDays(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">
+                Laycan nomination (days)
+              </label>
+              <Input
+                type="number"
+                min={0}
+                value={laycanNominationDays}
+                onChange={(e) => setLaycanNominationDays(e.target.value)}
+              />
+            </div>
+          </div>
+          <span className="text-body-xs text-[var(--color-text-tertiary)]">
+            Nominations are due this many days before each lifting window opens.
+          </span>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Saving…" : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
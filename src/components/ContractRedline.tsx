@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  Toggle,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  formatDateTime,
+  formatEnumLabel,
+  formatFieldName,
+  formatFieldValue,
+} from "../utils/dataUtils";
+import { diffWords } from "../utils/redline";
+
+interface ContractRedlineProps {
+  contractId?: Id<"contracts">;
+  recapId?: Id<"recap_managers">;
+}
+
+const CHANGE_LABELS = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Reworded",
+  unchanged: "Unchanged",
+} as const;
+
+function Redline({ from, to }: { from: string; to: string }) {
+  return (
+    <p className="whitespace-pre-line text-body-xs text-[var(--color-text-secondary)]">
+      {diffWords(from, to).map((segment, index) =>
+        segment.type === "same" ? (
+          <span key={index}>{segment.text}</span>
+        ) : segment.type === "added" ? (
+          <span key={index} className="text-[var(--color-text-success)] underline">
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index} className="text-[var(--color-text-danger)] line-through">
+            {segment.text}
+          </span>
+        )
+      )}
+    </p>
+  );
+}
+
+/**
+ * ContractRedline
+ *
+ * Compares two versions of a contract or recap: changed terms inline
+ * (old struck through, new underlined) and added, removed or reworded clauses.
+ */
+export function ContractRedline({ contractId, recapId }: ContractRedlineProps) {
+  const versions = useQuery(api.contractSnapshots.listVersions, { contractId, recapId });
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Default to the latest version against the one before it
+  const latest = versions?.[versions.length - 1];
+  const previous = versions?.[versions.length - 2];
+  const selectedFrom = (fromId || previous?._id) as Id<"contract_snapshots"> | undefined;
+  const selectedTo = (toId || latest?._id) as Id<"contract_snapshots"> | undefined;
+
+  const comparison = useQuery(
+    api.contractSnapshots.compare,
+    selectedFrom && selectedTo ? { fromId: selectedFrom, toId: selectedTo } : "skip"
+  );
+
+  if (versions === undefined) {
+    return <p className="text-body-sm text-[var(--color-text-secondary)]">Loading versions…</p>;
+  }
+
+  if (versions.length < 2) {
+    return (
+      <p className="text-body-sm text-[var(--color-text-secondary)]">
+        Only one version so far. Versions are recorded at every status change and addendum.
+      </p>
+    );
+  }
+
+  const versionLabel = (version: (typeof versions)[number]) =>
+    `v${version.version} • ${
+      version.trigger === "addendum"
+        ? `Addendum ${version.addendaNumber}`
+        : formatEnumLabel(version.status)
+    } • ${formatDateTime(version.createdAt)}`;
+
+  const terms = comparison?.terms.filter((term) => showUnchanged || term.changed) ?? [];
+  const clauses =
+    comparison?.clauses.filter((clause) => showUnchanged || clause.change !== "unchanged") ?? [];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="flex flex-col gap-1.5">
+          <label className="text-body-sm text-[var(--color-text-primary)]">From</label>
+          <Select value={selectedFrom} onValueChange={setFromId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version._id} value={version._id}>
+                  {versionLabel(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <label className="text-body-sm text-[var(--color-text-primary)]">To</label>
+          <Select value={selectedTo} onValueChange={setToId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version._id} value={version._id}>
+                  {versionLabel(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Toggle variant="outline" size="s" pressed={showUnchanged} onPressedChange={setShowUnchanged}>
+          Show unchanged
+        </Toggle>
+      </div>
+
+      {comparison === undefined ? (
+        <p className="text-body-sm text-[var(--color-text-secondary)]">Comparing…</p>
+      ) : terms.length === 0 && clauses.length === 0 ? (
+        <p className="text-body-sm text-[var(--color-text-secondary)]">
+          No differences between these versions
+        </p>
+      ) : (
+        <>
+          {terms.length > 0 && (
+            <div className="flex flex-col">
+              <h4 className="mb-1 text-body-sm font-semibold text-[var(--color-text-primary)]">
+                Terms
+              </h4>
+              {terms.map((term) => (
+                <div
+                  key={term.field}
+                  className="flex items-start justify-between gap-3 border-t border-[var(--color-border-primary-subtle)] py-2 first:border-t-0"
+                >
+                  <span className="text-body-sm text-[var(--color-text-primary)]">
+                    {formatFieldName(term.field)}
+                  </span>
+                  {term.changed ? (
+                    <span className="text-right text-body-sm">
+                      <span className="text-[var(--color-text-danger)] line-through">
+                        {formatFieldValue(term.field, term.from)}
+                      </span>
+                      {" "}
+                      <span className="text-[var(--color-text-success)] underline">
+                        {formatFieldValue(term.field, term.to)}
+                      </span>
+                    </span>
+                  ) : (
+                    <span className="text-right text-body-sm text-[var(--color-text-secondary)]">
+                      {formatFieldValue(term.field, term.to)}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {clauses.length > 0 && (
+            <div className="flex flex-col">
+              <h4 className="mb-1 text-body-sm font-semibold text-[var(--color-text-primary)]">
+                Clauses
+              </h4>
+              {clauses.map((clause) => (
+                <div
+                  key={clause.clauseId}
+                  className="flex flex-col gap-1 border-t border-[var(--color-border-primary-subtle)] py-2 first:border-t-0"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-body-sm font-medium text-[var(--color-text-primary)]">
+                      {clause.title}
+                    </span>
+                    <span className="text-body-xs text-[var(--color-text-tertiary)]">
+                      {CHANGE_LABELS[clause.change]}
+                      {clause.change === "changed" &&
+                        ` • v${clause.fromVersion} → v${clause.toVersion}`}
+                    </span>
+                  </div>
+                  {clause.change === "changed" && (
+                    <Redline from={clause.fromText ?? ""} to={clause.toText ?? ""} />
+                  )}
+                  {clause.change === "added" && (
+                    <p className="whitespace-pre-line text-body-xs text-[var(--color-text-success)] underline">
+                      {clause.toText}
+                    </p>
+                  )}
+                  {clause.change === "removed" && (
+                    <p className="whitespace-pre-line text-body-xs text-[var(--color-text-danger)] line-through">
+                      {clause.fromText}
+                    </p>
+                  )}
+                  {clause.change === "unchanged" && (
+                    <p className="line-clamp-2 text-body-xs text-[var(--color-text-secondary)]">
+                      {clause.toText}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
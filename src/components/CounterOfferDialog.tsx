@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  Toggle,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+interface CounterOfferDialogProps {
+  negotiationId: Id<"negotiations">;
+  negotiationNumber: string;
+  counterparty: string;
+  status: string;
+  lastBid?: string;
+  lastOffer?: string;
+  demurrageRate?: string;
+  validity?: string;
+  onClose: () => void;
+}
+
+type Side = "bid" | "offer";
+
+export function CounterOfferDialog({
+  negotiationId,
+  negotiationNumber,
+  counterparty,
+  status,
+  lastBid,
+  lastOffer,
+  demurrageRate: initialDemurrageRate,
+  validity: initialValidity,
+  onClose,
+}: CounterOfferDialogProps) {
+  // Counter from the other side of whatever is currently on the table
+  const [side, setSide] = useState<Side>(status.endsWith("-bid") ? "offer" : "bid");
+  const [firm, setFirm] = useState(false);
+  const [price, setPrice] = useState((status.endsWith("-bid") ? lastOffer : lastBid) ?? "");
+  const [demurrageRate, setDemurrageRate] = useState(initialDemurrageRate ?? "");
+  const [validity, setValidity] = useState(initialValidity ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const counter = useMutation(api.negotiations.counter);
+
+  const handleSubmit = async () => {
+    if (!price.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await counter({
+        negotiationId,
+        side,
+        firm,
+        price: price.trim(),
+        freightRate: price.trim(),
+        demurrageRate: demurrageRate.trim() || undefined,
+        validity: validity.trim() || undefined,
+      });
+
+      toast.success(`Sent ${firm ? "firm" : "indicative"} ${side} to ${counterparty}`);
+      onClose();
+    } catch (error) {
+      console.error("Failed to send counter:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send counter");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !isSaving && price.trim().length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Counter {negotiationNumber}</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          <p className="text-body-sm text-[var(--color-text-secondary)]">
+            Last bid <strong className="text-[var(--color-text-primary)]">{lastBid || "-"}</strong>
+            {" • "}
+            Last offer <strong className="text-[var(--color-text-primary)]">{lastOffer || "-"}</strong>
+          </p>
+
+          <div className="flex items-center gap-1">
+            <Toggle variant="outline" size="m" pressed={side === "bid"} onPressedChange={() => setSide("bid")}>
+              Bid
+            </Toggle>
+            <Toggle variant="outline" size="m" pressed={side === "offer"} onPressedChange={() => setSide("offer")}>
+              Offer
+            </Toggle>
+            <div className="mx-2 h-1 w-1 rounded-full bg-[var(--color-text-tertiary)]"></div>
+            <Toggle variant="outline" size="m" pressed={!firm} onPressedChange={() => setFirm(false)}>
+              Indicative
+            </Toggle>
+            <Toggle variant="outline" size="m" pressed={firm} onPressedChange={() => setFirm(true)}>
+              Firm
+            </Toggle>
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Freight</label>
+            <Input
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="$25.12/mt"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && canSubmit) handleSubmit();
+              }}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Demurrage</label>
+              <Input
+                value={demurrageRate}
+                onChange={(e) => setDemurrageRate(e.target.value)}
+                placeholder="$15,000/day"
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Validity</label>
+              <Input
+                value={validity}
+                onChange={(e) => setValidity(e.target.value)}
+                placeholder="24h"
+              />
+            </div>
+          </div>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Sending…" : `Send ${firm ? "firm" : "indicative"} ${side}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
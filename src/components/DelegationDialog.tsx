@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  Toggle,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { DELEGATED_AUTHORITY_LABELS, type DelegatedAuthority } from "../types/delegation";
+
+interface DelegationDialogProps {
+  organizationId: Id<"organizations">;
+  currentUserId: Id<"users">;
+  members: Array<{ userId: Id<"users">; name: string }>;
+  // Member managers may set up delegations for colleagues
+  canDelegateForOthers: boolean;
+  onClose: () => void;
+}
+
+const toDateInput = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export function DelegationDialog({
+  organizationId,
+  currentUserId,
+  members,
+  canDelegateForOthers,
+  onClose,
+}: DelegationDialogProps) {
+  const [delegatorId, setDelegatorId] = useState<string>(currentUserId);
+  const [delegateId, setDelegateId] = useState<string>("");
+  const [authority, setAuthority] = useState<DelegatedAuthority[]>(["approve", "sign"]);
+  const [startDate, setStartDate] = useState(toDateInput(Date.now()));
+  const [endDate, setEndDate] = useState(toDateInput(Date.now() + 7 * 24 * 60 * 60 * 1000));
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const createDelegation = useMutation(api.delegations.create);
+
+  const toggleAuthority = (value: DelegatedAuthority) =>
+    setAuthority((prev) =>
+      prev.includes(value) ? prev.filter((item) => item !== value) : [...prev, value]
+    );
+
+  const handleSubmit = async () => {
+    if (!delegateId || authority.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      await createDelegation({
+        organizationId,
+        delegatorId: delegatorId as Id<"users">,
+        delegateId: delegateId as Id<"users">,
+        authority,
+        // Whole days: from the start of the first to the end of the last (local time)
+        startsAt: new Date(`${startDate}T00:00:00`).getTime(),
+        endsAt: new Date(`${endDate}T23:59:59`).getTime(),
+        reason: reason.trim() || undefined,
+      });
+      toast.success("Delegation created");
+      onClose();
+    } catch (error) {
+      console.error("Failed to create delegation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create delegation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit =
+    !isSaving && !!delegateId && authority.length > 0 && !!startDate && !!endDate;
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Delegate authority</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          {canDelegateForOthers && (
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Delegate for</label>
+              <Select value={delegatorId} onValueChange={setDelegatorId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.userId === currentUserId ? `${member.name} (you)` : member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Delegate to</label>
+            <Select value={delegateId} onValueChange={setDelegateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a colleague…" />
+              </SelectTrigger>
+              <SelectContent>
+                {members
+                  .filter((member) => member.userId !== delegatorId)
+                  .map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Authority</label>
+            <div className="flex gap-1">
+              {Object.entries(DELEGATED_AUTHORITY_LABELS).map(([value, label]) => (
+                <Toggle
+                  key={value}
+                  variant="outline"
+                  size="s"
+                  pressed={authority.includes(value as DelegatedAuthority)}
+                  onPressedChange={() => toggleAuthority(value as DelegatedAuthority)}
+                >
+                  {label}
+                </Toggle>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">From</label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Until</label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Reason</label>
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Travelling, out of office"
+            />
+          </div>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Saving…" : "Delegate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
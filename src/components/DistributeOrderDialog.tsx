@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  Toggle,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+interface DistributeOrderDialogProps {
+  orderId: Id<"orders">;
+  orderNumber: string;
+  orderType: string;
+  onClose: () => void;
+}
+
+const NO_BROKER = "none";
+
+export function DistributeOrderDialog({
+  orderId,
+  orderNumber,
+  orderType,
+  onClose,
+}: DistributeOrderDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<Id<"companies">[]>([]);
+  const [brokerId, setBrokerId] = useState<string>(NO_BROKER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Sell orders go to charterers; buy and charter orders go to owners
+  const counterparties = useQuery(api.companies.listByRole, {
+    role: orderType.toLowerCase() === "sell" ? "charterer" : "owner",
+  });
+  const brokers = useQuery(api.companies.listByRole, { role: "broker" });
+
+  const distributeOrder = useMutation(api.orders.distribute);
+
+  const toggleCounterparty = (companyId: Id<"companies">) => {
+    setSelectedIds((prev) =>
+      prev.includes(companyId)
+        ? prev.filter((id) => id !== companyId)
+        : [...prev, companyId]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (selectedIds.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      await distributeOrder({
+        orderId,
+        counterpartyIds: selectedIds,
+        brokerId: brokerId === NO_BROKER ? undefined : (brokerId as Id<"companies">),
+      });
+
+      toast.success(
+        `Distributed ${orderNumber} to ${selectedIds.length} counterpart${selectedIds.length !== 1 ? "ies" : "y"}`
+      );
+      onClose();
+    } catch (error) {
+      console.error("Failed to distribute order:", error);
+      toast.error("Failed to distribute order");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !isSaving && selectedIds.length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Distribute {orderNumber}</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Counterparties</label>
+            {counterparties === undefined ? (
+              <div className="h-9 rounded-md bg-[var(--color-bg-secondary)] animate-pulse" />
+            ) : counterparties.length === 0 ? (
+              <p className="text-body-sm text-[var(--color-text-secondary)]">
+                No counterparties available.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {counterparties.map((company) => (
+                  <Toggle
+                    key={company._id}
+                    variant="outline"
+                    size="s"
+                    pressed={selectedIds.includes(company._id)}
+                    onPressedChange={() => toggleCounterparty(company._id)}
+                  >
+                    {company.name}
+                  </Toggle>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Broker</label>
+            <Select value={brokerId} onValueChange={setBrokerId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_BROKER}>Direct</SelectItem>
+                {brokers?.map((broker) => (
+                  <SelectItem key={broker._id} value={broker._id}>
+                    {broker.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Distributing…" : "Distribute"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
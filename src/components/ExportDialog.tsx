@@ -1,4 +1,5 @@
 import { useState, useMemo, useEffect } from "react";
+import { useMutation } from "convex/react";
 import {
   Dialog,
   DialogContent,
@@ -11,6 +12,11 @@ import {
   RadioGroupItem,
   Input,
   Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
   Separator,
   Toggle,
   toast,
@@ -22,9 +28,18 @@ import type {
   ExportOptions,
   ExportColumn,
   ExportDateRange,
+  ExportDelivery,
+  ExportFrequency,
+  StatusFormat,
 } from "../types/export";
-import { exportData, generateFileName, downloadFile } from "../utils/exportHelpers";
+import { exportData, generateFileName, downloadFile, EXPORT_WEEKDAYS } from "../utils/exportHelpers";
 import { useExportNotifications } from "../hooks";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { ScheduledExportsList } from "./ScheduledExportsList";
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DAYS_OF_MONTH = Array.from({ length: 28 }, (_, index) => index + 1);
 
 interface ExportDialogProps<T extends Record<string, any>> {
   open: boolean;
@@ -36,6 +51,9 @@ interface ExportDialogProps<T extends Record<string, any>> {
   visibleColumns: string[];
   isDirty: boolean;
   bookmarkName?: string;
+  // Saved bookmark that can be exported on a schedule (user or shared bookmarks only)
+  scheduleBookmarkId?: Id<"user_bookmarks">;
+  organizationId?: Id<"organizations">;
 }
 
 export function ExportDialog<T extends Record<string, any>>({
@@ -48,6 +66,8 @@ export function ExportDialog<T extends Record<string, any>>({
   visibleColumns,
   isDirty,
   bookmarkName,
+  scheduleBookmarkId,
+  organizationId,
 }: ExportDialogProps<T>) {
   // State for export options
   const [format, setFormat] = useState<ExportFormat>("excel");
@@ -61,6 +81,19 @@ export function ExportDialog<T extends Record<string, any>>({
   const [lastExportFileName, setLastExportFileName] = useState<string>("");
   const [columnSearch, setColumnSearch] = useState("");
 
+  // Scheduled export options
+  const [delivery, setDelivery] = useState<ExportDelivery>("download");
+  const [frequency, setFrequency] = useState<ExportFrequency>("weekly");
+  const [hourUTC, setHourUTC] = useState(8);
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [recipients, setRecipients] = useState("");
+  const [statusFormat, setStatusFormat] = useState<StatusFormat>("full");
+  const createSchedule = useMutation(api.scheduledExports.create);
+
+  const canSchedule = Boolean(scheduleBookmarkId && organizationId);
+  const isScheduling = canSchedule && delivery === "schedule";
+
   // Use export notifications hook
   const { createExportCallbacks } = useExportNotifications();
 
@@ -178,6 +211,7 @@ export function ExportDialog<T extends Record<string, any>>({
           to: dateTo,
         },
         fileName,
+        statusFormat,
         excel: {
           freezeHeader: true,
           autoFitColumns: true,
@@ -206,6 +240,46 @@ export function ExportDialog<T extends Record<string, any>>({
     }
   };
 
+  // Handle scheduling a recurring export of the saved bookmark
+  const handleSchedule = async () => {
+    if (!scheduleBookmarkId || !organizationId) return;
+
+    const recipientList = recipients
+      .split(/[\s,;]+/)
+      .map((email) => email.trim())
+      .filter(Boolean);
+    if (recipientList.length === 0) {
+      toast.error("Please add at least one recipient");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await createSchedule({
+        bookmarkId: scheduleBookmarkId,
+        organizationId,
+        format,
+        columns: columns
+          .filter((col) => col.selected)
+          .sort((a, b) => a.order - b.order)
+          .map((col) => ({ id: col.id, label: col.label })),
+        statusFormat,
+        frequency,
+        hourUTC,
+        dayOfWeek: frequency === "weekly" ? dayOfWeek : undefined,
+        dayOfMonth: frequency === "monthly" ? dayOfMonth : undefined,
+        recipients: recipientList,
+      });
+      toast.success("Export scheduled");
+      setRecipients("");
+    } catch (error) {
+      if (import.meta.env.DEV) console.error("Failed to schedule export:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to schedule export");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="!max-w-lg max-h-[85vh] overflow-y-auto w-full">
@@ -214,6 +288,38 @@ export function ExportDialog<T extends Record<string, any>>({
         </DialogHeader>
 
         <DialogBody className="space-y-4">
+          {/* Delivery */}
+          {canSchedule && (
+            <>
+              <div className="flex flex-col gap-1">
+                <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
+                  Delivery
+                </Label>
+                <RadioGroup
+                  value={delivery}
+                  onValueChange={(value) => setDelivery(value as ExportDelivery)}
+                  orientation="vertical"
+                  className="gap-1"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="download" id="delivery-download" />
+                    <Label htmlFor="delivery-download" className="cursor-pointer">
+                      Download now
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="schedule" id="delivery-schedule" />
+                    <Label htmlFor="delivery-schedule" className="cursor-pointer">
+                      Email{bookmarkName ? ` ${bookmarkName}` : " this bookmark"} on a schedule
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              <Separator className="bg-[var(--color-border-primary-subtle)]" />
+            </>
+          )}
+
           {/* Format Selection */}
           <div className="flex flex-col gap-1">
             <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
@@ -249,80 +355,209 @@ export function ExportDialog<T extends Record<string, any>>({
 
           <Separator className="bg-[var(--color-border-primary-subtle)]" />
 
-          {/* Data Scope */}
-          <div className="flex flex-col gap-1">
-            <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
-              Data to export
-            </Label>
-            <RadioGroup
-              value={dataScope}
-              onValueChange={(value) => setDataScope(value as ExportDataScope)}
-              orientation="vertical"
-              className="gap-1"
-            >
-              <div className="flex items-center gap-2">
-                <RadioGroupItem value="all" id="scope-all" />
-                <Label htmlFor="scope-all" className="cursor-pointer">
-                  All data ({data.length} fixtures)
-                </Label>
-              </div>
-              <div className="flex items-center gap-2">
-                <RadioGroupItem value="bookmark" id="scope-bookmark" />
-                <Label htmlFor="scope-bookmark" className="cursor-pointer">
-                  Current bookmark{bookmarkName ? `: ${bookmarkName}` : ""} ({bookmarkData.length} fixtures)
+          {isScheduling ? (
+            <>
+              {/* Schedule */}
+              <div className="flex flex-col gap-1">
+                <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
+                  Frequency
                 </Label>
+                <div className="flex gap-2">
+                  {(["daily", "weekly", "monthly"] as const).map((option) => (
+                    <Toggle
+                      key={option}
+                      variant="outline"
+                      size="m"
+                      pressed={frequency === option}
+                      onPressedChange={() => setFrequency(option)}
+                    >
+                      {option.charAt(0).toUpperCase() + option.slice(1)}
+                    </Toggle>
+                  ))}
+                </div>
               </div>
-              {isDirty && (
-                <div className="flex items-center gap-2">
-                  <RadioGroupItem value="filtered" id="scope-filtered" />
-                  <Label htmlFor="scope-filtered" className="cursor-pointer">
-                    Current filter ({filteredData.length} fixtures)
-                  </Label>
+
+              <div className="grid grid-cols-2 gap-3">
+                {frequency === "weekly" && (
+                  <div className="flex flex-col gap-1">
+                    <Label className="text-label-md font-medium text-[var(--color-text-primary)]">Day</Label>
+                    <Select value={String(dayOfWeek)} onValueChange={(value) => setDayOfWeek(Number(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXPORT_WEEKDAYS.map((day, index) => (
+                          <SelectItem key={day} value={String(index)}>
+                            {day}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {frequency === "monthly" && (
+                  <div className="flex flex-col gap-1">
+                    <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
+                      Day of month
+                    </Label>
+                    <Select value={String(dayOfMonth)} onValueChange={(value) => setDayOfMonth(Number(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DAYS_OF_MONTH.map((day) => (
+                          <SelectItem key={day} value={String(day)}>
+                            {day}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="flex flex-col gap-1">
+                  <Label className="text-label-md font-medium text-[var(--color-text-primary)]">Time (UTC)</Label>
+                  <Select value={String(hourUTC)} onValueChange={(value) => setHourUTC(Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURS.map((hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {`${String(hour).padStart(2, "0")}:00`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              )}
-            </RadioGroup>
-          </div>
+              </div>
 
-          <Separator className="bg-[var(--color-border-primary-subtle)]" />
+              <div className="flex flex-col gap-1">
+                <Label
+                  htmlFor="export-recipients"
+                  className="text-label-md font-medium text-[var(--color-text-primary)]"
+                >
+                  Recipients
+                </Label>
+                <Input
+                  id="export-recipients"
+                  placeholder="name@company.com, team@company.com"
+                  value={recipients}
+                  onChange={(e) => setRecipients(e.target.value)}
+                />
+              </div>
 
-          {/* Date Range Filter */}
-          <div className="flex flex-col gap-1">
-            <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
-              Filter by last updated
-            </Label>
-            <RadioGroup
-              value={dateRangeType}
-              onValueChange={(value) => setDateRangeType(value as ExportDateRange)}
-              orientation="vertical"
-              className="gap-1"
-            >
-              <div className="flex items-center gap-2">
-                <RadioGroupItem value="all" id="date-all" />
-                <Label htmlFor="date-all" className="cursor-pointer">
-                  All time
+              <div className="flex flex-col gap-1">
+                <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
+                  Status format
                 </Label>
+                <div className="flex gap-2">
+                  <Toggle
+                    variant="outline"
+                    size="m"
+                    pressed={statusFormat === "full"}
+                    onPressedChange={() => setStatusFormat("full")}
+                  >
+                    Full
+                  </Toggle>
+                  <Toggle
+                    variant="outline"
+                    size="m"
+                    pressed={statusFormat === "short"}
+                    onPressedChange={() => setStatusFormat("short")}
+                  >
+                    Short
+                  </Toggle>
+                  <Toggle
+                    variant="outline"
+                    size="m"
+                    pressed={statusFormat === "value"}
+                    onPressedChange={() => setStatusFormat("value")}
+                  >
+                    Value
+                  </Toggle>
+                </div>
               </div>
-              <div className="flex items-center gap-2">
-                <RadioGroupItem value="custom" id="date-custom" />
-                <Label htmlFor="date-custom" className="cursor-pointer">
-                  Custom range
+
+              {scheduleBookmarkId && <ScheduledExportsList bookmarkId={scheduleBookmarkId} />}
+            </>
+          ) : (
+            <>
+              {/* Data Scope */}
+              <div className="flex flex-col gap-1">
+                <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
+                  Data to export
                 </Label>
+                <RadioGroup
+                  value={dataScope}
+                  onValueChange={(value) => setDataScope(value as ExportDataScope)}
+                  orientation="vertical"
+                  className="gap-1"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="all" id="scope-all" />
+                    <Label htmlFor="scope-all" className="cursor-pointer">
+                      All data ({data.length} fixtures)
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="bookmark" id="scope-bookmark" />
+                    <Label htmlFor="scope-bookmark" className="cursor-pointer">
+                      Current bookmark{bookmarkName ? `: ${bookmarkName}` : ""} ({bookmarkData.length} fixtures)
+                    </Label>
+                  </div>
+                  {isDirty && (
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="filtered" id="scope-filtered" />
+                      <Label htmlFor="scope-filtered" className="cursor-pointer">
+                        Current filter ({filteredData.length} fixtures)
+                      </Label>
+                    </div>
+                  )}
+                </RadioGroup>
               </div>
-            </RadioGroup>
-
-            {dateRangeType === "custom" && (
-              <div className="ml-6 mt-2">
-                <DateRangePicker
-                  dateRange={{ from: dateFrom, to: dateTo }}
-                  onDateRangeChange={(range) => {
-                    setDateFrom(range.from);
-                    setDateTo(range.to);
-                  }}
-                  placeholder="Select date range"
-                />
+
+              <Separator className="bg-[var(--color-border-primary-subtle)]" />
+
+              {/* Date Range Filter */}
+              <div className="flex flex-col gap-1">
+                <Label className="text-label-md font-medium text-[var(--color-text-primary)]">
+                  Filter by last updated
+                </Label>
+                <RadioGroup
+                  value={dateRangeType}
+                  onValueChange={(value) => setDateRangeType(value as ExportDateRange)}
+                  orientation="vertical"
+                  className="gap-1"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="all" id="date-all" />
+                    <Label htmlFor="date-all" className="cursor-pointer">
+                      All time
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="custom" id="date-custom" />
+                    <Label htmlFor="date-custom" className="cursor-pointer">
+                      Custom range
+                    </Label>
+                  </div>
+                </RadioGroup>
+
+                {dateRangeType === "custom" && (
+                  <div className="ml-6 mt-2">
+                    <DateRangePicker
+                      dateRange={{ from: dateFrom, to: dateTo }}
+                      onDateRangeChange={(range) => {
+                        setDateFrom(range.from);
+                        setDateTo(range.to);
+                      }}
+                      placeholder="Select date range"
+                    />
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            </>
+          )}
 
           <Separator className="bg-[var(--color-border-primary-subtle)]" />
 
@@ -334,7 +569,7 @@ export function ExportDialog<T extends Record<string, any>>({
                 Columns
               </Label>
               <div className="flex gap-2">
-                {dataScope !== "all" && (
+                {dataScope !== "all" && !isScheduling && (
                   <Button
                     variant="ghost"
                     size="s"
@@ -405,9 +640,15 @@ export function ExportDialog<T extends Record<string, any>>({
           <Button variant="secondary" onClick={onClose} disabled={isExporting}>
             Cancel
           </Button>
-          <Button variant="primary" onClick={handleExport} disabled={isExporting || selectedColumnCount === 0}>
-            {isExporting ? "Exporting..." : "Export"}
-          </Button>
+          {isScheduling ? (
+            <Button variant="primary" onClick={handleSchedule} disabled={isExporting || selectedColumnCount === 0}>
+              {isExporting ? "Scheduling..." : "Schedule export"}
+            </Button>
+          ) : (
+            <Button variant="primary" onClick={handleExport} disabled={isExporting || selectedColumnCount === 0}>
+              {isExporting ? "Exporting..." : "Export"}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,79 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { FieldChangeEntityType } from "../types/fixture";
+import { formatDateTime, formatFieldName, formatFieldValue } from "../utils/dataUtils";
+
+interface FieldHistoryProps {
+  entityType: FieldChangeEntityType;
+  entityId: string;
+}
+
+/**
+ * FieldHistory
+ *
+ * Field-by-field change history of a single entity, newest first,
+ * with who made each change and why.
+ */
+export function FieldHistory({ entityType, entityId }: FieldHistoryProps) {
+  const changes = useQuery(api.audit.getFieldChanges, { entityType, entityId });
+
+  if (changes === undefined) {
+    return (
+      <p className="text-body-sm text-[var(--color-text-secondary)]">Loading field history…</p>
+    );
+  }
+
+  if (changes.length === 0) {
+    return (
+      <p className="text-body-sm text-[var(--color-text-secondary)]">
+        No field changes recorded yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col">
+      {changes.map((change) => {
+        // Linked records (vessel, ports, companies) are stored by id
+        const isReference = change.fieldName.endsWith("Id");
+
+        return (
+          <div
+            key={change._id}
+            className="flex items-start justify-between gap-3 border-t border-[var(--color-border-primary-subtle)] py-2 first:border-t-0"
+          >
+            <div className="flex min-w-0 flex-col gap-1">
+              <span className="text-body-sm font-medium text-[var(--color-text-primary)]">
+                {formatFieldName(change.fieldName)}
+              </span>
+              {isReference ? (
+                <span className="text-body-xs text-[var(--color-text-secondary)]">Changed</span>
+              ) : (
+                <span className="text-body-xs text-[var(--color-text-secondary)]">
+                  <span className="line-through">{formatFieldValue(change.fieldName, change.oldValue)}</span>
+                  {" → "}
+                  <span className="text-[var(--color-text-primary)]">
+                    {formatFieldValue(change.fieldName, change.newValue)}
+                  </span>
+                </span>
+              )}
+              {change.changeReason && (
+                <span className="text-body-xs italic text-[var(--color-text-tertiary)]">
+                  {change.changeReason}
+                </span>
+              )}
+            </div>
+            <div className="flex shrink-0 flex-col items-end gap-1">
+              <span className="text-body-xs text-[var(--color-text-tertiary)]">
+                {formatDateTime(change.timestamp)}
+              </span>
+              <span className="text-body-xs text-[var(--color-text-tertiary)]">
+                {change.user?.name || "Unknown"}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -109,6 +109,14 @@ export function FixtureSidebar({
       : "skip"
   );
 
+  // Bid/offer rounds for the negotiation ladder
+  const negotiationRounds = useQuery(
+    api.negotiationRounds.listByNegotiation,
+    fixture.negotiation?._id
+      ? { negotiationId: fixture.negotiation._id }
+      : "skip"
+  );
+
   // Combine and sort activity logs (oldest first)
   const allActivityLogs = useMemo((): ActivityLogEntry[] => {
     const logs = [
@@ -141,23 +149,25 @@ export function FixtureSidebar({
   const financialAnalytics = useMemo(() => {
     const neg = fixture.negotiation;
 
+    // Parsed numeric rates (migrations.backfillStructuredRates fills older rows)
+    const finalFreightRate = neg?.rates?.freight?.value;
+    const finalDemurrageRate = neg?.rates?.demurrage?.value;
+
     // Freight savings from highest indication
     const freightSavingsPercent = calculateFreightSavings(
       neg?.highestFreightRateIndication,
-      neg?.freightRate
+      finalFreightRate
     );
     let freightSavingsAmount: number | null = null;
-    if (freightSavingsPercent != null && neg?.freightRate) {
-      const finalRate = parseFloat(neg.freightRate.replace(/[^0-9.]/g, ''));
-      freightSavingsAmount = (neg.highestFreightRateIndication ?? 0) - finalRate;
+    if (freightSavingsPercent != null && finalFreightRate != null) {
+      freightSavingsAmount = (neg?.highestFreightRateIndication ?? 0) - finalFreightRate;
     }
 
     // Freight last day improvement
     let freightLastDayImprovement: number | null = null;
     let freightLastDayImprovementPercent: number | null = null;
-    if (neg?.firstFreightRateLastDay && neg?.freightRate) {
-      const finalRate = parseFloat(neg.freightRate.replace(/[^0-9.]/g, ''));
-      const improvement = neg.firstFreightRateLastDay - finalRate;
+    if (neg?.firstFreightRateLastDay && finalFreightRate != null) {
+      const improvement = neg.firstFreightRateLastDay - finalFreightRate;
       if (improvement > 0) {
         freightLastDayImprovement = improvement;
         freightLastDayImprovementPercent = (improvement / neg.firstFreightRateLastDay) * 100;
@@ -166,27 +176,25 @@ export function FixtureSidebar({
 
     // Freight vs market
     const freightVsMarket = calculateFreightVsMarket(
-      neg?.freightRate,
+      finalFreightRate,
       neg?.marketIndex
     );
 
     // Demurrage savings from highest indication
     const demurrageSavingsPercent = calculateDemurrageSavings(
       neg?.highestDemurrageIndication,
-      neg?.demurrageRate
+      finalDemurrageRate
     );
     let demurrageSavingsAmount: number | null = null;
-    if (demurrageSavingsPercent != null && neg?.demurrageRate) {
-      const finalRate = parseFloat(neg.demurrageRate.replace(/[^0-9.]/g, ''));
-      demurrageSavingsAmount = (neg.highestDemurrageIndication ?? 0) - finalRate;
+    if (demurrageSavingsPercent != null && finalDemurrageRate != null) {
+      demurrageSavingsAmount = (neg?.highestDemurrageIndication ?? 0) - finalDemurrageRate;
     }
 
     // Demurrage last day improvement
     let demurrageLastDayImprovement: number | null = null;
     let demurrageLastDayImprovementPercent: number | null = null;
-    if (neg?.firstDemurrageLastDay && neg?.demurrageRate) {
-      const finalRate = parseFloat(neg.demurrageRate.replace(/[^0-9.]/g, ''));
-      const improvement = neg.firstDemurrageLastDay - finalRate;
+    if (neg?.firstDemurrageLastDay && finalDemurrageRate != null) {
+      const improvement = neg.firstDemurrageLastDay - finalDemurrageRate;
       if (improvement > 0) {
         demurrageLastDayImprovement = improvement;
         demurrageLastDayImprovementPercent = (improvement / neg.firstDemurrageLastDay) * 100;
@@ -283,6 +291,7 @@ export function FixtureSidebar({
             fixture={fixture}
             fieldChangeData={fieldChangeData}
             financialAnalytics={financialAnalytics}
+            negotiationRounds={negotiationRounds}
           />
           <FixtureSidebarActivity
             fixture={fixture}
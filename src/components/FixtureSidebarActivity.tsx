@@ -1,4 +1,6 @@
+import { useState } from "react";
 import {
+  Button,
   TabsContent,
   Card,
   ActivityLog,
@@ -13,8 +15,11 @@ import {
   FormattedActivityLogDescription,
   ActivityLogExpandableContent,
 } from "./ActivityLogDescription";
+import { FieldHistory } from "./FieldHistory";
+import { ContractRedline } from "./ContractRedline";
 import type { ActivityLogEntry } from "../types/activity";
 import type { FixtureData } from "../routes/Fixtures";
+import type { Id } from "../../convex/_generated/dataModel";
 
 export function FixtureSidebarActivity({
   fixture,
@@ -23,6 +28,19 @@ export function FixtureSidebarActivity({
   fixture: FixtureData;
   allActivityLogs: ActivityLogEntry[];
 }) {
+  // Entities whose field-by-field history is expanded
+  const [fieldHistoryOpen, setFieldHistoryOpen] = useState<Record<string, boolean>>({});
+
+  const toggleFieldHistory = (entityId: string) =>
+    setFieldHistoryOpen((prev) => ({ ...prev, [entityId]: !prev[entityId] }));
+
+  // Whether the redline between contract versions is shown
+  const [redlineOpen, setRedlineOpen] = useState(false);
+
+  const negotiationId = fixture.negotiation?._id;
+  const contractId = fixture.contract?._id;
+  const isRecap = fixture.status.startsWith("recap-manager-");
+
   return (
     <TabsContent
       value="activity"
@@ -45,9 +63,21 @@ export function FixtureSidebarActivity({
 
               return (
                 <Card className="p-6">
-                  <h3 className="mb-6 text-body-lg font-semibold text-[var(--color-text-primary)]">
-                    Negotiation
-                  </h3>
+                  <div className="mb-6 flex items-center justify-between">
+                    <h3 className="text-body-lg font-semibold text-[var(--color-text-primary)]">
+                      Negotiation
+                    </h3>
+                    {negotiationId && (
+                      <Button variant="ghost" size="s" onClick={() => toggleFieldHistory(negotiationId)}>
+                        {fieldHistoryOpen[negotiationId] ? "Hide field history" : "Show field history"}
+                      </Button>
+                    )}
+                  </div>
+                  {negotiationId && fieldHistoryOpen[negotiationId] && (
+                    <div className="mb-6">
+                      <FieldHistory entityType="negotiation" entityId={negotiationId} />
+                    </div>
+                  )}
                   <ActivityLog separatorThreshold={86400000}>
                     {negotiationLogs.map((entry, index) => {
                       const userName = entry.user?.name || 'System';
@@ -117,9 +147,35 @@ export function FixtureSidebarActivity({
 
               return (
                 <Card className="p-6">
-                  <h3 className="mb-6 text-body-lg font-semibold text-[var(--color-text-primary)]">
-                    Contract
-                  </h3>
+                  <div className="mb-6 flex items-center justify-between">
+                    <h3 className="text-body-lg font-semibold text-[var(--color-text-primary)]">
+                      Contract
+                    </h3>
+                    {contractId && (
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="s" onClick={() => setRedlineOpen(!redlineOpen)}>
+                          {redlineOpen ? "Hide comparison" : "Compare versions"}
+                        </Button>
+                        <Button variant="ghost" size="s" onClick={() => toggleFieldHistory(contractId)}>
+                          {fieldHistoryOpen[contractId] ? "Hide field history" : "Show field history"}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {contractId && redlineOpen && (
+                    <div className="mb-6">
+                      {isRecap ? (
+                        <ContractRedline recapId={contractId as unknown as Id<"recap_managers">} />
+                      ) : (
+                        <ContractRedline contractId={contractId} />
+                      )}
+                    </div>
+                  )}
+                  {contractId && fieldHistoryOpen[contractId] && (
+                    <div className="mb-6">
+                      <FieldHistory entityType="contract" entityId={contractId} />
+                    </div>
+                  )}
                   <ActivityLog separatorThreshold={86400000}>
                     {contractLogs.map((entry, index) => {
                       const userName = entry.user?.name || 'System';
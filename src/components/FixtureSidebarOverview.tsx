@@ -1,3 +1,4 @@
+import type { ComponentProps } from "react";
 import {
   TabsContent,
   FixtureStatus,
@@ -25,6 +26,9 @@ import {
 } from "@rafal.lemieszewski/tide-ui";
 import { CheckCircle } from "lucide-react";
 import { ApprovalSignatureRow } from "./ApprovalSignatureRow";
+import { CharterPartyDocument } from "./CharterPartyDocument";
+import { LiftingSchedule } from "./LiftingSchedule";
+import { NegotiationRoundsLadder } from "./NegotiationRoundsLadder";
 import {
   formatLaycanRange,
   formatCargo,
@@ -37,6 +41,7 @@ import {
 import { getStatusLabel, getCompanyInitials } from "../routes/Fixtures";
 import type { FixtureData } from "../routes/Fixtures";
 import type { FieldChangeData } from "../types/fixture";
+import type { Id } from "../../convex/_generated/dataModel";
 
 // ============================================================================
 // Change History Types and Helpers
@@ -187,6 +192,7 @@ export interface FixtureSidebarOverviewProps {
   fixture: FixtureData;
   fieldChangeData: FieldChangeDataProps;
   financialAnalytics: FinancialAnalyticsProps;
+  negotiationRounds?: ComponentProps<typeof NegotiationRoundsLadder>["rounds"];
 }
 
 // ============================================================================
@@ -197,6 +203,7 @@ export function FixtureSidebarOverview({
   fixture,
   fieldChangeData,
   financialAnalytics,
+  negotiationRounds,
 }: FixtureSidebarOverviewProps) {
   return (
     <TabsContent
@@ -416,11 +423,37 @@ export function FixtureSidebarOverview({
                 </AttributesItem>
               )}
 
-              {fixture.contract?.fullCpChainStorageId && (
-                <AttributesItem hidden>
+              {fixture.contract && (
+                <AttributesItem>
                   <AttributesRow>
                     <AttributesLabel>Full CP chain</AttributesLabel>
-                    <AttributesValue>Available</AttributesValue>
+                    <AttributesValue>
+                      {/* Wet-market rows carry a recap manager in the contract slot */}
+                      {fixture.status.startsWith("recap-manager-") ? (
+                        <CharterPartyDocument
+                          recapId={fixture.contract._id as unknown as Id<"recap_managers">}
+                        />
+                      ) : (
+                        <CharterPartyDocument contractId={fixture.contract._id} />
+                      )}
+                    </AttributesValue>
+                  </AttributesRow>
+                </AttributesItem>
+              )}
+
+              {fixture.contract?.contractType === "coa" && (
+                <AttributesItem>
+                  <AttributesRow>
+                    <AttributesLabel>Lifting schedule</AttributesLabel>
+                    <AttributesValue>
+                      {fixture.status.startsWith("recap-manager-") ? (
+                        <LiftingSchedule
+                          recapId={fixture.contract._id as unknown as Id<"recap_managers">}
+                        />
+                      ) : (
+                        <LiftingSchedule contractId={fixture.contract._id} />
+                      )}
+                    </AttributesValue>
                   </AttributesRow>
                 </AttributesItem>
               )}
@@ -496,9 +529,9 @@ export function FixtureSidebarOverview({
 
               <FieldChangeHistory
                 label="Freight Rate"
-                value={fixture.contract?.freightRate
-                  ? formatRate(parseFloat(fixture.contract.freightRate.replace(/[^0-9.]/g, '')), "/mt")
-                  : "Not specified"}
+                value={fixture.contract?.rates?.freight?.basis === "per-tonne"
+                  ? formatRate(fixture.contract.rates.freight.value, "/mt")
+                  : fixture.contract?.freightRate || "Not specified"}
                 changes={fieldChangeData.freightRateChanges}
               />
               <FieldChangeHistory
@@ -772,6 +805,14 @@ export function FixtureSidebarOverview({
             </AttributesGroup>
           </AttributesList>
         </Card>
+
+        {/* Negotiation Rounds Card */}
+        {fixture.negotiation && (
+          <Card className="p-6">
+            <h3 className="mb-4 text-body-lg font-semibold text-[var(--color-text-primary)]">Negotiation rounds</h3>
+            <NegotiationRoundsLadder rounds={negotiationRounds ?? []} />
+          </Card>
+        )}
       </div>
     </TabsContent>
   );
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+interface InsertClauseDialogProps {
+  clause: Doc<"clauses">;
+  onClose: () => void;
+}
+
+// The CP itself rather than one of its addenda
+const MAIN_DOCUMENT = "main";
+
+export function InsertClauseDialog({ clause, onClose }: InsertClauseDialogProps) {
+  // "contract:<id>" or "recap:<id>"
+  const [document, setDocument] = useState("");
+  const [addendaId, setAddendaId] = useState(MAIN_DOCUMENT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const contracts = useQuery(api.contracts.list);
+  const recaps = useQuery(api.recapManagers.list);
+
+  const [documentType, documentId] = document.split(":");
+  const contract = useQuery(
+    api.contracts.getById,
+    documentType === "contract" ? { contractId: documentId as Id<"contracts"> } : "skip"
+  );
+  const recap = useQuery(
+    api.recapManagers.getById,
+    documentType === "recap" ? { recapId: documentId as Id<"recap_managers"> } : "skip"
+  );
+  const addenda = (documentType === "contract" ? contract?.addenda : recap?.addenda) ?? [];
+
+  const insertClause = useMutation(api.clauses.insertIntoContract);
+
+  const handleSubmit = async () => {
+    if (!document) return;
+
+    const target =
+      documentType === "contract"
+        ? addendaId === MAIN_DOCUMENT
+          ? { type: "contract" as const, contractId: documentId as Id<"contracts"> }
+          : { type: "contract-addenda" as const, addendaId: addendaId as Id<"contract_addenda"> }
+        : addendaId === MAIN_DOCUMENT
+          ? { type: "recap" as const, recapId: documentId as Id<"recap_managers"> }
+          : { type: "recap-addenda" as const, addendaId: addendaId as Id<"recap_addenda"> };
+
+    setIsSaving(true);
+    try {
+      await insertClause({ clauseId: clause._id, target });
+      toast.success(`Inserted ${clause.title} (version ${clause.currentVersion})`);
+      onClose();
+    } catch (error) {
+      console.error("Failed to insert clause:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to insert clause");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !isSaving && !!document;
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Insert {clause.title}</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Contract</label>
+            <Select
+              value={document}
+              onValueChange={(val) => {
+                setDocument(val);
+                setAddendaId(MAIN_DOCUMENT);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose contract or recap…" />
+              </SelectTrigger>
+              <SelectContent>
+                {contracts?.map((item) => (
+                  <SelectItem key={item._id} value={`contract:${item._id}`}>
+                    {item.contractNumber}
+                  </SelectItem>
+                ))}
+                {recaps?.map((item) => (
+                  <SelectItem key={item._id} value={`recap:${item._id}`}>
+                    {item.recapNumber}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {document && (
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Insert into</label>
+              <Select value={addendaId} onValueChange={setAddendaId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MAIN_DOCUMENT}>Charter party</SelectItem>
+                  {addenda.map((addendum) => (
+                    <SelectItem key={addendum._id} value={addendum._id}>
+                      Addendum {addendum.addendaNumber}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <p className="text-body-sm text-[var(--color-text-secondary)]">
+            Version {clause.currentVersion} will be recorded as the agreed wording.
+          </p>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Inserting…" : "Insert clause"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { Button, toast } from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { formatLaycanRange, formatQuantity } from "../utils/dataUtils";
+import { LIFTING_FLAG_LABELS, VOYAGE_STATUS_LABELS, type VoyageNominationStep } from "../types/coa";
+import { CoaTermsDialog } from "./CoaTermsDialog";
+import { VoyageNominationDialog } from "./VoyageNominationDialog";
+
+interface LiftingScheduleProps {
+  contractId?: Id<"contracts">;
+  recapId?: Id<"recap_managers">;
+}
+
+/**
+ * LiftingSchedule
+ *
+ * A COA's lifting schedule: shipped against contracted quantity within its
+ * tolerance, and each voyage's lifting window with its vessel and laycan
+ * nominations, overdue deadlines flagged.
+ */
+export function LiftingSchedule({ contractId, recapId }: LiftingScheduleProps) {
+  const schedule = useQuery(api.coa.getLiftingSchedule, { contractId, recapId });
+  const generateSchedule = useMutation(api.coa.generateSchedule);
+  const cancelVoyage = useMutation(api.coa.cancelVoyage);
+
+  const [isTermsDialogOpen, setIsTermsDialogOpen] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [nomination, setNomination] = useState<{
+    step: VoyageNominationStep;
+    voyageId: Id<"voyages">;
+  } | null>(null);
+
+  if (schedule === undefined) {
+    return <p className="text-body-sm text-[var(--color-text-secondary)]">Loading schedule…</p>;
+  }
+
+  const { terms, position, voyages, quantityUnit } = schedule;
+  const nominatedVoyage = nomination
+    ? voyages.find((voyage) => voyage._id === nomination.voyageId)
+    : undefined;
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await generateSchedule({ contractId, recapId });
+      toast.success("Lifting schedule generated");
+    } catch (error) {
+      console.error("Failed to generate lifting schedule:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to generate lifting schedule");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCancel = async (voyageId: Id<"voyages">) => {
+    try {
+      await cancelVoyage({ voyageId });
+      toast.success("Voyage cancelled");
+    } catch (error) {
+      console.error("Failed to cancel voyage:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel voyage");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {terms ? (
+          <span className="text-body-sm text-[var(--color-text-secondary)]">
+            {formatLaycanRange(terms.periodStart, terms.periodEnd)} · {terms.liftings} liftings · ±
+            {terms.tolerancePercent}%
+          </span>
+        ) : (
+          <span className="text-body-sm text-[var(--color-text-tertiary)]">No COA terms set</span>
+        )}
+        <Button variant="secondary" size="s" onClick={() => setIsTermsDialogOpen(true)}>
+          {terms ? "Edit terms" : "Set terms"}
+        </Button>
+        {terms && (
+          <Button variant="secondary" size="s" onClick={handleGenerate} disabled={isGenerating}>
+            {isGenerating ? "Generating…" : voyages.length > 0 ? "Regenerate" : "Generate schedule"}
+          </Button>
+        )}
+      </div>
+
+      {terms && (
+        <div className="flex flex-col gap-1">
+          <span className="text-body-sm text-[var(--color-text-primary)]">
+            {formatQuantity(position.shipped, quantityUnit)} shipped of{" "}
+            {formatQuantity(position.contracted, quantityUnit)} ·{" "}
+            {formatQuantity(position.remaining, quantityUnit)} remaining
+          </span>
+          <span
+            className={`text-body-xs ${
+              position.flag === "on-track"
+                ? "text-[var(--color-text-secondary)]"
+                : "text-[var(--color-text-danger)]"
+            }`}
+          >
+            {LIFTING_FLAG_LABELS[position.flag]}
+            {position.periodEnded ? " (period ended)" : ""} · tolerance{" "}
+            {formatQuantity(position.minQuantity)}–{formatQuantity(position.maxQuantity, quantityUnit)}
+          </span>
+        </div>
+      )}
+
+      {voyages.map((voyage) => {
+        const open = voyage.status === "scheduled" || voyage.status === "nominated";
+        return (
+          <div
+            key={voyage._id}
+            className="flex flex-col gap-1 border-t border-[var(--color-border-primary-subtle)] py-2 first:border-t-0"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-body-sm font-medium text-[var(--color-text-primary)]">
+                Voyage {voyage.voyageNumber}
+                {voyage.vessel ? ` · ${voyage.vessel.name}` : ""}
+              </span>
+              <span className="text-body-xs text-[var(--color-text-tertiary)]">
+                {VOYAGE_STATUS_LABELS[voyage.status ?? "scheduled"] ?? voyage.status}
+              </span>
+            </div>
+            <span className="text-body-xs text-[var(--color-text-secondary)]">
+              {voyage.laycanStart && voyage.laycanEnd
+                ? `Laycan ${formatLaycanRange(voyage.laycanStart, voyage.laycanEnd)}`
+                : voyage.windowStart && voyage.windowEnd
+                  ? `Window ${formatLaycanRange(voyage.windowStart, voyage.windowEnd)}`
+                  : "No window"}
+              {" · "}
+              {voyage.status === "completed"
+                ? `${formatQuantity(voyage.shippedQuantity ?? 0, quantityUnit)} shipped`
+                : formatQuantity(voyage.cargoQuantity ?? 0, quantityUnit)}
+            </span>
+            {(voyage.vesselNominationOverdue || voyage.laycanNominationOverdue) && (
+              <span className="text-body-xs text-[var(--color-text-danger)]">
+                {[
+                  voyage.vesselNominationOverdue && "Vessel nomination overdue",
+                  voyage.laycanNominationOverdue && "Laycan nomination overdue",
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+            )}
+            {open && (
+              <div className="flex flex-wrap gap-1">
+                <Button
+                  variant="ghost"
+                  size="s"
+                  onClick={() => setNomination({ step: "vessel", voyageId: voyage._id })}
+                >
+                  {voyage.vesselNominatedAt ? "Change vessel" : "Nominate vessel"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="s"
+                  onClick={() => setNomination({ step: "laycan", voyageId: voyage._id })}
+                >
+                  {voyage.laycanNominatedAt ? "Change laycan" : "Nominate laycan"}
+                </Button>
+                {voyage.status === "nominated" && (
+                  <Button
+                    variant="ghost"
+                    size="s"
+                    onClick={() => setNomination({ step: "lifting", voyageId: voyage._id })}
+                  >
+                    Record lifting
+                  </Button>
+                )}
+                <Button variant="ghost" size="s" onClick={() => handleCancel(voyage._id)}>
+                  Cancel voyage
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {isTermsDialogOpen && (
+        <CoaTermsDialog
+          contractId={contractId}
+          recapId={recapId}
+          terms={terms}
+          onClose={() => setIsTermsDialogOpen(false)}
+        />
+      )}
+      {nomination && nominatedVoyage && (
+        <VoyageNominationDialog
+          step={nomination.step}
+          voyage={nominatedVoyage}
+          quantityUnit={quantityUnit}
+          onClose={() => setNomination(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Badge } from "@rafal.lemieszewski/tide-ui";
+import { formatDateTime } from "../utils/dataUtils";
+
+interface NegotiationRound {
+  _id: string;
+  roundNumber: number;
+  side: "bid" | "offer";
+  firm: boolean;
+  rate?: string;
+  freightRate?: string;
+  demurrageRate?: string;
+  rates?: {
+    freight?: { value: number };
+  };
+  termsChanged: string[];
+  timestamp: number;
+  user?: {
+    _id: string;
+    name: string;
+  } | null;
+}
+
+interface NegotiationRoundsLadderProps {
+  rounds: NegotiationRound[];
+}
+
+/**
+ * NegotiationRoundsLadder
+ *
+ * Round-by-round list of the bids and offers exchanged in a negotiation,
+ * showing how far the freight moved between counters.
+ */
+export function NegotiationRoundsLadder({ rounds }: NegotiationRoundsLadderProps) {
+  if (rounds.length === 0) {
+    return (
+      <p className="text-body-sm text-[var(--color-text-secondary)]">
+        No rounds recorded yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col">
+      {rounds.map((round, index) => {
+        const previousFreight = index > 0 ? rounds[index - 1].rates?.freight?.value : undefined;
+        const freight = round.rates?.freight?.value;
+        const freightMove =
+          previousFreight != null && freight != null ? freight - previousFreight : null;
+
+        return (
+          <div
+            key={round._id}
+            className="flex items-start justify-between gap-3 border-t border-[var(--color-border-primary-subtle)] py-2 first:border-t-0"
+          >
+            <div className="flex min-w-0 items-start gap-3">
+              <span className="w-6 shrink-0 text-body-sm font-medium text-[var(--color-text-tertiary)]">
+                {round.roundNumber}
+              </span>
+              <div className="flex min-w-0 flex-col gap-1">
+                <div className="flex items-center gap-2">
+                  <Badge intent={round.side === "offer" ? "information" : "warning"} size="xs">
+                    {round.firm ? "Firm" : "Indicative"} {round.side}
+                  </Badge>
+                  {round.rate && (
+                    <span className="text-body-sm font-medium text-[var(--color-text-primary)]">
+                      {round.rate}
+                    </span>
+                  )}
+                </div>
+                <span className="text-body-xs text-[var(--color-text-secondary)]">
+                  {[
+                    round.freightRate && `Freight ${round.freightRate}`,
+                    round.demurrageRate && `Demurrage ${round.demurrageRate}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" • ") || "No rates quoted"}
+                </span>
+                {round.termsChanged.length > 0 && (
+                  <span className="text-body-xs text-[var(--color-text-tertiary)]">
+                    Changed: {round.termsChanged.join(", ")}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="flex shrink-0 flex-col items-end gap-1">
+              {freightMove != null && freightMove !== 0 && (
+                <span
+                  className={`text-body-xs font-variant-numeric-tabular ${
+                    freightMove < 0 ? "text-[var(--green-600)]" : "text-[var(--red-600)]"
+                  }`}
+                >
+                  {freightMove > 0 ? "+" : ""}
+                  {freightMove.toFixed(2)}
+                </span>
+              )}
+              <span className="text-body-xs text-[var(--color-text-tertiary)]">
+                {formatDateTime(round.timestamp)}
+              </span>
+              {round.user && (
+                <span className="text-body-xs text-[var(--color-text-tertiary)]">
+                  {round.user.name}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+interface NewOrderDialogProps {
+  organizationId: Id<"organizations">;
+  onClose: () => void;
+}
+
+type OrderType = "buy" | "sell" | "charter";
+type FreightRateType = "worldscale" | "lumpsum" | "per-tonne";
+
+export function NewOrderDialog({ organizationId, onClose }: NewOrderDialogProps) {
+  const [title, setTitle] = useState("");
+  const [type, setType] = useState<OrderType>("charter");
+  const [cargoTypeId, setCargoTypeId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [loadPortId, setLoadPortId] = useState("");
+  const [dischargePortId, setDischargePortId] = useState("");
+  const [laycanStart, setLaycanStart] = useState("");
+  const [laycanEnd, setLaycanEnd] = useState("");
+  const [freightRate, setFreightRate] = useState("");
+  const [freightRateType, setFreightRateType] = useState<FreightRateType>("per-tonne");
+  const [demurrageRate, setDemurrageRate] = useState("");
+  const [validityHours, setValidityHours] = useState("24");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const cargoTypes = useQuery(api.cargo_types.list);
+  const ports = useQuery(api.ports.list);
+
+  const createOrder = useMutation(api.orders.create);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await createOrder({
+        organizationId,
+        title: title.trim() || undefined,
+        type,
+        cargoTypeId: (cargoTypeId || undefined) as Id<"cargo_types"> | undefined,
+        quantity: quantity ? Number(quantity) : undefined,
+        quantityUnit: quantity ? "MT" : undefined,
+        loadPortId: (loadPortId || undefined) as Id<"ports"> | undefined,
+        dischargePortId: (dischargePortId || undefined) as Id<"ports"> | undefined,
+        laycanStart: laycanStart ? new Date(laycanStart).getTime() : undefined,
+        laycanEnd: laycanEnd ? new Date(laycanEnd).getTime() : undefined,
+        freightRate: freightRate.trim() || undefined,
+        freightRateType,
+        demurrageRate: demurrageRate.trim() || undefined,
+        validityHours: validityHours ? Number(validityHours) : undefined,
+      });
+
+      toast.success("Order created");
+      onClose();
+    } catch (error) {
+      console.error("Failed to create order:", error);
+      toast.error("Failed to create order");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit = !isSaving && (!laycanStart || !laycanEnd || laycanStart <= laycanEnd);
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New order</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Title</label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Iron ore Tubarão → Qingdao"
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Type</label>
+              <Select value={type} onValueChange={(val) => setType(val as OrderType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="charter">Charter</SelectItem>
+                  <SelectItem value="buy">Buy</SelectItem>
+                  <SelectItem value="sell">Sell</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Cargo</label>
+              <Select value={cargoTypeId} onValueChange={setCargoTypeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose cargo…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cargoTypes?.map((cargoType) => (
+                    <SelectItem key={cargoType._id} value={cargoType._id}>
+                      {cargoType.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Load port</label>
+              <Select value={loadPortId} onValueChange={setLoadPortId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose port…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ports?.map((port) => (
+                    <SelectItem key={port._id} value={port._id}>
+                      {port.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Discharge port</label>
+              <Select value={dischargePortId} onValueChange={setDischargePortId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose port…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ports?.map((port) => (
+                    <SelectItem key={port._id} value={port._id}>
+                      {port.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Quantity (MT)</label>
+              <Input
+                type="number"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder="75000"
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Laycan from</label>
+              <Input type="date" value={laycanStart} onChange={(e) => setLaycanStart(e.target.value)} />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Laycan to</label>
+              <Input type="date" value={laycanEnd} onChange={(e) => setLaycanEnd(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Freight rate</label>
+              <Input
+                value={freightRate}
+                onChange={(e) => setFreightRate(e.target.value)}
+                placeholder="$25.12/mt"
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Rate basis</label>
+              <Select
+                value={freightRateType}
+                onValueChange={(val) => setFreightRateType(val as FreightRateType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="per-tonne">Per tonne</SelectItem>
+                  <SelectItem value="worldscale">Worldscale</SelectItem>
+                  <SelectItem value="lumpsum">Lumpsum</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Demurrage</label>
+              <Input
+                value={demurrageRate}
+                onChange={(e) => setDemurrageRate(e.target.value)}
+                placeholder="$15,000/day"
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Validity (hours)</label>
+              <Input
+                type="number"
+                value={validityHours}
+                onChange={(e) => setValidityHours(e.target.value)}
+              />
+            </div>
+          </div>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Creating…" : "Create order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMutation, useQuery } from "convex/react";
+import { Button, toast } from "@rafal.lemieszewski/tide-ui";
+import { Download, Pause, Play, Trash2 } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { describeExportSchedule } from "../utils/exportHelpers";
+import { formatTimestamp } from "../utils/dataUtils";
+
+interface ScheduledExportsListProps {
+  bookmarkId: Id<"user_bookmarks">;
+}
+
+const FORMAT_LABELS = { csv: "CSV", excel: "Excel", pdf: "PDF" };
+
+/**
+ * The user's scheduled exports of a bookmark, with their latest run and
+ * controls to pause, resume or delete them.
+ */
+export function ScheduledExportsList({ bookmarkId }: ScheduledExportsListProps) {
+  const schedules = useQuery(api.scheduledExports.listForBookmark, { bookmarkId });
+  const setActive = useMutation(api.scheduledExports.setActive);
+  const remove = useMutation(api.scheduledExports.remove);
+
+  if (!schedules || schedules.length === 0) return null;
+
+  const handleSetActive = async (scheduledExportId: Id<"scheduled_exports">, isActive: boolean) => {
+    try {
+      await setActive({ scheduledExportId, isActive });
+      toast.success(isActive ? "Scheduled export resumed" : "Scheduled export paused");
+    } catch (error) {
+      if (import.meta.env.DEV) console.error("Failed to update scheduled export:", error);
+      toast.error("Failed to update scheduled export");
+    }
+  };
+
+  const handleRemove = async (scheduledExportId: Id<"scheduled_exports">) => {
+    try {
+      await remove({ scheduledExportId });
+      toast.success("Scheduled export deleted");
+    } catch (error) {
+      if (import.meta.env.DEV) console.error("Failed to delete scheduled export:", error);
+      toast.error("Failed to delete scheduled export");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-label-md font-medium text-[var(--color-text-primary)]">Your schedules</span>
+      <ul className="flex flex-col rounded-m border border-[var(--color-border-primary-subtle)]">
+        {schedules.map((schedule) => {
+          const lastRun = schedule.runs[0];
+          return (
+            <li
+              key={schedule._id}
+              className="flex items-start justify-between gap-3 border-b border-[var(--color-border-primary-subtle)] p-3 last:border-b-0"
+            >
+              <div className="flex min-w-0 flex-col gap-0.5">
+                <span className="text-body-sm font-medium text-[var(--color-text-primary)]">
+                  {FORMAT_LABELS[schedule.format]} · {describeExportSchedule(schedule)}
+                  {!schedule.isActive && " (paused)"}
+                </span>
+                <span className="truncate text-caption-sm text-[var(--color-text-secondary)]">
+                  To {schedule.recipients.join(", ")}
+                </span>
+                {lastRun && (
+                  <span
+                    className={`text-caption-sm ${lastRun.status === "failed" ? "text-[var(--color-text-danger)]" : "text-[var(--color-text-secondary)]"}`}
+                  >
+                    {lastRun.status === "failed"
+                      ? `Failed ${formatTimestamp(lastRun.createdAt)}${lastRun.error ? `: ${lastRun.error}` : ""}`
+                      : `Sent ${formatTimestamp(lastRun.createdAt)} (${lastRun.rowCount ?? 0} rows${lastRun.fixtureLimit ? `, first ${lastRun.fixtureLimit} fixtures only` : ""})`}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-shrink-0 gap-1">
+                {lastRun?.fileUrl && (
+                  <Button
+                    variant="ghost"
+                    size="s"
+                    icon={Download}
+                    onClick={() => window.open(lastRun.fileUrl ?? undefined, "_blank")}
+                    aria-label="Download latest file"
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="s"
+                  icon={schedule.isActive ? Pause : Play}
+                  onClick={() => handleSetActive(schedule._id, !schedule.isActive)}
+                  aria-label={schedule.isActive ? "Pause schedule" : "Resume schedule"}
+                />
+                <Button
+                  variant="ghost"
+                  size="s"
+                  icon={Trash2}
+                  onClick={() => handleRemove(schedule._id)}
+                  aria-label="Delete schedule"
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
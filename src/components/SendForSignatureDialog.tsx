@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useAction, useQuery } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import { formatEnumLabel } from "../utils/dataUtils";
+import type { ESignProviderName } from "../types/esign";
+
+interface SendForSignatureDialogProps {
+  signatureType: "contract" | "addenda";
+  // Signature rows still waiting to be signed
+  pendingSignatures: Array<{
+    _id: string;
+    partyRole: string;
+    companyName: string;
+  }>;
+  onClose: () => void;
+}
+
+/**
+ * SendForSignatureDialog
+ *
+ * Sends a pending signature row to a signer as an envelope through one of
+ * the configured e-signature providers.
+ */
+export function SendForSignatureDialog({
+  signatureType,
+  pendingSignatures,
+  onClose,
+}: SendForSignatureDialogProps) {
+  const providers = useQuery(api.esignEnvelopes.listProviders);
+  const [signatureId, setSignatureId] = useState(pendingSignatures[0]?._id ?? "");
+  const [provider, setProvider] = useState<string>("");
+  const [signerName, setSignerName] = useState("");
+  const [signerEmail, setSignerEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const sendForSignature = useAction(api.esignEnvelopes.sendForSignature);
+
+  const selectedProvider = provider || providers?.[0]?.name || "";
+
+  const handleSend = async () => {
+    if (!signatureId || !selectedProvider) return;
+
+    setIsSending(true);
+    try {
+      await sendForSignature({
+        signatureId,
+        signatureType,
+        provider: selectedProvider as ESignProviderName,
+        signerName,
+        signerEmail,
+      });
+      toast.success(`Sent to ${signerName.trim()} for signature`);
+      onClose();
+    } catch (error) {
+      console.error("Failed to send for signature:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send for signature");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const canSend =
+    !isSending && !!signatureId && !!selectedProvider && !!signerName.trim() && !!signerEmail.trim();
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Send for signature</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          {providers && providers.length === 0 ? (
+            <span className="text-body-sm text-[var(--color-text-secondary)]">
+              No e-signature provider is configured for this deployment.
+            </span>
+          ) : (
+            <>
+              <div className="flex flex-col gap-1.5">
+                <label className="text-body-sm text-[var(--color-text-primary)]">Party</label>
+                <Select value={signatureId} onValueChange={setSignatureId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pendingSignatures.map((signature) => (
+                      <SelectItem key={signature._id} value={signature._id}>
+                        {formatEnumLabel(signature.partyRole)} · {signature.companyName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="flex flex-col gap-1.5">
+                  <label className="text-body-sm text-[var(--color-text-primary)]">Signer name</label>
+                  <Input value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <label className="text-body-sm text-[var(--color-text-primary)]">Signer email</label>
+                  <Input
+                    type="email"
+                    value={signerEmail}
+                    onChange={(e) => setSignerEmail(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-col gap-1.5">
+                <label className="text-body-sm text-[var(--color-text-primary)]">Provider</label>
+                <Select value={selectedProvider} onValueChange={setProvider}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Loading…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {providers?.map((item) => (
+                      <SelectItem key={item.name} value={item.name}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSending}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSend} disabled={!canSend}>
+            {isSending ? "Sending…" : "Send"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogBody,
+  DialogFooter,
+  DialogTitle,
+  RadioGroup,
+  RadioGroupItem,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { BookmarkSharing, BookmarkVisibility } from "../hooks/useFixtureBookmarks";
+
+interface ShareBookmarkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookmarkName: string;
+  organizationId: Id<"organizations">;
+  currentUserId: Id<"users"> | undefined;
+  sharing: BookmarkSharing;
+  onSave: (visibility: BookmarkVisibility, sharedWithUserIds: Id<"users">[]) => Promise<void>;
+}
+
+const OPTIONS: { value: BookmarkVisibility; label: string; description: string }[] = [
+  {
+    value: "private",
+    label: "Private",
+    description: "Only you can see and edit this bookmark.",
+  },
+  {
+    value: "shared",
+    label: "Specific people",
+    description: "The people you choose can view it and duplicate it to their own bookmarks.",
+  },
+  {
+    value: "organization",
+    label: "Organisation",
+    description: "Everyone in your organisation can view it and duplicate it to their own bookmarks.",
+  },
+];
+
+export function ShareBookmarkDialog({
+  open,
+  onOpenChange,
+  bookmarkName,
+  organizationId,
+  currentUserId,
+  sharing,
+  onSave,
+}: ShareBookmarkDialogProps) {
+  const [visibility, setVisibility] = useState<BookmarkVisibility>(sharing.visibility);
+  const [selectedUserIds, setSelectedUserIds] = useState<Id<"users">[]>(sharing.sharedWithUserIds);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const members = useQuery(
+    api.memberships.getOrganizationMembers,
+    open && visibility === "shared" ? { organizationId } : "skip"
+  );
+  const teammates = members?.filter((member) => member.userId !== currentUserId) ?? [];
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setVisibility(sharing.visibility);
+      setSelectedUserIds(sharing.sharedWithUserIds);
+    }
+  }, [open, sharing]);
+
+  const toggleUser = (userId: Id<"users">) =>
+    setSelectedUserIds((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    );
+
+  const isDirty =
+    visibility !== sharing.visibility ||
+    (visibility === "shared" &&
+      [...selectedUserIds].sort().join() !== [...sharing.sharedWithUserIds].sort().join());
+  const canSave = isDirty && (visibility !== "shared" || selectedUserIds.length > 0);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(visibility, selectedUserIds);
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share "{bookmarkName}"</DialogTitle>
+        </DialogHeader>
+        <DialogBody className="flex flex-col gap-4">
+          <RadioGroup
+            value={visibility}
+            onValueChange={(val) => setVisibility(val as BookmarkVisibility)}
+            className="flex flex-col gap-4"
+          >
+            {OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-start gap-3 cursor-pointer rounded-l border border-[var(--color-border-primary-subtle)] p-4 transition-colors hover:border-[var(--color-border-primary-hovered)]"
+                style={visibility === option.value ? { borderColor: "var(--color-border-brand)" } : {}}
+              >
+                <RadioGroupItem value={option.value} className="mt-0.5" />
+                <div className="flex flex-col gap-0.5">
+                  <span className="text-body-md font-medium text-[var(--color-text-primary)]">{option.label}</span>
+                  <span className="text-body-sm text-[var(--color-text-secondary)]">{option.description}</span>
+                </div>
+              </label>
+            ))}
+          </RadioGroup>
+
+          {visibility === "shared" && (
+            <div className="flex flex-col gap-2 max-h-60 overflow-y-auto">
+              {members === undefined ? (
+                <span className="text-body-sm text-[var(--color-text-secondary)]">Loading members…</span>
+              ) : teammates.length === 0 ? (
+                <span className="text-body-sm text-[var(--color-text-secondary)]">
+                  No one else is in your organisation yet.
+                </span>
+              ) : (
+                teammates.map((member) => (
+                  <label key={member.userId} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedUserIds.includes(member.userId)}
+                      onChange={() => toggleUser(member.userId)}
+                    />
+                    <span className="text-body-sm text-[var(--color-text-primary)]">{member.name}</span>
+                    <span className="text-body-sm text-[var(--color-text-secondary)]">{member.email}</span>
+                  </label>
+                ))
+              )}
+            </div>
+          )}
+        </DialogBody>
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={!canSave || isSaving}>
+            {isSaving ? "Saving…" : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@rafal.lemieszewski/tide-ui";
+import { Users } from "lucide-react";
+import type { Bookmark } from "@rafal.lemieszewski/tide-ui/bookmarks";
+import type { SharedBookmark } from "../hooks/useFixtureBookmarks";
+
+interface SharedBookmarksMenuProps {
+  bookmarks: SharedBookmark[];
+  activeBookmarkId: string;
+  onSelect: (bookmark: Bookmark) => void;
+  onDuplicate: (id: string) => void;
+}
+
+/**
+ * Bookmarks teammates shared with the user, kept apart from the user's own
+ * tabs. Shared bookmarks are read-only; duplicating one makes an editable copy.
+ */
+export function SharedBookmarksMenu({
+  bookmarks,
+  activeBookmarkId,
+  onSelect,
+  onDuplicate,
+}: SharedBookmarksMenuProps) {
+  if (bookmarks.length === 0) return null;
+
+  const activeShared = bookmarks.find((b) => b.id === activeBookmarkId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={activeShared ? "secondary" : "ghost"}
+          icon={Users}
+          iconPosition="left"
+          className="h-[var(--size-m)] flex-shrink-0"
+        >
+          {activeShared ? activeShared.name : `Shared (${bookmarks.length})`}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        {bookmarks.map((bookmark) => (
+          <DropdownMenuItem
+            key={bookmark.id}
+            onClick={() => onSelect(bookmark)}
+            className="cursor-pointer"
+          >
+            <div className="flex w-full items-center justify-between gap-3">
+              <div className="flex min-w-0 flex-col">
+                <span
+                  className={`truncate text-body-sm ${bookmark.id === activeBookmarkId ? "font-medium" : ""} text-[var(--color-text-primary)]`}
+                >
+                  {bookmark.name}
+                </span>
+                <span className="truncate text-caption-sm text-[var(--color-text-secondary)]">
+                  {bookmark.ownerName}
+                </span>
+              </div>
+              <span className="text-caption-sm text-[var(--color-text-secondary)]">
+                {bookmark.isLoadingCount ? "…" : (bookmark.count ?? "–")}
+              </span>
+            </div>
+          </DropdownMenuItem>
+        ))}
+        {activeShared && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              icon="copy"
+              onClick={() => onDuplicate(activeShared.id)}
+              className="cursor-pointer"
+            >
+              Duplicate to my bookmarks
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
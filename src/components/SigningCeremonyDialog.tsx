@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useAction, useQuery } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { useUser } from "../hooks";
+import { formatEnumLabel } from "../utils/dataUtils";
+import { hashDocument } from "../utils/cpDocument";
+
+interface SigningCeremonyDialogProps {
+  documentUrl: string;
+  // Signature rows still waiting to be signed
+  pendingSignatures: Array<{
+    _id: Id<"contract_signatures">;
+    partyRole: string;
+    companyName: string;
+  }>;
+  onClose: () => void;
+}
+
+const SIGN_FOR_MYSELF = "self";
+
+/**
+ * SigningCeremonyDialog
+ *
+ * Signs the CP electronically: shows the SHA-256 of the exact document
+ * version under review and asks the signer to re-enter their password.
+ * The server re-hashes the stored file and refuses the signature if it
+ * no longer matches.
+ */
+export function SigningCeremonyDialog({
+  documentUrl,
+  pendingSignatures,
+  onClose,
+}: SigningCeremonyDialogProps) {
+  const { user } = useUser();
+  const [signatureId, setSignatureId] = useState<string>(pendingSignatures[0]?._id ?? "");
+  const [signFor, setSignFor] = useState<string>(SIGN_FOR_MYSELF);
+  const [documentHash, setDocumentHash] = useState<string | null>(null);
+  const [hashError, setHashError] = useState(false);
+  const [password, setPassword] = useState("");
+  const [isSigning, setIsSigning] = useState(false);
+
+  const signContract = useAction(api.esign.signContract);
+
+  const userOrganizations = useQuery(
+    api.organizations.getUserOrganizations,
+    user?._id ? { userId: user._id } : "skip"
+  );
+  const currentOrg = userOrganizations?.[0];
+  const actingFor = useQuery(
+    api.delegations.listActingFor,
+    currentOrg?._id ? { organizationId: currentOrg._id } : "skip"
+  );
+  const signingFor = actingFor?.filter((delegation) => delegation.authority.includes("sign")) ?? [];
+
+  // Hash the document being reviewed, exactly as stored
+  useEffect(() => {
+    let cancelled = false;
+    fetch(documentUrl)
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to load the charter party");
+        return response.blob();
+      })
+      .then(hashDocument)
+      .then((hash) => {
+        if (!cancelled) setDocumentHash(hash);
+      })
+      .catch((error) => {
+        console.error("Failed to hash charter party:", error);
+        if (!cancelled) setHashError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentUrl]);
+
+  const handleSign = async () => {
+    if (!signatureId || !documentHash || !password) return;
+
+    setIsSigning(true);
+    try {
+      const result = await signContract({
+        signatureId: signatureId as Id<"contract_signatures">,
+        password,
+        documentHash,
+        onBehalfOf: signFor === SIGN_FOR_MYSELF ? undefined : (signFor as Id<"users">),
+      });
+      if (result.stamped) {
+        toast.success("Contract signed");
+      } else {
+        toast.error("Signed, but the signature page could not be added to the PDF");
+      }
+      onClose();
+    } catch (error) {
+      console.error("Failed to sign contract:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to sign contract");
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const canSign = !isSigning && !!signatureId && !!documentHash && !!password;
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sign charter party</DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          <a
+            href={documentUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-body-sm text-[var(--color-text-link)] hover:underline"
+          >
+            Review the charter party
+          </a>
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">
+              Document fingerprint (SHA-256)
+            </label>
+            <code className="break-all rounded-m bg-[var(--color-surface-secondary)] p-2 text-body-xs">
+              {hashError ? "Could not load the document" : documentHash ?? "Calculating…"}
+            </code>
+          </div>
+
+          {pendingSignatures.length > 1 && (
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Sign for</label>
+              <Select value={signatureId} onValueChange={setSignatureId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {pendingSignatures.map((signature) => (
+                    <SelectItem key={signature._id} value={signature._id}>
+                      {formatEnumLabel(signature.partyRole)} · {signature.companyName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {signingFor.length > 0 && (
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Sign as</label>
+              <Select value={signFor} onValueChange={setSignFor}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SIGN_FOR_MYSELF}>Myself</SelectItem>
+                  {signingFor.map((delegation) => (
+                    <SelectItem key={delegation.delegationId} value={delegation.delegatorId}>
+                      On behalf of {delegation.delegatorName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-1.5">
+            <label className="text-body-sm text-[var(--color-text-primary)]">Password</label>
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+            <span className="text-body-xs text-[var(--color-text-tertiary)]">
+              By entering your password and selecting Sign, you agree to sign the document with
+              the fingerprint above electronically.
+            </span>
+          </div>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSigning}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSign} disabled={!canSign}>
+            {isSigning ? "Signing…" : "Sign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+  DialogFooter,
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { formatLaycanRange } from "../utils/dataUtils";
+import type { VoyageNominationStep } from "../types/coa";
+
+interface VoyageNominationDialogProps {
+  step: VoyageNominationStep;
+  voyage: {
+    _id: Id<"voyages">;
+    voyageNumber: number;
+    vesselId?: Id<"vessels">;
+    laycanStart?: number;
+    laycanEnd?: number;
+    windowStart?: number;
+    windowEnd?: number;
+    cargoQuantity?: number;
+  };
+  quantityUnit?: string;
+  onClose: () => void;
+}
+
+const TITLES: Record<VoyageNominationStep, string> = {
+  vessel: "Nominate vessel",
+  laycan: "Nominate laycan",
+  lifting: "Record lifting",
+};
+
+const toDateInput = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * VoyageNominationDialog
+ *
+ * One step of a COA voyage: nominating its vessel, nominating its laycan
+ * within the lifting window, or recording the quantity it shipped.
+ */
+export function VoyageNominationDialog({
+  step,
+  voyage,
+  quantityUnit = "MT",
+  onClose,
+}: VoyageNominationDialogProps) {
+  const vessels = useQuery(api.vessels.list, step === "vessel" ? {} : "skip");
+  const [vesselId, setVesselId] = useState<string>(voyage.vesselId ?? "");
+  const [quantity, setQuantity] = useState(String(voyage.cargoQuantity ?? ""));
+  const [laycanStart, setLaycanStart] = useState(
+    toDateInput(voyage.laycanStart ?? voyage.windowStart ?? Date.now())
+  );
+  const [laycanEnd, setLaycanEnd] = useState(
+    toDateInput(voyage.laycanEnd ?? voyage.windowEnd ?? Date.now())
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const nominateVessel = useMutation(api.coa.nominateVessel);
+  const nominateLaycan = useMutation(api.coa.nominateLaycan);
+  const recordLifting = useMutation(api.coa.recordLifting);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      if (step === "vessel") {
+        await nominateVessel({
+          voyageId: voyage._id,
+          vesselId: vesselId as Id<"vessels">,
+          cargoQuantity: quantity ? Number(quantity) : undefined,
+        });
+      } else if (step === "laycan") {
+        // Whole days, kept inside a window that opens or closes part-way through a day
+        await nominateLaycan({
+          voyageId: voyage._id,
+          laycanStart: Math.max(
+            new Date(`${laycanStart}T00:00:00`).getTime(),
+            voyage.windowStart ?? 0
+          ),
+          laycanEnd: Math.min(
+            new Date(`${laycanEnd}T23:59:59`).getTime(),
+            voyage.windowEnd ?? Infinity
+          ),
+        });
+      } else {
+        await recordLifting({ voyageId: voyage._id, shippedQuantity: Number(quantity) });
+      }
+      toast.success(`Voyage ${voyage.voyageNumber} updated`);
+      onClose();
+    } catch (error) {
+      console.error("Failed to update voyage:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update voyage");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSubmit =
+    !isSaving &&
+    (step === "vessel"
+      ? !!vesselId
+      : step === "laycan"
+        ? !!laycanStart && !!laycanEnd
+        : Number(quantity) > 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {TITLES[step]} · Voyage {voyage.voyageNumber}
+          </DialogTitle>
+        </DialogHeader>
+
+        <DialogBody className="flex flex-col gap-4">
+          {step === "vessel" && (
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">Vessel</label>
+              <Select value={vesselId} onValueChange={setVesselId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={vessels ? "Choose a vessel…" : "Loading…"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {vessels?.map((vessel) => (
+                    <SelectItem key={vessel._id} value={vessel._id}>
+                      {vessel.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {step === "laycan" && (
+            <>
+              {voyage.windowStart !== undefined && voyage.windowEnd !== undefined && (
+                <span className="text-body-sm text-[var(--color-text-secondary)]">
+                  Lifting window {formatLaycanRange(voyage.windowStart, voyage.windowEnd)}
+                </span>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="flex flex-col gap-1.5">
+                  <label className="text-body-sm text-[var(--color-text-primary)]">Laycan from</label>
+                  <Input type="date" value={laycanStart} onChange={(e) => setLaycanStart(e.target.value)} />
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <label className="text-body-sm text-[var(--color-text-primary)]">Laycan until</label>
+                  <Input type="date" value={laycanEnd} onChange={(e) => setLaycanEnd(e.target.value)} />
+                </div>
+              </div>
+            </>
+          )}
+
+          {step !== "laycan" && (
+            <div className="flex flex-col gap-1.5">
+              <label className="text-body-sm text-[var(--color-text-primary)]">
+                {step === "vessel" ? "Nominated quantity" : "Shipped quantity"} ({quantityUnit})
+              </label>
+              <Input
+                type="number"
+                min={0}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          )}
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? "Saving…" : TITLES[step]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
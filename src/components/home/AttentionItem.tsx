@@ -19,6 +19,8 @@ const STATUS_BADGE_MAP: Record<string, { intent: "warning" | "information" | "ne
   "firm": { intent: "information", label: "Firm" },
   "firm-amendment": { intent: "warning", label: "Firm Amendment" },
   "on-subs-amendment": { intent: "warning", label: "On Subs Amendment" },
+  "firm-offer-expired": { intent: "destructive", label: "Firm Offer Expired" },
+  "subs-expired": { intent: "destructive", label: "Subs Expired" },
 };
 
 export function AttentionItem({ itemRef, label, status, updatedAt }: AttentionItemProps) {
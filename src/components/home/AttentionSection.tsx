@@ -40,13 +40,22 @@ function MessageIcon() {
   );
 }
 
+function ClockIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="8" cy="8" r="6.667" stroke="currentColor" strokeWidth="1.25"/>
+      <path d="M8 4.667V8l2 1.333" stroke="currentColor" strokeWidth="1.25" strokeLinecap="round" strokeLinejoin="round"/>
+    </svg>
+  );
+}
+
 export function AttentionSection() {
   const data = useQuery(api.home.getAttentionItems);
   const isLoading = data === undefined;
 
   const totalCount = isLoading
     ? 0
-    : data.pendingApprovals.count + data.onSubs.count + data.drafts.count + data.activeNegotiations.count;
+    : data.pendingApprovals.count + data.onSubs.count + data.drafts.count + data.activeNegotiations.count + data.expiredNegotiations.count;
 
   return (
     <section>
@@ -58,7 +67,7 @@ export function AttentionSection() {
           </span>
         )}
       </div>
-      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
         <AttentionCard
           icon={<ClipboardIcon />}
           title="Pending Approvals"
@@ -87,6 +96,13 @@ export function AttentionSection() {
           items={isLoading ? [] : data.activeNegotiations.items}
           isLoading={isLoading}
         />
+        <AttentionCard
+          icon={<ClockIcon />}
+          title="Expired Offers"
+          count={isLoading ? 0 : data.expiredNegotiations.count}
+          items={isLoading ? [] : data.expiredNegotiations.items}
+          isLoading={isLoading}
+        />
       </div>
     </section>
   );
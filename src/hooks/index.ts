@@ -6,4 +6,5 @@ export { useAppFrameData } from './useAppFrameData';
 export { useExportNotifications } from './useExportNotifications';
 export { useFixtureUrlState } from './useFixtureUrlState';
 export { useFixtureBookmarks } from './useFixtureBookmarks';
-export { useWidgetData } from './useWidgetData';
\ No newline at end of file
+export { useBookmarkAlerts } from './useBookmarkAlerts';
+export { useWidgetData } from './useWidgetData';export { useContractRegisterViews } from './useContractRegisterViews';
@@ -0,0 +1,75 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "@rafal.lemieszewski/tide-ui";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+export interface BookmarkAlert {
+  bookmarkId: Id<"user_bookmarks">;
+  emailEnabled: boolean;
+  lastEvaluatedAt?: number;
+}
+
+export interface UseBookmarkAlertsReturn {
+  activeAlert: BookmarkAlert | undefined;
+  handleSubscribe: (emailEnabled: boolean) => Promise<void>;
+  handleUnsubscribe: () => Promise<void>;
+}
+
+/**
+ * Saved-view alerts for the active Fixtures bookmark: whether the user follows
+ * it, and handlers to follow (in-app, optionally by email) or stop following it.
+ */
+export function useBookmarkAlerts(
+  organizationId: Id<"organizations"> | undefined,
+  activeBookmarkId: string
+): UseBookmarkAlertsReturn {
+  const alerts = useQuery(
+    api.bookmarkAlerts.listMine,
+    organizationId ? { organizationId } : "skip"
+  );
+  const subscribeMutation = useMutation(api.bookmarkAlerts.subscribe);
+  const unsubscribeMutation = useMutation(api.bookmarkAlerts.unsubscribe);
+
+  const activeAlert = useMemo(
+    () => alerts?.find((alert) => alert.bookmarkId === activeBookmarkId),
+    [alerts, activeBookmarkId]
+  );
+
+  const handleSubscribe = useCallback(
+    async (emailEnabled: boolean) => {
+      if (!organizationId) return;
+
+      try {
+        await subscribeMutation({
+          bookmarkId: activeBookmarkId as Id<"user_bookmarks">,
+          organizationId,
+          emailEnabled,
+        });
+        toast.success(
+          emailEnabled
+            ? "You'll be notified in the app and by email when fixtures enter or leave this view"
+            : "You'll be notified when fixtures enter or leave this view"
+        );
+      } catch (error) {
+        if (import.meta.env.DEV) console.error("Failed to turn on alerts:", error);
+        toast.error("Failed to turn on alerts");
+      }
+    },
+    [organizationId, activeBookmarkId, subscribeMutation]
+  );
+
+  const handleUnsubscribe = useCallback(async () => {
+    try {
+      await unsubscribeMutation({
+        bookmarkId: activeBookmarkId as Id<"user_bookmarks">,
+      });
+      toast.success("Alerts turned off");
+    } catch (error) {
+      if (import.meta.env.DEV) console.error("Failed to turn off alerts:", error);
+      toast.error("Failed to turn off alerts");
+    }
+  }, [activeBookmarkId, unsubscribeMutation]);
+
+  return { activeAlert, handleSubscribe, handleUnsubscribe };
+}
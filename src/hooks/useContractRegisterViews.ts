@@ -0,0 +1,290 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { Bookmark } from "@rafal.lemieszewski/tide-ui/bookmarks";
+import type { FilterValue } from "@rafal.lemieszewski/tide-ui/filters";
+import { toast } from "@rafal.lemieszewski/tide-ui";
+import type { SortingState } from "@tanstack/react-table";
+import { useUser } from "./useUser";
+import { filterRegisterRows, type ContractRegisterRow } from "../types/contractRegister";
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+interface RegisterViewState {
+  activeFilters: Record<string, FilterValue>;
+  globalSearchTerms: string[];
+  pinnedFilters: string[];
+  sorting: SortingState;
+}
+
+export interface UseContractRegisterViewsOptions {
+  rows: ContractRegisterRow[] | undefined;
+  currentState: RegisterViewState;
+  // Apply a view's filters, search and sorting to the page
+  applyView: (state: RegisterViewState) => void;
+  globalPinnedFilters: string[];
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+const DEFAULT_SORTING: SortingState = [{ id: "updatedAt", desc: true }];
+
+const systemView = (
+  id: string,
+  name: string,
+  activeFilters: Record<string, FilterValue>,
+  isDefault = false
+): Bookmark => ({
+  id,
+  name,
+  type: "system",
+  isDefault,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  filtersState: { activeFilters, pinnedFilters: [], globalSearchTerms: [] },
+  tableState: {
+    sorting: DEFAULT_SORTING,
+    columnVisibility: {},
+    grouping: [],
+    columnOrder: [],
+    columnSizing: {},
+  },
+});
+
+const SYSTEM_VIEWS: Bookmark[] = [
+  systemView("system-all", "All contracts", {}, true),
+  systemView("system-awaiting-approval", "Awaiting approval", { progress: ["awaiting-approval"] }),
+  systemView("system-awaiting-signature", "Awaiting signature", { progress: ["awaiting-signature"] }),
+  systemView("system-fully-signed", "Fully signed", { progress: ["fully-signed"] }),
+];
+
+const convertDbBookmark = (
+  dbBookmark: Omit<Bookmark, "createdAt" | "updatedAt"> & {
+    createdAt: number;
+    updatedAt: number;
+    id: string;
+  }
+): Bookmark => ({
+  ...dbBookmark,
+  createdAt: new Date(dbBookmark.createdAt),
+  updatedAt: new Date(dbBookmark.updatedAt),
+});
+
+const sameState = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// ── Hook ──────────────────────────────────────────────────────────────
+
+/**
+ * Saved views for the contract register: fixed system views plus the
+ * user's own, stored as "contracts" bookmarks. Counts are computed from the
+ * loaded register rows, so every tab shows a live count.
+ */
+export function useContractRegisterViews(opts: UseContractRegisterViewsOptions) {
+  const { rows, currentState, applyView, globalPinnedFilters } = opts;
+
+  const { user } = useUser();
+  const userId = user?.appUserId;
+
+  const userViewsFromDb = useQuery(
+    api.user_bookmarks.getUserBookmarks,
+    userId ? { userId, page: "contracts" } : "skip"
+  );
+
+  const createBookmarkMutation = useMutation(api.user_bookmarks.createBookmark);
+  const updateBookmarkMutation = useMutation(api.user_bookmarks.updateBookmark);
+  const renameBookmarkMutation = useMutation(api.user_bookmarks.renameBookmark);
+  const deleteBookmarkMutation = useMutation(api.user_bookmarks.deleteBookmark);
+  const setDefaultBookmarkMutation = useMutation(api.user_bookmarks.setDefaultBookmark);
+
+  const [views, setViews] = useState<Bookmark[]>([]);
+  const [activeViewId, setActiveViewId] = useState("system-all");
+  const [hasLoadedDefault, setHasLoadedDefault] = useState(false);
+
+  useEffect(() => {
+    if (userViewsFromDb) {
+      setViews(userViewsFromDb.map(convertDbBookmark));
+    }
+  }, [userViewsFromDb]);
+
+  const withCounts = useCallback(
+    (view: Bookmark) => ({
+      ...view,
+      count: rows
+        ? filterRegisterRows(
+            rows,
+            view.filtersState?.activeFilters ?? {},
+            view.filtersState?.globalSearchTerms ?? []
+          ).length
+        : view.count,
+      isLoadingCount: rows === undefined,
+    }),
+    [rows]
+  );
+
+  const systemViewsWithCounts = useMemo(() => SYSTEM_VIEWS.map(withCounts), [withCounts]);
+  const viewsWithCounts = useMemo(() => views.map(withCounts), [views, withCounts]);
+
+  const activeView = useMemo(
+    () => [...systemViewsWithCounts, ...viewsWithCounts].find((v) => v.id === activeViewId),
+    [systemViewsWithCounts, viewsWithCounts, activeViewId]
+  );
+
+  const isDirty = useMemo(() => {
+    if (!activeView) return false;
+    const saved = {
+      activeFilters: activeView.filtersState?.activeFilters ?? {},
+      globalSearchTerms: activeView.filtersState?.globalSearchTerms ?? [],
+      sorting: activeView.tableState?.sorting ?? DEFAULT_SORTING,
+    };
+    const current = {
+      activeFilters: currentState.activeFilters,
+      globalSearchTerms: currentState.globalSearchTerms,
+      sorting: currentState.sorting,
+    };
+    return !sameState(saved, current);
+  }, [activeView, currentState]);
+
+  // ── Actions ───────────────────────────────────────────────────────────
+
+  const loadView = useCallback(
+    (view: Bookmark) => {
+      setActiveViewId(view.id);
+      applyView({
+        activeFilters: view.filtersState?.activeFilters ?? {},
+        globalSearchTerms: view.filtersState?.globalSearchTerms ?? [],
+        pinnedFilters:
+          view.type === "user"
+            ? (view.filtersState?.pinnedFilters ?? globalPinnedFilters)
+            : globalPinnedFilters,
+        sorting: view.tableState?.sorting ?? DEFAULT_SORTING,
+      });
+    },
+    [applyView, globalPinnedFilters]
+  );
+
+  // Open the user's default view once their views have loaded
+  useEffect(() => {
+    if (hasLoadedDefault || !userViewsFromDb) return;
+    setHasLoadedDefault(true);
+    const defaultView = userViewsFromDb.find((v) => v.isDefault);
+    if (defaultView) loadView(convertDbBookmark(defaultView));
+  }, [hasLoadedDefault, userViewsFromDb, loadView]);
+
+  const handleSelect = useCallback(
+    (view: Bookmark) => {
+      if (view.id === activeViewId) return;
+      loadView(view);
+    },
+    [activeViewId, loadView]
+  );
+
+  const handleRevert = useCallback(() => {
+    if (activeView) loadView(activeView);
+  }, [activeView, loadView]);
+
+  const handleSave = useCallback(
+    async (action: "update" | "create", name?: string) => {
+      if (!userId) return;
+
+      const viewData = {
+        filtersState: {
+          activeFilters: currentState.activeFilters,
+          pinnedFilters: currentState.pinnedFilters,
+          globalSearchTerms: currentState.globalSearchTerms,
+        },
+        tableState: {
+          sorting: currentState.sorting,
+          columnVisibility: {},
+          grouping: [],
+          columnOrder: [],
+          columnSizing: {},
+        },
+      };
+
+      try {
+        if (action === "create") {
+          const created = await createBookmarkMutation({
+            userId,
+            name: name || "New view",
+            page: "contracts",
+            ...viewData,
+          });
+          setViews((prev) => [...prev, convertDbBookmark(created)]);
+          setActiveViewId(created.id);
+        } else {
+          const bookmarkId = activeViewId as Id<"user_bookmarks">;
+          setViews((prev) =>
+            prev.map((v) => (v.id === bookmarkId ? { ...v, ...viewData, updatedAt: new Date() } : v))
+          );
+          await updateBookmarkMutation({ bookmarkId, ...viewData });
+        }
+      } catch (error) {
+        if (import.meta.env.DEV) console.error("Failed to save view:", error);
+        toast.error("Failed to save view");
+        if (userViewsFromDb) setViews(userViewsFromDb.map(convertDbBookmark));
+      }
+    },
+    [userId, currentState, activeViewId, createBookmarkMutation, updateBookmarkMutation, userViewsFromDb]
+  );
+
+  const handleRename = useCallback(
+    async (id: string, newName: string) => {
+      setViews((prev) => prev.map((v) => (v.id === id ? { ...v, name: newName } : v)));
+      try {
+        await renameBookmarkMutation({ bookmarkId: id as Id<"user_bookmarks">, newName });
+      } catch (error) {
+        if (import.meta.env.DEV) console.error("Failed to rename view:", error);
+        toast.error("Failed to rename view");
+        if (userViewsFromDb) setViews(userViewsFromDb.map(convertDbBookmark));
+      }
+    },
+    [renameBookmarkMutation, userViewsFromDb]
+  );
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      const previousViews = views;
+      setViews((prev) => prev.filter((v) => v.id !== id));
+      if (activeViewId === id) loadView(SYSTEM_VIEWS[0]);
+
+      try {
+        await deleteBookmarkMutation({ bookmarkId: id as Id<"user_bookmarks"> });
+      } catch (error) {
+        if (import.meta.env.DEV) console.error("Failed to delete view:", error);
+        toast.error("Failed to delete view");
+        setViews(previousViews);
+      }
+    },
+    [views, activeViewId, loadView, deleteBookmarkMutation]
+  );
+
+  const handleSetDefault = useCallback(
+    async (id: string) => {
+      if (!userId) return;
+      setViews((prev) => prev.map((v) => ({ ...v, isDefault: v.id === id })));
+      try {
+        await setDefaultBookmarkMutation({ userId, bookmarkId: id as Id<"user_bookmarks"> });
+      } catch (error) {
+        if (import.meta.env.DEV) console.error("Failed to set default view:", error);
+        toast.error("Failed to set default view");
+        if (userViewsFromDb) setViews(userViewsFromDb.map(convertDbBookmark));
+      }
+    },
+    [userId, setDefaultBookmarkMutation, userViewsFromDb]
+  );
+
+  return {
+    systemViews: systemViewsWithCounts,
+    views: viewsWithCounts,
+    activeViewId,
+    activeView,
+    isDirty,
+    handleSelect,
+    handleRevert,
+    handleSave,
+    handleRename,
+    handleDelete,
+    handleSetDefault,
+  };
+}
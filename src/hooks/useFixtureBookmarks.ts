@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
@@ -16,8 +16,22 @@ interface BookmarkCounts {
   totalFixtures: number;
   totalNegotiations: number;
   totalContracts: number;
+  bookmarkCounts: Record<string, number>;
 }
 
+export type BookmarkVisibility = "private" | "shared" | "organization";
+
+export interface BookmarkSharing {
+  visibility: BookmarkVisibility;
+  sharedWithUserIds: Id<"users">[];
+}
+
+// A teammate's bookmark shared with the current user (read-only; can be duplicated)
+export type SharedBookmark = Bookmark & {
+  ownerName: string;
+  isLoadingCount?: boolean;
+};
+
 interface BookmarkCurrentState {
   activeFilters: Record<string, FilterValue>;
   globalSearchTerms: string[];
@@ -67,6 +81,15 @@ export interface UseFixtureBookmarksReturn {
   handleDelete: (id: string) => Promise<void>;
   handleSetDefault: (id: string) => Promise<void>;
   loadBookmark: (bookmark: Bookmark, showLoading?: boolean) => void;
+  sharedBookmarksWithCounts: SharedBookmark[];
+  isActiveBookmarkShared: boolean;
+  activeBookmarkSharing: BookmarkSharing | undefined;
+  handleDuplicate: (id: string) => Promise<void>;
+  handleShare: (
+    id: string,
+    visibility: BookmarkVisibility,
+    sharedWithUserIds: Id<"users">[]
+  ) => Promise<void>;
 }
 
 // ── Helpers ────────────────────────────────────────────────────────────
@@ -134,24 +157,38 @@ export function useFixtureBookmarks(
   const { user } = useUser();
   const userId = user?.appUserId;
 
-  // Query bookmark counts
-  const bookmarkCounts = useQuery(
-    api.fixtures.getBookmarkCounts,
-    organizationId ? { organizationId } : "skip"
-  ) as BookmarkCounts | undefined;
-
   // Query bookmarks from Convex
   const userBookmarksFromDb = useQuery(
     api.user_bookmarks.getUserBookmarks,
     userId ? { userId } : "skip"
   );
 
+  // Bookmarks teammates shared with this user
+  const sharedBookmarksFromDb = useQuery(
+    api.user_bookmarks.getSharedBookmarks,
+    userId && organizationId ? { userId, organizationId } : "skip"
+  );
+  const sharedBookmarkIds = useMemo(
+    () => sharedBookmarksFromDb?.map((b) => b.id),
+    [sharedBookmarksFromDb]
+  );
+
+  // Query bookmark counts (system tabs plus live counts for shared bookmarks)
+  const bookmarkCounts = useQuery(
+    api.fixtures.getBookmarkCounts,
+    organizationId
+      ? { organizationId, bookmarkIds: sharedBookmarkIds?.length ? sharedBookmarkIds : undefined }
+      : "skip"
+  ) as BookmarkCounts | undefined;
+
   // Mutation hooks
   const createBookmarkMutation = useMutation(api.user_bookmarks.createBookmark);
   const updateBookmarkMutation = useMutation(api.user_bookmarks.updateBookmark);
   const renameBookmarkMutation = useMutation(api.user_bookmarks.renameBookmark);
   const deleteBookmarkMutation = useMutation(api.user_bookmarks.deleteBookmark);
   const setDefaultBookmarkMutation = useMutation(api.user_bookmarks.setDefaultBookmark);
+  const shareBookmarkMutation = useMutation(api.user_bookmarks.shareBookmark);
+  const duplicateBookmarkMutation = useMutation(api.user_bookmarks.duplicateBookmark);
 
   // Local state for optimistic updates
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
@@ -258,6 +295,18 @@ export function useFixtureBookmarks(
     [bookmarks, activeBookmarkId, serverDisplayCount, isQueryLoading]
   );
 
+  // Shared bookmarks with live counts from getBookmarkCounts
+  const sharedBookmarksWithCounts = useMemo(
+    () =>
+      (sharedBookmarksFromDb ?? []).map((bookmark) => ({
+        ...convertDbBookmark(bookmark),
+        ownerName: bookmark.ownerName,
+        count: bookmarkCounts?.bookmarkCounts[bookmark.id] ?? bookmark.count,
+        isLoadingCount: bookmarkCounts === undefined,
+      })),
+    [sharedBookmarksFromDb, bookmarkCounts]
+  );
+
   // Sync live count to local state + DB when viewing a user bookmark
   // so that switching away shows the correct count, not stale data
   useEffect(() => {
@@ -288,12 +337,27 @@ export function useFixtureBookmarks(
   // Active bookmark
   const activeBookmark = useMemo(
     () =>
-      [...systemBookmarksWithCounts, ...bookmarksWithCounts].find(
+      [...systemBookmarksWithCounts, ...bookmarksWithCounts, ...sharedBookmarksWithCounts].find(
         (b) => b.id === activeBookmarkId
       ),
-    [systemBookmarksWithCounts, bookmarksWithCounts, activeBookmarkId]
+    [systemBookmarksWithCounts, bookmarksWithCounts, sharedBookmarksWithCounts, activeBookmarkId]
+  );
+  const isActiveBookmarkShared = sharedBookmarksWithCounts.some(
+    (b) => b.id === activeBookmarkId
   );
 
+  // Sharing settings of the active bookmark, when the user owns it
+  const activeBookmarkSharing = useMemo((): BookmarkSharing | undefined => {
+    const bookmark = bookmarks.find((b) => b.id === activeBookmarkId) as
+      | (Bookmark & Partial<BookmarkSharing>)
+      | undefined;
+    if (!bookmark) return undefined;
+    return {
+      visibility: bookmark.visibility ?? "private",
+      sharedWithUserIds: bookmark.sharedWithUserIds ?? [],
+    };
+  }, [bookmarks, activeBookmarkId]);
+
   // isDirty check
   const isDirty = useMemo(() => {
     if (!activeBookmark) return false;
@@ -400,6 +464,19 @@ export function useFixtureBookmarks(
     [urlActions, globalPinnedFilters, callbacks, bookmarkLoadingTimerRef]
   );
 
+  // A link carrying only ?bk= (e.g. from a bookmark alert) opens the saved
+  // view: apply the bookmark's filters and sorting once it has loaded
+  const linkedBookmarkIdRef = useRef(
+    [...new URLSearchParams(window.location.search).keys()].join() === "bk"
+      ? activeBookmarkId
+      : null
+  );
+  useEffect(() => {
+    if (!linkedBookmarkIdRef.current || activeBookmark?.id !== linkedBookmarkIdRef.current) return;
+    linkedBookmarkIdRef.current = null;
+    loadBookmark(activeBookmark, false);
+  }, [activeBookmark, loadBookmark]);
+
   const handleBookmarkSelect = useCallback(
     (bookmark: Bookmark) => {
       if (bookmark.id === activeBookmarkId) return;
@@ -614,6 +691,64 @@ export function useFixtureBookmarks(
     [userId, setDefaultBookmarkMutation, userBookmarksFromDb]
   );
 
+  const handleDuplicate = useCallback(
+    async (id: string) => {
+      if (!userId) return;
+
+      try {
+        const copy = await duplicateBookmarkMutation({
+          bookmarkId: id as Id<"user_bookmarks">,
+          userId,
+        });
+        const bookmark = convertDbBookmark(copy);
+        setBookmarks((prev) => [...prev, bookmark]);
+        loadBookmark(bookmark, false);
+        toast.success("Bookmark duplicated to your bookmarks");
+      } catch (error) {
+        if (import.meta.env.DEV) console.error("Failed to duplicate bookmark:", error);
+        toast.error("Failed to duplicate bookmark");
+      }
+    },
+    [userId, duplicateBookmarkMutation, loadBookmark]
+  );
+
+  const handleShare = useCallback(
+    async (id: string, visibility: BookmarkVisibility, sharedWithUserIds: Id<"users">[]) => {
+      if (!organizationId) return;
+
+      try {
+        await shareBookmarkMutation({
+          bookmarkId: id as Id<"user_bookmarks">,
+          visibility,
+          organizationId,
+          sharedWithUserIds: visibility === "shared" ? sharedWithUserIds : undefined,
+        });
+        setBookmarks((prev) =>
+          prev.map((b) =>
+            b.id === id
+              ? {
+                  ...b,
+                  visibility,
+                  sharedWithUserIds: visibility === "shared" ? sharedWithUserIds : [],
+                }
+              : b
+          )
+        );
+        toast.success(
+          visibility === "private"
+            ? "Bookmark is now private"
+            : visibility === "organization"
+              ? "Bookmark is now visible to your organisation"
+              : "Bookmark shared"
+        );
+      } catch (error) {
+        if (import.meta.env.DEV) console.error("Failed to share bookmark:", error);
+        toast.error("Failed to update sharing settings");
+      }
+    },
+    [organizationId, shareBookmarkMutation]
+  );
+
   return {
     bookmarks,
     systemBookmarks,
@@ -628,5 +763,10 @@ export function useFixtureBookmarks(
     handleDelete,
     handleSetDefault,
     loadBookmark,
+    sharedBookmarksWithCounts,
+    isActiveBookmarkShared,
+    activeBookmarkSharing,
+    handleDuplicate,
+    handleShare,
   };
 }
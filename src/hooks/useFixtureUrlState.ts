@@ -22,6 +22,9 @@ const urlStateParsers = {
   // Search
   search: parseAsString,
 
+  // Row whose sidebar is open (contract or recap ID), for deep links
+  open: parseAsString,
+
   // Sorting
   sortBy: parseAsString.withDefault('lastUpdated'),
   sortDesc: parseAsBoolean.withDefault(true),
@@ -54,6 +57,7 @@ const urlStateParsers = {
 export interface FixtureUrlState {
   bk: string;
   search: string | null;
+  open: string | null;
   sortBy: string;
   sortDesc: boolean;
   groupBy: string;
@@ -75,6 +79,7 @@ export interface FixtureUrlActions {
   setPage: (page: number) => void;
   setPageSize: (pageSize: number) => void;
   setBookmark: (bk: string) => void;
+  setOpenRow: (open: string | null) => void;
   /** Atomically update all filter-related params + reset page to 0 */
   setFilters: (params: SerializedFilterParams) => void;
   /** Atomically set ALL url state (used by loadBookmark) */
@@ -240,6 +245,7 @@ export function useFixtureUrlState(): [FixtureUrlState, FixtureUrlActions] {
   const state: FixtureUrlState = useMemo(() => ({
     bk: urlState.bk,
     search: urlState.search,
+    open: urlState.open,
     sortBy: urlState.sortBy,
     sortDesc: urlState.sortDesc,
     groupBy: urlState.groupBy,
@@ -280,6 +286,10 @@ export function useFixtureUrlState(): [FixtureUrlState, FixtureUrlActions] {
     setUrlState({ bk });
   }, [setUrlState]);
 
+  const setOpenRow = useCallback((open: string | null) => {
+    setUrlState({ open }, { history: 'replace' });
+  }, [setUrlState]);
+
   const setFilters = useCallback((params: SerializedFilterParams) => {
     setUrlState({
       ...params,
@@ -309,6 +319,7 @@ export function useFixtureUrlState(): [FixtureUrlState, FixtureUrlActions] {
     setUrlState({
       bk: 'system-all',
       search: null,
+      open: null,
       sortBy: 'lastUpdated',
       sortDesc: true,
       groupBy: 'fixtureId',
@@ -331,13 +342,14 @@ export function useFixtureUrlState(): [FixtureUrlState, FixtureUrlActions] {
     setPage,
     setPageSize,
     setBookmark,
+    setOpenRow,
     setFilters,
     setAllUrlState,
     resetFilters,
     resetAll,
   }), [
     setSearch, setSort, setGroupBy, setPage, setPageSize,
-    setBookmark, setFilters, setAllUrlState, resetFilters, resetAll,
+    setBookmark, setOpenRow, setFilters, setAllUrlState, resetFilters, resetAll,
   ]);
 
   return useMemo(() => [state, actions] as const, [state, actions]);
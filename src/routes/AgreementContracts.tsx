@@ -1,43 +1,408 @@
-export default function AgreementContracts() {
+import { useState, useMemo, useCallback } from "react";
+import { useNavigate } from "react-router";
+import { usePaginatedQuery, useQuery } from "convex/react";
+import type { ColumnDef, SortingState } from "@tanstack/react-table";
+import {
+  Avatar,
+  AvatarFallback,
+  AvatarImage,
+  Button,
+  FixtureStatus,
+  Icon,
+  Separator,
+  statusConfig,
+  type StatusValue,
+} from "@rafal.lemieszewski/tide-ui";
+import { Bookmarks } from "@rafal.lemieszewski/tide-ui/bookmarks";
+import { DataTable } from "@rafal.lemieszewski/tide-ui/data-table";
+import { Filters, type FilterDefinition, type FilterValue } from "@rafal.lemieszewski/tide-ui/filters";
+import { Briefcase, Building2, CircleCheckBig, ListChecks, Ship, Tag } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import { useContractRegisterViews } from "../hooks";
+import {
+  formatLaycanRange,
+  formatTimestamp,
+  getCompanyInitials,
+  getStatusLabel as getStatusLabelBase,
+} from "../utils/dataUtils";
+import {
+  CONTRACT_PROGRESS_LABELS,
+  CONTRACT_TYPE_LABELS,
+  filterRegisterRows,
+  getRegisterStatus,
+  type ContractProgress,
+  type ContractRegisterRow,
+} from "../types/contractRegister";
+
+// Wrap getStatusLabel to bind statusConfig from tide-ui
+const getStatusLabel = (status: string): string => getStatusLabelBase(status, statusConfig);
+
+const GLOBAL_PINNED_FILTERS = ["progress", "type"];
+
+// Fixtures page URL that finds the row and opens its sidebar
+const fixtureSidebarLink = (row: ContractRegisterRow) =>
+  `/fixtures?search=${encodeURIComponent(row.number)}&open=${row._id}`;
+
+function PartyCell({ party }: { party: ContractRegisterRow["owner"] }) {
+  if (!party) return <span className="text-body-sm text-[var(--color-text-tertiary)]">–</span>;
+  return (
+    <div className="flex items-center gap-2">
+      <Avatar type="organization" size="xxs">
+        <AvatarImage src={party.avatarUrl || undefined} alt={party.name} />
+        <AvatarFallback>{getCompanyInitials(party.name)}</AvatarFallback>
+      </Avatar>
+      <span className="text-body-sm text-[var(--color-text-primary)]">{party.name}</span>
+    </div>
+  );
+}
+
+function ProgressCell({ done, total }: { done: number; total: number }) {
+  if (total === 0) return <span className="text-body-sm text-[var(--color-text-tertiary)]">–</span>;
   return (
-    <div className="m-6 space-y-6 p-6">
-      <div className="space-y-2">
-        <h1 className="text-heading-lg font-bold text-[var(--color-text-primary)]">
-          Contracts
-        </h1>
-        <p className="text-body-lg text-[var(--color-text-secondary)]">
-          Access and manage your charter party agreements and shipping contracts.
-        </p>
+    <span
+      className={`text-body-sm ${
+        done === total ? "text-[var(--color-text-success)]" : "text-[var(--color-text-primary)]"
+      }`}
+    >
+      {done}/{total}
+    </span>
+  );
+}
+
+const registerColumns: ColumnDef<ContractRegisterRow>[] = [
+  {
+    accessorKey: "number",
+    header: "Contract",
+    cell: ({ row }) => (
+      <div className="flex flex-col">
+        <span className="text-body-sm font-medium text-[var(--color-text-primary)]">
+          {row.original.number}
+        </span>
+        {row.original.fixtureNumber && (
+          <span className="text-body-xs text-[var(--color-text-tertiary)]">
+            {row.original.fixtureNumber}
+          </span>
+        )}
       </div>
+    ),
+  },
+  {
+    accessorKey: "contractType",
+    header: "Type",
+    cell: ({ row }) => (
+      <span className="text-body-sm text-[var(--color-text-primary)]">
+        {CONTRACT_TYPE_LABELS[row.original.contractType]}
+      </span>
+    ),
+  },
+  {
+    id: "status",
+    accessorFn: (row) => getRegisterStatus(row),
+    header: "Status",
+    cell: ({ row }) => (
+      <FixtureStatus
+        value={getRegisterStatus(row.original) as StatusValue}
+        className="overflow-visible"
+        asBadge
+        showObject
+      />
+    ),
+  },
+  {
+    id: "approvals",
+    header: "Approvals",
+    accessorFn: (row) => row.approvals?.approved ?? -1,
+    cell: ({ row }) =>
+      row.original.approvals ? (
+        <ProgressCell done={row.original.approvals.approved} total={row.original.approvals.total} />
+      ) : (
+        <span className="text-body-sm text-[var(--color-text-tertiary)]">–</span>
+      ),
+  },
+  {
+    id: "signatures",
+    header: "Signatures",
+    accessorFn: (row) => row.signatures?.signed ?? -1,
+    cell: ({ row }) =>
+      row.original.signatures ? (
+        <ProgressCell done={row.original.signatures.signed} total={row.original.signatures.total} />
+      ) : (
+        <span className="text-body-sm text-[var(--color-text-tertiary)]">–</span>
+      ),
+  },
+  {
+    id: "owner",
+    header: "Owner",
+    accessorFn: (row) => row.owner?.name ?? "",
+    cell: ({ row }) => <PartyCell party={row.original.owner} />,
+  },
+  {
+    id: "charterer",
+    header: "Charterer",
+    accessorFn: (row) => row.charterer?.name ?? "",
+    cell: ({ row }) => <PartyCell party={row.original.charterer} />,
+  },
+  {
+    id: "broker",
+    header: "Broker",
+    accessorFn: (row) => row.broker?.name ?? "",
+    cell: ({ row }) => <PartyCell party={row.original.broker} />,
+  },
+  {
+    id: "laycan",
+    header: "Laycan",
+    accessorFn: (row) => row.laycanStart ?? 0,
+    cell: ({ row }) => (
+      <span className="text-body-sm text-[var(--color-text-primary)]">
+        {row.original.laycanStart && row.original.laycanEnd
+          ? formatLaycanRange(row.original.laycanStart, row.original.laycanEnd)
+          : "–"}
+      </span>
+    ),
+  },
+  {
+    accessorKey: "vessel",
+    header: "Vessel",
+    cell: ({ row }) => (
+      <span className="text-body-sm text-[var(--color-text-primary)]">
+        {row.original.vessel ?? "TBN"}
+      </span>
+    ),
+  },
+  {
+    accessorKey: "addendaCount",
+    header: "Addenda",
+    cell: ({ row }) => (
+      <span className="text-body-sm text-[var(--color-text-primary)]">
+        {row.original.addendaCount || "–"}
+      </span>
+    ),
+  },
+  {
+    accessorKey: "updatedAt",
+    header: "Last updated",
+    cell: ({ row }) => (
+      <span className="text-body-sm text-[var(--color-text-secondary)]">
+        {formatTimestamp(row.original.updatedAt)}
+      </span>
+    ),
+  },
+];
 
-      <div className="space-y-4">
-        <div className="rounded-l border border-[var(--color-border-primary-subtle)] p-6 bg-[var(--color-surface-primary)]">
-          <h2 className="text-heading-lg font-semibold text-[var(--color-text-primary)] mb-2">
-            Active Contracts
-          </h2>
-          <p className="text-body-md text-[var(--color-text-secondary)]">
-            View and manage your currently active charter party agreements.
-          </p>
-        </div>
+// Register rows loaded per page; filters, search and sorting apply to the loaded rows
+const REGISTER_PAGE_SIZE = 100;
 
-        <div className="rounded-l border border-[var(--color-border-primary-subtle)] p-6 bg-[var(--color-surface-primary)]">
-          <h2 className="text-heading-lg font-semibold text-[var(--color-text-primary)] mb-2">
-            Contract Templates
-          </h2>
-          <p className="text-body-md text-[var(--color-text-secondary)]">
-            Access standard contract templates and forms.
-          </p>
-        </div>
+// Sorted, de-duplicated filter options from the loaded rows
+const uniqueOptions = (values: (string | null | undefined)[], label = (value: string) => value) =>
+  Array.from(new Set(values.filter((value): value is string => !!value)))
+    .sort()
+    .map((value) => ({ value, label: label(value) }));
+
+export default function AgreementContracts() {
+  const navigate = useNavigate();
+  const organization = useQuery(api.organizations.getFirstOrganization);
+  const {
+    results,
+    status: pageStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    api.contractRegister.list,
+    organization ? { organizationId: organization._id } : "skip",
+    { initialNumItems: REGISTER_PAGE_SIZE }
+  );
+  const rows = pageStatus === "LoadingFirstPage" ? undefined : results;
+
+  const [activeFilters, setActiveFilters] = useState<Record<string, FilterValue>>({});
+  const [globalSearchTerms, setGlobalSearchTerms] = useState<string[]>([]);
+  const [pinnedFilters, setPinnedFilters] = useState<string[]>(GLOBAL_PINNED_FILTERS);
+  const [sorting, setSorting] = useState<SortingState>([{ id: "updatedAt", desc: true }]);
 
-        <div className="rounded-l border border-[var(--color-border-primary-subtle)] p-6 bg-[var(--color-surface-primary)]">
-          <h2 className="text-heading-lg font-semibold text-[var(--color-text-primary)] mb-2">
-            Contract History
-          </h2>
-          <p className="text-body-md text-[var(--color-text-secondary)]">
-            Browse through your historical contract database.
-          </p>
+  const applyView = useCallback(
+    (state: {
+      activeFilters: Record<string, FilterValue>;
+      globalSearchTerms: string[];
+      pinnedFilters: string[];
+      sorting: SortingState;
+    }) => {
+      setActiveFilters(state.activeFilters);
+      setGlobalSearchTerms(state.globalSearchTerms);
+      setPinnedFilters(state.pinnedFilters);
+      setSorting(state.sorting);
+    },
+    []
+  );
+
+  const currentState = useMemo(
+    () => ({ activeFilters, globalSearchTerms, pinnedFilters, sorting }),
+    [activeFilters, globalSearchTerms, pinnedFilters, sorting]
+  );
+
+  const views = useContractRegisterViews({
+    rows,
+    currentState,
+    applyView,
+    globalPinnedFilters: GLOBAL_PINNED_FILTERS,
+  });
+
+  const filterDefinitions: FilterDefinition[] = useMemo(() => {
+    const allRows = rows ?? [];
+    return [
+      {
+        id: "progress",
+        label: "Progress",
+        icon: ({ className }) => <Icon name={ListChecks} className={className} />,
+        type: "multiselect",
+        options: (Object.keys(CONTRACT_PROGRESS_LABELS) as ContractProgress[]).map((value) => ({
+          value,
+          label: CONTRACT_PROGRESS_LABELS[value],
+        })),
+      },
+      {
+        id: "type",
+        label: "Type",
+        icon: ({ className }) => <Icon name={Tag} className={className} />,
+        type: "multiselect",
+        options: uniqueOptions(
+          allRows.map((row) => row.contractType),
+          (value) => CONTRACT_TYPE_LABELS[value as ContractRegisterRow["contractType"]]
+        ),
+      },
+      {
+        id: "status",
+        label: "Status",
+        icon: ({ className }) => <Icon name={CircleCheckBig} className={className} />,
+        type: "multiselect",
+        options: uniqueOptions(allRows.map(getRegisterStatus), getStatusLabel),
+      },
+      {
+        id: "owner",
+        label: "Owner",
+        icon: ({ className }) => <Icon name={Building2} className={className} />,
+        type: "multiselect",
+        options: uniqueOptions(allRows.map((row) => row.owner?.name)),
+        searchPlaceholder: "Search owners...",
+      },
+      {
+        id: "charterer",
+        label: "Charterer",
+        icon: ({ className }) => <Icon name={Building2} className={className} />,
+        type: "multiselect",
+        options: uniqueOptions(allRows.map((row) => row.charterer?.name)),
+        searchPlaceholder: "Search charterers...",
+      },
+      {
+        id: "broker",
+        label: "Broker",
+        icon: ({ className }) => <Icon name={Briefcase} className={className} />,
+        type: "multiselect",
+        options: uniqueOptions(allRows.map((row) => row.broker?.name)),
+        searchPlaceholder: "Search brokers...",
+      },
+      {
+        id: "vessel",
+        label: "Vessel",
+        icon: ({ className }) => <Icon name={Ship} className={className} />,
+        type: "multiselect",
+        options: uniqueOptions(allRows.map((row) => row.vessel)),
+        searchPlaceholder: "Search vessels...",
+      },
+    ];
+  }, [rows]);
+
+  const filteredRows = useMemo(
+    () => filterRegisterRows(rows ?? [], activeFilters, globalSearchTerms),
+    [rows, activeFilters, globalSearchTerms]
+  );
+
+  const handleFilterChange = (filterId: string, value: FilterValue) => {
+    setActiveFilters((prev) => ({ ...prev, [filterId]: value }));
+  };
+
+  const handleFilterClear = (filterId: string) => {
+    setActiveFilters((prev) => {
+      const newFilters = { ...prev };
+      delete newFilters[filterId];
+      return newFilters;
+    });
+  };
+
+  const handleFilterReset = () => {
+    setActiveFilters({});
+    setGlobalSearchTerms([]);
+  };
+
+  return (
+    <div className="m-6 flex flex-col gap-[var(--space-l)]">
+      <Bookmarks
+        variant="tabs"
+        bookmarks={views.views}
+        systemBookmarks={views.systemViews}
+        activeBookmarkId={views.activeViewId}
+        isDirty={views.isDirty}
+        onSelect={views.handleSelect}
+        onRevert={views.handleRevert}
+        onSave={views.handleSave}
+        onRename={views.handleRename}
+        onDelete={views.handleDelete}
+        onSetDefault={views.handleSetDefault}
+      >
+        <Bookmarks.Content>
+          <Filters
+            filters={filterDefinitions}
+            activeFilters={activeFilters}
+            pinnedFilters={pinnedFilters}
+            onPinnedFiltersChange={setPinnedFilters}
+            onFilterChange={handleFilterChange}
+            onFilterClear={handleFilterClear}
+            onFilterReset={handleFilterReset}
+            enableGlobalSearch={true}
+            globalSearchTerms={globalSearchTerms}
+            onGlobalSearchChange={setGlobalSearchTerms}
+            globalSearchPlaceholder="Search contracts…"
+            hideReset={true}
+          />
+        </Bookmarks.Content>
+
+        <Bookmarks.Actions>
+          {views.isDirty && (
+            <>
+              <Separator type="dot" layout="horizontal" />
+              <Button
+                variant="ghost"
+                onClick={views.handleRevert}
+                className="h-[var(--size-m)] flex-shrink-0"
+              >
+                {views.activeView?.type === "system" ? "Reset" : "Revert Changes"}
+              </Button>
+              {views.activeView?.type === "system" ? (
+                <Bookmarks.CreateButton />
+              ) : (
+                <Bookmarks.SaveDropdown />
+              )}
+            </>
+          )}
+        </Bookmarks.Actions>
+      </Bookmarks>
+
+      <DataTable
+        data={filteredRows}
+        columns={registerColumns}
+        isLoading={rows === undefined}
+        loadingRowCount={10}
+        borderStyle="horizontal"
+        sorting={sorting}
+        onSortingChange={setSorting}
+        onRowClick={(row) => navigate(fixtureSidebarLink(row.original))}
+        getRowId={(row) => row._id}
+      />
+
+      {pageStatus === "CanLoadMore" && (
+        <div className="flex justify-center">
+          <Button variant="secondary" onClick={() => loadMore(REGISTER_PAGE_SIZE)}>
+            Load more contracts
+          </Button>
         </div>
-      </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,34 +1,301 @@
-export default function ClauseLibrary() {
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { Plus } from "lucide-react";
+import {
+  Badge,
+  Button,
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+  Tag,
+  Toggle,
+  toast,
+} from "@rafal.lemieszewski/tide-ui";
+import { useHeaderActions } from "../hooks";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { ClauseDialog } from "../components/ClauseDialog";
+import { InsertClauseDialog } from "../components/InsertClauseDialog";
+import { CLAUSE_CATEGORY_LABELS, type ClauseCategory } from "../types/clause";
+import { formatDateTime } from "../utils/dataUtils";
+
+type ClauseSource = "all" | "standard" | "custom";
+
+const ALL_CATEGORIES = "all";
+
+function ClauseVersionHistory({ clauseId }: { clauseId: Id<"clauses"> }) {
+  const clause = useQuery(api.clauses.getById, { clauseId });
+
+  if (clause === undefined) {
+    return (
+      <p className="text-body-sm text-[var(--color-text-secondary)]">Loading versions…</p>
+    );
+  }
+
   return (
-    <div className="m-6 space-y-6 p-6">
-      <div className="space-y-4">
-        <div className="rounded-l border border-[var(--color-border-primary-subtle)] p-6 bg-[var(--color-surface-primary)]">
-          <h2 className="text-heading-lg font-semibold text-[var(--color-text-primary)] mb-2">
-            Standard Clauses
-          </h2>
-          <p className="text-body-md text-[var(--color-text-secondary)]">
-            Access commonly used clauses for charter party agreements.
+    <div className="flex flex-col">
+      {clause?.versions.map((version) => (
+        <div
+          key={version._id}
+          className="flex flex-col gap-1 border-t border-[var(--color-border-primary-subtle)] py-2 first:border-t-0"
+        >
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-body-sm font-medium text-[var(--color-text-primary)]">
+              Version {version.version}
+              {version.title !== clause.title && ` — ${version.title}`}
+            </span>
+            <span className="text-body-xs text-[var(--color-text-tertiary)]">
+              {version.user?.name ?? "Standard library"} • {formatDateTime(version.createdAt)}
+            </span>
+          </div>
+          {version.changeNote && (
+            <span className="text-body-xs italic text-[var(--color-text-tertiary)]">
+              {version.changeNote}
+            </span>
+          )}
+          <p className="whitespace-pre-line text-body-xs text-[var(--color-text-secondary)]">
+            {version.text}
           </p>
         </div>
+      ))}
+    </div>
+  );
+}
 
-        <div className="rounded-l border border-[var(--color-border-primary-subtle)] p-6 bg-[var(--color-surface-primary)]">
-          <h2 className="text-heading-lg font-semibold text-[var(--color-text-primary)] mb-2">
-            Custom Clauses
-          </h2>
-          <p className="text-body-md text-[var(--color-text-secondary)]">
-            Manage your organization's custom contract clauses.
-          </p>
+export default function ClauseLibrary() {
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState<string>(ALL_CATEGORIES);
+  const [source, setSource] = useState<ClauseSource>("all");
+  const [tag, setTag] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<Id<"clauses"> | null>(null);
+  const [historyOpenId, setHistoryOpenId] = useState<Id<"clauses"> | null>(null);
+  const [showNewClause, setShowNewClause] = useState(false);
+  const [editingClause, setEditingClause] = useState<Doc<"clauses"> | null>(null);
+  const [insertingClause, setInsertingClause] = useState<Doc<"clauses"> | null>(null);
+
+  // Get user's first organization (for now, using first org in database)
+  const organization = useQuery(api.organizations.getFirstOrganization);
+  const organizationId = organization?._id;
+
+  const clauses = useQuery(
+    api.clauses.list,
+    organizationId
+      ? {
+          organizationId,
+          search: search.trim() || undefined,
+          category: category === ALL_CATEGORIES ? undefined : (category as ClauseCategory),
+          tag: tag ?? undefined,
+          source: source === "all" ? undefined : source,
+        }
+      : "skip"
+  );
+
+  const archiveClause = useMutation(api.clauses.archive);
+  // Standard clauses are shared by every organization and edited by platform admins only
+  const canEditStandard = useQuery(api.clauses.canEditStandard) ?? false;
+
+  // Tags of the clauses currently listed, for quick filtering
+  const tags = useMemo(
+    () => Array.from(new Set(clauses?.flatMap((clause) => clause.tags) ?? [])).sort(),
+    [clauses]
+  );
+
+  // Memoize header actions to prevent infinite re-render loop
+  const headerActions = useMemo(
+    () => (
+      <Button
+        variant="primary"
+        icon={Plus}
+        iconPosition="left"
+        onClick={() => setShowNewClause(true)}
+        className="flex items-center gap-2 shrink-0"
+      >
+        New clause
+      </Button>
+    ),
+    []
+  );
+
+  useHeaderActions(headerActions);
+
+  const handleArchive = async (clause: Doc<"clauses">) => {
+    try {
+      await archiveClause({ clauseId: clause._id });
+      toast.success(`Archived ${clause.title}`);
+    } catch (error) {
+      console.error("Failed to archive clause:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to archive clause");
+    }
+  };
+
+  return (
+    <div className="m-6 flex flex-col gap-[var(--space-l)]">
+      {/* Search & Filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search clauses…"
+          className="w-72"
+        />
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+            {Object.entries(CLAUSE_CATEGORY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="mx-2 h-1 w-1 rounded-full bg-[var(--color-text-tertiary)]"></div>
+        <Toggle variant="outline" size="m" pressed={source === "all"} onPressedChange={() => setSource("all")}>
+          All
+        </Toggle>
+        <Toggle variant="outline" size="m" pressed={source === "standard"} onPressedChange={() => setSource("standard")}>
+          Standard
+        </Toggle>
+        <Toggle variant="outline" size="m" pressed={source === "custom"} onPressedChange={() => setSource("custom")}>
+          Custom
+        </Toggle>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((value) => (
+            <Toggle
+              key={value}
+              variant="outline"
+              size="s"
+              pressed={tag === value}
+              onPressedChange={() => setTag(tag === value ? null : value)}
+            >
+              {value}
+            </Toggle>
+          ))}
         </div>
+      )}
 
+      {/* Clauses */}
+      {clauses === undefined ? (
+        <div className="flex flex-col gap-3">
+          {[0, 1, 2].map((i) => (
+            <div key={i} className="h-28 rounded-l bg-[var(--color-bg-secondary)] animate-pulse" />
+          ))}
+        </div>
+      ) : clauses.length === 0 ? (
         <div className="rounded-l border border-[var(--color-border-primary-subtle)] p-6 bg-[var(--color-surface-primary)]">
-          <h2 className="text-heading-lg font-semibold text-[var(--color-text-primary)] mb-2">
-            Search & Filter
-          </h2>
           <p className="text-body-md text-[var(--color-text-secondary)]">
-            Search through clauses by category, keywords, or usage context.
+            No clauses match your search.
           </p>
         </div>
-      </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {clauses.map((clause) => {
+            const isExpanded = expandedId === clause._id;
+            const isCustom = !!clause.organizationId;
+
+            return (
+              <div
+                key={clause._id}
+                className="rounded-l border border-[var(--color-border-primary-subtle)] p-6 bg-[var(--color-surface-primary)]"
+              >
+                <div className="mb-2 flex items-start justify-between gap-4">
+                  <div className="flex flex-col gap-2">
+                    <h2 className="text-heading-sm font-semibold text-[var(--color-text-primary)]">
+                      {clause.title}
+                    </h2>
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge intent={isCustom ? "information" : "neutral"} size="xs">
+                        {isCustom ? "Custom" : "Standard"}
+                      </Badge>
+                      <Badge intent="neutral" size="xs">
+                        {CLAUSE_CATEGORY_LABELS[clause.category]}
+                      </Badge>
+                      <Badge intent="neutral" size="xs">
+                        v{clause.currentVersion}
+                      </Badge>
+                      {clause.tags.map((value) => (
+                        <Tag key={value} size="s" variant="squared">
+                          {value}
+                        </Tag>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button variant="primary" size="s" onClick={() => setInsertingClause(clause)}>
+                      Insert into contract
+                    </Button>
+                    {(isCustom || canEditStandard) && (
+                      <Button variant="ghost" size="s" onClick={() => setEditingClause(clause)}>
+                        Edit
+                      </Button>
+                    )}
+                    {isCustom && (
+                      <Button variant="ghost" size="s" onClick={() => handleArchive(clause)}>
+                        Archive
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <p
+                  className={`whitespace-pre-line text-body-md text-[var(--color-text-secondary)] ${isExpanded ? "" : "line-clamp-3"}`}
+                >
+                  {clause.text}
+                </p>
+
+                <div className="mt-2 flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="s"
+                    onClick={() => setExpandedId(isExpanded ? null : clause._id)}
+                  >
+                    {isExpanded ? "Show less" : "Show full text"}
+                  </Button>
+                  {clause.currentVersion > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="s"
+                      onClick={() =>
+                        setHistoryOpenId(historyOpenId === clause._id ? null : clause._id)
+                      }
+                    >
+                      {historyOpenId === clause._id ? "Hide versions" : "Show versions"}
+                    </Button>
+                  )}
+                </div>
+
+                {historyOpenId === clause._id && (
+                  <div className="mt-4">
+                    <ClauseVersionHistory clauseId={clause._id} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showNewClause && organizationId && (
+        <ClauseDialog organizationId={organizationId} onClose={() => setShowNewClause(false)} />
+      )}
+      {editingClause && organizationId && (
+        <ClauseDialog
+          organizationId={organizationId}
+          clause={editingClause}
+          onClose={() => setEditingClause(null)}
+        />
+      )}
+      {insertingClause && (
+        <InsertClauseDialog clause={insertingClause} onClose={() => setInsertingClause(null)} />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
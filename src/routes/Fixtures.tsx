@@ -18,10 +18,13 @@ import {
 import { DataTable } from "@rafal.lemieszewski/tide-ui/data-table";
 import { Bookmarks } from "@rafal.lemieszewski/tide-ui/bookmarks";
 import { Filters, type FilterDefinition, type FilterValue } from "@rafal.lemieszewski/tide-ui/filters";
-import { CheckCircle, Layers, Upload } from "lucide-react";
-import { useHeaderActions, useFixtureUrlState, useFixtureBookmarks } from "../hooks";
+import { CheckCircle, Layers, Share2, Upload } from "lucide-react";
+import { useHeaderActions, useFixtureUrlState, useFixtureBookmarks, useBookmarkAlerts, useUser } from "../hooks";
 import { serializeFiltersToUrl, deserializeFiltersFromUrl } from "../hooks/useFixtureUrlState";
 import { createFixtureColumns } from "./fixtures/fixtureColumns";
+import { SharedBookmarksMenu } from "../components/SharedBookmarksMenu";
+import { BookmarkAlertMenu } from "../components/BookmarkAlertMenu";
+import { ShareBookmarkDialog } from "../components/ShareBookmarkDialog";
 const ExportDialogLazy = lazy(() =>
   import("../components/ExportDialog").then((m) => ({ default: m.ExportDialog }))
 );
@@ -30,16 +33,12 @@ const FixtureSidebarLazy = lazy(() =>
 );
 import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
 import {
   getStatusLabel as getStatusLabelBase,
   getCompanyInitials,
 } from "../utils/dataUtils";
-import {
-  calculateFreightSavings,
-  calculateDemurrageSavings,
-  calculateDaysBetween,
-  calculateFreightVsMarket,
-} from "../utils/fixtureCalculations";
+import { dealRowValues, negotiationRowValues, splitFixtureRows } from "../utils/fixtureExport";
 
 // Re-export for backward compatibility (FixtureSidebar imports from here)
 export { getCompanyInitials };
@@ -52,7 +51,6 @@ export const getStatusLabel = (status: string): string =>
 import type {
   ContractData,
   FixtureWithRelations,
-  EnrichedContractItem,
 } from "../types/fixture";
 // Re-export FixtureData for backward compat (FixtureSidebar imports from here)
 export type { FixtureData } from "../types/fixture";
@@ -107,24 +105,11 @@ function buildNegotiationRow(
   fixture: FixtureWithRelations,
 ): FixtureData {
   return {
+    ...negotiationRowValues(neg, fixture),
     id: neg._id,
-    fixtureId: fixture.fixtureNumber,
-    orderId: fixture.order?.orderNumber || "-",
-    cpId: "-",
-    stage: "Negotiation",
-    typeOfContract: "-",
-    negotiationId: neg.negotiationNumber || "-",
-    vessels: neg.vessel?.name || "TBN",
-    personInCharge: neg.personInCharge?.name || "User",
-    status: `negotiation-${neg.status}`,
-    approvalStatus: "Not started",
-    owner: "-",
     ownerAvatarUrl: undefined,
-    broker: neg.broker?.name || "Unknown",
     brokerAvatarUrl: neg.broker?.avatarUrl,
-    charterer: neg.counterparty?.name || "Unknown",
     chartererAvatarUrl: neg.counterparty?.avatarUrl,
-    lastUpdated: neg.updatedAt || neg._creationTime,
     contract: null,
     order: fixture.order,
     negotiation: neg,
@@ -136,145 +121,34 @@ function buildNegotiationRow(
     approvalSummary: { total: 0, approved: 0, pending: 0, rejected: 0 },
     signatures: [],
     signatureSummary: { total: 0, signed: 0, pending: 0, rejected: 0 },
-    laycanStart: neg.laycanStart,
-    laycanEnd: neg.laycanEnd,
-    loadPortName: undefined,
-    loadPortCountry: undefined,
-    loadDeliveryType: neg.loadDeliveryType,
-    dischargePortName: undefined,
-    dischargePortCountry: undefined,
-    dischargeRedeliveryType: neg.dischargeRedeliveryType,
-    vesselImo: neg.vessel?.imoNumber,
-    cargoTypeName: undefined,
-    cargoQuantity: neg.quantity,
-    finalFreightRate: neg.freightRate,
-    finalDemurrageRate: neg.demurrageRate,
-    highestFreightRateIndication: neg.highestFreightRateIndication,
-    lowestFreightRateIndication: neg.lowestFreightRateIndication,
-    firstFreightRateIndication: neg.firstFreightRateIndication,
-    highestFreightRateLastDay: neg.highestFreightRateLastDay,
-    lowestFreightRateLastDay: neg.lowestFreightRateLastDay,
-    firstFreightRateLastDay: neg.firstFreightRateLastDay,
-    freightSavingsPercent: undefined,
-    marketIndex: neg.marketIndex,
-    marketIndexName: neg.marketIndexName,
-    freightVsMarketPercent: undefined,
-    grossFreight: neg.grossFreight,
-    highestDemurrageIndication: neg.highestDemurrageIndication,
-    lowestDemurrageIndication: neg.lowestDemurrageIndication,
-    demurrageSavingsPercent: undefined,
-    addressCommissionPercent: neg.addressCommissionPercent,
-    addressCommissionTotal: neg.addressCommissionTotal,
-    brokerCommissionPercent: neg.brokerCommissionPercent,
-    brokerCommissionTotal: neg.brokerCommissionTotal,
-    cpDate: undefined,
-    workingCopyDate: undefined,
-    finalDate: undefined,
-    fullySignedDate: undefined,
-    daysToWorkingCopy: undefined,
-    daysToFinal: undefined,
-    daysToSigned: undefined,
-    ownerApprovalStatus: undefined,
-    ownerApprovedBy: undefined,
-    ownerApprovalDate: undefined,
-    chartererApprovalStatus: undefined,
-    chartererApprovedBy: undefined,
-    chartererApprovalDate: undefined,
-    ownerSignatureStatus: undefined,
-    ownerSignedBy: undefined,
-    ownerSignatureDate: undefined,
-    chartererSignatureStatus: undefined,
-    chartererSignedBy: undefined,
-    chartererSignatureDate: undefined,
-    dealCaptureUser: undefined,
-    orderCreatedBy: fixture.order?.createdBy?.name,
-    negotiationCreatedBy: neg.createdBy?.name,
-    parentCpId: undefined,
-    contractType: undefined,
   };
 }
 
-// Transform database contracts and recap managers to FixtureData format
+// Transform database contracts and recap managers to FixtureData format.
+// Column values come from fixtureExport.ts, which exports share.
 const transformFixturesToTableData = (
-  fixtures: FixtureWithRelations[]
+  fixtures: FixtureWithRelations[],
+  searchHighlights?: Record<string, Record<string, string[]>>
 ): FixtureData[] => {
   const tableData: FixtureData[] = [];
 
   fixtures.forEach((fixture) => {
-    // Combine contracts and recap managers
-    const allContracts: EnrichedContractItem[] = [
-      ...fixture.contracts.map((c) => ({ ...c, source: "contract" as const })),
-      ...fixture.recapManagers.map((r) => ({ ...r, source: "recap" as const })),
-    ];
-
-    // Track which negotiations already have contracts/recaps
-    const negotiationsWithContracts = new Set<string>();
-    allContracts.forEach((item) => {
-      const negId = item.negotiationId || item.negotiation?._id;
-      if (negId) negotiationsWithContracts.add(negId as string);
-    });
+    // Negotiations without a contract/recap yet, then one row per contract/recap
+    // (contracts preferred over recaps of the same negotiation).
+    // TanStack Table will handle grouping by fixtureId automatically
+    const { negotiations, items } = splitFixtureRows(fixture);
 
-    // Deduplicate - prefer contracts over recap_managers for same negotiation
-    // This prevents showing duplicate rows when both exist for the same negotiation
-    const seenNegotiations = new Set<string>();
-    const dedupedContracts = allContracts.filter((item) => {
-      const negId = item.negotiationId || item.negotiation?._id;
-      if (!negId) return true; // Keep items without negotiation
-      if (seenNegotiations.has(negId as string)) return false;
-      seenNegotiations.add(negId as string);
-      return true;
+    negotiations.forEach((neg) => {
+      tableData.push(buildNegotiationRow(neg, fixture));
     });
 
-    // Handle negotiation-only fixtures (fixtures with negotiations but no contracts yet)
-    // This covers early stages: indicative-offer, indicative-bid, firm-offer, firm-bid
-    if (dedupedContracts.length === 0 && fixture.negotiations?.length > 0) {
-      fixture.negotiations.forEach((neg) => {
-        tableData.push(buildNegotiationRow(neg, fixture));
-      });
-      return; // Skip to next fixture
-    }
-
-    // Also add any negotiations that don't have contracts yet (even if fixture has some contracts)
-    if (fixture.negotiations?.length > 0) {
-      fixture.negotiations.forEach((neg) => {
-        // Skip if this negotiation already has a contract/recap
-        if (negotiationsWithContracts.has(neg._id)) return;
-        tableData.push(buildNegotiationRow(neg, fixture));
-      });
-    }
-
-    if (dedupedContracts.length === 0) return; // Skip if no contracts
-
-    // Create a row for each contract/recap manager
-    // TanStack Table will handle grouping by fixtureId automatically
-    dedupedContracts.forEach((item) => {
-      const isContract = item.source === "contract";
-      const contractNumber = isContract ? item.contractNumber : item.recapNumber;
-
+    items.forEach((item) => {
       tableData.push({
+        ...dealRowValues(item, fixture),
         id: item._id as string,
-        fixtureId: fixture.fixtureNumber,
-        orderId: item.order?.orderNumber || fixture.order?.orderNumber || "-",
-        cpId: contractNumber ?? "-",
-        stage: item.contractType === "coa" ? "COA" : "Charter Party",
-        typeOfContract:
-          item.contractType === "voyage-charter"
-            ? "Voyage charter"
-            : item.contractType === "time-charter"
-            ? "TC"
-            : "COA",
-        negotiationId: item.negotiation?.negotiationNumber || "-",
-        vessels: item.vessel?.name || "TBN",
-        personInCharge: item.personInCharge?.name || item.negotiation?.personInCharge?.name || "User",
-        status: isContract ? `contract-${item.status}` : `recap-manager-${item.status}`,
-        approvalStatus: item.approvalStatus || "Not started",
-        owner: item.owner?.name || "Unknown",
         ownerAvatarUrl: item.owner?.avatarUrl,
-        broker: item.broker?.name || "Unknown",
         brokerAvatarUrl: item.broker?.avatarUrl,
-        charterer: item.charterer?.name || "Unknown",
         chartererAvatarUrl: item.charterer?.avatarUrl,
-        lastUpdated: item.updatedAt ?? item._creationTime ?? Date.now(),
         // Include full objects for sidebar
         contract: item as unknown as ContractData | null,
         order: item.order || fixture.order,
@@ -288,96 +162,17 @@ const transformFixturesToTableData = (
         approvalSummary: item.approvalSummary,
         signatures: item.signatures,
         signatureSummary: item.signatureSummary,
-
-        // Priority 1: Core Commercial Fields
-        laycanStart: item.negotiation?.laycanStart ?? item.laycanStart,
-        laycanEnd: item.negotiation?.laycanEnd ?? item.laycanEnd,
-        loadPortName: item.loadPort?.name,
-        loadPortCountry: item.loadPort?.country,
-        loadDeliveryType: item.negotiation?.loadDeliveryType,
-        dischargePortName: item.dischargePort?.name,
-        dischargePortCountry: item.dischargePort?.country,
-        dischargeRedeliveryType: item.negotiation?.dischargeRedeliveryType,
-        vesselImo: item.vessel?.imoNumber,
-        cargoTypeName: item.cargoType?.name,
-        cargoQuantity: item.negotiation?.quantity ?? item.quantity,
-        finalFreightRate: item.negotiation?.freightRate ?? item.freightRate,
-        finalDemurrageRate: item.negotiation?.demurrageRate ?? item.demurrageRate,
-
-        // Freight Analytics
-        highestFreightRateIndication: item.negotiation?.highestFreightRateIndication,
-        lowestFreightRateIndication: item.negotiation?.lowestFreightRateIndication,
-        firstFreightRateIndication: item.negotiation?.firstFreightRateIndication,
-        highestFreightRateLastDay: item.negotiation?.highestFreightRateLastDay,
-        lowestFreightRateLastDay: item.negotiation?.lowestFreightRateLastDay,
-        firstFreightRateLastDay: item.negotiation?.firstFreightRateLastDay,
-        freightSavingsPercent: calculateFreightSavings(
-          item.negotiation?.highestFreightRateIndication,
-          item.negotiation?.freightRate ?? item.freightRate
-        ) ?? undefined,
-        marketIndex: item.negotiation?.marketIndex,
-        marketIndexName: item.negotiation?.marketIndexName,
-        freightVsMarketPercent: calculateFreightVsMarket(
-          item.negotiation?.freightRate ?? item.freightRate,
-          item.negotiation?.marketIndex
-        ) ?? undefined,
-        grossFreight: item.negotiation?.grossFreight,
-        highestDemurrageIndication: item.negotiation?.highestDemurrageIndication,
-        lowestDemurrageIndication: item.negotiation?.lowestDemurrageIndication,
-        demurrageSavingsPercent: calculateDemurrageSavings(
-          item.negotiation?.highestDemurrageIndication,
-          item.negotiation?.demurrageRate ?? item.demurrageRate
-        ) ?? undefined,
-
-        // Commissions
-        addressCommissionPercent: item.negotiation?.addressCommissionPercent,
-        addressCommissionTotal: item.negotiation?.addressCommissionTotal,
-        brokerCommissionPercent: item.negotiation?.brokerCommissionPercent,
-        brokerCommissionTotal: item.negotiation?.brokerCommissionTotal,
-
-        // CP Workflow Dates
-        cpDate: item._creationTime,
-        workingCopyDate: item.workingCopyDate,
-        finalDate: item.finalDate,
-        fullySignedDate: item.fullySignedDate,
-        daysToWorkingCopy: calculateDaysBetween(item._creationTime, item.workingCopyDate) ?? undefined,
-        daysToFinal: calculateDaysBetween(item.workingCopyDate, item.finalDate) ?? undefined,
-        daysToSigned: calculateDaysBetween(item.finalDate, item.fullySignedDate) ?? undefined,
-
-        // Approvals (cache lookups to avoid redundant .find() calls)
-        ...(() => {
-          const ownerApproval = item.approvals?.find((a) => a.partyRole === 'owner');
-          const chartererApproval = item.approvals?.find((a) => a.partyRole === 'charterer');
-          const ownerSignature = item.signatures?.find((s) => s.partyRole === 'owner');
-          const chartererSignature = item.signatures?.find((s) => s.partyRole === 'charterer');
-          return {
-            ownerApprovalStatus: ownerApproval?.status,
-            ownerApprovedBy: ownerApproval?.approvedBy?.name,
-            ownerApprovalDate: ownerApproval?.approvedAt,
-            chartererApprovalStatus: chartererApproval?.status,
-            chartererApprovedBy: chartererApproval?.approvedBy?.name,
-            chartererApprovalDate: chartererApproval?.approvedAt,
-            ownerSignatureStatus: ownerSignature?.status,
-            ownerSignedBy: ownerSignature?.signedBy?.name,
-            ownerSignatureDate: ownerSignature?.signedAt,
-            chartererSignatureStatus: chartererSignature?.status,
-            chartererSignedBy: chartererSignature?.signedBy?.name,
-            chartererSignatureDate: chartererSignature?.signedAt,
-          };
-        })(),
-
-        // User Tracking
-        dealCaptureUser: item.negotiation?.dealCaptureUser?.name,
-        orderCreatedBy: item.order?.createdBy?.name,
-        negotiationCreatedBy: item.negotiation?.createdBy?.name,
-
-        // Meta & Relationships
-        parentCpId: item.parentContract?.contractNumber,
-        contractType: item.contractType,
       });
     });
   });
 
+  // Rows without server highlights matched the search outside their own columns
+  if (searchHighlights) {
+    tableData.forEach((row) => {
+      row.searchHighlights = searchHighlights[row.id] ?? {};
+    });
+  }
+
   // Don't sort here - let TanStack Table handle sorting with grouping awareness
   // Server already returns fixtures in _creationTime desc order
   // Sorting here would break grouping because rows from the same fixture
@@ -595,6 +390,8 @@ function Fixtures() {
   );
   const [activeRowId, setActiveRowId] = useState<string | undefined>(undefined);
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const { user } = useUser();
   const sidebarTriggerRef = useRef<HTMLElement | null>(null);
 
   // Memoize header actions
@@ -847,14 +644,26 @@ function Fixtures() {
   const fixtureData = useMemo(() => {
     if (paginatedFixtures === undefined) return null;
     if (!paginatedFixtures?.items) return [];
-    return transformFixturesToTableData(paginatedFixtures.items as unknown as FixtureWithRelations[]);
+    return transformFixturesToTableData(
+      paginatedFixtures.items as unknown as FixtureWithRelations[],
+      paginatedFixtures.searchHighlights
+    );
   }, [paginatedFixtures]);
 
   // Server pagination info
   const serverTotalCount = paginatedFixtures?.totalCount ?? 0;
   const serverGroupCount = paginatedFixtures?.totalGroupCount;
   const serverUnfilteredTotalCount = paginatedFixtures?.unfilteredTotalCount ?? 0;
-  const isFiltered = serverTotalCount !== serverUnfilteredTotalCount;
+  // Filtered counts over large tables are bounded scans, so they may be a lower bound
+  const serverCountIsLowerBound = paginatedFixtures?.totalCountIsLowerBound ?? false;
+  const isFiltered = serverCountIsLowerBound || serverTotalCount !== serverUnfilteredTotalCount;
+  // Keep a next page reachable while the exact count is unknown
+  const tableRowCount = serverCountIsLowerBound
+    ? Math.max(
+        serverTotalCount,
+        (pagination.pageIndex + 1) * pagination.pageSize + (paginatedFixtures?.hasMore ? 1 : 0)
+      )
+    : serverTotalCount;
 
   // Keep ref in sync so handlePaginationChange always sees latest cursor
   serverNextCursorRef.current = paginatedFixtures?.nextCursor ?? null;
@@ -932,6 +741,9 @@ function Fixtures() {
     bookmarkLoadingTimerRef,
   });
 
+  // Saved-view alerts on the active user or shared bookmark
+  const alerts = useBookmarkAlerts(organizationId, activeBookmarkId);
+
   // Use transition for non-urgent pagination updates (improves INP)
   const [isPaginationPending, startPaginationTransition] = useTransition();
 
@@ -1221,8 +1033,26 @@ function Fixtures() {
   const handleSidebarClose = useCallback(() => {
     setSelectedFixture(null);
     setActiveRowId(undefined);
+    if (urlState.open) urlActions.setOpenRow(null);
     requestAnimationFrame(() => sidebarTriggerRef.current?.focus());
-  }, []);
+  }, [urlState.open, urlActions]);
+
+  // Deep links (e.g. from the contracts register) open a row's sidebar,
+  // fetched directly since the row may not be on the current page
+  const linkedFixture = useQuery(
+    api.fixtures.getEnrichedForDeal,
+    urlState.open && !selectedFixture ? { dealId: urlState.open } : "skip"
+  );
+  useEffect(() => {
+    if (!urlState.open || selectedFixture || !linkedFixture) return;
+    const linked = transformFixturesToTableData([
+      linkedFixture as unknown as FixtureWithRelations,
+    ]).find((row) => row.id === urlState.open);
+    if (linked) {
+      setSelectedFixture(linked);
+      setActiveRowId(linked.id);
+    }
+  }, [urlState.open, selectedFixture, linkedFixture]);
 
   const handleExportDialogClose = useCallback(() => {
     setShowExportDialog(false);
@@ -1306,13 +1136,13 @@ function Fixtures() {
     return (
       <span className="text-body-sm text-text-secondary">
         {isFiltered ? (
-          <>Showing <strong className="text-text-primary">{serverTotalCount}</strong> from <strong className="text-text-primary">{serverUnfilteredTotalCount}</strong> {entityName} in total.</>
+          <>Showing <strong className="text-text-primary">{serverTotalCount}{serverCountIsLowerBound ? "+" : ""}</strong> from <strong className="text-text-primary">{serverUnfilteredTotalCount}</strong> {entityName} in total.</>
         ) : (
           <>Showing all <strong className="text-text-primary">{serverUnfilteredTotalCount}</strong> {entityName}</>
         )}
       </span>
     );
-  }, [paginationUnit, isFiltered, serverTotalCount, serverUnfilteredTotalCount]);
+  }, [paginationUnit, isFiltered, serverTotalCount, serverCountIsLowerBound, serverUnfilteredTotalCount]);
 
   return (
     <>
@@ -1353,8 +1183,8 @@ function Fixtures() {
               <>
                 <Separator type="dot" layout="horizontal" />
 
-                {bm.activeBookmark?.type === "system" ? (
-                  // System bookmark actions
+                {bm.activeBookmark?.type === "system" || bm.isActiveBookmarkShared ? (
+                  // System and shared bookmark actions (read-only: save as a new bookmark)
                   <>
                     <Button
                       variant="ghost"
@@ -1383,6 +1213,30 @@ function Fixtures() {
           </Bookmarks.Actions>
 
           <Bookmarks.Settings>
+            <SharedBookmarksMenu
+              bookmarks={bm.sharedBookmarksWithCounts}
+              activeBookmarkId={activeBookmarkId}
+              onSelect={bm.handleBookmarkSelect}
+              onDuplicate={bm.handleDuplicate}
+            />
+            {(bm.activeBookmarkSharing || bm.isActiveBookmarkShared) && (
+              <BookmarkAlertMenu
+                alert={alerts.activeAlert}
+                onSubscribe={alerts.handleSubscribe}
+                onUnsubscribe={alerts.handleUnsubscribe}
+              />
+            )}
+            {bm.activeBookmarkSharing && (
+              <Button
+                variant="ghost"
+                icon={Share2}
+                iconPosition="left"
+                onClick={() => setShowShareDialog(true)}
+                className="h-[var(--size-m)] flex-shrink-0"
+              >
+                {bm.activeBookmarkSharing.visibility === "private" ? "Share" : "Shared"}
+              </Button>
+            )}
             <DataTableSettingsMenu
               sortableColumns={settingsColumnData.sortable}
               selectedSortColumn={sorting[0]?.id}
@@ -1440,7 +1294,7 @@ function Fixtures() {
             onColumnSizingChange={handleColumnSizingChange}
             enableColumnResizing={true}
             manualPagination={true}
-            rowCount={serverTotalCount}
+            rowCount={tableRowCount}
             paginationVariant="default"
             pageSizeOptions={[10, 25, 50, 100]}
             pagination={pagination}
@@ -1464,6 +1318,19 @@ function Fixtures() {
         </Suspense>
       </div>
 
+      {/* Share Bookmark Dialog */}
+      {bm.activeBookmarkSharing && organizationId && (
+        <ShareBookmarkDialog
+          open={showShareDialog}
+          onOpenChange={setShowShareDialog}
+          bookmarkName={bm.activeBookmark?.name ?? ""}
+          organizationId={organizationId}
+          currentUserId={user?.appUserId}
+          sharing={bm.activeBookmarkSharing}
+          onSave={(visibility, userIds) => bm.handleShare(activeBookmarkId, visibility, userIds)}
+        />
+      )}
+
       {/* Export Dialog */}
       <Suspense fallback={null}>
         <ExportDialogLazy
@@ -1476,6 +1343,12 @@ function Fixtures() {
           visibleColumns={visibleColumnsForExport}
           isDirty={bm.isDirty}
           bookmarkName={bm.activeBookmark?.name}
+          scheduleBookmarkId={
+            bm.activeBookmarkSharing || bm.isActiveBookmarkShared
+              ? (activeBookmarkId as Id<"user_bookmarks">)
+              : undefined
+          }
+          organizationId={organizationId}
         />
       </Suspense>
     </>
@@ -1,11 +1,94 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router";
+import { useMutation, useQuery } from "convex/react";
+import { Button } from "@rafal.lemieszewski/tide-ui";
+import { BellRing, CheckCheck } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import { useHeaderActions } from "../hooks";
+import { formatTimestamp } from "../utils/dataUtils";
+
 function Notifications() {
+  const navigate = useNavigate();
+  const notifications = useQuery(api.notifications.listMine, {});
+  const markRead = useMutation(api.notifications.markRead);
+  const markAllRead = useMutation(api.notifications.markAllRead);
+
+  const hasUnread = notifications?.some((n) => n.readAt === undefined) ?? false;
+
+  const headerActions = useMemo(
+    () => (
+      <Button
+        variant="secondary"
+        icon={CheckCheck}
+        iconPosition="left"
+        disabled={!hasUnread}
+        onClick={() => markAllRead({})}
+      >
+        Mark all as read
+      </Button>
+    ),
+    [hasUnread, markAllRead]
+  );
+  useHeaderActions(headerActions);
+
+  const handleOpen = (notification: Doc<"notifications">) => {
+    if (notification.readAt === undefined) {
+      markRead({ notificationId: notification._id });
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
   return (
     <div className="m-6 flex flex-col gap-[var(--space-l)]">
-      <div className="rounded-l border border-[var(--color-border-primary-subtle)] p-6">
-        <p className="text-body-md text-[var(--color-text-secondary)]">
-          Notifications management will be implemented here.
-        </p>
-      </div>
+      {notifications === undefined ? (
+        <p className="text-body-md text-[var(--color-text-secondary)]">Loading notifications…</p>
+      ) : notifications.length === 0 ? (
+        <div className="rounded-l border border-[var(--color-border-primary-subtle)] p-6">
+          <p className="text-body-md text-[var(--color-text-secondary)]">
+            No notifications yet. Turn on alerts for a Fixtures bookmark to hear when fixtures start or stop
+            matching it.
+          </p>
+        </div>
+      ) : (
+        <ul className="flex flex-col rounded-l border border-[var(--color-border-primary-subtle)]">
+          {notifications.map((notification) => {
+            const isUnread = notification.readAt === undefined;
+            return (
+              <li
+                key={notification._id}
+                className="border-b border-[var(--color-border-primary-subtle)] last:border-b-0"
+              >
+                <button
+                  type="button"
+                  onClick={() => handleOpen(notification)}
+                  className="flex w-full items-start gap-3 p-4 text-left transition-colors hover:bg-[var(--color-background-neutral-subtle-hovered)]"
+                >
+                  <BellRing
+                    size={16}
+                    className={`mt-0.5 flex-shrink-0 ${isUnread ? "text-[var(--color-text-brand)]" : "text-[var(--color-text-secondary)]"}`}
+                  />
+                  <div className="flex min-w-0 flex-1 flex-col gap-1">
+                    <div className="flex items-center justify-between gap-3">
+                      <span
+                        className={`truncate text-body-md text-[var(--color-text-primary)] ${isUnread ? "font-medium" : ""}`}
+                      >
+                        {notification.title}
+                      </span>
+                      <span className="flex-shrink-0 text-caption-sm text-[var(--color-text-secondary)]">
+                        {formatTimestamp(notification.createdAt)}
+                      </span>
+                    </div>
+                    <span className="whitespace-pre-line text-body-sm text-[var(--color-text-secondary)]">
+                      {notification.body}
+                    </span>
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
     </div>
   );
 }
@@ -26,10 +26,41 @@ import {
 import { useUser } from "../hooks";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import type { FunctionArgs } from "convex/server";
+import { ApprovalPolicyDialog } from "../components/ApprovalPolicyDialog";
+import { DelegationDialog } from "../components/DelegationDialog";
+import { DELEGATED_AUTHORITY_LABELS } from "../types/delegation";
+import {
+  POLICY_CONTRACT_TYPE_LABELS,
+  type ApprovalPolicy,
+} from "../types/approvalPolicy";
 
 const ROLES = ["Admin", "Trader", "Broker"] as const;
 type Role = (typeof ROLES)[number];
 
+type Permission = FunctionArgs<
+  typeof api.rolePermissions.updateRolePermissions
+>["permissions"][number];
+
+type DocumentType = FunctionArgs<
+  typeof api.documentNumbers.configureSequence
+>["documentType"];
+
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  order: "Orders",
+  negotiation: "Negotiations",
+  fixture: "Fixtures",
+  contract: "Contracts",
+  recap: "Recaps",
+};
+
+interface SequenceSettings {
+  documentType: DocumentType;
+  prefix: string;
+  includeYear: boolean;
+  padding: number;
+}
+
 function OrganizationSettings() {
   const { user } = useUser();
   const [inviteEmail, setInviteEmail] = useState("");
@@ -61,16 +92,51 @@ function OrganizationSettings() {
   }>({ open: false });
   const [isRemoving, setIsRemoving] = useState(false);
   const [isRevoking, setIsRevoking] = useState(false);
+  const [showNewPolicy, setShowNewPolicy] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<ApprovalPolicy | null>(null);
+  const [showNewDelegation, setShowNewDelegation] = useState(false);
+
+  // Get the user's effective permissions to gate member management
+  const myPermissions = useQuery(
+    api.rolePermissions.getMyPermissions,
+    currentOrganization?._id
+      ? { organizationId: currentOrganization._id }
+      : "skip"
+  );
+
+  const canManageMembers = myPermissions?.includes("manage-members") ?? false;
 
-  // Get membership to check if user is admin
-  const membership = useQuery(
-    api.memberships.getMembership,
-    user?._id && currentOrganization?._id
-      ? { userId: user._id, organizationId: currentOrganization._id }
+  // Get the organization's role → permission matrix
+  const permissionMatrix = useQuery(
+    api.rolePermissions.getPermissionMatrix,
+    currentOrganization?._id
+      ? { organizationId: currentOrganization._id }
+      : "skip"
+  );
+
+  // Get the organization's document numbering sequences
+  const documentSequences = useQuery(
+    api.documentNumbers.getSequences,
+    currentOrganization?._id
+      ? { organizationId: currentOrganization._id }
       : "skip"
   );
 
-  const isAdmin = membership?.role === "Admin";
+  // Get the organization's approval policies, in evaluation order
+  const approvalPolicies = useQuery(
+    api.approvalPolicies.list,
+    currentOrganization?._id
+      ? { organizationId: currentOrganization._id }
+      : "skip"
+  );
+
+  // Get current and upcoming approval delegations
+  const delegations = useQuery(
+    api.delegations.list,
+    currentOrganization?._id
+      ? { organizationId: currentOrganization._id }
+      : "skip"
+  );
 
   // Get organization members
   const members = useQuery(
@@ -80,10 +146,10 @@ function OrganizationSettings() {
       : "skip"
   );
 
-  // Get organization invitations (admin only)
+  // Get organization invitations (member managers only)
   const invitations = useQuery(
     api.invitations.getOrganizationInvitations,
-    isAdmin && user?._id && currentOrganization?._id
+    canManageMembers && user?._id && currentOrganization?._id
       ? { organizationId: currentOrganization._id, userId: user._id }
       : "skip"
   );
@@ -93,6 +159,12 @@ function OrganizationSettings() {
   const removeMember = useMutation(api.memberships.removeMember);
   const revokeInvitation = useMutation(api.invitations.revokeInvitation);
   const updateMemberRole = useMutation(api.memberships.updateMemberRole);
+  const updateRolePermissions = useMutation(api.rolePermissions.updateRolePermissions);
+  const resetRolePermissions = useMutation(api.rolePermissions.resetRolePermissions);
+  const configureSequence = useMutation(api.documentNumbers.configureSequence);
+  const updateApprovalPolicy = useMutation(api.approvalPolicies.update);
+  const removeApprovalPolicy = useMutation(api.approvalPolicies.remove);
+  const revokeDelegation = useMutation(api.delegations.revoke);
 
   const handleSendInvitation = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -208,6 +280,110 @@ function OrganizationSettings() {
     }
   };
 
+  const handleTogglePermission = async (
+    role: string,
+    currentPermissions: Permission[],
+    permission: Permission
+  ) => {
+    if (!currentOrganization?._id) return;
+
+    const permissions = currentPermissions.includes(permission)
+      ? currentPermissions.filter((p) => p !== permission)
+      : [...currentPermissions, permission];
+
+    try {
+      await updateRolePermissions({
+        organizationId: currentOrganization._id,
+        role,
+        permissions,
+      });
+    } catch (err) {
+      console.error("Update permissions error:", err);
+      alert(err instanceof Error ? err.message : "Failed to update permissions");
+    }
+  };
+
+  const handleResetPermissions = async (role: string) => {
+    if (!currentOrganization?._id) return;
+
+    try {
+      await resetRolePermissions({
+        organizationId: currentOrganization._id,
+        role,
+      });
+    } catch (err) {
+      console.error("Reset permissions error:", err);
+      alert(err instanceof Error ? err.message : "Failed to reset permissions");
+    }
+  };
+
+  const handleUpdateSequence = async (
+    sequence: SequenceSettings,
+    changes: Partial<Omit<SequenceSettings, "documentType">>
+  ) => {
+    if (!currentOrganization?._id) return;
+
+    const updated = { ...sequence, ...changes };
+    try {
+      await configureSequence({
+        organizationId: currentOrganization._id,
+        documentType: updated.documentType,
+        prefix: updated.prefix,
+        includeYear: updated.includeYear,
+        padding: updated.padding,
+      });
+    } catch (err) {
+      console.error("Update numbering error:", err);
+      alert(err instanceof Error ? err.message : "Failed to update numbering");
+    }
+  };
+
+  const handleTogglePolicy = async (policyId: Id<"approval_policies">, isActive: boolean) => {
+    try {
+      await updateApprovalPolicy({ policyId, isActive });
+    } catch (err) {
+      console.error("Update approval policy error:", err);
+      alert(err instanceof Error ? err.message : "Failed to update approval policy");
+    }
+  };
+
+  const handleRemovePolicy = async (policyId: Id<"approval_policies">) => {
+    try {
+      await removeApprovalPolicy({ policyId });
+    } catch (err) {
+      console.error("Remove approval policy error:", err);
+      alert(err instanceof Error ? err.message : "Failed to remove approval policy");
+    }
+  };
+
+  const handleRevokeDelegation = async (delegationId: Id<"approval_delegations">) => {
+    try {
+      await revokeDelegation({ delegationId });
+    } catch (err) {
+      console.error("Revoke delegation error:", err);
+      alert(err instanceof Error ? err.message : "Failed to revoke delegation");
+    }
+  };
+
+  // Plain-language summary of when a policy applies
+  const describePolicyConditions = (conditions: ApprovalPolicy["conditions"]): string => {
+    const parts = [
+      conditions.contractTypes?.length
+        ? conditions.contractTypes.map((type) => POLICY_CONTRACT_TYPE_LABELS[type]).join(", ")
+        : "All contracts",
+    ];
+    if (conditions.minGrossFreight !== undefined) {
+      parts.push(`gross freight above ${conditions.minGrossFreight.toLocaleString()}`);
+    }
+    if (conditions.maxGrossFreight !== undefined) {
+      parts.push(`gross freight up to ${conditions.maxGrossFreight.toLocaleString()}`);
+    }
+    if (conditions.partyRoles?.length) {
+      parts.push(`${conditions.partyRoles.join(", ")} approvals`);
+    }
+    return parts.join(" • ");
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -242,7 +418,7 @@ function OrganizationSettings() {
     );
   }
 
-  if (userOrganizations === undefined || membership === undefined) {
+  if (userOrganizations === undefined || myPermissions === undefined) {
     return (
       <div className="m-6 flex items-center justify-center p-12">
         <Spinner size="l" variant="primary" />
@@ -267,12 +443,12 @@ function OrganizationSettings() {
           Organization Settings
         </h1>
         <p className="text-body-lg text-[var(--color-text-secondary)]">
-          Manage members and invitations for {currentOrganization.name}
+          Manage members, invitations and role permissions for {currentOrganization.name}
         </p>
       </div>
 
-      {/* Invite Member Form (Admin only) */}
-      {isAdmin && (
+      {/* Invite Member Form (member managers only) */}
+      {canManageMembers && (
         <Card>
           <CardHeader>
             <h2 className="text-heading-md text-[var(--color-text-primary)]">
@@ -434,7 +610,7 @@ function OrganizationSettings() {
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
-                    {isAdmin && member.userId !== user._id ? (
+                    {canManageMembers && member.userId !== user._id ? (
                       <>
                         <Select
                           value={member.role}
@@ -478,8 +654,355 @@ function OrganizationSettings() {
         </CardContent>
       </Card>
 
-      {/* Pending Invitations (Admin only) */}
-      {isAdmin && (
+      {/* Roles & Permissions */}
+      <Card>
+        <CardHeader>
+          <h2 className="text-heading-md text-[var(--color-text-primary)]">
+            Roles & Permissions
+          </h2>
+        </CardHeader>
+        <CardContent>
+          {permissionMatrix === undefined ? (
+            <div className="flex justify-center p-4">
+              <Spinner variant="primary" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-body-sm">
+                <thead>
+                  <tr className="border-b border-[var(--color-border-primary-subtle)]">
+                    <th className="p-2 text-left font-medium text-[var(--color-text-secondary)]">
+                      Permission
+                    </th>
+                    {permissionMatrix.roles.map(({ role, isLocked, isCustomized }) => (
+                      <th
+                        key={role}
+                        className="p-2 text-center font-medium text-[var(--color-text-primary)]"
+                      >
+                        <div>{role}</div>
+                        {isLocked ? (
+                          <div className="text-xs font-normal text-[var(--color-text-tertiary)]">
+                            All permissions
+                          </div>
+                        ) : isCustomized && canManageMembers ? (
+                          <button
+                            type="button"
+                            className="text-xs font-normal text-[var(--color-text-link)] hover:underline"
+                            onClick={() => handleResetPermissions(role)}
+                          >
+                            Reset to default
+                          </button>
+                        ) : null}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {permissionMatrix.permissions.map(({ permission, label }) => (
+                    <tr
+                      key={permission}
+                      className="border-b border-[var(--color-border-primary-subtle)] last:border-b-0"
+                    >
+                      <td className="p-2 text-[var(--color-text-primary)]">{label}</td>
+                      {permissionMatrix.roles.map(({ role, permissions, isLocked }) => (
+                        <td key={role} className="p-2 text-center">
+                          <input
+                            type="checkbox"
+                            aria-label={`${role}: ${label}`}
+                            checked={permissions.includes(permission)}
+                            disabled={!canManageMembers || isLocked}
+                            onChange={() =>
+                              handleTogglePermission(role, permissions, permission)
+                            }
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Document Numbering */}
+      <Card>
+        <CardHeader>
+          <h2 className="text-heading-md text-[var(--color-text-primary)]">
+            Document Numbering
+          </h2>
+        </CardHeader>
+        <CardContent>
+          {documentSequences === undefined ? (
+            <div className="flex justify-center p-4">
+              <Spinner variant="primary" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-body-sm">
+                <thead>
+                  <tr className="border-b border-[var(--color-border-primary-subtle)]">
+                    <th className="p-2 text-left font-medium text-[var(--color-text-secondary)]">
+                      Document
+                    </th>
+                    <th className="p-2 text-left font-medium text-[var(--color-text-secondary)]">
+                      Prefix
+                    </th>
+                    <th className="p-2 text-center font-medium text-[var(--color-text-secondary)]">
+                      Include year
+                    </th>
+                    <th className="p-2 text-left font-medium text-[var(--color-text-secondary)]">
+                      Digits
+                    </th>
+                    <th className="p-2 text-left font-medium text-[var(--color-text-secondary)]">
+                      Next number
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {documentSequences.map((sequence) => (
+                    <tr
+                      key={sequence.documentType}
+                      className="border-b border-[var(--color-border-primary-subtle)] last:border-b-0"
+                    >
+                      <td className="p-2 text-[var(--color-text-primary)]">
+                        {DOCUMENT_TYPE_LABELS[sequence.documentType]}
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          key={sequence.prefix}
+                          defaultValue={sequence.prefix}
+                          disabled={!canManageMembers}
+                          className="w-24"
+                          onBlur={(e) => {
+                            const prefix = e.target.value.trim();
+                            if (prefix && prefix !== sequence.prefix) {
+                              handleUpdateSequence(sequence, { prefix });
+                            }
+                          }}
+                        />
+                      </td>
+                      <td className="p-2 text-center">
+                        <input
+                          type="checkbox"
+                          aria-label={`${DOCUMENT_TYPE_LABELS[sequence.documentType]}: include year`}
+                          checked={sequence.includeYear}
+                          disabled={!canManageMembers}
+                          onChange={() =>
+                            handleUpdateSequence(sequence, { includeYear: !sequence.includeYear })
+                          }
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Select
+                          value={String(sequence.padding)}
+                          disabled={!canManageMembers}
+                          onValueChange={(value) =>
+                            handleUpdateSequence(sequence, { padding: Number(value) })
+                          }
+                        >
+                          <SelectTrigger className="w-20">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[3, 4, 5, 6, 7, 8].map((digits) => (
+                              <SelectItem key={digits} value={String(digits)}>
+                                {digits}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="p-2 font-mono text-[var(--color-text-secondary)]">
+                        {sequence.nextNumber}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Approval Policies */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h2 className="text-heading-md text-[var(--color-text-primary)]">
+              Approval Policies
+            </h2>
+            {canManageMembers && (
+              <Button variant="secondary" size="s" onClick={() => setShowNewPolicy(true)}>
+                New policy
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {approvalPolicies === undefined ? (
+            <div className="flex justify-center p-4">
+              <Spinner variant="primary" />
+            </div>
+          ) : approvalPolicies.length === 0 ? (
+            <p className="text-body-md text-[var(--color-text-secondary)]">
+              No approval policies. Each party approves a contract with a single approval.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-body-sm text-[var(--color-text-secondary)]">
+                The first active policy matching a contract sets its approval steps.
+              </p>
+              {approvalPolicies.map((policy) => (
+                <div
+                  key={policy._id}
+                  className="flex items-start justify-between gap-4 p-3 rounded-l border border-[var(--color-border-primary-subtle)]"
+                >
+                  <div className="flex flex-col gap-1">
+                    <div className="flex items-center gap-2">
+                      <p className="text-body-md font-medium text-[var(--color-text-primary)]">
+                        {policy.name}
+                      </p>
+                      {!policy.isActive && (
+                        <Badge intent="neutral" size="xs">
+                          Inactive
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-body-sm text-[var(--color-text-secondary)]">
+                      {describePolicyConditions(policy.conditions)}
+                    </p>
+                    <p className="text-body-sm text-[var(--color-text-secondary)]">
+                      {policy.steps
+                        .map((step) => {
+                          const approvers = step.approverRole
+                            ? `any ${step.approverRole}`
+                            : step.approvers.map((approver) => approver.name).join(", ") ||
+                              "any approver";
+                          return `${step.name} (${step.quorum} of ${approvers})`;
+                        })
+                        .join(policy.sequencing === "sequential" ? " → " : " + ")}
+                    </p>
+                  </div>
+                  {canManageMembers && (
+                    <div className="flex shrink-0 items-center gap-2">
+                      <input
+                        type="checkbox"
+                        aria-label={`${policy.name}: active`}
+                        checked={policy.isActive}
+                        onChange={() => handleTogglePolicy(policy._id, !policy.isActive)}
+                      />
+                      <Button variant="ghost" size="s" onClick={() => setEditingPolicy(policy)}>
+                        Edit
+                      </Button>
+                      <Button variant="ghost" size="s" onClick={() => handleRemovePolicy(policy._id)}>
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {showNewPolicy && currentOrganization && (
+        <ApprovalPolicyDialog
+          organizationId={currentOrganization._id}
+          members={members ?? []}
+          onClose={() => setShowNewPolicy(false)}
+        />
+      )}
+      {editingPolicy && currentOrganization && (
+        <ApprovalPolicyDialog
+          organizationId={currentOrganization._id}
+          members={members ?? []}
+          policy={editingPolicy}
+          onClose={() => setEditingPolicy(null)}
+        />
+      )}
+
+      {/* Delegations */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h2 className="text-heading-md text-[var(--color-text-primary)]">
+              Delegations
+            </h2>
+            <Button variant="secondary" size="s" onClick={() => setShowNewDelegation(true)}>
+              Delegate authority
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {delegations === undefined ? (
+            <div className="flex justify-center p-4">
+              <Spinner variant="primary" />
+            </div>
+          ) : delegations.length === 0 ? (
+            <p className="text-body-md text-[var(--color-text-secondary)]">
+              No delegations. Delegate your approval or signing authority while you are away.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {delegations.map((delegation) => (
+                <div
+                  key={delegation._id}
+                  className="flex items-center justify-between p-3 rounded-l border border-[var(--color-border-primary-subtle)]"
+                >
+                  <div>
+                    <p className="text-body-md font-medium text-[var(--color-text-primary)]">
+                      {delegation.delegate?.name ?? "Unknown user"} acts for{" "}
+                      {delegation.delegator?.name ?? "Unknown user"}
+                    </p>
+                    <p className="text-body-sm text-[var(--color-text-secondary)]">
+                      {delegation.authority
+                        .map((authority) => DELEGATED_AUTHORITY_LABELS[authority])
+                        .join(" & ")}{" "}
+                      • {new Date(delegation.startsAt).toLocaleDateString()} –{" "}
+                      {new Date(delegation.endsAt).toLocaleDateString()}
+                      {delegation.reason && ` • ${delegation.reason}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {delegation.isActive ? (
+                      <Badge className="bg-green-100 text-green-800">Active</Badge>
+                    ) : (
+                      <Badge className="bg-gray-100 text-gray-800">Upcoming</Badge>
+                    )}
+                    {(canManageMembers ||
+                      delegation.delegatorId === user?._id ||
+                      delegation.delegateId === user?._id) && (
+                      <Button
+                        variant="secondary"
+                        size="s"
+                        onClick={() => handleRevokeDelegation(delegation._id)}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {showNewDelegation && currentOrganization && user?._id && (
+        <DelegationDialog
+          organizationId={currentOrganization._id}
+          currentUserId={user._id}
+          members={members ?? []}
+          canDelegateForOthers={canManageMembers}
+          onClose={() => setShowNewDelegation(false)}
+        />
+      )}
+
+      {/* Pending Invitations (member managers only) */}
+      {canManageMembers && (
         <Card>
           <CardHeader>
             <h2 className="text-heading-md text-[var(--color-text-primary)]">
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useCallback } from "react";
 import {
   type ColumnDef,
 } from "@tanstack/react-table";
@@ -18,15 +18,21 @@ import {
   SelectTrigger,
   SelectValue,
   cn,
+  toast,
 } from "@rafal.lemieszewski/tide-ui";
 import { DataTable } from "@rafal.lemieszewski/tide-ui/data-table";
 import { Filters, type FilterDefinition, type FilterValue } from "@rafal.lemieszewski/tide-ui/filters";
 import { InsightsSection } from "../components/InsightsSection";
 import { Building2, Tag, Layers, Ship, Briefcase, Calendar, Plus, LineChart } from "lucide-react";
 import { useHeaderActions } from "../hooks";
-import { useQuery } from "convex/react";
+import { useNavigate } from "react-router";
+import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
 import { useUser } from "../hooks";
+import { NewOrderDialog } from "../components/NewOrderDialog";
+import { DistributeOrderDialog } from "../components/DistributeOrderDialog";
+import { CounterOfferDialog } from "../components/CounterOfferDialog";
 
 // Helper function for Badge appearance
 const getStageBadgeProps = (
@@ -59,12 +65,16 @@ interface OrderData {
   tce: string;
   validity: string;
   isBrokerGroup?: boolean;
+  orderId?: Id<"orders">;
+  orderStatus?: string;
+  negotiationId?: Id<"negotiations">;
+  negotiationStatus?: string;
   children?: OrderData[];
 }
 
 // Negotiation data from API
 interface NegotiationItem {
-  _id: string;
+  _id: Id<"negotiations">;
   negotiationNumber?: string;
   status: string;
   counterparty?: { name?: string } | null;
@@ -79,11 +89,12 @@ interface NegotiationItem {
 
 // Order with negotiations from API
 interface OrderWithNegotiations {
-  _id: string;
+  _id: Id<"orders">;
   orderNumber: string;
   title?: string;
   type: string;
   stage: string;
+  status: string;
   laycanStart?: number;
   laycanEnd?: number;
   demurrageRate?: string;
@@ -147,6 +158,8 @@ const transformDatabaseToHierarchy = (
           demurrage: neg.demurrageRate || "-",
           tce: neg.tce || "-",
           validity: neg.validity || "-",
+          negotiationId: neg._id,
+          negotiationStatus: neg.status,
         })),
       };
       }
@@ -176,13 +189,21 @@ const transformDatabaseToHierarchy = (
       demurrage: order.demurrageRate || "-",
       tce: order.tce || "-",
       validity: order.validityHours ? `${order.validityHours}h` : "-",
+      orderId: order._id,
+      orderStatus: order.status,
       children: brokerGroups,
     };
   });
 };
 
 function TradeDesk() {
+  const navigate = useNavigate();
   const [showInsights, setShowInsights] = useState(true);
+  const [showNewOrder, setShowNewOrder] = useState(false);
+  const [distributeTarget, setDistributeTarget] = useState<OrderData | null>(null);
+  const [counterTarget, setCounterTarget] = useState<OrderData | null>(null);
+
+  const acceptFirm = useMutation(api.negotiations.acceptFirm);
 
   // Get current user and organization
   const { user: _user } = useUser();
@@ -207,7 +228,13 @@ function TradeDesk() {
           <span className="btn-negotiation-full">New negotiation</span>
           <span className="btn-negotiation-short">Negotiation</span>
         </Button>
-        <Button variant="primary" icon={Plus} iconPosition="left" className="whitespace-nowrap">
+        <Button
+          variant="primary"
+          icon={Plus}
+          iconPosition="left"
+          className="whitespace-nowrap"
+          onClick={() => setShowNewOrder(true)}
+        >
           <span className="btn-order-full">New order</span>
           <span className="btn-order-short">Order</span>
         </Button>
@@ -358,6 +385,23 @@ function TradeDesk() {
     },
   ], [uniqueCounterparties, uniqueTypes, uniqueStages, uniqueVessels, uniqueBrokers]);
 
+  // Accept a firm offer/bid; the deal moves to Fixtures
+  const handleAccept = useCallback(async (row: OrderData) => {
+    if (!row.negotiationId) return;
+    try {
+      await acceptFirm({ negotiationId: row.negotiationId });
+      toast.success(`Accepted ${row.counterparty}'s ${row.stage.toLowerCase()}`, {
+        action: {
+          label: "View fixture",
+          onClick: () => navigate("/fixtures"),
+        },
+      });
+    } catch (error) {
+      console.error("Failed to accept:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to accept");
+    }
+  }, [acceptFirm, navigate]);
+
   // Memoize columns to prevent unnecessary re-renders
   const orderColumns: ColumnDef<OrderData>[] = useMemo(() => [
     {
@@ -509,7 +553,44 @@ function TradeDesk() {
         );
       },
     },
-  ], []);
+    {
+      id: 'actions',
+      header: '',
+      cell: ({ row }) => {
+        const { orderStatus, negotiationStatus } = row.original;
+
+        // Draft orders can be sent out to counterparties
+        if (orderStatus === 'draft') {
+          return (
+            <div className="flex justify-end">
+              <Button variant="secondary" size="s" onClick={() => setDistributeTarget(row.original)}>
+                Distribute
+              </Button>
+            </div>
+          );
+        }
+
+        if (!negotiationStatus) return null;
+
+        const isFirm = negotiationStatus === 'firm-offer' || negotiationStatus === 'firm-bid';
+        const canCounter = isFirm || negotiationStatus.startsWith('indicative') || negotiationStatus === 'firm-offer-expired';
+        if (!canCounter) return null;
+
+        return (
+          <div className="flex justify-end gap-1">
+            <Button variant="secondary" size="s" onClick={() => setCounterTarget(row.original)}>
+              Counter
+            </Button>
+            {isFirm && (
+              <Button variant="primary" size="s" onClick={() => handleAccept(row.original)}>
+                Accept
+              </Button>
+            )}
+          </div>
+        );
+      },
+    },
+  ], [handleAccept]);
 
   // Helper function to parse laycan date and check if it's within range
   const parseLaycanDate = (laycan: string): Date | null => {
@@ -778,6 +859,36 @@ function TradeDesk() {
         showHeader={false}
       />
       </div>
+
+      {showNewOrder && organizationId && (
+        <NewOrderDialog
+          organizationId={organizationId}
+          onClose={() => setShowNewOrder(false)}
+        />
+      )}
+
+      {distributeTarget?.orderId && (
+        <DistributeOrderDialog
+          orderId={distributeTarget.orderId}
+          orderNumber={distributeTarget.id}
+          orderType={distributeTarget.type}
+          onClose={() => setDistributeTarget(null)}
+        />
+      )}
+
+      {counterTarget?.negotiationId && counterTarget.negotiationStatus && (
+        <CounterOfferDialog
+          negotiationId={counterTarget.negotiationId}
+          negotiationNumber={counterTarget.id}
+          counterparty={counterTarget.counterparty}
+          status={counterTarget.negotiationStatus}
+          lastBid={counterTarget.lastBid !== '-' ? counterTarget.lastBid : undefined}
+          lastOffer={counterTarget.lastOffer !== '-' ? counterTarget.lastOffer : undefined}
+          demurrageRate={counterTarget.demurrage !== '-' ? counterTarget.demurrage : undefined}
+          validity={counterTarget.validity !== '-' ? counterTarget.validity : undefined}
+          onClose={() => setCounterTarget(null)}
+        />
+      )}
     </>
   );
 }
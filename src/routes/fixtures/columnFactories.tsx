@@ -17,7 +17,12 @@ type FixtureCellContext<TValue = unknown> = CellContext<FixtureData, TValue>;
 const isDefined = <T,>(value: T | null | undefined): value is T => value != null;
 
 // ── Highlight function type ──────────────────────────────────────────────────
-export type Highlighter = (text: string) => React.ReactNode;
+// Pass the cell's row and column to highlight only the terms the server
+// reported for that column; without them every term is highlighted.
+export type Highlighter = (
+  text: string,
+  cell?: { row: FixtureData; field: string },
+) => React.ReactNode;
 
 const HIGHLIGHT_STYLE = {
   backgroundColor: 'var(--yellow-200, #fef08a)',
@@ -26,19 +31,35 @@ const HIGHLIGHT_STYLE = {
   padding: '0 2px',
 } as const;
 
+function buildTermRegexes(terms: string[]) {
+  const pattern = terms
+    .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("|");
+  return {
+    splitRegex: new RegExp(`(${pattern})`, "gi"),
+    testRegex: new RegExp(`^(${pattern})$`, "i"),
+  };
+}
+
 /**
- * Factory that returns a highlight function with cached regex.
+ * Factory that returns a highlight function with cached regexes.
  * Build once per createFixtureColumns call; pass to all columns.
  */
 export function createHighlighter(terms: string[]): Highlighter | null {
   if (!terms.length) return null;
-  const pattern = terms
-    .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
-    .join("|");
-  const splitRegex = new RegExp(`(${pattern})`, "gi");
-  const testRegex = new RegExp(`^(${pattern})$`, "i");
-  return (text: string) => {
+  const allTerms = buildTermRegexes(terms);
+  const regexCache = new Map<string, ReturnType<typeof buildTermRegexes>>();
+  return (text: string, cell?: { row: FixtureData; field: string }) => {
     if (!text) return text;
+    let regexes = allTerms;
+    const matchedTerms = cell?.row.searchHighlights && (cell.row.searchHighlights[cell.field] ?? []);
+    if (matchedTerms) {
+      if (!matchedTerms.length) return text;
+      const key = matchedTerms.join("|");
+      if (!regexCache.has(key)) regexCache.set(key, buildTermRegexes(matchedTerms));
+      regexes = regexCache.get(key)!;
+    }
+    const { splitRegex, testRegex } = regexes;
     const parts = text.split(splitRegex);
     return parts.map((part, i) =>
       testRegex.test(part) ? (
@@ -159,7 +180,7 @@ export function createTextColumn(
     enableGrouping,
     enableGlobalFilter,
     ...(enableSorting != null && { enableSorting }),
-    cell: ({ getValue }: FixtureCellContext) => {
+    cell: ({ row, getValue }: FixtureCellContext) => {
       const value = getValue<string>();
       if (!value || value === "–") {
         return (
@@ -170,7 +191,7 @@ export function createTextColumn(
       }
       return (
         <div className={`text-body-sm ${fontClass}text-[var(--color-text-primary)]`}>
-          {shouldHighlight && highlight ? highlight(value) : value}
+          {shouldHighlight && highlight ? highlight(value, { row: row.original, field: accessorKey }) : value}
         </div>
       );
     },
@@ -114,7 +114,7 @@ function createPartyColumn(
             </Avatar>
           )}
           <div className="text-body-sm text-[var(--color-text-primary)]">
-            {highlight ? highlight(name) : name}
+            {highlight ? highlight(name, { row: row.original, field: key }) : name}
           </div>
         </div>
       );
@@ -203,7 +203,7 @@ export function createFixtureColumns(opts: {
                   onFixtureSelect(row.original, row.id);
                 }}
               >
-                {highlight ? highlight(value) : value}
+                {highlight ? highlight(value, { row: row.original, field: "fixtureId" }) : value}
               </button>
             </TooltipTrigger>
             <TooltipContent>View fixture details</TooltipContent>
@@ -293,7 +293,11 @@ export function createFixtureColumns(opts: {
       cell: ({ row }: FixtureCellContext) => {
         const negotiationId = row.getValue("negotiationId") as string;
         if (negotiationId === "-") return <div className="text-body-sm text-[var(--color-text-secondary)]">-</div>;
-        return <div className="text-body-sm font-mono text-[var(--color-text-primary)]">{negotiationId}</div>;
+        return (
+          <div className="text-body-sm font-mono text-[var(--color-text-primary)]">
+            {highlight ? highlight(negotiationId, { row: row.original, field: "negotiationId" }) : negotiationId}
+          </div>
+        );
       },
       aggregatedCell: ({ row }: FixtureCellContext) => {
         const uniqueIds = Array.from(
@@ -320,7 +324,7 @@ export function createFixtureColumns(opts: {
             className="text-body-sm font-mono text-[var(--blue-600)] hover:underline"
             onClick={(e) => { e.stopPropagation(); }}
           >
-            {highlight ? highlight(cpId) : cpId}
+            {highlight ? highlight(cpId, { row: row.original, field: "cpId" }) : cpId}
           </button>
         );
       },
@@ -389,6 +393,7 @@ export function createFixtureColumns(opts: {
       icon: iconShip,
       enableGrouping: false,
       mono: true,
+      highlight: true,
     }, highlight),
 
     // ── Vessel Name (custom — highlighting + aggregated) ───────────────────
@@ -409,7 +414,7 @@ export function createFixtureColumns(opts: {
         const vessels = row.getValue("vessels") as string;
         return (
           <div className="text-body-sm text-[var(--color-text-primary)]">
-            {highlight ? highlight(vessels) : vessels}
+            {highlight ? highlight(vessels, { row: row.original, field: "vessels" }) : vessels}
           </div>
         );
       },
@@ -437,6 +442,7 @@ export function createFixtureColumns(opts: {
       icon: iconShipLoad,
       enableGrouping: true,
       aggregatedNoun: "ports",
+      highlight: true,
     }, highlight),
 
     createCountryColumn({
@@ -470,6 +476,7 @@ export function createFixtureColumns(opts: {
       icon: iconShipUnload,
       enableGrouping: true,
       aggregatedNoun: "ports",
+      highlight: true,
     }, highlight),
 
     createCountryColumn({
@@ -503,6 +510,7 @@ export function createFixtureColumns(opts: {
       icon: iconPackage,
       enableGrouping: true,
       aggregatedNoun: "types",
+      highlight: true,
     }, highlight),
 
     createNumericColumn({
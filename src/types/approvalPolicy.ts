@@ -0,0 +1,17 @@
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export type ApprovalPolicy = Doc<"approval_policies">;
+export type ApprovalPolicyStep = ApprovalPolicy["steps"][number];
+export type PolicyContractType = NonNullable<ApprovalPolicy["conditions"]["contractTypes"]>[number];
+
+export const POLICY_CONTRACT_TYPE_LABELS: Record<PolicyContractType, string> = {
+  "voyage-charter": "Voyage charter",
+  "time-charter": "Time charter",
+  bareboat: "Bareboat",
+  coa: "COA",
+};
+
+export const APPROVAL_SEQUENCING_LABELS: Record<ApprovalPolicy["sequencing"], string> = {
+  sequential: "One step after another",
+  parallel: "All steps at once",
+};
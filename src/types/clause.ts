@@ -0,0 +1,15 @@
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export type ClauseCategory = Doc<"clauses">["category"];
+
+export const CLAUSE_CATEGORY_LABELS: Record<ClauseCategory, string> = {
+  general: "General",
+  laytime: "Laytime & demurrage",
+  payment: "Freight & payment",
+  cargo: "Cargo",
+  liabilities: "Liabilities",
+  "war-risks": "War risks",
+  sanctions: "Sanctions",
+  environmental: "Environmental",
+  "law-arbitration": "Law & arbitration",
+};
@@ -0,0 +1,20 @@
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export type CoaTerms = NonNullable<Doc<"contracts">["coaTerms"]>;
+export type LiftingFlag = NonNullable<Doc<"contracts">["coaLiftingFlag"]>;
+
+// Steps of a COA voyage, each recorded through VoyageNominationDialog
+export type VoyageNominationStep = "vessel" | "laycan" | "lifting";
+
+export const LIFTING_FLAG_LABELS: Record<LiftingFlag, string> = {
+  "on-track": "On track",
+  "under-lifting": "Under-lifting",
+  "over-lifting": "Over-lifting",
+};
+
+export const VOYAGE_STATUS_LABELS: Record<string, string> = {
+  scheduled: "Scheduled",
+  nominated: "Nominated",
+  completed: "Lifted",
+  cancelled: "Cancelled",
+};
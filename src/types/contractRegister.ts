@@ -0,0 +1,99 @@
+import type { FunctionReturnType } from "convex/server";
+import type { FilterValue } from "@rafal.lemieszewski/tide-ui/filters";
+import type { api } from "../../convex/_generated/api";
+
+export type ContractRegisterRow = FunctionReturnType<typeof api.contractRegister.list>["page"][number];
+
+// Where a charter party is in approval and signing
+export type ContractProgress =
+  | "awaiting-approval"
+  | "awaiting-signature"
+  | "fully-signed"
+  | "rejected";
+
+export const CONTRACT_PROGRESS_LABELS: Record<ContractProgress, string> = {
+  "awaiting-approval": "Awaiting approval",
+  "awaiting-signature": "Awaiting signature",
+  "fully-signed": "Fully signed",
+  rejected: "Rejected",
+};
+
+export const CONTRACT_TYPE_LABELS: Record<ContractRegisterRow["contractType"], string> = {
+  "voyage-charter": "Voyage charter",
+  "time-charter": "Time charter",
+  bareboat: "Bareboat",
+  coa: "COA",
+};
+
+// Approval and signing stage of a charter party; recaps have none
+export function getContractProgress(row: ContractRegisterRow): ContractProgress | null {
+  if (!row.approvals || !row.signatures) return null;
+  if (row.status === "rejected" || row.approvals.rejected > 0) return "rejected";
+  if (row.fullySignedDate) return "fully-signed";
+  if (row.approvals.total > 0 && row.approvals.approved === row.approvals.total) {
+    return "awaiting-signature";
+  }
+  return "awaiting-approval";
+}
+
+// Status in the FixtureStatus format, e.g. "contract-final" or "recap-manager-draft"
+export function getRegisterStatus(row: ContractRegisterRow): string {
+  return row.source === "contract" ? `contract-${row.status}` : `recap-manager-${row.status}`;
+}
+
+// Apply multiselect filters and global search terms to register rows
+export function filterRegisterRows(
+  rows: ContractRegisterRow[],
+  activeFilters: Record<string, FilterValue>,
+  globalSearchTerms: string[]
+): ContractRegisterRow[] {
+  const terms = globalSearchTerms.map((term) => term.trim().toLowerCase()).filter(Boolean);
+
+  return rows.filter((row) => {
+    for (const [filterId, filterValue] of Object.entries(activeFilters)) {
+      if (!filterValue) continue;
+      const values = (Array.isArray(filterValue) ? filterValue : [filterValue]) as string[];
+      if (values.length === 0) continue;
+
+      switch (filterId) {
+        case "type":
+          if (!values.includes(row.contractType)) return false;
+          break;
+        case "status":
+          if (!values.includes(getRegisterStatus(row))) return false;
+          break;
+        case "progress": {
+          const progress = getContractProgress(row);
+          if (!progress || !values.includes(progress)) return false;
+          break;
+        }
+        case "owner":
+          if (!row.owner || !values.includes(row.owner.name)) return false;
+          break;
+        case "charterer":
+          if (!row.charterer || !values.includes(row.charterer.name)) return false;
+          break;
+        case "broker":
+          if (!row.broker || !values.includes(row.broker.name)) return false;
+          break;
+        case "vessel":
+          if (!row.vessel || !values.includes(row.vessel)) return false;
+          break;
+      }
+    }
+
+    if (terms.length === 0) return true;
+    const haystack = [
+      row.number,
+      row.fixtureNumber,
+      row.vessel,
+      row.owner?.name,
+      row.charterer?.name,
+      row.broker?.name,
+    ]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    return terms.some((term) => haystack.includes(term));
+  });
+}
@@ -0,0 +1,8 @@
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export type DelegatedAuthority = Doc<"approval_delegations">["authority"][number];
+
+export const DELEGATED_AUTHORITY_LABELS: Record<DelegatedAuthority, string> = {
+  approve: "Approve",
+  sign: "Sign",
+};
@@ -0,0 +1,12 @@
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export type ESignProviderName = Doc<"esign_envelopes">["provider"];
+export type EnvelopeStatus = Doc<"esign_envelopes">["status"];
+
+export const ENVELOPE_STATUS_LABELS: Record<EnvelopeStatus, string> = {
+  sent: "Sent",
+  delivered: "Opened",
+  completed: "Signed",
+  declined: "Declined",
+  voided: "Voided",
+};
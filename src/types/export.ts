@@ -23,6 +23,26 @@ export type ExportGrouping = "flatten" | "preserve";
  */
 export type StatusFormat = "full" | "short" | "value";
 
+/**
+ * Whether an export is downloaded now or emailed on a schedule
+ */
+export type ExportDelivery = "download" | "schedule";
+
+/**
+ * How often a scheduled export runs
+ */
+export type ExportFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * When a scheduled export runs (hours and days in UTC)
+ */
+export interface ExportSchedule {
+  frequency: ExportFrequency;
+  hourUTC: number;
+  dayOfWeek?: number; // 0 = Sunday
+  dayOfMonth?: number; // 1–28
+}
+
 /**
  * Date range selection
  */
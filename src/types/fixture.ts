@@ -107,6 +107,37 @@ export interface FieldChangeUserData {
   avatarUrl?: string | null;
 }
 
+// ============================================================================
+// Rate Types
+// ============================================================================
+
+export type RateBasis = "worldscale" | "lumpsum" | "per-tonne" | "per-day" | "percent";
+
+/**
+ * Numeric rate parsed from a rate string (e.g. "WS 85-90", "$25.12/mt")
+ */
+export interface Rate {
+  value: number;
+  unit: string;
+  currency?: string;
+  basis: RateBasis;
+  range?: { min: number; max: number };
+}
+
+/**
+ * Structured counterparts of an entity's rate strings
+ */
+export interface Rates {
+  freight?: Rate;
+  demurrage?: Rate;
+  despatch?: Rate;
+  tce?: Rate;
+  addressCommission?: Rate;
+  brokerCommission?: Rate;
+  bid?: Rate;
+  offer?: Rate;
+}
+
 // ============================================================================
 // Negotiation Types
 // ============================================================================
@@ -142,7 +173,9 @@ export interface NegotiationData {
   freightRate?: string;
   demurrageRate?: string;
   tce?: string;
+  rates?: Rates;
   validity?: string;
+  validUntil?: number;
   loadDeliveryType?: string;
   dischargeRedeliveryType?: string;
   laycanStart?: number;
@@ -217,6 +250,7 @@ export interface ContractData {
   despatchRate?: string;
   addressCommission?: string;
   brokerCommission?: string;
+  rates?: Rates;
   cargoTypeId?: Id<"cargo_types">;
   quantity?: number;
   quantityUnit?: string;
@@ -277,6 +311,7 @@ export interface RecapManagerData {
   freightRateType?: "worldscale" | "lumpsum" | "per-tonne";
   demurrageRate?: string;
   despatchRate?: string;
+  rates?: Rates;
   quantity?: number;
   quantityUnit?: string;
   status: RecapStatus;
@@ -331,6 +366,7 @@ export interface OrderData {
   demurrageRate?: string;
   despatchRate?: string;
   tce?: string;
+  rates?: Rates;
   validityHours?: number;
   organizationId: Id<"organizations">;
   chartererId?: Id<"companies">;
@@ -396,6 +432,17 @@ export interface ApprovalSummary {
   approved: number;
   pending: number;
   rejected: number;
+  steps?: {
+    total: number;
+    approved: number;
+  };
+  outstanding?: number;
+  awaiting?: Array<{
+    approvalId: Id<"contract_approvals">;
+    partyRole: string;
+    step: string;
+    remaining: number;
+  }>;
 }
 
 /**
@@ -433,6 +480,7 @@ export interface EnrichedContractItem {
   laycanEnd?: number;
   freightRate?: string;
   demurrageRate?: string;
+  rates?: Rates;
   quantity?: number;
   quantityUnit?: string;
   workingCopyDate?: number;
@@ -620,4 +668,7 @@ export interface FixtureData {
   // Priority 8: Parent/Child Relationships
   parentCpId?: string;
   contractType?: string;
+
+  // Columns each global search term matched (set while searching)
+  searchHighlights?: Record<string, string[]>;
 }
@@ -0,0 +1,403 @@
+import type { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { addPageNumber, createPdfDocument } from "./exportHelpers";
+import { formatDateTime, formatEnumLabel, formatQuantity } from "./dataUtils";
+
+export type CharterPartyForm = "gencon" | "wet-recap";
+
+export const CHARTER_PARTY_FORM_LABELS: Record<CharterPartyForm, string> = {
+  gencon: "GENCON",
+  "wet-recap": "Wet fixture recap",
+};
+
+/**
+ * Structured contract data the CP document is filled from.
+ * Matches the shape returned by contracts.getById and recapManagers.getById.
+ */
+export interface CharterPartyData {
+  documentNumber: string;
+  contractType: string;
+  status: string;
+  owner?: { name: string } | null;
+  charterer?: { name: string } | null;
+  broker?: { name: string } | null;
+  vessel?: {
+    name: string;
+    imoNumber?: string;
+    dwt?: number;
+    grt?: number;
+    flag?: string;
+  } | null;
+  loadPort?: { name: string; country: string } | null;
+  dischargePort?: { name: string; country: string } | null;
+  cargoType?: { name: string } | null;
+  loadDeliveryType?: string;
+  dischargeRedeliveryType?: string;
+  laycanStart?: number;
+  laycanEnd?: number;
+  freightRate?: string;
+  freightRateType?: string;
+  demurrageRate?: string;
+  despatchRate?: string;
+  addressCommission?: string;
+  brokerCommission?: string;
+  quantity?: number;
+  quantityUnit?: string;
+  clauses?: AgreedClause[];
+  addenda: Array<{
+    addendaNumber: string;
+    description?: string;
+    status: string;
+    clauses?: AgreedClause[];
+    amendmentSummary?: string[]; // Term amendments, as sentences
+  }>;
+}
+
+/**
+ * An electronic signature stamped onto the signature page, with the hash of
+ * the document version the party signed
+ */
+export interface CharterPartySignature {
+  partyRole: string;
+  companyName: string;
+  signerName: string;
+  onBehalfOfName?: string;
+  signedAt: number;
+  documentHash: string;
+}
+
+// A clause library clause at the version agreed on the CP
+interface AgreedClause {
+  title: string;
+  version: number;
+  text: string;
+}
+
+// Type augmentation for the position of the last table drawn by jspdf-autotable
+interface JsPDFWithAutoTable {
+  lastAutoTable: { finalY?: number };
+}
+
+const MARGIN = 14;
+const NOT_SPECIFIED = "—";
+
+const formatDate = (timestamp?: number): string =>
+  timestamp
+    ? new Date(timestamp).toLocaleDateString("en-US", {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+      })
+    : NOT_SPECIFIED;
+
+const formatPort = (port?: { name: string; country: string } | null): string =>
+  port ? `${port.name}, ${port.country}` : NOT_SPECIFIED;
+
+const formatCargoLine = (data: CharterPartyData): string => {
+  const cargo = data.cargoType?.name ?? NOT_SPECIFIED;
+  return data.quantity
+    ? `${formatQuantity(data.quantity, data.quantityUnit || "MT")} ${cargo}`
+    : cargo;
+};
+
+const formatFreight = (data: CharterPartyData): string => {
+  if (!data.freightRate) return NOT_SPECIFIED;
+  return data.freightRateType
+    ? `${data.freightRate} (${formatEnumLabel(data.freightRateType)})`
+    : data.freightRate;
+};
+
+const formatCommissions = (data: CharterPartyData): string => {
+  const parts = [
+    data.addressCommission && `${data.addressCommission} address commission`,
+    data.brokerCommission &&
+      `${data.brokerCommission} brokerage${data.broker ? ` to ${data.broker.name}` : ""}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join("; ") : NOT_SPECIFIED;
+};
+
+const getFinalY = (doc: jsPDF): number =>
+  (doc as unknown as JsPDFWithAutoTable).lastAutoTable.finalY ?? MARGIN;
+
+function drawTitle(doc: jsPDF, title: string, subtitle: string): number {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text(title, MARGIN, 18);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.text(subtitle, MARGIN, 24);
+  return 30;
+}
+
+/**
+ * GENCON-style Part I: numbered boxes, two per row
+ */
+function drawGenconBoxes(doc: jsPDF, data: CharterPartyData, startY: number): void {
+  const vessel = data.vessel;
+  const boxes: Array<[string, string]> = [
+    ["1. Shipbroker", data.broker?.name ?? NOT_SPECIFIED],
+    ["2. Place and date", formatDate(Date.now())],
+    ["3. Owners", data.owner?.name ?? NOT_SPECIFIED],
+    ["4. Charterers", data.charterer?.name ?? NOT_SPECIFIED],
+    [
+      "5. Vessel's name",
+      vessel
+        ? [vessel.name, vessel.imoNumber && `IMO ${vessel.imoNumber}`, vessel.flag]
+            .filter(Boolean)
+            .join(", ")
+        : "TBN",
+    ],
+    ["6. GT", vessel?.grt ? formatQuantity(vessel.grt) : NOT_SPECIFIED],
+    ["7. DWT all told", vessel?.dwt ? formatQuantity(vessel.dwt, "mt") : NOT_SPECIFIED],
+    ["9. Expected ready to load", formatDate(data.laycanStart)],
+    ["10. Loading port or place", formatPort(data.loadPort)],
+    ["11. Discharging port or place", formatPort(data.dischargePort)],
+    ["12. Cargo", formatCargoLine(data)],
+    ["13. Freight rate", formatFreight(data)],
+    [
+      "16. Laytime / terms",
+      [data.loadDeliveryType, data.dischargeRedeliveryType].filter(Boolean).join(" / ") ||
+        NOT_SPECIFIED,
+    ],
+    ["20. Demurrage rate", data.demurrageRate ?? NOT_SPECIFIED],
+    ["21. Cancelling date", formatDate(data.laycanEnd)],
+    ["24. Brokerage commission", formatCommissions(data)],
+    [
+      "26. Additional clauses",
+      [
+        data.clauses?.length && `Rider clauses 1–${data.clauses.length} as attached`,
+        data.addenda.length > 0 &&
+          `Addenda ${data.addenda.map((addendum) => addendum.addendaNumber).join(", ")} attached`,
+      ]
+        .filter(Boolean)
+        .join("; ") || "None",
+    ],
+  ];
+
+  const cells = boxes.map(([label, value]) => `${label}\n${value}`);
+  const rows: string[][] = [];
+  for (let i = 0; i < cells.length; i += 2) {
+    rows.push([cells[i], cells[i + 1] ?? ""]);
+  }
+
+  autoTable(doc, {
+    startY,
+    body: rows,
+    theme: "grid",
+    styles: { fontSize: 9, cellPadding: 3, valign: "top" },
+    columnStyles: { 0: { cellWidth: "auto" }, 1: { cellWidth: "auto" } },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+}
+
+/**
+ * Wet fixture recap: one term per line, as sent on the broker's recap
+ */
+function drawRecapTerms(doc: jsPDF, data: CharterPartyData, startY: number): void {
+  doc.setFontSize(9);
+  doc.text("We are pleased to confirm the following fixture:", MARGIN, startY);
+
+  const vessel = data.vessel;
+  const terms: Array<[string, string]> = [
+    ["CP form", formatEnumLabel(data.contractType)],
+    ["Owners", data.owner?.name ?? NOT_SPECIFIED],
+    ["Charterers", data.charterer?.name ?? NOT_SPECIFIED],
+    [
+      "Vessel",
+      vessel
+        ? [
+            vessel.name,
+            vessel.imoNumber && `IMO ${vessel.imoNumber}`,
+            vessel.dwt && `${formatQuantity(vessel.dwt)} dwt`,
+            vessel.flag && `${vessel.flag} flag`,
+          ]
+            .filter(Boolean)
+            .join(" / ")
+        : "TBN",
+    ],
+    ["Cargo", formatCargoLine(data)],
+    ["Load", formatPort(data.loadPort)],
+    ["Discharge", formatPort(data.dischargePort)],
+    ["Laycan", `${formatDate(data.laycanStart)} – ${formatDate(data.laycanEnd)}`],
+    ["Freight", formatFreight(data)],
+    ["Demurrage", data.demurrageRate ?? NOT_SPECIFIED],
+    ["Despatch", data.despatchRate ?? NOT_SPECIFIED],
+    ["Commissions", formatCommissions(data)],
+    ["Status", formatEnumLabel(data.status)],
+  ];
+
+  autoTable(doc, {
+    startY: startY + 4,
+    body: terms,
+    theme: "plain",
+    styles: { fontSize: 9, cellPadding: 1.5 },
+    columnStyles: { 0: { cellWidth: 35, fontStyle: "bold" } },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+
+  doc.text(
+    `Otherwise as per ${formatEnumLabel(data.contractType)} charter party terms.`,
+    MARGIN,
+    getFinalY(doc) + 6
+  );
+}
+
+/**
+ * A titled section of headed paragraphs, flowing onto new pages as needed.
+ * Returns the y position below the section.
+ */
+function drawTextSection(
+  doc: jsPDF,
+  heading: string,
+  paragraphs: Array<{ title: string; text: string }>,
+  startY: number
+): number {
+  if (paragraphs.length === 0) return startY;
+
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = doc.internal.pageSize.getWidth() - MARGIN * 2;
+  let y = startY;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - 15) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  ensureSpace(12);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(11);
+  doc.text(heading, MARGIN, y);
+  y += 7;
+
+  paragraphs.forEach((paragraph) => {
+    const lines: string[] = doc.splitTextToSize(paragraph.text, textWidth);
+
+    ensureSpace(10);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.text(paragraph.title, MARGIN, y);
+    y += 5;
+
+    doc.setFont("helvetica", "normal");
+    lines.forEach((line) => {
+      ensureSpace(5);
+      doc.text(line, MARGIN, y);
+      y += 4.5;
+    });
+    y += 3;
+  });
+
+  return y + 4;
+}
+
+/**
+ * Rider clauses and addenda text, appended after the main terms
+ */
+function drawClausesAndAddenda(doc: jsPDF, data: CharterPartyData, startY: number): void {
+  const y = drawTextSection(
+    doc,
+    "Rider clauses",
+    (data.clauses ?? []).map((clause, index) => ({
+      title: `${index + 1}. ${clause.title} (version ${clause.version})`,
+      text: clause.text,
+    })),
+    startY
+  );
+
+  drawTextSection(
+    doc,
+    "Addenda",
+    data.addenda.map((addendum) => {
+      const clauses = (addendum.clauses ?? [])
+        .map((clause) => `${clause.title} (version ${clause.version})`)
+        .join(", ");
+      return {
+        title: `Addendum ${addendum.addendaNumber} (${formatEnumLabel(addendum.status)})`,
+        text: [
+          addendum.description || "No text recorded.",
+          ...(addendum.amendmentSummary ?? []),
+          clauses && `Clauses: ${clauses}`,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+      };
+    }),
+    y
+  );
+}
+
+/**
+ * Signature page: one row per party that has signed electronically
+ */
+function drawSignaturePage(doc: jsPDF, signatures: CharterPartySignature[]): void {
+  doc.addPage();
+  const y = drawTitle(
+    doc,
+    "Signatures",
+    "Signed electronically. Each hash is the SHA-256 of the document version the party signed."
+  );
+
+  autoTable(doc, {
+    startY: y,
+    head: [["Party", "Signed by", "Signed at", "Document SHA-256"]],
+    body: signatures.map((signature) => [
+      `${formatEnumLabel(signature.partyRole)}\n${signature.companyName}`,
+      signature.onBehalfOfName
+        ? `${signature.signerName}\non behalf of ${signature.onBehalfOfName}`
+        : signature.signerName,
+      formatDateTime(signature.signedAt),
+      signature.documentHash,
+    ]),
+    theme: "grid",
+    styles: { fontSize: 8, cellPadding: 2.5, valign: "top" },
+    columnStyles: { 3: { cellWidth: 62, font: "courier", fontSize: 7 } },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+}
+
+/**
+ * Generate a charter party PDF from structured contract data,
+ * followed by a signature page when parties have signed electronically
+ */
+export function generateCharterPartyPdf(
+  data: CharterPartyData,
+  form: CharterPartyForm,
+  signatures: CharterPartySignature[] = []
+): Blob {
+  const doc = createPdfDocument("portrait", "a4");
+  const subtitle = `${data.documentNumber} • ${formatEnumLabel(data.status)} • Generated ${formatDateTime(Date.now())}`;
+
+  if (form === "gencon") {
+    const y = drawTitle(doc, "GENCON — Uniform General Charter, Part I", subtitle);
+    drawGenconBoxes(doc, data, y);
+  } else {
+    const y = drawTitle(doc, "Fixture Recap", subtitle);
+    drawRecapTerms(doc, data, y);
+  }
+
+  drawClausesAndAddenda(doc, data, getFinalY(doc) + 14);
+
+  if (signatures.length > 0) {
+    drawSignaturePage(doc, signatures);
+  }
+
+  // Number the pages once the final page count is known
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    addPageNumber(doc);
+  }
+
+  return doc.output("blob");
+}
+
+/**
+ * SHA-256 of a document as lowercase hex, matching the hashes recorded
+ * by the signing ceremony
+ */
+export async function hashDocument(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
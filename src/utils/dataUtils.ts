@@ -359,3 +359,27 @@ export function formatTimestamp(timestamp: number | string | undefined | null):
 
   return `${day} ${month} ${year} ${hours}:${minutes}`;
 }
+
+/**
+ * Format a record field name as a label
+ * @param fieldName - Field name (e.g., "demurrageRate", "vesselId")
+ * @returns Sentence-case label (e.g., "Demurrage rate", "Vessel")
+ */
+export function formatFieldName(fieldName: string): string {
+  const words = fieldName.replace(/Id$/, "").replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Format a stored field value for display; laycan and other dates are stored as timestamps
+ * @param fieldName - Field name the value belongs to
+ * @param value - Value as stored in field-change and snapshot records
+ * @returns Display value, or "—" when empty
+ */
+export function formatFieldValue(fieldName: string, value?: string): string {
+  if (value === undefined || value === "") return "—";
+  if (/(Start|End|At)$/.test(fieldName) && /^\d+$/.test(value)) {
+    return formatDateTime(Number(value));
+  }
+  return value;
+}
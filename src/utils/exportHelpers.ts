@@ -7,8 +7,10 @@ import type {
   ExportResult,
   ExportColumn,
   ExportCallbacks,
+  ExportSchedule,
+  StatusFormat,
 } from "../types/export";
-import { formatDateTime } from "./dataUtils";
+import { formatExportCell } from "./fixtureExport";
 
 // Type augmentation for jsPDF internal properties
 interface JsPDFInternal {
@@ -18,6 +20,36 @@ interface JsPDFInternal {
   };
 }
 
+/**
+ * Create a PDF document with the app's standard page setup
+ */
+export function createPdfDocument(
+  orientation: "portrait" | "landscape" = "landscape",
+  pageSize: "a4" | "letter" = "a4"
+): jsPDF {
+  return new jsPDF({
+    orientation,
+    unit: "mm",
+    format: pageSize,
+  });
+}
+
+/**
+ * Draw "Page X of Y" at the bottom of the current page
+ */
+export function addPageNumber(doc: jsPDF): void {
+  const docInternal = doc as unknown as JsPDFInternal;
+  const pageCount = docInternal.internal.pages.length - 1;
+  const currentPage = docInternal.internal.getCurrentPageInfo().pageNumber;
+  doc.setFontSize(8);
+  doc.text(
+    `Page ${currentPage} of ${pageCount}`,
+    doc.internal.pageSize.getWidth() / 2,
+    doc.internal.pageSize.getHeight() - 5,
+    { align: "center" }
+  );
+}
+
 /**
  * Download a file to the user's device
  */
@@ -53,81 +85,13 @@ function filterByDateRange<T extends Record<string, unknown>>(
   });
 }
 
-/**
- * Format a value for export based on its column type
- * @param value - The value to format
- * @param columnId - The column identifier to determine formatting
- * @returns Formatted string or number for export
- */
-function formatValueForExport(value: unknown, columnId: string): string | number {
-  // Handle null/undefined
-  if (value === null || value === undefined) {
-    return "";
-  }
-
-  // Handle dates - check if it's a timestamp field
-  const isDateField = columnId.toLowerCase().includes("date") ||
-    columnId.toLowerCase().includes("at") ||
-    columnId === "lastUpdated" ||
-    columnId === "laycanStart" ||
-    columnId === "laycanEnd" ||
-    columnId === "createdAt" ||
-    columnId === "updatedAt";
-
-  if (isDateField && typeof value === "number" && value > 1000000000000) {
-    return formatDateTime(value);
-  }
-
-  // Handle numbers - format with locale string for readability
-  if (typeof value === "number") {
-    // Check if it's a percentage or rate field
-    const isPercentField = columnId.toLowerCase().includes("percent") ||
-      columnId.toLowerCase().includes("savings");
-    if (isPercentField) {
-      return `${value.toFixed(2)}%`;
-    }
-
-    // Check if it's a currency/rate field
-    const isCurrencyField = columnId.toLowerCase().includes("freight") ||
-      columnId.toLowerCase().includes("demurrage") ||
-      columnId.toLowerCase().includes("commission") ||
-      columnId.toLowerCase().includes("rate") ||
-      columnId.toLowerCase().includes("gross");
-    if (isCurrencyField) {
-      return value.toLocaleString("en-US", {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      });
-    }
-
-    // Check if it's a quantity field
-    const isQuantityField = columnId.toLowerCase().includes("quantity");
-    if (isQuantityField) {
-      return value.toLocaleString("en-US", {
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-      });
-    }
-
-    // Return raw number for other numeric fields
-    return value;
-  }
-
-  // Handle booleans
-  if (typeof value === "boolean") {
-    return value ? "Yes" : "No";
-  }
-
-  // Return string representation for everything else
-  return String(value);
-}
-
 /**
  * Select and order columns based on export configuration
  */
 function selectColumns<T extends Record<string, unknown>>(
   data: T[],
-  columns: ExportColumn[]
+  columns: ExportColumn[],
+  statusFormat: StatusFormat = "value"
 ): Record<string, unknown>[] {
   const selectedColumns = columns
     .filter((col) => col.selected)
@@ -136,7 +100,7 @@ function selectColumns<T extends Record<string, unknown>>(
   return data.map((row) => {
     const newRow: Record<string, unknown> = {};
     selectedColumns.forEach((col) => {
-      newRow[col.label] = formatValueForExport(row[col.id], col.id);
+      newRow[col.label] = formatExportCell(row, col.id, statusFormat);
     });
     return newRow;
   });
@@ -171,7 +135,7 @@ export async function exportToCSV<T extends Record<string, unknown>>(
     }
 
     // Select and order columns
-    const exportData = selectColumns(filteredData, options.columns);
+    const exportData = selectColumns(filteredData, options.columns, options.statusFormat);
 
     callbacks?.onProgress?.('generating');
     await delay(600); // Show "generating" toast
@@ -241,7 +205,7 @@ export async function exportToExcel<T extends Record<string, unknown>>(
     }
 
     // Select and order columns
-    const exportData = selectColumns(filteredData, options.columns);
+    const exportData = selectColumns(filteredData, options.columns, options.statusFormat);
 
     callbacks?.onProgress?.('generating');
     await delay(600); // Show "generating" toast
@@ -346,18 +310,16 @@ export async function exportToPDF<T extends Record<string, unknown>>(
     }
 
     // Select and order columns
-    const exportData = selectColumns(filteredData, options.columns);
+    const exportData = selectColumns(filteredData, options.columns, options.statusFormat);
 
     callbacks?.onProgress?.('generating');
     await delay(600); // Show "generating" toast
 
     // Create PDF document
-    const orientation = options.pdf?.orientation || "landscape";
-    const doc = new jsPDF({
-      orientation,
-      unit: "mm",
-      format: options.pdf?.pageSize || "a4",
-    });
+    const doc = createPdfDocument(
+      options.pdf?.orientation || "landscape",
+      options.pdf?.pageSize || "a4"
+    );
 
     // Prepare table data
     const headers = Object.keys(exportData[0] || {});
@@ -388,16 +350,7 @@ export async function exportToPDF<T extends Record<string, unknown>>(
       didDrawPage: (_data) => {
         // Add page numbers if requested
         if (options.pdf?.includePageNumbers) {
-          const docInternal = doc as unknown as JsPDFInternal;
-          const pageCount = docInternal.internal.pages.length - 1;
-          const currentPage = docInternal.internal.getCurrentPageInfo().pageNumber;
-          doc.setFontSize(8);
-          doc.text(
-            `Page ${currentPage} of ${pageCount}`,
-            doc.internal.pageSize.getWidth() / 2,
-            doc.internal.pageSize.getHeight() - 5,
-            { align: "center" }
-          );
+          addPageNumber(doc);
         }
       },
     });
@@ -484,3 +437,30 @@ export function generateFileName(prefix: string = "export"): string {
   const date = new Date().toISOString().split("T")[0];
   return `${prefix}_${date}`;
 }
+
+/**
+ * Weekday names indexed like Date.getUTCDay()
+ */
+export const EXPORT_WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Describe when a scheduled export runs, e.g. "Weekly on Monday at 08:00 UTC"
+ */
+export function describeExportSchedule(schedule: ExportSchedule): string {
+  const time = `${String(schedule.hourUTC).padStart(2, "0")}:00 UTC`;
+  if (schedule.frequency === "weekly") {
+    return `Weekly on ${EXPORT_WEEKDAYS[schedule.dayOfWeek ?? 1]} at ${time}`;
+  }
+  if (schedule.frequency === "monthly") {
+    return `Monthly on day ${schedule.dayOfMonth ?? 1} at ${time}`;
+  }
+  return `Daily at ${time}`;
+}
@@ -0,0 +1,425 @@
+import type { StatusFormat } from "../types/export";
+import {
+  calculateDaysBetween,
+  calculateDemurrageSavings,
+  calculateFreightSavings,
+  calculateFreightVsMarket,
+} from "./fixtureCalculations";
+
+// ============================================================================
+// FIXTURE TABLE ROWS AND EXPORT FORMATTING
+// ============================================================================
+// The plain column values of Fixtures table rows and how they are written to
+// export files. Shared by the Fixtures table (routes/Fixtures.tsx), browser
+// exports (exportHelpers.ts) and scheduled exports (convex/scheduledExports.ts),
+// so a scheduled file matches what the user downloads from the table.
+
+export type ExportCell = string | number;
+export type ExportRow = Record<string, string | number | undefined>;
+
+// The parts of enriched fixtures the rows read: listEnrichedPaginated's items
+// in the browser, listBookmarkFixtures' on the server
+type Named = { name?: string } | null;
+type Rates = { freight?: { value?: number }; demurrage?: { value?: number } };
+
+export interface RowNegotiation {
+  _id: string;
+  _creationTime: number;
+  updatedAt?: number;
+  negotiationNumber?: string;
+  status: string;
+  vessel?: { name?: string; imoNumber?: string } | null;
+  personInCharge?: Named;
+  broker?: Named;
+  counterparty?: Named;
+  createdBy?: Named;
+  dealCaptureUser?: Named;
+  rates?: Rates;
+  freightRate?: string;
+  demurrageRate?: string;
+  quantity?: number;
+  laycanStart?: number;
+  laycanEnd?: number;
+  loadDeliveryType?: string;
+  dischargeRedeliveryType?: string;
+  highestFreightRateIndication?: number;
+  lowestFreightRateIndication?: number;
+  firstFreightRateIndication?: number;
+  highestFreightRateLastDay?: number;
+  lowestFreightRateLastDay?: number;
+  firstFreightRateLastDay?: number;
+  marketIndex?: number;
+  marketIndexName?: string;
+  grossFreight?: number;
+  highestDemurrageIndication?: number;
+  lowestDemurrageIndication?: number;
+  addressCommissionPercent?: number;
+  addressCommissionTotal?: number;
+  brokerCommissionPercent?: number;
+  brokerCommissionTotal?: number;
+}
+
+export interface RowDealItem {
+  _creationTime?: number;
+  updatedAt?: number;
+  contractNumber?: string;
+  recapNumber?: string;
+  contractType?: string;
+  status?: string;
+  approvalStatus?: string;
+  negotiationId?: string;
+  negotiation?: RowNegotiation | null;
+  order?: { orderNumber?: string; createdBy?: Named } | null;
+  vessel?: { name?: string; imoNumber?: string } | null;
+  personInCharge?: Named;
+  owner?: Named;
+  broker?: Named;
+  charterer?: Named;
+  loadPort?: { name?: string; country?: string } | null;
+  dischargePort?: { name?: string; country?: string } | null;
+  cargoType?: Named;
+  rates?: Rates;
+  freightRate?: string;
+  demurrageRate?: string;
+  quantity?: number;
+  laycanStart?: number;
+  laycanEnd?: number;
+  workingCopyDate?: number;
+  finalDate?: number;
+  fullySignedDate?: number;
+  approvals?: { partyRole: string; status?: string; approvedAt?: number; approvedBy?: Named }[];
+  signatures?: { partyRole: string; status?: string; signedAt?: number; signedBy?: Named }[];
+  parentContract?: { contractNumber?: string } | null;
+}
+
+export interface RowFixture<
+  TNegotiation extends RowNegotiation = RowNegotiation,
+  TItem extends RowDealItem = RowDealItem,
+> {
+  fixtureNumber: string;
+  order?: { orderNumber?: string; createdBy?: Named } | null;
+  contracts: TItem[];
+  recapManagers: TItem[];
+  negotiations?: TNegotiation[];
+}
+
+/**
+ * The entities a fixture shows as rows: its negotiations without a
+ * contract/recap, then its contracts and recaps (contracts preferred over
+ * recaps of the same negotiation)
+ */
+export function splitFixtureRows<TNegotiation extends RowNegotiation, TItem extends RowDealItem>(
+  fixture: RowFixture<TNegotiation, TItem>
+) {
+  const items = [
+    ...fixture.contracts.map((c) => ({ ...c, source: "contract" as const })),
+    ...fixture.recapManagers.map((r) => ({ ...r, source: "recap" as const })),
+  ];
+
+  const negotiationsWithContracts = new Set<string>();
+  const seenNegotiations = new Set<string>();
+  const dedupedItems = items.filter((item) => {
+    const negId = item.negotiationId || item.negotiation?._id;
+    if (!negId) return true;
+    negotiationsWithContracts.add(negId);
+    if (seenNegotiations.has(negId)) return false;
+    seenNegotiations.add(negId);
+    return true;
+  });
+
+  return {
+    negotiations: (fixture.negotiations ?? []).filter((neg) => !negotiationsWithContracts.has(neg._id)),
+    items: dedupedItems,
+  };
+}
+
+/**
+ * Column values of a negotiation that has no contract/recap yet
+ */
+export function negotiationRowValues(neg: RowNegotiation, fixture: RowFixture) {
+  return {
+    fixtureId: fixture.fixtureNumber,
+    orderId: fixture.order?.orderNumber || "-",
+    cpId: "-",
+    stage: "Negotiation",
+    typeOfContract: "-",
+    negotiationId: neg.negotiationNumber || "-",
+    vessels: neg.vessel?.name || "TBN",
+    personInCharge: neg.personInCharge?.name || "User",
+    status: `negotiation-${neg.status}`,
+    approvalStatus: "Not started",
+    owner: "-",
+    broker: neg.broker?.name || "Unknown",
+    charterer: neg.counterparty?.name || "Unknown",
+    lastUpdated: neg.updatedAt || neg._creationTime,
+    laycanStart: neg.laycanStart,
+    laycanEnd: neg.laycanEnd,
+    loadPortName: undefined,
+    loadPortCountry: undefined,
+    loadDeliveryType: neg.loadDeliveryType,
+    dischargePortName: undefined,
+    dischargePortCountry: undefined,
+    dischargeRedeliveryType: neg.dischargeRedeliveryType,
+    vesselImo: neg.vessel?.imoNumber,
+    cargoTypeName: undefined,
+    cargoQuantity: neg.quantity,
+    finalFreightRate: neg.rates?.freight?.value ?? neg.freightRate,
+    finalDemurrageRate: neg.rates?.demurrage?.value ?? neg.demurrageRate,
+    highestFreightRateIndication: neg.highestFreightRateIndication,
+    lowestFreightRateIndication: neg.lowestFreightRateIndication,
+    firstFreightRateIndication: neg.firstFreightRateIndication,
+    highestFreightRateLastDay: neg.highestFreightRateLastDay,
+    lowestFreightRateLastDay: neg.lowestFreightRateLastDay,
+    firstFreightRateLastDay: neg.firstFreightRateLastDay,
+    freightSavingsPercent: undefined,
+    marketIndex: neg.marketIndex,
+    marketIndexName: neg.marketIndexName,
+    freightVsMarketPercent: undefined,
+    grossFreight: neg.grossFreight,
+    highestDemurrageIndication: neg.highestDemurrageIndication,
+    lowestDemurrageIndication: neg.lowestDemurrageIndication,
+    demurrageSavingsPercent: undefined,
+    addressCommissionPercent: neg.addressCommissionPercent,
+    addressCommissionTotal: neg.addressCommissionTotal,
+    brokerCommissionPercent: neg.brokerCommissionPercent,
+    brokerCommissionTotal: neg.brokerCommissionTotal,
+    cpDate: undefined,
+    workingCopyDate: undefined,
+    finalDate: undefined,
+    fullySignedDate: undefined,
+    daysToWorkingCopy: undefined,
+    daysToFinal: undefined,
+    daysToSigned: undefined,
+    ownerApprovalStatus: undefined,
+    ownerApprovedBy: undefined,
+    ownerApprovalDate: undefined,
+    chartererApprovalStatus: undefined,
+    chartererApprovedBy: undefined,
+    chartererApprovalDate: undefined,
+    ownerSignatureStatus: undefined,
+    ownerSignedBy: undefined,
+    ownerSignatureDate: undefined,
+    chartererSignatureStatus: undefined,
+    chartererSignedBy: undefined,
+    chartererSignatureDate: undefined,
+    dealCaptureUser: undefined,
+    orderCreatedBy: fixture.order?.createdBy?.name,
+    negotiationCreatedBy: neg.createdBy?.name,
+    parentCpId: undefined,
+    contractType: undefined,
+  };
+}
+
+/**
+ * Column values of a contract or recap
+ */
+export function dealRowValues(item: RowDealItem & { source: "contract" | "recap" }, fixture: RowFixture) {
+  const isContract = item.source === "contract";
+  const negotiation = item.negotiation;
+
+  // Prefer the parsed numeric rates so sorting and calculations use real numbers
+  const finalFreightRate =
+    negotiation?.rates?.freight?.value ?? item.rates?.freight?.value ?? negotiation?.freightRate ?? item.freightRate;
+  const finalDemurrageRate =
+    negotiation?.rates?.demurrage?.value ??
+    item.rates?.demurrage?.value ??
+    negotiation?.demurrageRate ??
+    item.demurrageRate;
+
+  const ownerApproval = item.approvals?.find((a) => a.partyRole === "owner");
+  const chartererApproval = item.approvals?.find((a) => a.partyRole === "charterer");
+  const ownerSignature = item.signatures?.find((s) => s.partyRole === "owner");
+  const chartererSignature = item.signatures?.find((s) => s.partyRole === "charterer");
+
+  return {
+    fixtureId: fixture.fixtureNumber,
+    orderId: item.order?.orderNumber || fixture.order?.orderNumber || "-",
+    cpId: (isContract ? item.contractNumber : item.recapNumber) ?? "-",
+    stage: item.contractType === "coa" ? "COA" : "Charter Party",
+    typeOfContract:
+      item.contractType === "voyage-charter" ? "Voyage charter" : item.contractType === "time-charter" ? "TC" : "COA",
+    negotiationId: negotiation?.negotiationNumber || "-",
+    vessels: item.vessel?.name || "TBN",
+    personInCharge: item.personInCharge?.name || negotiation?.personInCharge?.name || "User",
+    status: isContract ? `contract-${item.status}` : `recap-manager-${item.status}`,
+    approvalStatus: item.approvalStatus || "Not started",
+    owner: item.owner?.name || "Unknown",
+    broker: item.broker?.name || "Unknown",
+    charterer: item.charterer?.name || "Unknown",
+    lastUpdated: item.updatedAt ?? item._creationTime ?? Date.now(),
+
+    // Priority 1: Core Commercial Fields
+    laycanStart: negotiation?.laycanStart ?? item.laycanStart,
+    laycanEnd: negotiation?.laycanEnd ?? item.laycanEnd,
+    loadPortName: item.loadPort?.name,
+    loadPortCountry: item.loadPort?.country,
+    loadDeliveryType: negotiation?.loadDeliveryType,
+    dischargePortName: item.dischargePort?.name,
+    dischargePortCountry: item.dischargePort?.country,
+    dischargeRedeliveryType: negotiation?.dischargeRedeliveryType,
+    vesselImo: item.vessel?.imoNumber,
+    cargoTypeName: item.cargoType?.name,
+    cargoQuantity: negotiation?.quantity ?? item.quantity,
+    finalFreightRate,
+    finalDemurrageRate,
+
+    // Freight Analytics
+    highestFreightRateIndication: negotiation?.highestFreightRateIndication,
+    lowestFreightRateIndication: negotiation?.lowestFreightRateIndication,
+    firstFreightRateIndication: negotiation?.firstFreightRateIndication,
+    highestFreightRateLastDay: negotiation?.highestFreightRateLastDay,
+    lowestFreightRateLastDay: negotiation?.lowestFreightRateLastDay,
+    firstFreightRateLastDay: negotiation?.firstFreightRateLastDay,
+    freightSavingsPercent:
+      calculateFreightSavings(negotiation?.highestFreightRateIndication, finalFreightRate) ?? undefined,
+    marketIndex: negotiation?.marketIndex,
+    marketIndexName: negotiation?.marketIndexName,
+    freightVsMarketPercent: calculateFreightVsMarket(finalFreightRate, negotiation?.marketIndex) ?? undefined,
+    grossFreight: negotiation?.grossFreight,
+    highestDemurrageIndication: negotiation?.highestDemurrageIndication,
+    lowestDemurrageIndication: negotiation?.lowestDemurrageIndication,
+    demurrageSavingsPercent:
+      calculateDemurrageSavings(negotiation?.highestDemurrageIndication, finalDemurrageRate) ?? undefined,
+
+    // Commissions
+    addressCommissionPercent: negotiation?.addressCommissionPercent,
+    addressCommissionTotal: negotiation?.addressCommissionTotal,
+    brokerCommissionPercent: negotiation?.brokerCommissionPercent,
+    brokerCommissionTotal: negotiation?.brokerCommissionTotal,
+
+    // CP Workflow Dates
+    cpDate: item._creationTime,
+    workingCopyDate: item.workingCopyDate,
+    finalDate: item.finalDate,
+    fullySignedDate: item.fullySignedDate,
+    daysToWorkingCopy: calculateDaysBetween(item._creationTime, item.workingCopyDate) ?? undefined,
+    daysToFinal: calculateDaysBetween(item.workingCopyDate, item.finalDate) ?? undefined,
+    daysToSigned: calculateDaysBetween(item.finalDate, item.fullySignedDate) ?? undefined,
+
+    // Approvals and signatures
+    ownerApprovalStatus: ownerApproval?.status,
+    ownerApprovedBy: ownerApproval?.approvedBy?.name,
+    ownerApprovalDate: ownerApproval?.approvedAt,
+    chartererApprovalStatus: chartererApproval?.status,
+    chartererApprovedBy: chartererApproval?.approvedBy?.name,
+    chartererApprovalDate: chartererApproval?.approvedAt,
+    ownerSignatureStatus: ownerSignature?.status,
+    ownerSignedBy: ownerSignature?.signedBy?.name,
+    ownerSignatureDate: ownerSignature?.signedAt,
+    chartererSignatureStatus: chartererSignature?.status,
+    chartererSignedBy: chartererSignature?.signedBy?.name,
+    chartererSignatureDate: chartererSignature?.signedAt,
+
+    // User Tracking
+    dealCaptureUser: negotiation?.dealCaptureUser?.name,
+    orderCreatedBy: item.order?.createdBy?.name,
+    negotiationCreatedBy: negotiation?.createdBy?.name,
+
+    // Meta & Relationships
+    parentCpId: item.parentContract?.contractNumber,
+    contractType: item.contractType,
+  };
+}
+
+/**
+ * One row of column values per table row of the fixtures
+ */
+export function buildFixtureExportRows(fixtures: RowFixture[]): ExportRow[] {
+  return fixtures.flatMap((fixture) => {
+    const { negotiations, items } = splitFixtureRows(fixture);
+    return [
+      ...negotiations.map((neg) => negotiationRowValues(neg, fixture)),
+      ...items.map((item) => dealRowValues(item, fixture)),
+    ];
+  });
+}
+
+// Entity prefixes of table statuses ("recap-manager-draft" → recap manager, draft)
+const STATUS_OBJECTS: [prefix: string, label: string][] = [
+  ["recap-manager-", "Recap manager"],
+  ["negotiation-", "Negotiation"],
+  ["contract-", "Contract"],
+];
+
+const capitalize = (value: string) =>
+  value.replace(/[-_]/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+/**
+ * A table status as written to exports: "Contract • Final", "Final" or "contract-final"
+ */
+export function formatExportStatus(status: string, statusFormat: StatusFormat): string {
+  if (statusFormat === "value") return status;
+  const object = STATUS_OBJECTS.find(([prefix]) => status.startsWith(prefix));
+  if (!object) return capitalize(status);
+  const statusLabel = capitalize(status.substring(object[0].length));
+  return statusFormat === "short" ? statusLabel : `${object[1]} • ${statusLabel}`;
+}
+
+const DATE_COLUMNS = ["lastUpdated", "laycanStart", "laycanEnd", "createdAt", "updatedAt"];
+
+/**
+ * Format a value for export based on its column type. Dates are written in
+ * the given time zone, the browser's own when omitted.
+ */
+export function formatExportValue(value: unknown, columnId: string, timeZone?: string): ExportCell {
+  if (value === null || value === undefined) return "";
+
+  const id = columnId.toLowerCase();
+  const isDateField = id.includes("date") || id.includes("at") || DATE_COLUMNS.includes(columnId);
+  if (isDateField && typeof value === "number" && value > 1000000000000) {
+    return new Date(value).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone,
+    });
+  }
+
+  if (typeof value === "number") {
+    if (id.includes("percent") || id.includes("savings")) return `${value.toFixed(2)}%`;
+    if (["freight", "demurrage", "commission", "rate", "gross"].some((part) => id.includes(part))) {
+      return value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+    if (id.includes("quantity")) {
+      return value.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+    }
+    return value;
+  }
+
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+
+  return String(value);
+}
+
+/**
+ * A row's cell for a column, with statuses in the chosen format
+ */
+export function formatExportCell(
+  row: Record<string, unknown>,
+  columnId: string,
+  statusFormat: StatusFormat,
+  timeZone?: string
+): ExportCell {
+  const value = row[columnId];
+  if (columnId === "status" && typeof value === "string") {
+    return formatExportStatus(value, statusFormat);
+  }
+  return formatExportValue(value, columnId, timeZone);
+}
+
+/**
+ * The chosen columns of export rows as a header row and formatted cells
+ */
+export function toExportTable(
+  rows: Record<string, unknown>[],
+  columns: { id: string; label: string }[],
+  statusFormat: StatusFormat,
+  timeZone?: string
+): { headers: string[]; body: ExportCell[][] } {
+  return {
+    headers: columns.map((column) => column.label),
+    body: rows.map((row) => columns.map((column) => formatExportCell(row, column.id, statusFormat, timeZone))),
+  };
+}
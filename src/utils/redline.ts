@@ -0,0 +1,61 @@
+/**
+ * Word-level diff for redlining clause text between two contract versions
+ */
+
+export interface RedlineSegment {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Diff two texts word by word (longest common subsequence).
+ * Whitespace is kept with the preceding word so segments join back into the text.
+ * @param from - Text of the older version
+ * @param to - Text of the newer version
+ * @returns Segments in reading order, with adjacent segments of the same type merged
+ */
+export function diffWords(from: string, to: string): RedlineSegment[] {
+  const a = from.match(/\S+\s*/g) ?? [];
+  const b = to.match(/\S+\s*/g) ?? [];
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i].trim() === b[j].trim()
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: RedlineSegment[] = [];
+  const push = (type: RedlineSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}